@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "@/i18n/navigation";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { useAuthStore } from "@/stores/auth-store";
+import { AlertCircle, Loader2 } from "lucide-react";
+
+// Where the OAuth provider sends the browser back with an authorization code
+export default function OAuthCallbackPage() {
+  const router = useRouter();
+  const t = useTranslations("login");
+  const { checkAuth, completeOAuthLogin, error } = useAuthStore();
+  const [failed, setFailed] = useState(false);
+  const handled = useRef(false);
+
+  useEffect(() => {
+    // The code can only be exchanged once, even when effects run twice in development
+    if (handled.current) return;
+    handled.current = true;
+
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get("code");
+    const state = params.get("state");
+
+    // Drop the code from the address bar and history
+    window.history.replaceState(null, "", window.location.pathname);
+
+    if (params.get("error") || !code || !state) {
+      console.error("OAuth sign-in was not completed:", params.get("error_description") || params.get("error"));
+      setFailed(true);
+      return;
+    }
+
+    // Bring back the remembered accounts first, the redirect reloaded the app
+    checkAuth()
+      .then(() => completeOAuthLogin(code, state))
+      .then((success) => {
+        if (success) {
+          router.replace("/");
+        } else {
+          setFailed(true);
+        }
+      });
+  }, [checkAuth, completeOAuthLogin, router]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="w-full max-w-sm mx-auto px-4 text-center">
+        {failed ? (
+          <>
+            <div className="inline-flex items-center justify-center w-20 h-20 rounded-2xl bg-red-500/10 mb-6">
+              <AlertCircle className="w-10 h-10 text-red-500" />
+            </div>
+            <p className="text-sm text-red-600 dark:text-red-400 mb-6">
+              {t(`error.${error || "oauth_failed"}`)}
+            </p>
+            <Button className="w-full" onClick={() => router.replace("/login")}>
+              {t("oauth.back_to_login")}
+            </Button>
+          </>
+        ) : (
+          <div role="status">
+            <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto" />
+            <p className="mt-4 text-sm text-muted-foreground">{t("signing_in")}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
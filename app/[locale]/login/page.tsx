@@ -7,21 +7,38 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useAuthStore } from "@/stores/auth-store";
 import { useConfig } from "@/hooks/use-config";
-import { Mail, AlertCircle, Loader2, X } from "lucide-react";
+import { Mail, AlertCircle, Loader2, X, KeyRound } from "lucide-react";
 
 export default function LoginPage() {
   const router = useRouter();
   const t = useTranslations("login");
-  const { login, isLoading, error, clearError, isAuthenticated } = useAuthStore();
-  const { appName, jmapServerUrl: serverUrl, isLoading: configLoading, error: configError } = useConfig();
+  const { login, startOAuthLogin, isLoading, error, clearError, isAuthenticated } = useAuthStore();
+  const {
+    appName,
+    jmapServerUrl: serverUrl,
+    oauthClientId,
+    oauthIssuerUrl,
+    allowBasicAuth,
+    useProxy,
+    isLoading: configLoading,
+    error: configError,
+  } = useConfig();
 
   // All hooks must be called unconditionally at the top
+  // "?add=1" signs in to another account, possibly on another server, next to the current ones
+  const [addParams] = useState(() =>
+    typeof window === "undefined" ? null : new URLSearchParams(window.location.search)
+  );
+  const isAddingAccount = addParams?.has("add") ?? false;
+  const [customServerUrl, setCustomServerUrl] = useState(addParams?.get("server") || "");
   const [formData, setFormData] = useState({
-    username: "",
+    username: addParams?.get("username") || "",
     password: "",
     rememberMe: false,
   });
 
+  const [isOAuthPending, setIsOAuthPending] = useState(false);
+
   const [savedUsernames, setSavedUsernames] = useState<string[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [filteredSuggestions, setFilteredSuggestions] = useState<string[]>([]);
@@ -52,10 +69,10 @@ export default function LoginPage() {
   }, [serverUrl]);
 
   useEffect(() => {
-    if (isAuthenticated) {
+    if (isAuthenticated && !isAddingAccount) {
       router.push('/');
     }
-  }, [isAuthenticated, router]);
+  }, [isAuthenticated, isAddingAccount, router]);
 
   useEffect(() => {
     clearError();
@@ -145,6 +162,25 @@ export default function LoginPage() {
     );
   }
 
+  // Passwords are only accepted where the deployment explicitly allows Basic auth
+  if (!oauthClientId && !allowBasicAuth) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-muted/20">
+        <div className="w-full max-w-sm mx-auto px-4 text-center">
+          <div className="inline-flex items-center justify-center w-20 h-20 rounded-2xl bg-red-500/10 mb-6">
+            <AlertCircle className="w-10 h-10 text-red-500" />
+          </div>
+          <h1 className="text-xl font-medium text-foreground mb-2">{t("config_error.title")}</h1>
+          <p className="text-muted-foreground text-sm">
+            {t("config_error.no_sign_in_method")}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const targetServerUrl = (isAddingAccount && customServerUrl.trim()) || serverUrl;
+
   // Save username on successful login
   const saveUsername = (username: string) => {
     const saved = localStorage.getItem("webmail_usernames");
@@ -222,10 +258,11 @@ export default function LoginPage() {
     e.preventDefault();
 
     const success = await login(
-      serverUrl,
+      targetServerUrl,
       formData.username,
       formData.password,
-      formData.rememberMe
+      formData.rememberMe,
+      useProxy
     );
 
     if (success) {
@@ -234,6 +271,29 @@ export default function LoginPage() {
     }
   };
 
+  // Leaves the page for the provider's sign-in, the callback page takes it from there
+  const handleOAuthSignIn = async () => {
+    setIsOAuthPending(true);
+    await startOAuthLogin({
+      serverUrl: targetServerUrl,
+      // Another server is asked for its own provider
+      issuerUrl: targetServerUrl === serverUrl ? oauthIssuerUrl || undefined : undefined,
+      clientId: oauthClientId,
+      rememberMe: formData.rememberMe,
+      useProxy,
+      loginHint: formData.username || undefined,
+    });
+    setIsOAuthPending(false);
+  };
+
+  const serverHost = (() => {
+    try {
+      return new URL(targetServerUrl).host;
+    } catch {
+      return targetServerUrl;
+    }
+  })();
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-muted/20">
       <div className="w-full max-w-sm mx-auto px-4">
@@ -245,6 +305,9 @@ export default function LoginPage() {
           <h1 className="text-3xl font-light text-foreground tracking-tight">
             {appName}
           </h1>
+          {isAddingAccount && (
+            <p className="mt-2 text-sm text-muted-foreground">{t("add_account.title")}</p>
+          )}
         </div>
 
         {/* Error Message */}
@@ -260,63 +323,80 @@ export default function LoginPage() {
         {/* Login Form */}
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-4">
-            <div className="relative">
+            {isAddingAccount && (
               <Input
-                ref={inputRef}
-                id="username"
-                type="text"
-                value={formData.username}
-                onChange={handleUsernameChange}
-                onFocus={handleUsernameFocus}
-                onKeyDown={handleKeyDown}
+                id="server"
+                type="url"
+                value={customServerUrl}
+                onChange={(e) => setCustomServerUrl(e.target.value)}
                 className="h-12 px-4 bg-secondary/50 border-border/50 focus:bg-secondary focus:border-primary/50 transition-colors"
-                placeholder={t("username_placeholder")}
-                required
-                autoComplete="off"
-                data-form-type="other"
-                data-lpignore="true"
-                autoFocus
+                placeholder={serverUrl}
+                aria-label={t("add_account.server")}
+                autoComplete="url"
               />
+            )}
 
-              {/* Custom autocomplete dropdown */}
-              {showSuggestions && filteredSuggestions.length > 0 && (
-                <div
-                  ref={suggestionsRef}
-                  className="absolute top-full mt-1 w-full bg-secondary border border-border rounded-md shadow-lg z-50 overflow-hidden"
-                >
-                  {filteredSuggestions.map((username, index) => (
+            {allowBasicAuth && (
+              <>
+                <div className="relative">
+                  <Input
+                    ref={inputRef}
+                    id="username"
+                    type="text"
+                    value={formData.username}
+                    onChange={handleUsernameChange}
+                    onFocus={handleUsernameFocus}
+                    onKeyDown={handleKeyDown}
+                    className="h-12 px-4 bg-secondary/50 border-border/50 focus:bg-secondary focus:border-primary/50 transition-colors"
+                    placeholder={t("username_placeholder")}
+                    required
+                    autoComplete="off"
+                    data-form-type="other"
+                    data-lpignore="true"
+                    autoFocus
+                  />
+
+                  {/* Custom autocomplete dropdown */}
+                  {showSuggestions && filteredSuggestions.length > 0 && (
                     <div
-                      key={username}
-                      className={`px-4 py-2.5 flex items-center justify-between hover:bg-muted cursor-pointer transition-colors ${
-                        index === selectedSuggestionIndex ? "bg-muted" : ""
-                      }`}
-                      onClick={() => selectSuggestion(username)}
+                      ref={suggestionsRef}
+                      className="absolute top-full mt-1 w-full bg-secondary border border-border rounded-md shadow-lg z-50 overflow-hidden"
                     >
-                      <span className="text-sm text-foreground">{username}</span>
-                      <button
-                        type="button"
-                        onClick={(e) => removeUsername(username, e)}
-                        className="p-1 hover:bg-background rounded transition-colors"
-                        title={t("remove_from_history")}
-                      >
-                        <X className="w-3 h-3 text-muted-foreground" />
-                      </button>
+                      {filteredSuggestions.map((username, index) => (
+                        <div
+                          key={username}
+                          className={`px-4 py-2.5 flex items-center justify-between hover:bg-muted cursor-pointer transition-colors ${
+                            index === selectedSuggestionIndex ? "bg-muted" : ""
+                          }`}
+                          onClick={() => selectSuggestion(username)}
+                        >
+                          <span className="text-sm text-foreground">{username}</span>
+                          <button
+                            type="button"
+                            onClick={(e) => removeUsername(username, e)}
+                            className="p-1 hover:bg-background rounded transition-colors"
+                            title={t("remove_from_history")}
+                          >
+                            <X className="w-3 h-3 text-muted-foreground" />
+                          </button>
+                        </div>
+                      ))}
                     </div>
-                  ))}
+                  )}
                 </div>
-              )}
-            </div>
-
-            <Input
-              id="password"
-              type="password"
-              value={formData.password}
-              onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-              className="h-12 px-4 bg-secondary/50 border-border/50 focus:bg-secondary focus:border-primary/50 transition-colors"
-              placeholder={t("password_placeholder")}
-              required
-              autoComplete="current-password"
-            />
+
+                <Input
+                  id="password"
+                  type="password"
+                  value={formData.password}
+                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                  className="h-12 px-4 bg-secondary/50 border-border/50 focus:bg-secondary focus:border-primary/50 transition-colors"
+                  placeholder={t("password_placeholder")}
+                  required
+                  autoComplete="current-password"
+                />
+              </>
+            )}
           </div>
 
           <div className="flex items-center gap-2">
@@ -332,20 +412,57 @@ export default function LoginPage() {
             </label>
           </div>
 
-          <Button
-            type="submit"
-            className="w-full h-12 font-medium text-base bg-primary hover:bg-primary/90 transition-all duration-200 shadow-lg shadow-primary/20"
-            disabled={isLoading}
-          >
-            {isLoading ? (
-              <div className="flex items-center gap-2">
-                <Loader2 className="w-4 h-4 animate-spin" />
-                {t("signing_in")}
-              </div>
-            ) : (
-              t("sign_in")
-            )}
-          </Button>
+          {oauthClientId && (
+            <Button
+              type="button"
+              onClick={handleOAuthSignIn}
+              className="w-full h-12 font-medium text-base bg-primary hover:bg-primary/90 transition-all duration-200 shadow-lg shadow-primary/20"
+              disabled={isLoading}
+            >
+              {isLoading && isOAuthPending ? (
+                <div className="flex items-center gap-2">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  {t("oauth.redirecting")}
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <KeyRound className="w-4 h-4" />
+                  {t("oauth.sign_in", { server: serverHost })}
+                </div>
+              )}
+            </Button>
+          )}
+
+          {allowBasicAuth && (
+            <Button
+              type="submit"
+              variant={oauthClientId ? "outline" : "default"}
+              className={oauthClientId
+                ? "w-full h-12 font-medium text-base"
+                : "w-full h-12 font-medium text-base bg-primary hover:bg-primary/90 transition-all duration-200 shadow-lg shadow-primary/20"}
+              disabled={isLoading}
+            >
+              {isLoading && !isOAuthPending ? (
+                <div className="flex items-center gap-2">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  {t("signing_in")}
+                </div>
+              ) : (
+                oauthClientId ? t("oauth.sign_in_password") : t("sign_in")
+              )}
+            </Button>
+          )}
+
+          {isAddingAccount && isAuthenticated && (
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={() => router.push('/')}
+            >
+              {t("add_account.cancel")}
+            </Button>
+          )}
         </form>
       </div>
     </div>
@@ -8,17 +8,34 @@ import { EmailList } from "@/components/email/email-list";
 import { EmailViewer } from "@/components/email/email-viewer";
 import { EmailComposer } from "@/components/email/email-composer";
 import { ThreadConversationView } from "@/components/email/thread-conversation-view";
+import { VacationBanner } from "@/components/email/vacation-banner";
+import { ScheduledEmailList } from "@/components/email/scheduled-email-list";
 import { MobileHeader, MobileViewerHeader } from "@/components/layout/mobile-header";
-import { ThreadGroup, Email } from "@/lib/jmap/types";
+import { ThreadGroup, Email, OutgoingAttachment } from "@/lib/jmap/types";
 import { KeyboardShortcutsModal } from "@/components/keyboard-shortcuts-modal";
 import { useEmailStore } from "@/stores/email-store";
 import { useAuthStore } from "@/stores/auth-store";
 import { useSettingsStore } from "@/stores/settings-store";
 import { useUIStore } from "@/stores/ui-store";
+import { useVacationStore } from "@/stores/vacation-store";
+import { useUndoSendStore } from "@/stores/undo-send-store";
+import { useEmailEncryptionStore } from "@/stores/email-encryption-store";
+import { useSMIMEStore } from "@/stores/smime-store";
 import { useDeviceDetection } from "@/hooks/use-media-query";
 import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
 import { debug } from "@/lib/debug";
+import { getReplyThreadingHeaders } from "@/lib/thread-utils";
 import { cn } from "@/lib/utils";
+import { isScheduledMailbox } from "@/lib/email-scheduling-types";
+import { getEmailAccountId, getSavedSearchId, isUnifiedView } from "@/lib/mailbox-utils";
+import { cacheBlob, getCachedBlob } from "@/lib/offline-cache";
+import { isOffline } from "@/lib/offline-types";
+import { useOutboxStore } from "@/stores/outbox-store";
+import { useAdvancedSearchStore } from "@/stores/advanced-search-store";
+import { useServiceWorker } from "@/hooks/use-service-worker";
+import { toast, useToastStore } from "@/stores/toast-store";
+import type { ComposerSnapshot } from "@/lib/composer-types";
+import type { OpenPGPSendMode, SMIMESendMode } from "@/lib/email-encryption-types";
 import {
   ErrorBoundary,
   SidebarErrorFallback,
@@ -34,6 +51,7 @@ export default function Home() {
   const tCommon = useTranslations('common');
   const [showComposer, setShowComposer] = useState(false);
   const [composerMode, setComposerMode] = useState<'compose' | 'reply' | 'replyAll' | 'forward'>('compose');
+  const [restoredComposer, setRestoredComposer] = useState<ComposerSnapshot | null>(null);
   const [initialCheckDone, setInitialCheckDone] = useState(false);
   const [showShortcutsModal, setShowShortcutsModal] = useState(false);
   // Mobile conversation view state
@@ -59,6 +77,7 @@ export default function Home() {
     selectAllEmails,
     clearSelection,
     fetchMailboxes,
+    ensureRoleMailboxes,
     fetchEmails,
     fetchQuota,
     sendEmail,
@@ -72,10 +91,15 @@ export default function Home() {
     isLoading,
     isLoadingEmail,
     setLoadingEmail,
-    setPushConnected,
-    handleStateChange,
+    fetchEmailContent,
     clearNewEmailNotification,
   } = useEmailStore();
+  const { isOnline } = useServiceWorker();
+  const hasPendingOutbox = useOutboxStore((state) => state.entries.some((e) => e.status === 'pending'));
+  const wasOfflineRef = useRef(false);
+  const savedSearches = useAdvancedSearchStore((state) => state.savedSearches);
+  const { fetchServerResponse: fetchVacationResponse } = useVacationStore();
+  const { sendWithUndo, undoSend } = useUndoSendStore();
 
   // Play notification sound for new emails
   const playNotificationSound = () => {
@@ -213,7 +237,12 @@ export default function Home() {
     } else if (selectedMailbox && mailboxes.length > 0) {
       // Mailbox view
       const mailbox = mailboxes.find(mb => mb.id === selectedMailbox);
-      if (mailbox) {
+      const savedSearch = savedSearches.find(s => s.id === getSavedSearchId(selectedMailbox));
+      if (isUnifiedView(selectedMailbox)) {
+        title = `${t(`sidebar.unified.${selectedMailbox.slice("unified:".length)}`)} - ${tCommon('app_title')}`;
+      } else if (savedSearch) {
+        title = `${savedSearch.name} - ${tCommon('app_title')}`;
+      } else if (mailbox) {
         const mailboxName = mailbox.name;
         const unreadCount = mailbox.unreadEmails || 0;
         title = unreadCount > 0
@@ -223,7 +252,7 @@ export default function Home() {
     }
 
     document.title = title;
-  }, [showComposer, composerMode, selectedEmail, selectedMailbox, mailboxes, t, tCommon]);
+  }, [showComposer, composerMode, selectedEmail, selectedMailbox, mailboxes, savedSearches, t, tCommon]);
 
   // Check auth on mount
   useEffect(() => {
@@ -250,6 +279,12 @@ export default function Home() {
             fetchQuota(client)
           ]);
 
+          // Out of office state for the banner, not needed to show mail
+          fetchVacationResponse(client);
+
+          // Drafts, Sent, Trash, Archive and Junk are expected to exist
+          ensureRoleMailboxes(client);
+
           // Get the selected mailbox (should be inbox by default)
           const state = useEmailStore.getState();
           const selectedMailboxId = state.selectedMailbox;
@@ -260,39 +295,42 @@ export default function Home() {
           } else {
             await fetchEmails(client);
           }
-
-          // Setup push notifications after successful data load
-          try {
-            // Register state change callback
-            client.onStateChange((change) => handleStateChange(change, client));
-
-            // Start receiving push notifications
-            const pushEnabled = client.setupPushNotifications();
-
-            if (pushEnabled) {
-              setPushConnected(true);
-              debug.log('[Push] Push notifications successfully enabled');
-            } else {
-              debug.log('[Push] Push notifications not available on this server');
-            }
-          } catch (error) {
-            // Push notifications are optional - don't break the app if they fail
-            debug.log('[Push] Failed to setup push notifications:', error);
-          }
         } catch (error) {
           console.error('Error loading email data:', error);
         }
       };
       loadData();
     }
+  }, [isAuthenticated, client, mailboxes.length, fetchMailboxes, ensureRoleMailboxes, fetchEmails, fetchQuota, fetchVacationResponse]);
 
-    // Cleanup push notifications on unmount
-    return () => {
-      if (client) {
-        client.closePushNotifications();
+  // Saved search counts, once mailboxes are known (push changes keep them current)
+  const savedSearchCount = savedSearches.length;
+  useEffect(() => {
+    if (client && mailboxes.length > 0 && savedSearchCount > 0) {
+      void useAdvancedSearchStore.getState().refreshSavedSearchCounts(client, useEmailStore.getState().mailboxes);
+    }
+  }, [client, mailboxes.length, savedSearchCount]);
+
+  // Back online: replay what was queued offline, then catch up with the server
+  useEffect(() => {
+    if (!isOnline) {
+      wasOfflineRef.current = true;
+      return;
+    }
+    if (!client) return;
+
+    const catchUp = async () => {
+      const replayed = await useOutboxStore.getState().replay(client);
+      if (!wasOfflineRef.current && replayed === 0) return;
+      wasOfflineRef.current = false;
+      await fetchMailboxes(client);
+      await useEmailStore.getState().syncCurrentMailbox(client);
+      if (replayed > 0) {
+        toast.success(t('offline.synced', { count: replayed }));
       }
     };
-  }, [isAuthenticated, client, mailboxes.length, fetchMailboxes, fetchEmails, fetchQuota, handleStateChange, setPushConnected]);
+    catchUp();
+  }, [isOnline, client, hasPendingOutbox, fetchMailboxes, t]);
 
   // Handle mark-as-read with delay based on settings
   useEffect(() => {
@@ -367,20 +405,124 @@ export default function Home() {
     bcc: string[];
     subject: string;
     body: string;
+    htmlBody?: string;
     draftId?: string;
     fromEmail?: string;
     identityId?: string;
+    attachments?: OutgoingAttachment[];
+    inReplyTo?: string[];
+    references?: string[];
+    sendAt?: Date;
+    requestReadReceipt?: boolean;
+    openpgp?: OpenPGPSendMode;
+    smime?: SMIMESendMode;
+    snapshot: ComposerSnapshot;
   }) => {
     if (!client) return;
 
+    const { openpgp, smime } = data;
+    const protectedMessage = {
+      from: data.fromEmail || '',
+      recipients: [...data.to, ...data.cc, ...data.bcc],
+      body: data.body,
+      htmlBody: data.htmlBody,
+      attachments: data.attachments,
+    };
+    const options = {
+      attachments: data.attachments,
+      htmlBody: data.htmlBody,
+      inReplyTo: data.inReplyTo,
+      references: data.references,
+      sendAt: data.sendAt,
+      requestReadReceipt: data.requestReadReceipt,
+      // PGP/MIME and S/MIME bodies are built here, the keys never leave the browser
+      mimeBody: openpgp
+        ? () => useEmailEncryptionStore.getState().buildMimeBody(client, protectedMessage, openpgp)
+        : smime && (() => useSMIMEStore.getState().buildMimeBody(client, protectedMessage, smime)),
+    };
+    const undoSendDelay = useSettingsStore.getState().undoSendDelay;
+
+    // Offline, the message waits in the outbox; encrypted bodies need the keys at send time
+    if (isOffline()) {
+      const { mimeBody, ...storableOptions } = options;
+      if (mimeBody) {
+        toast.error(t('offline.encrypted_send'));
+        return;
+      }
+      try {
+        await useOutboxStore.getState().enqueue(client.getAccountId(), {
+          type: 'send',
+          message: {
+            to: data.to,
+            subject: data.subject,
+            body: data.body,
+            cc: data.cc,
+            bcc: data.bcc,
+            draftId: data.draftId,
+            fromEmail: data.fromEmail,
+            identityId: data.identityId,
+            options: storableOptions,
+          },
+        });
+        setShowComposer(false);
+        setRestoredComposer(null);
+        toast.info(t('offline.send_queued'));
+      } catch (error) {
+        console.error("Failed to queue email:", error);
+        toast.error(t('offline.queue_failed'));
+      }
+      return;
+    }
+
     try {
-      await sendEmail(client, data.to, data.subject, data.body, data.cc, data.bcc, data.draftId, data.fromEmail, data.identityId);
+      // Scheduled sends can already be canceled from the Scheduled folder
+      if (!data.sendAt && undoSendDelay > 0) {
+        const pendingId = await sendWithUndo(
+          client,
+          { ...data, options },
+          data.snapshot,
+          undoSendDelay,
+          (error) => toast.error(t('undo_send.failed'), error instanceof Error ? error.message : undefined)
+        );
+        setShowComposer(false);
+        setRestoredComposer(null);
+        useToastStore.getState().addToast({
+          type: 'info',
+          title: t('undo_send.sending'),
+          duration: undoSendDelay * 1000,
+          action: { label: t('undo_send.undo'), onClick: () => handleUndoSend(pendingId) },
+        });
+        return;
+      }
+
+      await sendEmail(client, data.to, data.subject, data.body, data.cc, data.bcc, data.draftId, data.fromEmail, data.identityId, options);
       setShowComposer(false);
+      setRestoredComposer(null);
+      if (data.sendAt) {
+        toast.success(t('scheduled.scheduled'), t('scheduled.sends_at', { date: data.sendAt.toLocaleString() }));
+      }
     } catch (error) {
       console.error("Failed to send email:", error);
     }
   };
 
+  // Reopen the composer exactly as it was when Send was pressed
+  const handleUndoSend = async (pendingId: string) => {
+    if (!client) return;
+
+    try {
+      const snapshot = await undoSend(client, pendingId);
+      if (snapshot) {
+        setRestoredComposer(snapshot);
+        setComposerMode(snapshot.mode);
+        setShowComposer(true);
+      }
+    } catch (error) {
+      console.error("Failed to undo send:", error);
+      toast.error(t('undo_send.too_late'), error instanceof Error ? error.message : undefined);
+    }
+  };
+
   const handleDiscardDraft = async (draftId: string) => {
     if (!client) return;
 
@@ -420,8 +562,11 @@ export default function Home() {
   const handleArchive = async () => {
     if (!client || !selectedEmail) return;
 
-    // Find archive mailbox
-    const archiveMailbox = mailboxes.find(m => m.role === "archive" || m.name.toLowerCase() === "archive");
+    // Find the archive mailbox of the account the email lives in
+    const accountId = getEmailAccountId(selectedEmail, mailboxes, selectedMailbox) || client.getAccountId();
+    const archiveMailbox = mailboxes.find(m =>
+      m.accountId === accountId && (m.role === "archive" || m.name.toLowerCase() === "archive")
+    );
     if (archiveMailbox) {
       try {
         await moveToMailbox(client, selectedEmail.id, archiveMailbox.id);
@@ -465,7 +610,7 @@ export default function Home() {
       }
 
       // Update email keywords via JMAP
-      await client.updateEmailKeywords(emailId, keywords);
+      await client.updateEmailKeywords(emailId, keywords, getEmailAccountId(email, mailboxes, selectedMailbox));
 
       // Update local state
       selectEmail(email.id === selectedEmail?.id ? { ...email, keywords } : selectedEmail);
@@ -492,9 +637,15 @@ export default function Home() {
       setTabletListVisible(true);
     }
 
+    // A saved search is a search of its own, start it without the typed one
+    const isSavedSearch = getSavedSearchId(mailboxId) !== null;
+    if (isSavedSearch && searchQuery) {
+      setSearchQuery("");
+    }
+
     if (client) {
       // If there's an active search, re-run it in the new mailbox
-      if (searchQuery) {
+      if (searchQuery && !isSavedSearch) {
         await searchEmails(client, searchQuery);
       } else {
         await fetchEmails(client, mailboxId);
@@ -504,7 +655,10 @@ export default function Home() {
 
   const handleLogout = () => {
     logout();
-    router.push('/login');
+    // Another signed-in account takes over, if there is one
+    if (!useAuthStore.getState().isAuthenticated) {
+      router.push('/login');
+    }
   };
 
   const handleSearch = async (query: string) => {
@@ -523,7 +677,15 @@ export default function Home() {
     if (!client) return;
 
     try {
-      await client.downloadBlob(blobId, name, type);
+      // Attachments opened before stay available offline
+      const accountId = client.getAccountId();
+      const blob = isOffline() ? await getCachedBlob(accountId, blobId) : await client.getBlob(blobId, name, type);
+      if (!blob) {
+        toast.error(t('offline.attachment_unavailable'));
+        return;
+      }
+      if (!isOffline()) void cacheBlob(accountId, blobId, blob);
+      await client.downloadBlob(blobId, name, type, blob);
     } catch (error) {
       console.error("Failed to download attachment:", error);
     }
@@ -537,12 +699,18 @@ export default function Home() {
       throw new Error("No sender email found");
     }
 
-    // Send reply with just the body text
+    // Send reply with just the body text, threaded under the original message
     await sendEmail(
       client,
       [sender.email],
       `Re: ${selectedEmail.subject || "(no subject)"}`,
-      body
+      body,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      getReplyThreadingHeaders(selectedEmail)
     );
 
     // Refresh emails to show the sent reply
@@ -562,10 +730,14 @@ export default function Home() {
   }
 
   // Get current mailbox name for mobile header
-  const currentMailboxName = mailboxes.find(m => m.id === selectedMailbox)?.name || "Inbox";
+  const currentMailboxName = isUnifiedView(selectedMailbox)
+    ? t(`sidebar.unified.${selectedMailbox.slice("unified:".length)}`)
+    : savedSearches.find(s => s.id === getSavedSearchId(selectedMailbox))?.name
+      || mailboxes.find(m => m.id === selectedMailbox)?.name || "Inbox";
+  const isScheduledView = isScheduledMailbox(mailboxes.find(m => m.id === selectedMailbox));
 
   // Handle email selection with mobile view switching
-  const handleEmailSelect = async (email: { id: string }) => {
+  const handleEmailSelect = async (email: Pick<Email, "id" | "accountId">) => {
     if (!client || !email) return;
 
     // Set loading state immediately (keep current email visible)
@@ -583,15 +755,10 @@ export default function Home() {
 
     // Fetch the full content
     try {
-      // Find selected mailbox to determine accountId (for shared folders)
-      const mailbox = mailboxes.find(mb => mb.id === selectedMailbox);
-      // Only pass accountId for shared mailboxes
-      const accountId = mailbox?.isShared ? mailbox.accountId : undefined;
-
-      const fullEmail = await client.getEmail(email.id, accountId);
-      if (fullEmail) {
-        selectEmail(fullEmail);
-        // Mark-as-read logic is now handled by useEffect
+      // Selected once fetched, or read from the offline cache (mark-as-read is handled by useEffect)
+      const fullEmail = await fetchEmailContent(client, email.id, email.accountId);
+      if (!fullEmail && isOffline()) {
+        toast.info(t('offline.email_unavailable'));
       }
     } catch (error) {
       console.error('Failed to fetch email content:', error);
@@ -621,7 +788,9 @@ export default function Home() {
 
     try {
       // Fetch complete thread emails
-      const emails = await client.getThreadEmails(thread.threadId);
+      const accountId = getEmailAccountId(thread.latestEmail, mailboxes, selectedMailbox);
+      const emails = await client.getThreadEmails(thread.threadId, accountId);
+      if (thread.latestEmail.accountId) emails.forEach(e => { e.accountId = thread.latestEmail.accountId; });
       setConversationEmails(emails);
     } catch (error) {
       console.error('Failed to fetch thread emails:', error);
@@ -720,54 +889,60 @@ export default function Home() {
               }}
             />
 
+            <VacationBanner />
+
             <ErrorBoundary fallback={EmailListErrorFallback}>
-              <EmailList
-                emails={emails}
-                selectedEmailId={selectedEmail?.id}
-                isLoading={isLoading}
-                onEmailSelect={handleEmailSelect}
-                onOpenConversation={handleOpenConversation}
-                // Context menu handlers
-                onReply={(email) => {
-                  selectEmail(email);
-                  handleReply();
-                }}
-                onReplyAll={(email) => {
-                  selectEmail(email);
-                  handleReplyAll();
-                }}
-                onForward={(email) => {
-                  selectEmail(email);
-                  handleForward();
-                }}
-                onMarkAsRead={async (email, read) => {
-                  if (client) {
-                    await markAsRead(client, email.id, read);
-                  }
-                }}
-                onToggleStar={async (email) => {
-                  if (client) {
-                    await toggleStar(client, email.id);
-                  }
-                }}
-                onDelete={async (email) => {
-                  selectEmail(email);
-                  await handleDelete();
-                }}
-                onArchive={async (email) => {
-                  selectEmail(email);
-                  await handleArchive();
-                }}
-                onSetColorTag={(emailId, color) => {
-                  handleSetColorTag(emailId, color);
-                }}
-                onMoveToMailbox={async (emailId, mailboxId) => {
-                  if (client) {
-                    await moveToMailbox(client, emailId, mailboxId);
-                  }
-                }}
-                className="flex-1"
-              />
+              {isScheduledView ? (
+                <ScheduledEmailList className="flex-1" />
+              ) : (
+                <EmailList
+                  emails={emails}
+                  selectedEmailId={selectedEmail?.id}
+                  isLoading={isLoading}
+                  onEmailSelect={handleEmailSelect}
+                  onOpenConversation={handleOpenConversation}
+                  // Context menu handlers
+                  onReply={(email) => {
+                    selectEmail(email);
+                    handleReply();
+                  }}
+                  onReplyAll={(email) => {
+                    selectEmail(email);
+                    handleReplyAll();
+                  }}
+                  onForward={(email) => {
+                    selectEmail(email);
+                    handleForward();
+                  }}
+                  onMarkAsRead={async (email, read) => {
+                    if (client) {
+                      await markAsRead(client, email.id, read);
+                    }
+                  }}
+                  onToggleStar={async (email) => {
+                    if (client) {
+                      await toggleStar(client, email.id);
+                    }
+                  }}
+                  onDelete={async (email) => {
+                    selectEmail(email);
+                    await handleDelete();
+                  }}
+                  onArchive={async (email) => {
+                    selectEmail(email);
+                    await handleArchive();
+                  }}
+                  onSetColorTag={(emailId, color) => {
+                    handleSetColorTag(emailId, color);
+                  }}
+                  onMoveToMailbox={async (emailId, mailboxId) => {
+                    if (client) {
+                      await moveToMailbox(client, emailId, mailboxId);
+                    }
+                  }}
+                  className="flex-1"
+                />
+              )}
             </ErrorBoundary>
           </div>
 
@@ -853,6 +1028,7 @@ export default function Home() {
                 onReset={() => {
                   setShowComposer(false);
                   setComposerMode('compose');
+                  setRestoredComposer(null);
                 }}
               >
                 <EmailComposer
@@ -863,12 +1039,20 @@ export default function Home() {
                     cc: selectedEmail.cc,
                     subject: selectedEmail.subject,
                     body: selectedEmail.bodyValues?.[selectedEmail.textBody?.[0]?.partId || '']?.value || selectedEmail.preview || '',
-                    receivedAt: selectedEmail.receivedAt
+                    htmlBody: selectedEmail.htmlBody?.[0]?.type === 'text/html'
+                      ? selectedEmail.bodyValues?.[selectedEmail.htmlBody[0].partId]?.value
+                      : undefined,
+                    receivedAt: selectedEmail.receivedAt,
+                    messageId: selectedEmail.messageId,
+                    references: selectedEmail.references,
+                    attachments: selectedEmail.attachments,
                   } : undefined}
+                  restore={restoredComposer ?? undefined}
                   onSend={handleEmailSend}
                   onClose={() => {
                     setShowComposer(false);
                     setComposerMode('compose');
+                    setRestoredComposer(null);
                   }}
                   onDiscardDraft={handleDiscardDraft}
                 />
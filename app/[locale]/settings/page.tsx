@@ -7,15 +7,18 @@ import { ArrowLeft, Settings as SettingsIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { AppearanceSettings } from '@/components/settings/appearance-settings';
 import { EmailSettings } from '@/components/settings/email-settings';
+import { ComposerSettings } from '@/components/settings/composer-settings';
 import { EmailFiltersSettings } from '@/components/settings/email-filters-settings';
 import { EmailTemplatesSettings } from '@/components/settings/email-templates-settings';
 import { EmailSignaturesSettings } from '@/components/settings/email-signatures-settings';
 import { VacationResponderSettings } from '@/components/settings/vacation-responder-settings';
+import { EncryptionSettings } from '@/components/settings/encryption-settings';
+import { SMIMESettings } from '@/components/settings/smime-settings';
 import { AccountSettings } from '@/components/settings/account-settings';
 import { AdvancedSettings } from '@/components/settings/advanced-settings';
 import { cn } from '@/lib/utils';
 
-type Tab = 'appearance' | 'email' | 'filters' | 'templates' | 'signatures' | 'vacation' | 'account' | 'advanced';
+type Tab = 'appearance' | 'email' | 'composer' | 'filters' | 'templates' | 'signatures' | 'vacation' | 'encryption' | 'account' | 'advanced';
 
 export default function SettingsPage() {
   const router = useRouter();
@@ -25,10 +28,12 @@ export default function SettingsPage() {
   const tabs: { id: Tab; label: string }[] = [
     { id: 'appearance', label: t('tabs.appearance') },
     { id: 'email', label: t('tabs.email') },
+    { id: 'composer', label: t('tabs.composer') },
     { id: 'filters', label: t('tabs.filters') },
     { id: 'templates', label: t('tabs.templates') },
     { id: 'signatures', label: t('tabs.signatures') },
     { id: 'vacation', label: t('tabs.vacation') },
+    { id: 'encryption', label: t('tabs.encryption') },
     { id: 'account', label: t('tabs.account') },
     { id: 'advanced', label: t('tabs.advanced') },
   ];
@@ -86,10 +91,19 @@ export default function SettingsPage() {
           <div className="bg-card border border-border rounded-lg p-6">
             {activeTab === 'appearance' && <AppearanceSettings />}
             {activeTab === 'email' && <EmailSettings />}
+            {activeTab === 'composer' && <ComposerSettings />}
             {activeTab === 'filters' && <EmailFiltersSettings />}
             {activeTab === 'templates' && <EmailTemplatesSettings />}
             {activeTab === 'signatures' && <EmailSignaturesSettings />}
             {activeTab === 'vacation' && <VacationResponderSettings />}
+            {activeTab === 'encryption' && (
+              <div className="space-y-8">
+                <EncryptionSettings />
+                <div className="border-t border-border pt-8">
+                  <SMIMESettings />
+                </div>
+              </div>
+            )}
             {activeTab === 'account' && <AccountSettings />}
             {activeTab === 'advanced' && <AdvancedSettings />}
           </div>
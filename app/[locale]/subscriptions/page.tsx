@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { useRouter } from '@/i18n/navigation';
+import { useAuthStore } from '@/stores/auth-store';
+import { useEmailStore } from '@/stores/email-store';
+import { useSubscriptionStore } from '@/stores/subscription-store';
+import { SubscriptionList } from '@/components/email/subscription-list';
+import { AlertCircle, ArrowLeft, RefreshCw } from 'lucide-react';
+
+export default function SubscriptionsPage() {
+  const t = useTranslations();
+  const router = useRouter();
+  const { client, isAuthenticated } = useAuthStore();
+  const { mailboxes, fetchMailboxes } = useEmailStore();
+  const { subscriptions, isLoading, error, fetchSubscriptions, clearError } = useSubscriptionStore();
+
+  useEffect(() => {
+    if (client && isAuthenticated) {
+      void fetchSubscriptions(client);
+      // Archiving needs the folders, which aren't loaded when the page is opened directly
+      if (mailboxes.length === 0) {
+        void fetchMailboxes(client);
+      }
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- load once per client
+  }, [client, isAuthenticated]);
+
+  if (!isAuthenticated) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-background">
+        <p className="text-muted-foreground">{t('login.loading')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-screen bg-background">
+      <div className="p-4 border-b border-border flex items-center gap-2">
+        <button
+          onClick={() => router.push('/')}
+          className="p-1 hover:bg-muted rounded transition-colors"
+          title={t('common.back')}
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="flex-1 min-w-0">
+          <h2 className="font-semibold">{t('subscriptions.title')}</h2>
+          <p className="text-xs text-muted-foreground">{t('subscriptions.description')}</p>
+        </div>
+        <button
+          onClick={() => client && fetchSubscriptions(client)}
+          disabled={isLoading}
+          className="p-1 hover:bg-muted rounded transition-colors disabled:opacity-50"
+          title={t('subscriptions.refresh')}
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="m-4 p-4 bg-destructive/10 border border-destructive/20 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+          <p className="flex-1 text-sm text-destructive">{error}</p>
+          <button onClick={clearError} className="text-sm text-destructive hover:underline">
+            {t('common.dismiss')}
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="max-w-4xl mx-auto">
+          {isLoading && subscriptions.length === 0 ? (
+            <div className="flex items-center justify-center py-16 text-sm text-muted-foreground">
+              {t('subscriptions.loading')}
+            </div>
+          ) : (
+            <SubscriptionList subscriptions={subscriptions} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
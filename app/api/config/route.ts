@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { isBasicAuthAllowed, isProxyEnabled } from '@/lib/jmap/proxy-session';
 
 /**
  * Runtime configuration endpoint
@@ -8,13 +9,21 @@ import { NextResponse } from 'next/server';
  * Docker deployments.
  *
  * Priority order:
- * 1. Runtime env vars (APP_NAME, JMAP_SERVER_URL)
- * 2. Build-time env vars (NEXT_PUBLIC_APP_NAME, NEXT_PUBLIC_JMAP_SERVER_URL)
+ * 1. Runtime env vars (APP_NAME, JMAP_SERVER_URL, OAUTH_CLIENT_ID, ...)
+ * 2. Build-time env vars (NEXT_PUBLIC_APP_NAME, NEXT_PUBLIC_JMAP_SERVER_URL, ...)
  * 3. Default values
+ *
+ * Password sign-in (HTTP Basic auth) is off unless ALLOW_BASIC_AUTH=true.
+ * JMAP_PROXY=true (with SESSION_SECRET) routes all JMAP traffic through /api/jmap.
  */
 export async function GET() {
   return NextResponse.json({
     appName: process.env.APP_NAME || process.env.NEXT_PUBLIC_APP_NAME || 'Webmail',
     jmapServerUrl: process.env.JMAP_SERVER_URL || process.env.NEXT_PUBLIC_JMAP_SERVER_URL || '',
+    oauthClientId: process.env.OAUTH_CLIENT_ID || process.env.NEXT_PUBLIC_OAUTH_CLIENT_ID || '',
+    // Defaults to the JMAP server, which is its own provider with Stalwart
+    oauthIssuerUrl: process.env.OAUTH_ISSUER_URL || process.env.NEXT_PUBLIC_OAUTH_ISSUER_URL || '',
+    allowBasicAuth: isBasicAuthAllowed(),
+    useProxy: isProxyEnabled(),
   });
 }
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  cookieOptions,
+  fetchWithSession,
+  isProxyEnabled,
+  isValidSessionId,
+  proxyCookieName,
+  sealSession,
+  unsealSession,
+  type ProxySession,
+} from '@/lib/jmap/proxy-session';
+import { oneClickUnsubscribe } from '@/lib/one-click-unsubscribe';
+import { WEBSOCKET_CAPABILITY } from '@/lib/jmap/websocket-transport';
+
+interface RouteContext {
+  params: Promise<{ sessionId: string; path: string[] }>;
+}
+
+// Headers of the server's answer worth passing on to the browser. Not content-length:
+// fetch has already decompressed the body, so the server's length no longer fits
+const RELAYED_HEADERS = ['content-type', 'content-disposition', 'cache-control'];
+
+function loadSession(request: NextRequest, sessionId: string): ProxySession | null {
+  if (!isProxyEnabled() || !isValidSessionId(sessionId)) return null;
+  return unsealSession(request.cookies.get(proxyCookieName(sessionId))?.value);
+}
+
+// Fill in a URI template (RFC 6570 level 1), leaving unknown variables alone
+const expandTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? encodeURIComponent(values[name]) : match));
+
+// Session URLs may be relative to the server
+const toAbsolute = (url: string | undefined, serverUrl: string) =>
+  !url || /^https?:\/\//i.test(url) ? url : `${new URL(serverUrl).origin}${url.startsWith('/') ? '' : '/'}${url}`;
+
+// Pass the server's answer on, saving the session again when its tokens were renewed
+function relay(upstream: Response, sessionId: string, session: ProxySession, saveSession: boolean): NextResponse {
+  const headers = new Headers();
+  RELAYED_HEADERS.forEach((name) => {
+    const value = upstream.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+
+  const response = new NextResponse(upstream.body, { status: upstream.status, headers });
+  if (saveSession) {
+    response.cookies.set(proxyCookieName(sessionId), sealSession(session), cookieOptions);
+  }
+  return response;
+}
+
+const noSession = () => NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+const notFound = () => NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+const upstreamError = (error: unknown) =>
+  NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to reach the server' }, { status: 502 });
+
+// The server's session object, with every URL pointing back at the proxy
+async function getSession(sessionId: string, session: ProxySession): Promise<NextResponse> {
+  const { response, refreshed } = await fetchWithSession(session, `${session.serverUrl}/.well-known/jmap`);
+  if (!response.ok) {
+    return relay(response, sessionId, session, refreshed);
+  }
+
+  const serverSession = await response.json();
+  const coreCapability = serverSession.capabilities?.['urn:ietf:params:jmap:core'];
+  session.apiUrl = toAbsolute(serverSession.apiUrl, session.serverUrl);
+  session.downloadUrl = toAbsolute(serverSession.downloadUrl, session.serverUrl);
+  session.uploadUrl = toAbsolute(serverSession.uploadUrl, session.serverUrl);
+  session.eventSourceUrl = toAbsolute(serverSession.eventSourceUrl || coreCapability?.eventSourceUrl, session.serverUrl);
+
+  const base = `/api/jmap/${sessionId}`;
+  const eventSourceUrl = session.eventSourceUrl ? `${base}/eventsource?types={types}&closeafter={closeafter}&ping={ping}` : undefined;
+  // WebSockets can't go through the proxy, the browser would have to reach the server itself
+  const { [WEBSOCKET_CAPABILITY]: _webSocket, ...capabilities } = serverSession.capabilities || {};
+  if (coreCapability?.eventSourceUrl) {
+    capabilities['urn:ietf:params:jmap:core'] = { ...coreCapability, eventSourceUrl };
+  }
+  const proxied = {
+    ...serverSession,
+    capabilities,
+    apiUrl: `${base}/api`,
+    downloadUrl: `${base}/download/{accountId}/{blobId}/{name}?type={type}`,
+    uploadUrl: `${base}/upload/{accountId}`,
+    eventSourceUrl,
+  };
+
+  // Always saved, the endpoints are only learned here
+  const result = NextResponse.json(proxied);
+  result.cookies.set(proxyCookieName(sessionId), sealSession(session), cookieOptions);
+  return result;
+}
+
+/**
+ * JMAP proxy
+ *
+ * GET  /api/jmap/<sessionId>/session - the JMAP session object, rewritten to point here
+ * POST /api/jmap/<sessionId>/api - JMAP API requests
+ * POST /api/jmap/<sessionId>/upload/<accountId> - blob uploads
+ * GET  /api/jmap/<sessionId>/download/<accountId>/<blobId>/<name>?type= - blob downloads
+ * GET  /api/jmap/<sessionId>/eventsource?types=&closeafter=&ping= - push events
+ * POST /api/jmap/<sessionId>/unsubscribe - one-click unsubscribe (RFC 8058) with { url }
+ *
+ * Credentials come from the session's httpOnly cookie (see /api/jmap/session).
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { sessionId, path } = await params;
+  const session = loadSession(request, sessionId);
+  if (!session) return noSession();
+
+  const [endpoint, ...rest] = path;
+  try {
+    if (endpoint === 'session' && rest.length === 0) {
+      return await getSession(sessionId, session);
+    }
+
+    if (endpoint === 'download' && rest.length === 3 && session.downloadUrl) {
+      const [accountId, blobId, name] = rest;
+      const url = expandTemplate(session.downloadUrl, {
+        accountId,
+        blobId,
+        name,
+        type: request.nextUrl.searchParams.get('type') || 'application/octet-stream',
+      });
+      const { response, refreshed } = await fetchWithSession(session, url, { signal: request.signal });
+      return relay(response, sessionId, session, refreshed);
+    }
+
+    if (endpoint === 'eventsource' && rest.length === 0 && session.eventSourceUrl) {
+      const search = request.nextUrl.searchParams;
+      const url = expandTemplate(session.eventSourceUrl, {
+        types: search.get('types') || '*',
+        closeafter: search.get('closeafter') || 'no',
+        ping: search.get('ping') || '0',
+      });
+      // The stream stays open until the browser goes away
+      const { response, refreshed } = await fetchWithSession(session, url, {
+        headers: { 'Accept': 'text/event-stream' },
+        signal: request.signal,
+      });
+      const result = relay(response, sessionId, session, refreshed);
+      result.headers.set('Cache-Control', 'no-cache');
+      result.headers.set('X-Accel-Buffering', 'no');
+      return result;
+    }
+  } catch (error) {
+    return upstreamError(error);
+  }
+
+  return notFound();
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { sessionId, path } = await params;
+  const session = loadSession(request, sessionId);
+  if (!session) return noSession();
+
+  const [endpoint, ...rest] = path;
+  try {
+    if (endpoint === 'api' && rest.length === 0 && session.apiUrl) {
+      const { response, refreshed } = await fetchWithSession(session, session.apiUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await request.text(),
+      });
+      return relay(response, sessionId, session, refreshed);
+    }
+
+    if (endpoint === 'upload' && rest.length === 1 && session.uploadUrl) {
+      // Buffered, a stream couldn't be sent again after a token refresh
+      const { response, refreshed } = await fetchWithSession(session, expandTemplate(session.uploadUrl, { accountId: rest[0] }), {
+        method: 'POST',
+        headers: { 'Content-Type': request.headers.get('content-type') || 'application/octet-stream' },
+        body: await request.arrayBuffer(),
+      });
+      return relay(response, sessionId, session, refreshed);
+    }
+
+    // Not JMAP, but only for signed-in users
+    if (endpoint === 'unsubscribe' && rest.length === 0) {
+      const { url } = await request.json().catch(() => ({ url: null }));
+      const result = await oneClickUnsubscribe(url);
+      return 'error' in result
+        ? NextResponse.json({ error: result.error }, { status: result.status })
+        : NextResponse.json(result);
+    }
+  } catch (error) {
+    return upstreamError(error);
+  }
+
+  return notFound();
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { discoverOAuthServer } from '@/lib/oauth-utils';
+import {
+  cookieOptions,
+  createSessionId,
+  fetchWithSession,
+  isAllowedServer,
+  isBasicAuthAllowed,
+  isProxyEnabled,
+  isValidSessionId,
+  proxyCookieName,
+  sealSession,
+  type ProxyAuth,
+  type ProxySession,
+} from '@/lib/jmap/proxy-session';
+
+// The configured OAuth provider belongs to the configured server, other servers are their own provider
+function getIssuerUrl(serverUrl: string): string {
+  const configuredServer = process.env.JMAP_SERVER_URL || process.env.NEXT_PUBLIC_JMAP_SERVER_URL || '';
+  const issuer = process.env.OAUTH_ISSUER_URL || process.env.NEXT_PUBLIC_OAUTH_ISSUER_URL;
+  try {
+    return issuer && new URL(configuredServer).origin === new URL(serverUrl).origin ? issuer : serverUrl;
+  } catch {
+    return serverUrl;
+  }
+}
+
+/**
+ * JMAP proxy session endpoint
+ *
+ * POST /api/jmap/session with { serverUrl, username, password } or { serverUrl, tokens }
+ * checks the credentials against the server and keeps them in an encrypted,
+ * httpOnly cookie. Returns { sessionId }; the client then talks to
+ * /api/jmap/<sessionId>/session.
+ *
+ * DELETE /api/jmap/session with { sessionId } forgets the session.
+ */
+export async function POST(request: NextRequest) {
+  if (!isProxyEnabled()) {
+    return NextResponse.json({ error: 'The JMAP proxy is not enabled' }, { status: 404 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+  }
+
+  const serverUrl = typeof body?.serverUrl === 'string' ? body.serverUrl.replace(/\/$/, '') : '';
+  if (!isAllowedServer(serverUrl)) {
+    return NextResponse.json({ error: 'This server cannot be used through the proxy' }, { status: 400 });
+  }
+
+  let auth: ProxyAuth;
+  if (typeof body.tokens?.accessToken === 'string') {
+    const clientId = process.env.OAUTH_CLIENT_ID || process.env.NEXT_PUBLIC_OAUTH_CLIENT_ID;
+    if (!clientId) {
+      return NextResponse.json({ error: 'OAuth sign-in is not configured' }, { status: 400 });
+    }
+    try {
+      // Looked up here rather than taken from the browser, refreshing must only ever reach the real provider
+      const metadata = await discoverOAuthServer(getIssuerUrl(serverUrl));
+      auth = { type: 'oauth', clientId, tokenEndpoint: metadata.token_endpoint, tokens: body.tokens };
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'OAuth discovery failed' },
+        { status: 502 }
+      );
+    }
+  } else if (typeof body.username === 'string' && typeof body.password === 'string') {
+    if (!isBasicAuthAllowed()) {
+      return NextResponse.json({ error: 'Password sign-in is disabled' }, { status: 403 });
+    }
+    auth = { type: 'basic', username: body.username, password: body.password };
+  } else {
+    return NextResponse.json({ error: 'Missing credentials' }, { status: 400 });
+  }
+
+  const session: ProxySession = { serverUrl, auth };
+
+  // Only hand out a session for credentials the server accepts
+  try {
+    const { response } = await fetchWithSession(session, `${serverUrl}/.well-known/jmap`);
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: response.status === 401 ? 'Invalid username or password' : `Failed to get session: ${response.status}` },
+        { status: response.status === 401 ? 401 : 502 }
+      );
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to reach the server' },
+      { status: 502 }
+    );
+  }
+
+  const sessionId = createSessionId();
+  const response = NextResponse.json({ sessionId });
+  response.cookies.set(proxyCookieName(sessionId), sealSession(session), cookieOptions);
+  return response;
+}
+
+export async function DELETE(request: NextRequest) {
+  const { sessionId } = await request.json().catch(() => ({}));
+  if (typeof sessionId !== 'string' || !isValidSessionId(sessionId)) {
+    return NextResponse.json({ error: 'Invalid session' }, { status: 400 });
+  }
+
+  const response = NextResponse.json({ ok: true });
+  response.cookies.set(proxyCookieName(sessionId), '', { ...cookieOptions, maxAge: 0 });
+  return response;
+}
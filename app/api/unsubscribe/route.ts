@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAllowedServer } from '@/lib/jmap/proxy-session';
+import { oneClickUnsubscribe } from '@/lib/one-click-unsubscribe';
+
+const SESSION_TIMEOUT = 10000; // 10 seconds
+
+// Requests without an Origin don't come from a browser page, they still need credentials
+function isSameOrigin(request: NextRequest): boolean {
+  const origin = request.headers.get('origin');
+  return !origin || (URL.canParse(origin) && new URL(origin).host === request.headers.get('host'));
+}
+
+// The caller's credentials must open a session on the configured JMAP server
+async function isSignedIn(serverUrl: unknown, authorization: string | null): Promise<boolean> {
+  if (!authorization || typeof serverUrl !== 'string' || !isAllowedServer(serverUrl)) {
+    return false;
+  }
+  try {
+    const response = await fetch(`${serverUrl.replace(/\/$/, '')}/.well-known/jmap`, {
+      headers: { 'Authorization': authorization },
+      signal: AbortSignal.timeout(SESSION_TIMEOUT),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * One-click unsubscribe endpoint (RFC 8058)
+ *
+ * POST /api/unsubscribe with { url, serverUrl } and the JMAP Authorization
+ * header - posts "List-Unsubscribe=One-Click" to the sender's HTTPS
+ * List-Unsubscribe URL. Browsers can't do this themselves because senders
+ * don't allow cross-origin requests. Proxied sessions use
+ * /api/jmap/<sessionId>/unsubscribe instead.
+ */
+export async function POST(request: NextRequest) {
+  // Only pages of this app may ask
+  if (!isSameOrigin(request)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  let body: { url?: unknown; serverUrl?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid unsubscribe URL' }, { status: 400 });
+  }
+
+  if (!(await isSignedIn(body.serverUrl, request.headers.get('authorization')))) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const result = await oneClickUnsubscribe(body.url);
+  return 'error' in result
+    ? NextResponse.json({ error: result.error }, { status: result.status })
+    : NextResponse.json(result);
+}
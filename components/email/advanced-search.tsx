@@ -4,8 +4,10 @@ import { useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { useAdvancedSearchStore } from '@/stores/advanced-search-store';
 import { SearchFilter, SearchFieldType, SearchOperator } from '@/lib/advanced-search-types';
+import { advancedSearchToNode, formatSearchQuery } from '@/lib/search-query-utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
 
 const FIELD_OPTIONS: { value: SearchFieldType; label: string }[] = [
   { value: 'from', label: 'From' },
@@ -30,7 +32,12 @@ const OPERATOR_OPTIONS: { value: SearchOperator; label: string }[] = [
   { value: 'between', label: 'Between' },
 ];
 
-export function AdvancedSearch() {
+interface AdvancedSearchProps {
+  onSearch?: (query: string) => void; // Receives the filters as a search bar query
+  className?: string;
+}
+
+export function AdvancedSearch({ onSearch, className }: AdvancedSearchProps) {
   const t = useTranslations('advanced_search');
   const { currentQuery, addFilter, removeFilter, updateFilter, setMatchAll } = useAdvancedSearchStore();
   const [newFilter, setNewFilter] = useState<Partial<SearchFilter>>({
@@ -54,8 +61,16 @@ export function AdvancedSearch() {
     setNewFilter({ field: 'subject', operator: 'contains', value: '' });
   };
 
+  // Filters compile like a typed query, so the search bar shows (and can refine) them
+  const handleSearch = () => {
+    const node = currentQuery && advancedSearchToNode(currentQuery);
+    if (node && onSearch) {
+      onSearch(formatSearchQuery(node));
+    }
+  };
+
   return (
-    <div className="space-y-4 p-4 border rounded-lg bg-card">
+    <div className={cn("space-y-4 p-4 border rounded-lg bg-card", className)}>
       <div className="flex items-center justify-between">
         <h3 className="font-semibold">{t('title')}</h3>
         {currentQuery && currentQuery.filters.length > 0 && (
@@ -75,7 +90,7 @@ export function AdvancedSearch() {
 
       {/* Add Filter Section */}
       <div className="space-y-2 p-3 bg-muted rounded">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+        <div className="grid grid-cols-2 gap-2">
           <select
             value={newFilter.field || ''}
             onChange={(e) => setNewFilter({ ...newFilter, field: e.target.value as SearchFieldType })}
@@ -105,10 +120,10 @@ export function AdvancedSearch() {
             placeholder={t('value_placeholder')}
             value={newFilter.value as string}
             onChange={(e) => setNewFilter({ ...newFilter, value: e.target.value })}
-            className="text-sm"
+            className="text-sm col-span-2"
           />
 
-          <Button size="sm" onClick={handleAddFilter}>
+          <Button size="sm" onClick={handleAddFilter} className="col-span-2">
             {t('add_filter')}
           </Button>
         </div>
@@ -139,9 +154,15 @@ export function AdvancedSearch() {
         </div>
       )}
 
-      {!currentQuery || currentQuery.filters.length === 0 && (
+      {(!currentQuery || currentQuery.filters.length === 0) && (
         <p className="text-sm text-muted-foreground">{t('no_filters')}</p>
       )}
+
+      {onSearch && currentQuery && currentQuery.filters.length > 0 && (
+        <Button size="sm" onClick={handleSearch} className="w-full">
+          {t('search')}
+        </Button>
+      )}
     </div>
   );
 }
@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { AlertTriangle, CalendarDays, Check, CircleHelp, Loader2, MapPin, Users, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { CalendarEvent, Email } from "@/lib/jmap/types";
+import {
+  findAttendee,
+  getInvitePart,
+  type CalendarInvite,
+  type InviteAnswer,
+  type InviteStatus,
+} from "@/lib/calendar-invite-types";
+import { useAuthStore } from "@/stores/auth-store";
+import { useCalendarStore } from "@/stores/calendar-store";
+import { useCalendarInviteStore } from "@/stores/calendar-invite-store";
+import { toast } from "@/stores/toast-store";
+
+interface CalendarInviteCardProps {
+  email: Email;
+}
+
+const ANSWERS: { status: InviteAnswer; icon: typeof Check }[] = [
+  { status: "accepted", icon: Check },
+  { status: "tentative", icon: CircleHelp },
+  { status: "declined", icon: X },
+];
+
+const STATUS_COLORS: Record<InviteStatus, string> = {
+  accepted: "text-green-600 dark:text-green-400",
+  tentative: "text-amber-600 dark:text-amber-400",
+  declined: "text-red-600 dark:text-red-400",
+  "needs-action": "text-muted-foreground",
+};
+
+const formatRange = (invite: CalendarInvite) => {
+  if (invite.isAllDay) {
+    // DTEND of an all-day event is exclusive
+    const lastDay = new Date(invite.endTime.getTime() - 1);
+    const first = invite.startTime.toLocaleDateString(undefined, { dateStyle: "full" });
+    return lastDay.toDateString() === invite.startTime.toDateString()
+      ? first
+      : `${first} – ${lastDay.toLocaleDateString(undefined, { dateStyle: "full" })}`;
+  }
+  const sameDay = invite.endTime.toDateString() === invite.startTime.toDateString();
+  const start = invite.startTime.toLocaleString(undefined, { dateStyle: "full", timeStyle: "short" });
+  const end = sameDay
+    ? invite.endTime.toLocaleTimeString(undefined, { timeStyle: "short" })
+    : invite.endTime.toLocaleString(undefined, { dateStyle: "full", timeStyle: "short" });
+  return `${start} – ${end}`;
+};
+
+// An iMIP invitation (or its update, cancellation or reply) shown above the message body
+export function CalendarInviteCard({ email }: CalendarInviteCardProps) {
+  const t = useTranslations("calendar_invite");
+  const { client, identities } = useAuthStore();
+  const { events, lastSyncTime, initializeSync } = useCalendarStore();
+  const { isResponding, loadInvite, findExistingEvent, respondToInvite, removeCanceledEvent, getResponse } =
+    useCalendarInviteStore();
+  const [invite, setInvite] = useState<CalendarInvite | null>(null);
+  const [existingEvent, setExistingEvent] = useState<CalendarEvent | null>(null);
+  const [isRemoved, setIsRemoved] = useState(false);
+
+  const invitePart = getInvitePart(email);
+
+  useEffect(() => {
+    setInvite(null);
+    setExistingEvent(null);
+    setIsRemoved(false);
+    if (!client || !invitePart) return;
+
+    let cancelled = false;
+    loadInvite(client, email.id, invitePart.blobId).then(async (loaded) => {
+      if (cancelled || !loaded) return;
+      setInvite(loaded);
+      const existing = await findExistingEvent(client, loaded);
+      if (!cancelled) setExistingEvent(existing);
+    });
+    return () => {
+      cancelled = true;
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- the invite part belongs to the email
+  }, [email.id, client]);
+
+  // Conflicts come from the calendar store, which is only filled once the calendar was synced
+  useEffect(() => {
+    if (invite && client?.supportsCalendars() && !lastSyncTime) {
+      void initializeSync(client);
+    }
+  }, [invite, client, lastSyncTime, initializeSync]);
+
+  if (!invite) return null;
+
+  const myAttendee = findAttendee(invite, identities.map((identity) => identity.email));
+  const response = getResponse(invite);
+  const currentStatus: InviteStatus = response?.status || myAttendee?.status || "needs-action";
+  const isCancel = invite.method === "CANCEL";
+  const isReply = invite.method === "REPLY";
+  const isUpdate = invite.method === "REQUEST" && !!existingEvent && (
+    new Date(existingEvent.startTime).getTime() !== invite.startTime.getTime() ||
+    new Date(existingEvent.endTime).getTime() !== invite.endTime.getTime() ||
+    existingEvent.title !== invite.eventTitle
+  );
+  const conflicts = isCancel || isReply ? [] : events.filter((event) =>
+    event.uid !== invite.uid &&
+    event.status !== "cancelled" &&
+    event.transparency !== "transparent" &&
+    new Date(event.startTime) < invite.endTime &&
+    new Date(event.endTime) > invite.startTime
+  );
+
+  const handleAnswer = async (status: InviteAnswer) => {
+    if (!client) return;
+    const name = myAttendee?.name || identities[0]?.name || identities[0]?.email || "";
+    try {
+      await respondToInvite(client, invite, status, identities, email, {
+        subject: t(`reply_subject.${status}`, { title: invite.eventTitle }),
+        body: t(`reply_body.${status}`, { name, title: invite.eventTitle }),
+      });
+      setExistingEvent(await findExistingEvent(client, invite));
+      toast.success(t(`answered.${status}`), invite.eventTitle);
+    } catch (error) {
+      toast.error(t("answer_failed"), error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!client) return;
+    try {
+      await removeCanceledEvent(client, invite);
+      setIsRemoved(true);
+      setExistingEvent(null);
+    } catch (error) {
+      toast.error(t("remove_failed"), error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  return (
+    <div className={cn(
+      "mb-4 rounded-lg border bg-background",
+      isCancel ? "border-red-200 dark:border-red-900" : "border-border"
+    )}>
+      <div className="flex items-start gap-3 p-4">
+        <div className={cn(
+          "flex-shrink-0 rounded-md p-2",
+          isCancel ? "bg-red-50 dark:bg-red-950/30 text-red-600 dark:text-red-400" : "bg-primary/10 text-primary"
+        )}>
+          <CalendarDays className="w-5 h-5" />
+        </div>
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            {isCancel ? t("canceled") : isReply ? t("reply") : isUpdate ? t("updated") : t("invitation")}
+          </div>
+          <div className={cn("font-semibold text-foreground", isCancel && "line-through")}>
+            {invite.eventTitle || t("untitled")}
+          </div>
+          <div className="text-sm text-foreground">{formatRange(invite)}</div>
+          {invite.location && (
+            <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+              <MapPin className="w-3.5 h-3.5 flex-shrink-0" />
+              <span className="truncate">{invite.location}</span>
+            </div>
+          )}
+          {invite.organizer.email && (
+            <div className="text-sm text-muted-foreground">
+              {t("organizer", { name: invite.organizer.name || invite.organizer.email })}
+            </div>
+          )}
+          {invite.attendees.length > 0 && (
+            <div className="flex items-start gap-1.5 text-sm text-muted-foreground">
+              <Users className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              <span className="flex flex-wrap gap-x-2">
+                {invite.attendees.map((attendee) => (
+                  <span key={attendee.email} className={STATUS_COLORS[attendee.status]} title={t(`status.${attendee.status}`)}>
+                    {attendee.name || attendee.email}
+                  </span>
+                ))}
+              </span>
+            </div>
+          )}
+          {conflicts.length > 0 && (
+            <div className="flex items-start gap-1.5 text-sm text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              <span>{t("conflicts", { events: conflicts.map((event) => event.title).join(", ") })}</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {isCancel ? (
+        existingEvent && !isRemoved ? (
+          <div className="flex items-center gap-2 px-4 py-3 border-t border-border">
+            <Button variant="outline" size="sm" onClick={handleRemove} disabled={isResponding}>
+              {isResponding && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("remove")}
+            </Button>
+          </div>
+        ) : isRemoved ? (
+          <div className="px-4 py-3 border-t border-border text-sm text-muted-foreground">{t("removed")}</div>
+        ) : null
+      ) : !isReply && myAttendee ? (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-t border-border">
+          <span className="text-sm text-muted-foreground mr-1">{t("going")}</span>
+          {ANSWERS.map(({ status, icon: Icon }) => (
+            <Button
+              key={status}
+              variant={currentStatus === status ? "default" : "outline"}
+              size="sm"
+              onClick={() => handleAnswer(status)}
+              disabled={isResponding}
+            >
+              <Icon className="w-4 h-4 mr-1.5" />
+              {t(`answers.${status}`)}
+            </Button>
+          ))}
+          {isResponding && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { AlertTriangle, Check, CheckCheck, Circle, Clock, Loader2, RefreshCw, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Email } from "@/lib/jmap/types";
+import type { RecipientDeliveryState } from "@/lib/email-tracking-types";
+import { useAuthStore } from "@/stores/auth-store";
+import { useEmailStore } from "@/stores/email-store";
+import { useEmailTrackingStore } from "@/stores/email-tracking-store";
+
+interface DeliveryStatusProps {
+  email: Email;
+}
+
+const STATE_ICONS: Record<RecipientDeliveryState, typeof Check> = {
+  queued: Clock,
+  delivered: Check,
+  failed: AlertTriangle,
+  unknown: Circle,
+};
+
+const STATE_COLORS: Record<RecipientDeliveryState, string> = {
+  queued: "text-amber-600 dark:text-amber-400",
+  delivered: "text-green-600 dark:text-green-400",
+  failed: "text-red-600 dark:text-red-400",
+  unknown: "text-muted-foreground",
+};
+
+// Per-recipient delivery of a sent message, as reported by the server's EmailSubmission
+export function DeliveryStatus({ email }: DeliveryStatusProps) {
+  const t = useTranslations("delivery_status");
+  const { client } = useAuthStore();
+  const mailboxes = useEmailStore((state) => state.mailboxes);
+  const statuses = useEmailTrackingStore((state) => state.deliveryStatus[email.id]);
+  const fetchDeliveryStatus = useEmailTrackingStore((state) => state.fetchDeliveryStatus);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isSent = mailboxes.some((mb) => mb.role === "sent" && !mb.isShared && email.mailboxIds?.[mb.id]);
+  const canFetch = !!client && isSent && client.supportsEmailSubmission();
+
+  const refresh = async () => {
+    if (!client) return;
+    setIsLoading(true);
+    try {
+      await fetchDeliveryStatus(client, email.id);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (canFetch) {
+      refresh();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- refetch only when another message is shown
+  }, [email.id, canFetch]);
+
+  // Submissions expire on the server, so older sent messages have nothing to show.
+  // Canceled ones (undone or rescheduled sends) never went out
+  const recipients = (statuses || [])
+    .filter((status) => status.undoStatus !== "canceled")
+    .flatMap((status) => status.recipients);
+  if (!canFetch || recipients.length === 0) return null;
+
+  return (
+    <div className="border-b border-border">
+      <div className="max-w-4xl mx-auto px-6 py-2 text-sm">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Send className="w-3.5 h-3.5" />
+          <span className="font-medium">{t("title")}</span>
+          <button
+            onClick={refresh}
+            disabled={isLoading}
+            className="ml-auto flex items-center gap-1 text-xs hover:text-foreground transition-colors disabled:opacity-50"
+          >
+            {isLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+            {t("refresh")}
+          </button>
+        </div>
+        <ul className="mt-1 space-y-1">
+          {recipients.map((recipient, index) => {
+            const Icon = STATE_ICONS[recipient.state];
+            return (
+              <li key={`${recipient.email}-${index}`} className="flex flex-wrap items-center gap-x-2">
+                <Icon className={cn("w-3.5 h-3.5 flex-shrink-0", STATE_COLORS[recipient.state])} />
+                <span className="text-foreground truncate">{recipient.email}</span>
+                <span className={cn("text-xs", STATE_COLORS[recipient.state])}>
+                  {t(`states.${recipient.state}`)}
+                </span>
+                {recipient.displayed && (
+                  <span className="flex items-center gap-1 text-xs text-primary">
+                    <CheckCheck className="w-3 h-3" />
+                    {t("displayed")}
+                  </span>
+                )}
+                {recipient.smtpReply && recipient.state !== "delivered" && (
+                  <span className="basis-full pl-5 text-xs text-muted-foreground font-mono break-all">
+                    {recipient.smtpReply}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
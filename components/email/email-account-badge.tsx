@@ -0,0 +1,33 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { cn } from "@/lib/utils";
+import { useEmailStore } from "@/stores/email-store";
+
+interface EmailAccountBadgeProps {
+  accountId?: string;
+  className?: string;
+}
+
+// Source account of an email listed in a unified view (plain lists have no accountId)
+export function EmailAccountBadge({ accountId, className }: EmailAccountBadgeProps) {
+  const t = useTranslations("email_list");
+  const accountName = useEmailStore((state) =>
+    accountId ? state.mailboxes.find((mb) => mb.accountId === accountId)?.accountName : undefined
+  );
+
+  if (!accountId) return null;
+  const name = accountName || accountId;
+
+  return (
+    <span
+      className={cn(
+        "flex-shrink-0 max-w-[8rem] truncate px-1.5 py-0.5 text-[10px] font-medium rounded bg-muted text-muted-foreground border border-border",
+        className
+      )}
+      title={t("account", { name })}
+    >
+      {name}
+    </span>
+  );
+}
@@ -5,13 +5,37 @@ import { useTranslations } from "next-intl";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ContactAutocomplete } from "@/components/contacts/contact-autocomplete";
-import { X, Paperclip, Send, Save, Check, Loader2, AlertCircle, Zap, ChevronDown } from "lucide-react";
+import { X, Paperclip, Send, Save, Check, Loader2, AlertCircle, Zap, ChevronDown, Type, MailCheck, Lock, PenLine } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuthStore } from "@/stores/auth-store";
 import { useTemplateStore } from "@/stores/template-store";
 import { useSignatureStore } from "@/stores/signature-store";
+import { useSettingsStore, type ComposeFormat } from "@/stores/settings-store";
+import { useEmailTrackingStore } from "@/stores/email-tracking-store";
+import { useEmailEncryptionStore } from "@/stores/email-encryption-store";
+import { useAutocryptStore } from "@/stores/autocrypt-store";
+import { useSMIMEStore } from "@/stores/smime-store";
 import { substituteVariables } from "@/lib/template-types";
-import { formatSignatureWithSeparator } from "@/lib/signature-types";
+import { formatSignatureWithSeparator, stripHtmlTags } from "@/lib/signature-types";
+import { getReplyThreadingHeaders } from "@/lib/thread-utils";
+import {
+  buildHtmlForwardQuote,
+  buildHtmlReplyQuote,
+  formatHtmlSignatureWithSeparator,
+  generateContentId,
+  htmlToPlainText,
+  isHtmlEmpty,
+  plainTextToHtml,
+  resolveInlineImages,
+  sanitizeComposerHtml,
+} from "@/lib/rich-text-utils";
+import { RichTextEditor } from "./rich-text-editor";
+import { SendLaterMenu } from "./send-later-menu";
+import { PGPUnlockForm } from "./openpgp-status";
+import { SMIMEUnlockForm } from "./smime-status";
+import type { Attachment, OutgoingAttachment } from "@/lib/jmap/types";
+import type { OpenPGPSendMode, SMIMESendMode } from "@/lib/email-encryption-types";
+import type { ComposerAttachment, ComposerMode, ComposerSnapshot } from "@/lib/composer-types";
 
 interface EmailComposerProps {
   onSend?: (data: {
@@ -20,21 +44,35 @@ interface EmailComposerProps {
     bcc: string[];
     subject: string;
     body: string;
+    htmlBody?: string;
     draftId?: string;
     fromEmail?: string;
     identityId?: string;
+    attachments?: OutgoingAttachment[];
+    inReplyTo?: string[];
+    references?: string[];
+    sendAt?: Date;
+    requestReadReceipt?: boolean;
+    openpgp?: OpenPGPSendMode;
+    smime?: SMIMESendMode;
+    snapshot: ComposerSnapshot;
   }) => void;
   onClose?: () => void;
   onDiscardDraft?: (draftId: string) => void;
   className?: string;
-  mode?: 'compose' | 'reply' | 'replyAll' | 'forward';
+  mode?: ComposerMode;
+  restore?: ComposerSnapshot; // Reopen a message as it was, ignoring mode/replyTo
   replyTo?: {
     from?: { email?: string; name?: string }[];
     to?: { email?: string; name?: string }[];
     cc?: { email?: string; name?: string }[];
     subject?: string;
     body?: string;
+    htmlBody?: string;
     receivedAt?: string;
+    messageId?: string[];
+    references?: string[];
+    attachments?: Attachment[];
   };
 }
 
@@ -44,7 +82,8 @@ export function EmailComposer({
   onDiscardDraft,
   className,
   mode = 'compose',
-  replyTo
+  replyTo,
+  restore,
 }: EmailComposerProps) {
   const t = useTranslations('email_composer');
 
@@ -68,11 +107,21 @@ export function EmailComposer({
 
   // Store declarations - must be before helper functions that use them
   const { client, identities, primaryIdentity } = useAuthStore();
+  const maxDelayedSend = client?.getMaxDelayedSend() ?? 0;
   const { templates } = useTemplateStore();
   const { settings: signatureSettings, getDefaultSignature } = useSignatureStore();
+  const { composeFormat } = useSettingsStore();
 
   // State declarations that are needed by helper functions
-  const [selectedIdentityId, setSelectedIdentityId] = useState<string | null>(null);
+  const [selectedIdentityId, setSelectedIdentityId] = useState<string | null>(restore?.identityId ?? null);
+  const [format, setFormat] = useState<ComposeFormat>(restore?.format ?? composeFormat);
+
+  // In-Reply-To/References so replies thread under the original message
+  const threadingHeaders = restore
+    ? { inReplyTo: restore.inReplyTo, references: restore.references }
+    : (mode === 'reply' || mode === 'replyAll') && replyTo
+      ? getReplyThreadingHeaders(replyTo)
+      : {};
 
   const getInitialSubject = () => {
     if (!replyTo?.subject) return "";
@@ -84,34 +133,47 @@ export function EmailComposer({
     return "";
   };
 
-  // Append signature to body
-  const appendSignature = (bodyText: string, shouldAppend: boolean): string => {
-    if (!shouldAppend) return bodyText;
-
+  // Default signature of the sending identity, formatted for the given body format
+  const getFormattedSignature = (bodyFormat: ComposeFormat): string | null => {
     const currentIdentity = selectedIdentityId
       ? identities.find(id => id.id === selectedIdentityId)
       : primaryIdentity;
 
-    if (!currentIdentity) return bodyText;
+    if (!currentIdentity) return null;
 
     const signature = getDefaultSignature(currentIdentity.id);
-    if (!signature) return bodyText;
+    if (!signature) return null;
+
+    if (bodyFormat === 'html') {
+      return formatHtmlSignatureWithSeparator(
+        signature.isHtml ? signature.content : plainTextToHtml(signature.content),
+        signatureSettings.separatorStyle
+      );
+    }
 
-    const formattedSignature = formatSignatureWithSeparator(
-      signature.content,
+    return formatSignatureWithSeparator(
+      signature.isHtml ? stripHtmlTags(signature.content) : signature.content,
       signatureSettings.separatorStyle
     );
+  };
 
-    return bodyText + formattedSignature;
+  const shouldAppendSignature = () =>
+    (mode === 'compose' && signatureSettings.autoAppendSignature) ||
+    ((mode === 'reply' || mode === 'replyAll') && signatureSettings.autoAppendToReplies) ||
+    (mode === 'forward' && signatureSettings.autoAppendToForwards);
+
+  const getQuoteInfo = () => {
+    const date = replyTo?.receivedAt ? new Date(replyTo.receivedAt).toLocaleString() : "";
+    const from = replyTo?.from?.[0];
+    const fromStr = from ? `${from.name || from.email}` : "Unknown";
+    return { date, fromStr };
   };
 
   const getInitialBody = () => {
     let bodyText = "";
 
     if (replyTo?.body) {
-      const date = replyTo.receivedAt ? new Date(replyTo.receivedAt).toLocaleString() : "";
-      const from = replyTo.from?.[0];
-      const fromStr = from ? `${from.name || from.email}` : "Unknown";
+      const { date, fromStr } = getQuoteInfo();
 
       if (mode === 'forward') {
         bodyText = `\n\n---------- Forwarded message ----------\nFrom: ${fromStr}\nDate: ${date}\nSubject: ${replyTo.subject || ""}\n\n${replyTo.body}`;
@@ -121,30 +183,129 @@ export function EmailComposer({
     }
 
     // Add signature for new emails or based on settings
-    if (mode === 'compose' && signatureSettings.autoAppendSignature) {
-      bodyText = appendSignature(bodyText, true);
-    } else if ((mode === 'reply' || mode === 'replyAll') && signatureSettings.autoAppendToReplies) {
-      bodyText = appendSignature(bodyText, true);
-    } else if (mode === 'forward' && signatureSettings.autoAppendToForwards) {
-      bodyText = appendSignature(bodyText, true);
+    if (shouldAppendSignature()) {
+      bodyText += getFormattedSignature('plain') || "";
     }
 
     return bodyText;
   };
 
-  const [to, setTo] = useState(getInitialTo());
-  const [cc, setCc] = useState(getInitialCc());
-  const [bcc, setBcc] = useState("");
-  const [subject, setSubject] = useState(getInitialSubject());
-  const [body, setBody] = useState(getInitialBody());
-  const [showCc, setShowCc] = useState(!!getInitialCc());
-  const [showBcc, setShowBcc] = useState(false);
-  const [draftId, setDraftId] = useState<string | null>(null);
+  const getInitialHtmlBody = () => {
+    let html = "";
+
+    // Quote the original HTML when there is one, the text body otherwise
+    const original = replyTo?.htmlBody || (replyTo?.body ? plainTextToHtml(replyTo.body) : "");
+    if (original) {
+      const { date, fromStr } = getQuoteInfo();
+
+      if (mode === 'forward') {
+        html = buildHtmlForwardQuote([
+          '---------- Forwarded message ----------',
+          `From: ${fromStr}`,
+          `Date: ${date}`,
+          `Subject: ${replyTo?.subject || ""}`,
+        ], original);
+      } else if (mode === 'reply' || mode === 'replyAll') {
+        html = buildHtmlReplyQuote(`On ${date}, ${fromStr} wrote:`, original);
+      }
+    }
+
+    // The signature goes above the quoted message
+    if (shouldAppendSignature()) {
+      html = (getFormattedSignature('html') || "") + html;
+    }
+
+    return html;
+  };
+
+  const [to, setTo] = useState(() => restore?.to ?? getInitialTo());
+  const [cc, setCc] = useState(() => restore?.cc ?? getInitialCc());
+  const [bcc, setBcc] = useState(restore?.bcc ?? "");
+  const [subject, setSubject] = useState(() => restore?.subject ?? getInitialSubject());
+  const [body, setBody] = useState(() => restore?.body ?? (format === 'plain' ? getInitialBody() : ""));
+  const [htmlBody, setHtmlBody] = useState(() => restore?.htmlBody ?? (format === 'html' ? getInitialHtmlBody() : ""));
+  const [showCc, setShowCc] = useState(() => !!(restore ? restore.cc : getInitialCc()));
+  const [showBcc, setShowBcc] = useState(!!restore?.bcc);
+  const [draftId, setDraftId] = useState<string | null>(restore?.draftId ?? null);
+  const [requestReadReceipt, setRequestReadReceipt] = useState(
+    () => restore?.requestReadReceipt ?? useEmailTrackingStore.getState().settings.requestReadReceipts
+  );
+  const {
+    keys: pgpKeys,
+    settings: encryptionSettings,
+    unlockedKeyIds,
+    getDefaultPrivateKey,
+    findRecipientKeys,
+  } = useEmailEncryptionStore();
+  const { peers: autocryptPeers, getRecommendation } = useAutocryptStore();
+  const {
+    certificates: smimeCertificates,
+    settings: smimeSettings,
+    unlockedCertificateIds,
+    getOwnCertificate,
+    findRecipientCertificates,
+  } = useSMIMEStore();
+  const restoredProtection = restore?.openpgp ?? restore?.smime;
+  // Null until the user toggles it, so the default follows the recipients
+  const [encryptChoice, setEncryptChoice] = useState<boolean | null>(restoredProtection?.encrypt ?? null);
+  const [sign, setSign] = useState(() => restoredProtection?.sign ?? encryptionSettings.autoSignEmails);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastSavedDataRef = useRef<string>("");
-  const [attachments, setAttachments] = useState<Array<{ file: File; blobId?: string; uploading?: boolean; error?: boolean }>>([]);
+  const [attachments, setAttachments] = useState<ComposerAttachment[]>(() => {
+    if (restore) return restore.attachments;
+    // Forwarded messages keep their attachments and inline images
+    if (mode !== 'forward' || !replyTo?.attachments) return [];
+    return replyTo.attachments.map(att => ({
+      name: att.name || 'attachment',
+      size: att.size,
+      type: att.type,
+      blobId: att.blobId,
+      cid: att.cid,
+    }));
+  });
   const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Attachments that finished uploading (or already exist on the server)
+  const getUploadedAttachments = (): OutgoingAttachment[] =>
+    attachments
+      .filter(att => att.blobId && !att.uploading)
+      .map(att => ({
+        blobId: att.blobId!,
+        name: att.name,
+        type: att.type || 'application/octet-stream',
+        size: att.size,
+        ...(att.cid && { cid: att.cid, disposition: 'inline' as const }),
+      }));
+
+  const hasBodyContent = format === 'html' ? !isHtmlEmpty(htmlBody) : !!body;
+
+  // Body parts and attachments as they go out: in rich text mode the HTML is
+  // sanitized, editor image previews point at their cid: parts, and the text
+  // alternative is derived from the HTML
+  const getOutgoingContent = (): { body: string; htmlBody?: string; attachments: OutgoingAttachment[] } => {
+    if (format === 'plain') {
+      return { body, attachments: getUploadedAttachments() };
+    }
+
+    const resolved = resolveInlineImages(htmlBody);
+    const html = sanitizeComposerHtml(resolved.html);
+    return {
+      body: htmlToPlainText(html),
+      htmlBody: html,
+      // Inline images removed from the editor are not sent
+      attachments: getUploadedAttachments().filter(att => !att.cid || resolved.cids.includes(att.cid)),
+    };
+  };
+
+  // Replace the whole body, e.g. from a template
+  const setBodyText = (text: string) => {
+    if (format === 'html') {
+      setHtmlBody(plainTextToHtml(text));
+    } else {
+      setBody(text);
+    }
+  };
   
   const [showTemplateMenu, setShowTemplateMenu] = useState(false);
   const [showVariableForm, setShowVariableForm] = useState(false);
@@ -158,7 +319,13 @@ export function EmailComposer({
     const files = Array.from(event.target.files);
 
     // Add files to attachments list with uploading state
-    const newAttachments = files.map(file => ({ file, uploading: true }));
+    const newAttachments = files.map(file => ({
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      file,
+      uploading: true,
+    }));
     setAttachments(prev => [...prev, ...newAttachments]);
 
     // Upload each file
@@ -195,6 +362,53 @@ export function EmailComposer({
     }
   };
 
+  // Upload an image pasted or picked in the rich text editor as an inline part
+  const handleInsertImage = (file: File) => {
+    if (!client) return null;
+
+    const cid = generateContentId();
+    setAttachments(prev => [...prev, {
+      name: file.name || 'image',
+      size: file.size,
+      type: file.type,
+      file,
+      cid,
+      uploading: true,
+    }]);
+
+    client.uploadBlob(file)
+      .then(({ blobId }) => {
+        setAttachments(prev =>
+          prev.map(att => (att.file === file ? { ...att, blobId, uploading: false } : att))
+        );
+      })
+      .catch((error) => {
+        console.error(`Failed to upload ${file.name}:`, error);
+        setAttachments(prev =>
+          prev.map(att => (att.file === file ? { ...att, uploading: false, error: true } : att))
+        );
+      });
+
+    return { src: URL.createObjectURL(file), cid };
+  };
+
+  // Switch between rich text and plain text, converting the current body
+  const toggleFormat = () => {
+    if (format === 'plain') {
+      setHtmlBody(plainTextToHtml(body));
+      setFormat('html');
+      return;
+    }
+
+    if (hasBodyContent && !window.confirm(t('switch_to_plain_confirm'))) {
+      return;
+    }
+    setBody(htmlToPlainText(htmlBody));
+    // Images pasted into the editor have nothing to refer to them anymore
+    setAttachments(prev => prev.filter(att => !(att.cid && att.file)));
+    setFormat('plain');
+  };
+
   // Remove attachment
   const removeAttachment = (index: number) => {
     setAttachments(prev => prev.filter((_, i) => i !== index));
@@ -217,7 +431,7 @@ export function EmailComposer({
     } else {
       // No variables, just apply the template
       setSubject(template.subject);
-      setBody(template.body);
+      setBodyText(template.body);
       setShowTemplateMenu(false);
     }
   };
@@ -232,7 +446,7 @@ export function EmailComposer({
     const substitutedBody = substituteVariables(template.body, variableValues);
 
     setSubject(substitutedSubject);
-    setBody(substitutedBody);
+    setBodyText(substitutedBody);
     setShowVariableForm(false);
     setSelectedTemplate(null);
     setVariableValues({});
@@ -247,22 +461,15 @@ export function EmailComposer({
     const bccAddresses = bcc.split(",").map(e => e.trim()).filter(Boolean);
 
     // Only save if there's some content
-    if (!toAddresses.length && !subject && !body) {
+    if (!toAddresses.length && !subject && !hasBodyContent) {
       return null;
     }
 
-    // Prepare attachments for draft
-    const uploadedAttachments = attachments
-      .filter(att => att.blobId && !att.uploading)
-      .map(att => ({
-        blobId: att.blobId!,
-        name: att.file.name,
-        type: att.file.type,
-        size: att.file.size,
-      }));
+    // Prepare body parts and attachments for draft
+    const content = getOutgoingContent();
 
     // Create a hash of current data to compare with last saved
-    const currentData = JSON.stringify({ to: toAddresses, cc: ccAddresses, bcc: bccAddresses, subject, body, attachments: uploadedAttachments });
+    const currentData = JSON.stringify({ to: toAddresses, cc: ccAddresses, bcc: bccAddresses, subject, ...content });
 
     // Only save if data has changed
     if (currentData === lastSavedDataRef.current) {
@@ -275,11 +482,13 @@ export function EmailComposer({
       const savedDraftId = await client.createDraft(
         toAddresses,
         subject || "(No subject)",
-        body,
+        content.body,
         ccAddresses,
         bccAddresses,
         draftId || undefined,
-        uploadedAttachments
+        content.attachments,
+        undefined,
+        { ...threadingHeaders, htmlBody: content.htmlBody }
       );
 
       setDraftId(savedDraftId);
@@ -306,7 +515,7 @@ export function EmailComposer({
     }
 
     // Don't auto-save if there's no content
-    if (!to && !subject && !body) {
+    if (!to && !subject && !hasBodyContent) {
       return;
     }
 
@@ -322,15 +531,44 @@ export function EmailComposer({
       }
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps -- saveDraft reads current state when called, not when effect is set up
-  }, [to, cc, bcc, subject, body, attachments]);
+  }, [to, cc, bcc, subject, body, htmlBody, format, attachments]);
+
+  // OpenPGP or S/MIME: keys (or certificates) for the sending identity and every recipient
+  const sendingEmail = (selectedIdentityId
+    ? identities.find(id => id.id === selectedIdentityId)
+    : primaryIdentity)?.email;
+  const signingKey = getDefaultPrivateKey(sendingEmail);
+  const smimeCertificate = getOwnCertificate(sendingEmail);
+  // S/MIME when it is the only one set up for the sender, or the preferred one
+  const useSMIME = !!smimeCertificate && (!signingKey || smimeSettings.preferSMIME);
+  const allRecipients = [to, cc, bcc].join(",").split(",").map(e => e.trim()).filter(Boolean);
+  const missingKeys = useSMIME
+    ? findRecipientCertificates(allRecipients).missing
+    : findRecipientKeys(allRecipients).missing;
+  // Autocrypt only exchanges OpenPGP keys
+  const recommendation = useSMIME ? 'disable' : getRecommendation(allRecipients);
+  const encrypt = encryptChoice ?? (
+    allRecipients.length > 0 && missingKeys.length === 0 &&
+    (recommendation === 'encrypt' || encryptionSettings.encryptByDefault)
+  );
+  const signEnabled = sign && (useSMIME || !!signingKey);
+  const needsUnlock = signEnabled && (useSMIME
+    ? !unlockedCertificateIds.includes(smimeCertificate.id)
+    : !!signingKey && !unlockedKeyIds.includes(signingKey.id));
+  const protection = encrypt || signEnabled ? { encrypt, sign: signEnabled } : undefined;
+  const openpgp = useSMIME ? undefined : protection;
+  const smime = useSMIME ? protection : undefined;
+
+  const handleSend = async (sendAt?: Date) => {
+    // Nothing is sent unprotected when protection was asked for
+    if ((encrypt && missingKeys.length > 0) || needsUnlock) return;
 
-  const handleSend = async () => {
     const toAddresses = to.split(",").map(e => e.trim()).filter(Boolean);
     const ccAddresses = cc.split(",").map(e => e.trim()).filter(Boolean);
     const bccAddresses = bcc.split(",").map(e => e.trim()).filter(Boolean);
 
     // Allow sending if we have recipient, subject, and either body text or attachments
-    const hasContent = body || attachments.some(att => att.blobId && !att.uploading);
+    const hasContent = hasBodyContent || attachments.some(att => att.blobId && !att.uploading);
 
     if (toAddresses.length > 0 && subject && hasContent) {
       // Wait for any pending auto-save to complete and get the latest draft ID
@@ -355,15 +593,41 @@ export function EmailComposer({
         return;
       }
 
+      const content = getOutgoingContent();
+
       onSend?.({
         to: toAddresses,
         cc: ccAddresses,
         bcc: bccAddresses,
         subject,
-        body,
+        body: content.body,
+        htmlBody: content.htmlBody,
         draftId: finalDraftId || undefined,
         fromEmail: currentIdentity.email,
         identityId: currentIdentity.id,
+        attachments: content.attachments,
+        ...threadingHeaders,
+        sendAt,
+        requestReadReceipt,
+        openpgp,
+        smime,
+        snapshot: {
+          mode: restore?.mode ?? mode,
+          to,
+          cc,
+          bcc,
+          subject,
+          body,
+          htmlBody,
+          format,
+          attachments: attachments.filter(att => att.blobId && !att.uploading),
+          identityId: currentIdentity.id,
+          draftId: finalDraftId || null,
+          requestReadReceipt,
+          openpgp,
+          smime,
+          ...threadingHeaders,
+        },
       });
 
       // Reset form
@@ -372,13 +636,15 @@ export function EmailComposer({
       setBcc("");
       setSubject("");
       setBody("");
+      setHtmlBody("");
+      setAttachments([]);
       setDraftId(null);
     }
   };
 
   const handleClose = () => {
     // If there's a draft with content, ask user if they want to discard
-    if (draftId && (to || subject || body)) {
+    if (draftId && (to || subject || hasBodyContent)) {
       const confirmDiscard = window.confirm(t('discard_draft_confirm'));
 
       if (confirmDiscard) {
@@ -430,12 +696,11 @@ export function EmailComposer({
               variant="ghost"
               size="sm"
               onClick={() => {
-                const signature = getDefaultSignature(selectedIdentityId || primaryIdentity?.id || '');
-                if (signature) {
-                  const formattedSignature = formatSignatureWithSeparator(
-                    signature.content,
-                    signatureSettings.separatorStyle
-                  );
+                const formattedSignature = getFormattedSignature(format);
+                if (!formattedSignature) return;
+                if (format === 'html') {
+                  setHtmlBody(prev => prev + formattedSignature);
+                } else {
                   setBody(prev => prev + (prev ? '\n\n' : '') + formattedSignature);
                 }
               }}
@@ -447,6 +712,18 @@ export function EmailComposer({
             </Button>
           )}
 
+          {/* Rich text / plain text toggle */}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={toggleFormat}
+            className="gap-1"
+            title={format === 'html' ? t('plain_text') : t('rich_text')}
+          >
+            <Type className="w-4 h-4" />
+            {format === 'html' ? t('plain_text') : t('rich_text')}
+          </Button>
+
           {/* Template button */}
           <div className="relative">
             <Button
@@ -642,19 +919,28 @@ export function EmailComposer({
         })()}
 
         <div className="flex-1 px-4 py-3 min-h-0">
-          <textarea
-            className="w-full h-full resize-none outline-none text-sm bg-transparent text-foreground placeholder:text-muted-foreground"
-            placeholder={t('body_placeholder')}
-            value={body}
-            onChange={(e) => setBody(e.target.value)}
-          />
+          {format === 'html' ? (
+            <RichTextEditor
+              value={htmlBody}
+              onChange={setHtmlBody}
+              onInsertImage={handleInsertImage}
+              placeholder={t('body_placeholder')}
+            />
+          ) : (
+            <textarea
+              className="w-full h-full resize-none outline-none text-sm bg-transparent text-foreground placeholder:text-muted-foreground"
+              placeholder={t('body_placeholder')}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+            />
+          )}
         </div>
 
-        {/* Attachments display */}
-        {attachments.length > 0 && (
+        {/* Attachments display (inline images live in the rich text editor) */}
+        {attachments.some(att => format === 'plain' || !att.cid) && (
           <div className="px-4 py-2 border-t">
             <div className="flex flex-wrap gap-2">
-              {attachments.map((att, index) => (
+              {attachments.map((att, index) => (format === 'html' && att.cid) ? null : (
                 <div
                   key={index}
                   className={cn(
@@ -669,9 +955,9 @@ export function EmailComposer({
                   ) : (
                     <Paperclip className="w-3 h-3" />
                   )}
-                  <span className="max-w-[200px] truncate">{att.file.name}</span>
+                  <span className="max-w-[200px] truncate">{att.name}</span>
                   <span className="text-xs text-muted-foreground">
-                    ({(att.file.size / 1024).toFixed(1)} {t('file_size_kb')})
+                    ({(att.size / 1024).toFixed(1)} {t('file_size_kb')})
                   </span>
                   <button
                     onClick={() => removeAttachment(index)}
@@ -685,6 +971,27 @@ export function EmailComposer({
           </div>
         )}
 
+        {encrypt && missingKeys.length > 0 && (
+          <div className="flex items-center gap-2 px-4 py-2 border-t text-sm text-amber-700 dark:text-amber-400">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">
+              {t(useSMIME ? 'smime.missing_certificates' : 'openpgp.missing_keys', { recipients: missingKeys.join(", ") })}
+            </span>
+          </div>
+        )}
+        {encrypt && missingKeys.length === 0 && recommendation === 'discourage' && (
+          <div className="flex items-center gap-2 px-4 py-2 border-t text-sm text-amber-700 dark:text-amber-400">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">{t('openpgp.discouraged')}</span>
+          </div>
+        )}
+        {needsUnlock && (
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-2 px-4 py-2 border-t">
+            <span className="text-sm text-muted-foreground">{t(useSMIME ? 'smime.unlock_to_sign' : 'openpgp.unlock_to_sign')}</span>
+            {useSMIME ? <SMIMEUnlockForm /> : <PGPUnlockForm />}
+          </div>
+        )}
+
         <div className="flex items-center justify-between px-4 py-3 border-t">
           {/* Left side - Discard button */}
           <button
@@ -713,7 +1020,51 @@ export function EmailComposer({
               <Paperclip className="w-4 h-4 mr-2" />
               {t('attach')}
             </Button>
-            <Button onClick={handleSend}>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setRequestReadReceipt(!requestReadReceipt)}
+              aria-pressed={requestReadReceipt}
+              title={t('read_receipt_hint')}
+              className={cn(requestReadReceipt && "text-primary bg-primary/10")}
+            >
+              <MailCheck className="w-4 h-4 mr-2" />
+              {t('read_receipt')}
+            </Button>
+            {(pgpKeys.length > 0 || Object.keys(autocryptPeers).length > 0 || smimeCertificates.length > 0) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setEncryptChoice(!encrypt)}
+                aria-pressed={encrypt}
+                title={t(useSMIME ? 'smime.encrypt_hint' : 'openpgp.encrypt_hint')}
+                className={cn(encrypt && "text-primary bg-primary/10")}
+              >
+                <Lock className="w-4 h-4 mr-2" />
+                {t('openpgp.encrypt')}
+              </Button>
+            )}
+            {(signingKey || smimeCertificate) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSign(!sign)}
+                aria-pressed={sign}
+                title={t(useSMIME ? 'smime.sign_hint' : 'openpgp.sign_hint')}
+                className={cn(sign && "text-primary bg-primary/10")}
+              >
+                <PenLine className="w-4 h-4 mr-2" />
+                {t('openpgp.sign')}
+              </Button>
+            )}
+            {maxDelayedSend > 0 && (
+              <SendLaterMenu
+                label={t('send_later')}
+                maxDelayedSend={maxDelayedSend}
+                onSchedule={handleSend}
+              />
+            )}
+            <Button onClick={() => handleSend()}>
               <Send className="w-4 h-4 mr-2" />
               {t('send')}
             </Button>
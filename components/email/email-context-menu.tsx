@@ -128,13 +128,15 @@ export function EmailContextMenu({
   const currentColor = getCurrentColor(email.keywords);
   const showBatchActions = isMultiSelect && selectedCount > 1;
 
-  // Filter mailboxes for move-to submenu (exclude current, drafts, virtual nodes)
+  // Filter mailboxes for move-to submenu (exclude current, drafts, virtual nodes,
+  // and other accounts' folders for emails of a unified view)
   const moveTargets = mailboxes.filter(
     (m) =>
       m.id !== selectedMailbox &&
       m.role !== "drafts" &&
       !m.id.startsWith("shared-") &&
-      m.myRights?.mayAddItems
+      m.myRights?.mayAddItems &&
+      (!email.accountId || m.accountId === email.accountId)
   );
 
   const handleAction = (action: () => void) => {
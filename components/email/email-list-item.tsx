@@ -9,6 +9,8 @@ import { Paperclip, Star, Circle, CheckSquare, Square } from "lucide-react";
 import { useEmailStore } from "@/stores/email-store";
 import { useSettingsStore } from "@/stores/settings-store";
 import { useEmailDrag } from "@/hooks/use-email-drag";
+import { EmailAccountBadge } from "./email-account-badge";
+import { SearchSnippetText } from "./search-snippet";
 
 interface EmailListItemProps {
   email: Email;
@@ -40,7 +42,7 @@ const getEmailColor = (keywords: Record<string, boolean> | undefined) => {
 };
 
 export function EmailListItem({ email, selected, onClick, onContextMenu }: EmailListItemProps) {
-  const { selectedEmailIds, toggleEmailSelection, selectedMailbox } = useEmailStore();
+  const { selectedEmailIds, toggleEmailSelection, selectedMailbox, searchSnippets } = useEmailStore();
   const showPreview = useSettingsStore((state) => state.showPreview);
   const isChecked = selectedEmailIds.has(email.id);
   const isUnread = !email.keywords?.$seen;
@@ -48,6 +50,7 @@ export function EmailListItem({ email, selected, onClick, onContextMenu }: Email
   const isImportant = email.keywords?.["$important"];
   const sender = email.from?.[0];
   const colorTag = getEmailColor(email.keywords);
+  const snippet = searchSnippets[email.id];
 
   // Debug logging - always log
   console.log('[EmailListItem] Rendering email:', email.id, 'sender:', sender?.email || 'NO_EMAIL', 'sender obj:', sender);
@@ -152,6 +155,7 @@ export function EmailListItem({ email, selected, onClick, onContextMenu }: Email
               )}>
                 {sender?.name || sender?.email || "Unknown"}
               </span>
+              <EmailAccountBadge accountId={email.accountId} />
               <div className="flex items-center gap-1.5">
                 {isStarred && (
                   <Star className="w-3.5 h-3.5 fill-amber-400 text-amber-400" />
@@ -183,7 +187,7 @@ export function EmailListItem({ email, selected, onClick, onContextMenu }: Email
               ? "font-semibold text-foreground"
               : "font-normal text-foreground/90"
           )}>
-            {email.subject || "(no subject)"}
+            <SearchSnippetText snippet={snippet?.subject} fallback={email.subject || "(no subject)"} />
           </div>
 
           {/* Third Line: Preview (controlled by showPreview setting) */}
@@ -194,7 +198,7 @@ export function EmailListItem({ email, selected, onClick, onContextMenu }: Email
                 ? "text-muted-foreground"
                 : "text-muted-foreground/80"
             )}>
-              {email.preview || "No preview available"}
+              <SearchSnippetText snippet={snippet?.preview} fallback={email.preview || "No preview available"} />
             </p>
           )}
         </div>
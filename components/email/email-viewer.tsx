@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import DOMPurify from "dompurify";
 import { Email } from "@/lib/jmap/types";
 import { Button } from "@/components/ui/button";
@@ -8,6 +8,8 @@ import { Avatar } from "@/components/ui/avatar";
 import { Favicon } from "@/components/favicon";
 import { formatFileSize, cn } from "@/lib/utils";
 import { getSecurityStatus } from "@/lib/email-headers";
+import { getSavedSearchId } from "@/lib/mailbox-utils";
+import { getSearchHighlightTerms } from "@/lib/search-query-utils";
 import {
   Reply,
   ReplyAll,
@@ -52,7 +54,17 @@ import { useTranslations } from "next-intl";
 import { useSettingsStore } from "@/stores/settings-store";
 import { useUIStore } from "@/stores/ui-store";
 import { useAuthStore } from "@/stores/auth-store";
+import { useEmailStore } from "@/stores/email-store";
+import { useAdvancedSearchStore } from "@/stores/advanced-search-store";
 import { useDeviceDetection } from "@/hooks/use-media-query";
+import { CalendarInviteCard } from "./calendar-invite-card";
+import { DeliveryStatus } from "./delivery-status";
+import { ReadReceiptBanner } from "./read-receipt-banner";
+import { UnsubscribeBanner } from "./unsubscribe-banner";
+import { OpenPGPStatus } from "./openpgp-status";
+import { useOpenPGPMessage } from "@/hooks/use-openpgp-message";
+import { SMIMEStatus } from "./smime-status";
+import { useSMIMEMessage } from "@/hooks/use-smime-message";
 
 interface EmailViewerProps {
   email: Email | null;
@@ -110,6 +122,43 @@ const colorOptions = [
   { name: "Pink", value: "pink", color: "bg-pink-500" },
 ];
 
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wrap search terms found in the body's text in numbered <mark>s, leaving tags and attributes alone
+const highlightSearchTerms = (html: string, terms: string[]): { html: string; matchCount: number } => {
+  if (terms.length === 0) return { html, matchCount: 0 };
+
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+  const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  let matchCount = 0;
+  for (const node of textNodes) {
+    if (node.parentElement?.closest('style')) continue;
+    const text = node.data;
+    const fragment = document.createDocumentFragment();
+    let last = 0;
+    let match: RegExpExecArray | null;
+    pattern.lastIndex = 0;
+    while ((match = pattern.exec(text)) !== null) {
+      fragment.append(text.slice(last, match.index));
+      const mark = document.createElement('mark');
+      mark.dataset.searchMatch = String(matchCount++);
+      mark.textContent = match[0];
+      fragment.append(mark);
+      last = pattern.lastIndex;
+    }
+    if (last > 0) {
+      fragment.append(text.slice(last));
+      node.replaceWith(fragment);
+    }
+  }
+  return { html: template.innerHTML, matchCount };
+};
+
 const getCurrentColor = (keywords: Record<string, boolean> | undefined) => {
   if (!keywords) return null;
   for (const key of Object.keys(keywords)) {
@@ -121,7 +170,7 @@ const getCurrentColor = (keywords: Record<string, boolean> | undefined) => {
 };
 
 export function EmailViewer({
-  email,
+  email: sourceEmail,
   isLoading = false,
   onReply,
   onReplyAll,
@@ -138,6 +187,9 @@ export function EmailViewer({
   currentUserName,
   className,
 }: EmailViewerProps) {
+  // Encrypted and signed messages are shown with their decrypted or verified content
+  const { email: pgpEmail, protection } = useOpenPGPMessage(sourceEmail);
+  const { email, protection: smimeProtection } = useSMIMEMessage(pgpEmail);
   const t = useTranslations('email_viewer');
   const tNotifications = useTranslations('notifications');
   const tCommon = useTranslations('common');
@@ -160,6 +212,20 @@ export function EmailViewer({
   const [fetchError, setFetchError] = useState<string | null>(null);
   const currentColor = getCurrentColor(email?.keywords);
   const { client } = useAuthStore();
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const [activeMatch, setActiveMatch] = useState(0);
+
+  // Terms of the search (typed or saved) the email was opened from
+  const searchQuery = useEmailStore((state) => state.searchQuery);
+  const selectedMailbox = useEmailStore((state) => state.selectedMailbox);
+  const savedSearchQuery = useAdvancedSearchStore((state) => {
+    const savedSearchId = getSavedSearchId(selectedMailbox);
+    return savedSearchId ? state.savedSearches.find((s) => s.id === savedSearchId)?.query : undefined;
+  });
+  const highlightTerms = useMemo(
+    () => getSearchHighlightTerms([savedSearchQuery, searchQuery].filter(Boolean).join(' ')),
+    [savedSearchQuery, searchQuery]
+  );
 
   useEffect(() => {
     // Mark as read when email is viewed
@@ -188,7 +254,7 @@ export function EmailViewer({
         setIsLoadingRawSource(true);
         setFetchError(null);
         try {
-          const raw = await client.getRawEmail(email.id);
+          const raw = await client.getRawEmail(email.id, email.accountId);
           setRawSource(raw);
         } catch (error) {
           console.error("Failed to fetch raw email source:", error);
@@ -498,6 +564,29 @@ export function EmailViewer({
     };
   }, [email, allowExternalContent, hasBlockedContent, externalContentPolicy, isSenderTrusted]);
 
+  const highlighted = useMemo(
+    () => highlightSearchTerms(emailContent.html, highlightTerms),
+    [emailContent.html, highlightTerms]
+  );
+
+  useEffect(() => {
+    setActiveMatch(0);
+  }, [highlighted]);
+
+  // Mark the current match and bring it into view
+  useEffect(() => {
+    if (highlighted.matchCount === 0 || !bodyRef.current) return;
+    bodyRef.current.querySelectorAll('mark[data-search-match]').forEach((mark) => {
+      const isActive = mark.getAttribute('data-search-match') === String(activeMatch);
+      mark.toggleAttribute('data-active', isActive);
+      if (isActive) mark.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    });
+  }, [highlighted, activeMatch]);
+
+  const goToMatch = (offset: number) => {
+    setActiveMatch((prev) => (prev + offset + highlighted.matchCount) % highlighted.matchCount);
+  };
+
   // Show loading skeleton while email is being fetched
   if (isLoading && !email) {
     return (
@@ -1248,7 +1337,14 @@ export function EmailViewer({
           </div>
         )}
 
+        <DeliveryStatus email={email} />
+        <ReadReceiptBanner email={email} />
+        <UnsubscribeBanner email={email} />
+
         <div className="max-w-4xl mx-auto p-6">
+          <CalendarInviteCard email={email} />
+          {protection && <OpenPGPStatus protection={protection} />}
+          {smimeProtection && <SMIMEStatus protection={smimeProtection} />}
 
           {/* Inline Attachments */}
           {email.attachments && email.attachments.length > 0 && (
@@ -1333,13 +1429,42 @@ export function EmailViewer({
             </div>
           )}
 
+          {/* Search matches in the body */}
+          {highlighted.matchCount > 0 && (
+            <div className="mb-2 flex items-center justify-end gap-1 text-xs text-muted-foreground">
+              <span className="tabular-nums">
+                {t('search_matches', { current: activeMatch + 1, total: highlighted.matchCount })}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => goToMatch(-1)}
+                title={t('previous_match')}
+                aria-label={t('previous_match')}
+              >
+                <ChevronUp className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => goToMatch(1)}
+                title={t('next_match')}
+                aria-label={t('next_match')}
+              >
+                <ChevronDown className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          )}
+
           {/* Email Body */}
-          <div className="bg-background rounded-lg shadow-sm border border-border overflow-x-auto">
+          <div ref={bodyRef} className="bg-background rounded-lg shadow-sm border border-border overflow-x-auto">
             <div className="email-content-wrapper p-6">
               {emailContent.isHtml ? (
                 <div
                   className="email-content prose dark:prose-invert max-w-none"
-                  dangerouslySetInnerHTML={{ __html: emailContent.html }}
+                  dangerouslySetInnerHTML={{ __html: highlighted.html }}
                   style={{
                     fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
                     fontSize: '14px',
@@ -1349,7 +1474,7 @@ export function EmailViewer({
               ) : (
                 <div
                   className="email-content-text text-foreground"
-                  dangerouslySetInnerHTML={{ __html: emailContent.html }}
+                  dangerouslySetInnerHTML={{ __html: highlighted.html }}
                   style={{
                     fontFamily: 'ui-monospace, "SF Mono", Consolas, monospace',
                     fontSize: '14px',
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { AlertTriangle, Download, KeyRound, Loader2, Lock, LockOpen, ShieldAlert, ShieldCheck, ShieldX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { DecryptionResult, SignatureCheck } from "@/lib/email-encryption-types";
+import type { MimeAttachment } from "@/lib/mime-utils";
+import { useEmailEncryptionStore } from "@/stores/email-encryption-store";
+
+interface OpenPGPStatusProps {
+  protection: DecryptionResult;
+  className?: string;
+}
+
+interface PGPUnlockFormProps {
+  onUnlocked?: () => void;
+  className?: string;
+}
+
+const SIGNATURE_STYLES: Record<SignatureCheck["state"], { icon: typeof ShieldCheck; color: string }> = {
+  valid: { icon: ShieldCheck, color: "text-green-700 dark:text-green-400" },
+  mismatch: { icon: ShieldAlert, color: "text-amber-700 dark:text-amber-400" },
+  "unknown-key": { icon: ShieldAlert, color: "text-amber-700 dark:text-amber-400" },
+  invalid: { icon: ShieldX, color: "text-red-700 dark:text-red-400" },
+};
+
+const downloadAttachment = (attachment: MimeAttachment) => {
+  const url = URL.createObjectURL(new Blob([new Uint8Array(attachment.data)], { type: attachment.type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = attachment.name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Attachments that only exist decrypted in memory, downloaded through object URLs
+export function DecryptedAttachments({ attachments }: { attachments: MimeAttachment[] }) {
+  const visible = attachments.filter((att) => !(att.cid && att.disposition === "inline" && att.type.startsWith("image/")));
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {visible.map((att, i) => (
+        <button
+          key={i}
+          onClick={() => downloadAttachment(att)}
+          className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-muted hover:bg-accent rounded-md transition-colors text-sm"
+        >
+          <Download className="w-3.5 h-3.5 text-muted-foreground" />
+          <span className="text-foreground">{att.name}</span>
+          <span className="text-xs text-muted-foreground">({(att.size / 1024).toFixed(1)} KB)</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Passphrase prompt that unlocks whichever of the user's private keys it belongs to
+export function PGPUnlockForm({ onUnlocked, className }: PGPUnlockFormProps) {
+  const t = useTranslations("openpgp");
+  const { getPrivateKeys, isUnlocked, unlockKey } = useEmailEncryptionStore();
+  const [passphrase, setPassphrase] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [hasError, setHasError] = useState(false);
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    setHasError(false);
+    const lockedKeys = getPrivateKeys().filter((key) => !isUnlocked(key.id));
+    const results = await Promise.allSettled(lockedKeys.map((key) => unlockKey(key.id, passphrase)));
+    setIsUnlocking(false);
+
+    if (results.some((result) => result.status === "fulfilled")) {
+      setPassphrase("");
+      onUnlocked?.();
+    } else {
+      setHasError(true);
+    }
+  };
+
+  return (
+    <form
+      className={cn("flex flex-wrap items-center gap-2", className)}
+      onSubmit={(e) => {
+        e.preventDefault();
+        void handleUnlock();
+      }}
+    >
+      <Input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder={t("passphrase")}
+        autoComplete="current-password"
+        className="h-8 w-56"
+      />
+      <Button type="submit" size="sm" disabled={!passphrase || isUnlocking}>
+        {isUnlocking ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <KeyRound className="w-4 h-4 mr-1.5" />}
+        {t("unlock")}
+      </Button>
+      {hasError && <span className="text-sm text-red-600 dark:text-red-400">{t("wrong_passphrase")}</span>}
+    </form>
+  );
+}
+
+// Trust badge of an OpenPGP message: encryption, signature and the decrypted attachments
+export function OpenPGPStatus({ protection, className }: OpenPGPStatusProps) {
+  const t = useTranslations("openpgp");
+  const { status, isEncrypted, signature } = protection;
+
+  if (status === "plain") return null;
+
+  if (status === "loading") {
+    return (
+      <div className={cn("mb-4 flex items-center gap-2 text-sm text-muted-foreground", className)}>
+        <Loader2 className="w-4 h-4 animate-spin" />
+        {t("opening")}
+      </div>
+    );
+  }
+
+  if (status === "locked" || status === "no-key" || status === "failed") {
+    return (
+      <div className={cn("mb-4 rounded-lg border border-border bg-background p-4 space-y-3", className)}>
+        <div className="flex items-start gap-2 text-sm">
+          {status === "failed"
+            ? <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-600 dark:text-red-400" />
+            : <Lock className="w-4 h-4 mt-0.5 flex-shrink-0 text-muted-foreground" />}
+          <div className="min-w-0">
+            <div className="font-medium text-foreground">
+              {status === "failed" ? t("failed") : t("encrypted_locked")}
+            </div>
+            <div className="text-muted-foreground break-words">
+              {status === "locked" && t("locked_hint")}
+              {status === "no-key" && t("no_key_hint", { keyIds: protection.neededKeyIds?.join(", ") || "" })}
+              {status === "failed" && protection.error}
+            </div>
+          </div>
+        </div>
+        {status === "locked" && <PGPUnlockForm />}
+      </div>
+    );
+  }
+
+  const signatureStyle = signature && SIGNATURE_STYLES[signature.state];
+  const SignatureIcon = signatureStyle?.icon;
+  const signer = signature?.signer
+    ? signature.signer.name ? `${signature.signer.name} <${signature.signer.email}>` : signature.signer.email
+    : "";
+
+  return (
+    <div className={cn("mb-4 rounded-lg border border-border bg-background px-4 py-2.5 space-y-2", className)}>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+        {isEncrypted && (
+          <span className="flex items-center gap-1.5 text-green-700 dark:text-green-400">
+            <LockOpen className="w-4 h-4" />
+            {t("encrypted")}
+          </span>
+        )}
+        {signature && SignatureIcon ? (
+          <span className={cn("flex items-center gap-1.5 min-w-0", signatureStyle.color)} title={t("key_id", { keyId: signature.keyId })}>
+            <SignatureIcon className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">{t(`signature.${signature.state}`, { signer, keyId: signature.keyId })}</span>
+          </span>
+        ) : (
+          <span className="text-muted-foreground">{t("unsigned")}</span>
+        )}
+      </div>
+
+      {isEncrypted && <DecryptedAttachments attachments={protection.attachments} />}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { CheckCheck, Loader2, MailCheck } from "lucide-react";
+import type { Email, MDN } from "@/lib/jmap/types";
+import { getReadReceiptPart, getReadReceiptRequest } from "@/lib/email-tracking-types";
+import { useAuthStore } from "@/stores/auth-store";
+import { useEmailTrackingStore } from "@/stores/email-tracking-store";
+import { toast } from "@/stores/toast-store";
+
+interface ReadReceiptBannerProps {
+  email: Email;
+}
+
+// Shows a received read receipt, or asks whether to answer a request for one
+export function ReadReceiptBanner({ email }: ReadReceiptBannerProps) {
+  const t = useTranslations("read_receipt");
+  const { client, identities } = useAuthStore();
+  const {
+    settings,
+    isSendingReceipt,
+    fetchReadReceipt,
+    sendReadReceipt,
+    declineReadReceipt,
+  } = useEmailTrackingStore();
+  const [receipt, setReceipt] = useState<MDN | null>(null);
+  const [answeredId, setAnsweredId] = useState<string | null>(null);
+
+  const supportsMDN = !!client?.supportsMDN();
+  const receiptPart = getReadReceiptPart(email);
+  const sender = email.from?.[0]?.email?.toLowerCase();
+  // Our own sent messages carry the request too
+  const isOwnMessage = !!sender && identities.some((identity) => identity.email.toLowerCase() === sender);
+  const requestedBy = !isOwnMessage && !email.keywords?.$draft ? getReadReceiptRequest(email) : null;
+  const isPending = supportsMDN && !!requestedBy && answeredId !== email.id && settings.receiptResponse !== "never";
+
+  useEffect(() => {
+    setReceipt(null);
+    if (client && supportsMDN && receiptPart) {
+      fetchReadReceipt(client, email.id, receiptPart.blobId).then(setReceipt);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- the receipt part belongs to the email
+  }, [email.id, supportsMDN]);
+
+  const answer = async (send: boolean, automatic = false) => {
+    if (!client) return;
+    try {
+      if (send) {
+        await sendReadReceipt(client, email, identities, automatic);
+      } else {
+        await declineReadReceipt(client, email);
+      }
+      setAnsweredId(email.id);
+    } catch (error) {
+      setAnsweredId(email.id);
+      toast.error(t("send_failed"), error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  useEffect(() => {
+    if (isPending && settings.receiptResponse === "always") {
+      answer(true, true);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- answer once per message
+  }, [email.id, isPending]);
+
+  if (receipt) {
+    return (
+      <div className="border-b border-border">
+        <div className="max-w-4xl mx-auto px-6 py-2 flex items-center gap-2 text-sm text-muted-foreground">
+          <CheckCheck className="w-4 h-4 text-primary flex-shrink-0" />
+          <span className="truncate">
+            {t(`received.${receipt.disposition.type}`, {
+              recipient: receipt.finalRecipient?.replace(/^rfc822;\s*/i, "") || email.from?.[0]?.email || "",
+            })}
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isPending || settings.receiptResponse !== "ask") return null;
+
+  return (
+    <div className="border-b border-border">
+      <div className="max-w-4xl mx-auto px-6 py-2 flex items-center gap-3 text-sm">
+        <MailCheck className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+        <span className="flex-1 min-w-0 truncate text-muted-foreground">
+          {t("requested", { address: requestedBy })}
+        </span>
+        <button
+          onClick={() => answer(true)}
+          disabled={isSendingReceipt}
+          className="flex items-center gap-1 text-sm font-medium text-foreground hover:underline disabled:opacity-50"
+        >
+          {isSendingReceipt && <Loader2 className="w-3 h-3 animate-spin" />}
+          {t("send")}
+        </button>
+        <button
+          onClick={() => answer(false)}
+          disabled={isSendingReceipt}
+          className="text-sm text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+        >
+          {t("ignore")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useTranslations } from "next-intl";
+import {
+  Bold, Italic, Underline, List, ListOrdered, Link, Quote, Table, Image as ImageIcon,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { sanitizeComposerHtml } from "@/lib/rich-text-utils";
+
+interface RichTextEditorProps {
+  value: string;
+  onChange: (html: string) => void;
+  // Called for pasted or picked images; returns the editor preview URL and cid
+  onInsertImage?: (file: File) => { src: string; cid: string } | null;
+  placeholder?: string;
+  className?: string;
+}
+
+export function RichTextEditor({
+  value,
+  onChange,
+  onInsertImage,
+  placeholder,
+  className,
+}: RichTextEditorProps) {
+  const t = useTranslations('email_composer.toolbar');
+  const tComposer = useTranslations('email_composer');
+  const editorRef = useRef<HTMLDivElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  // Only push external changes (signature, template, format switch) into the DOM,
+  // rewriting innerHTML on every keystroke would reset the caret
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor && editor.innerHTML !== value) {
+      editor.innerHTML = value;
+    }
+  }, [value]);
+
+  const emitChange = () => {
+    if (editorRef.current) {
+      onChange(editorRef.current.innerHTML);
+    }
+  };
+
+  const exec = (command: string, argument?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, argument);
+    emitChange();
+  };
+
+  const insertImages = (files: File[]) => {
+    if (!onInsertImage) return;
+    for (const file of files) {
+      const image = onInsertImage(file);
+      if (image) {
+        exec('insertHTML', `<img src="${image.src}" data-cid="${image.cid}" alt="${file.name.replace(/"/g, '')}" style="max-width:100%">`);
+      }
+    }
+  };
+
+  const handleLink = () => {
+    const url = window.prompt(tComposer('link_prompt'), 'https://');
+    if (url && url !== 'https://') {
+      exec('createLink', url);
+    }
+  };
+
+  const handleTable = () => {
+    const cell = '<td style="border:1px solid #ccc;padding:4px 8px">&nbsp;</td>';
+    const row = `<tr>${cell}${cell}</tr>`;
+    exec('insertHTML', `<table style="border-collapse:collapse">${row}${row}</table><br>`);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    const images = Array.from(e.clipboardData.files).filter(file => file.type.startsWith('image/'));
+    if (images.length > 0) {
+      e.preventDefault();
+      insertImages(images);
+      return;
+    }
+
+    // Pasted HTML goes through the same sanitizer as the outgoing body
+    const html = e.clipboardData.getData('text/html');
+    if (html) {
+      e.preventDefault();
+      exec('insertHTML', sanitizeComposerHtml(html));
+    }
+  };
+
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      insertImages(Array.from(e.target.files));
+    }
+    e.target.value = '';
+  };
+
+  const tools = [
+    { icon: Bold, label: t('bold'), action: () => exec('bold') },
+    { icon: Italic, label: t('italic'), action: () => exec('italic') },
+    { icon: Underline, label: t('underline'), action: () => exec('underline') },
+    { icon: List, label: t('bullet_list'), action: () => exec('insertUnorderedList') },
+    { icon: ListOrdered, label: t('numbered_list'), action: () => exec('insertOrderedList') },
+    { icon: Link, label: t('link'), action: handleLink },
+    { icon: Quote, label: t('quote'), action: () => exec('formatBlock', 'blockquote') },
+    { icon: Table, label: t('table'), action: handleTable },
+  ];
+
+  return (
+    <div className={cn("flex flex-col h-full", className)}>
+      <div className="flex items-center gap-1 pb-2 mb-2 border-b border-border/50">
+        {tools.map(({ icon: Icon, label, action }) => (
+          <button
+            key={label}
+            type="button"
+            title={label}
+            // Keep the selection in the editor while clicking the toolbar
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={action}
+            className="p-1.5 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+        {onInsertImage && (
+          <>
+            <button
+              type="button"
+              title={t('image')}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => imageInputRef.current?.click()}
+              className="p-1.5 rounded hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ImageIcon className="w-4 h-4" />
+            </button>
+            <input
+              ref={imageInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleImageSelect}
+              className="hidden"
+            />
+          </>
+        )}
+      </div>
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        role="textbox"
+        aria-multiline="true"
+        data-placeholder={placeholder}
+        onInput={emitChange}
+        onPaste={handlePaste}
+        className={cn(
+          "flex-1 overflow-y-auto outline-none text-sm text-foreground",
+          "[&_blockquote]:border-l-2 [&_blockquote]:border-border [&_blockquote]:pl-3 [&_blockquote]:text-muted-foreground",
+          "[&_ul]:list-disc [&_ul]:pl-6 [&_ol]:list-decimal [&_ol]:pl-6 [&_a]:text-primary [&_a]:underline",
+          "empty:before:content-[attr(data-placeholder)] empty:before:text-muted-foreground"
+        )}
+      />
+    </div>
+  );
+}
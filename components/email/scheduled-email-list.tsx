@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { Clock, Loader2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useAuthStore } from "@/stores/auth-store";
+import { useEmailStore } from "@/stores/email-store";
+import { useEmailSchedulingStore } from "@/stores/email-scheduling-store";
+import { toast } from "@/stores/toast-store";
+import { SendLaterMenu } from "./send-later-menu";
+
+interface ScheduledEmailListProps {
+  className?: string;
+}
+
+// Pending held submissions, shown in place of the Scheduled folder's plain email list
+export function ScheduledEmailList({ className }: ScheduledEmailListProps) {
+  const t = useTranslations("scheduled");
+  const { client } = useAuthStore();
+  const { syncMailboxes } = useEmailStore();
+  const {
+    scheduledEmails,
+    isLoading,
+    isScheduling,
+    fetchScheduledEmails,
+    rescheduleEmail,
+    cancelSchedule,
+  } = useEmailSchedulingStore();
+
+  useEffect(() => {
+    if (client) {
+      fetchScheduledEmails(client);
+    }
+  }, [client, fetchScheduledEmails]);
+
+  if (!client) return null;
+
+  const maxDelayedSend = client.getMaxDelayedSend();
+
+  const handleReschedule = async (submissionId: string, sendAt: Date) => {
+    try {
+      await rescheduleEmail(client, submissionId, sendAt);
+      toast.success(t("rescheduled"), sendAt.toLocaleString());
+    } catch (error) {
+      toast.error(t("reschedule_failed"), error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  const handleCancel = async (submissionId: string) => {
+    try {
+      await cancelSchedule(client, submissionId);
+      await syncMailboxes(client);
+      toast.success(t("canceled"), t("moved_to_drafts"));
+    } catch (error) {
+      toast.error(t("cancel_failed"), error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  return (
+    <div className={cn("flex flex-col h-full overflow-y-auto", className)}>
+      {isLoading && scheduledEmails.length === 0 ? (
+        <div className="flex items-center justify-center py-12 text-sm text-muted-foreground gap-2">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>{t("loading")}</span>
+        </div>
+      ) : scheduledEmails.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-full py-12">
+          <Clock className="w-16 h-16 mb-4 text-muted-foreground/50" />
+          <p className="text-base font-medium text-foreground">{t("empty")}</p>
+          <p className="text-sm mt-1 text-muted-foreground">{t("empty_description")}</p>
+        </div>
+      ) : (
+        <div className={cn("divide-y divide-border transition-opacity duration-200", isLoading && "opacity-50")}>
+          {scheduledEmails.map((email) => (
+            <div key={email.schedule.id} className="px-4 py-3 space-y-1">
+              <div className="flex items-center gap-2 text-xs text-primary">
+                <Clock className="w-3 h-3" />
+                <span>{t("sends_at", { date: new Date(email.schedule.sendAt).toLocaleString() })}</span>
+              </div>
+              <div className="text-sm font-medium text-foreground truncate">
+                {email.subject || t("no_subject")}
+              </div>
+              <div className="text-xs text-muted-foreground truncate">
+                {t("to", { recipients: [...email.to, ...email.cc, ...email.bcc].join(", ") })}
+              </div>
+              {email.preview && (
+                <div className="text-xs text-muted-foreground line-clamp-2">{email.preview}</div>
+              )}
+              <div className="flex items-center gap-1 pt-1">
+                <SendLaterMenu
+                  label={t("reschedule")}
+                  maxDelayedSend={maxDelayedSend}
+                  onSchedule={(sendAt) => handleReschedule(email.schedule.id, sendAt)}
+                  disabled={isScheduling}
+                  align="left"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCancel(email.schedule.id)}
+                  disabled={isScheduling}
+                  className="gap-1"
+                >
+                  <Undo2 className="w-4 h-4" />
+                  {t("cancel")}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
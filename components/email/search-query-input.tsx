@@ -0,0 +1,239 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { AtSign, Folder, Pin, Search, SlidersHorizontal, Tag, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { compileSearchQuery, getSearchSuggestions } from "@/lib/search-query-utils";
+import type { SearchSuggestion } from "@/lib/advanced-search-types";
+import { useAuthStore } from "@/stores/auth-store";
+import { useContactsStore } from "@/stores/contacts-store";
+import { useEmailStore } from "@/stores/email-store";
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (query: string) => void;
+  onClear?: () => void;
+  onToggleAdvanced?: () => void;
+  isAdvancedOpen?: boolean;
+  onSave?: () => void; // Offered while the typed query is the one being shown
+  placeholder?: string;
+  className?: string;
+}
+
+const SUGGESTION_ICONS: Record<SearchSuggestion["kind"], typeof Search> = {
+  operator: Tag,
+  value: Tag,
+  mailbox: Folder,
+  contact: AtSign,
+};
+
+// Search bar understanding Gmail-style operators, with completions and inline parse errors
+export function SearchQueryInput({
+  value,
+  onChange,
+  onSubmit,
+  onClear,
+  onToggleAdvanced,
+  isAdvancedOpen = false,
+  onSave,
+  placeholder,
+  className,
+}: SearchQueryInputProps) {
+  const t = useTranslations("advanced_search");
+  const tSaved = useTranslations("sidebar.saved_searches");
+  const mailboxes = useEmailStore((state) => state.mailboxes);
+  const { client, isAuthenticated } = useAuthStore();
+  const { contacts, initializeSync, lastSyncTime } = useContactsStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [isOpen, setIsOpen] = useState(false); // Suggestions shown, until Escape or blur
+  const [selectedIndex, setSelectedIndex] = useState(-1);
+  // Errors show up once a search was attempted, not while the user is still typing
+  const [showErrors, setShowErrors] = useState(false);
+
+  const errors = useMemo(() => compileSearchQuery(value, mailboxes).errors, [value, mailboxes]);
+  const suggestions = useMemo(
+    () => (isOpen ? getSearchSuggestions(value, caret, { mailboxes, contacts }) : []),
+    [isOpen, value, caret, mailboxes, contacts]
+  );
+
+  // Contacts complete from:/to: values, load them the first time the search is used
+  useEffect(() => {
+    if (isOpen && client && isAuthenticated && contacts.length === 0 && !lastSyncTime) {
+      void initializeSync(client);
+    }
+  }, [isOpen, client, isAuthenticated, contacts.length, lastSyncTime, initializeSync]);
+
+  useEffect(() => {
+    setSelectedIndex(-1);
+  }, [suggestions]);
+
+  useEffect(() => {
+    if (errors.length === 0) setShowErrors(false);
+  }, [errors.length]);
+
+  const applySuggestion = (suggestion: SearchSuggestion) => {
+    const next = value.slice(0, suggestion.start) + suggestion.text + value.slice(suggestion.end);
+    const position = suggestion.start + suggestion.text.length;
+    onChange(next);
+    setCaret(position);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!value.trim()) return;
+    if (errors.length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    setIsOpen(false);
+    onSubmit(value);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setSelectedIndex((prev) => Math.min(prev + 1, suggestions.length - 1));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setSelectedIndex((prev) => Math.max(prev - 1, -1));
+        break;
+      case "Enter":
+      case "Tab":
+        if (selectedIndex >= 0) {
+          e.preventDefault();
+          applySuggestion(suggestions[selectedIndex]);
+        }
+        break;
+      case "Escape":
+        e.preventDefault();
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  // Room for the buttons on the right of the input
+  const buttonCount = [value, onSave, onToggleAdvanced].filter(Boolean).length;
+
+  const updateCaret = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    setCaret(e.currentTarget.selectionStart ?? e.currentTarget.value.length);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={cn("relative", className)}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          ref={inputRef}
+          type="text"
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateCaret(e);
+            setIsOpen(true);
+          }}
+          onSelect={updateCaret}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          className={cn(
+            "pl-9",
+            buttonCount > 0 && ["pr-8", "pr-14", "pr-20"][buttonCount - 1],
+            showErrors && "border-destructive focus-visible:ring-destructive"
+          )}
+          aria-invalid={showErrors}
+          autoComplete="off"
+          spellCheck="false"
+          data-search-input
+        />
+        <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex items-center gap-0.5">
+          {value && (
+            <button
+              type="button"
+              onClick={() => {
+                onChange("");
+                setShowErrors(false);
+                onClear?.();
+              }}
+              className="p-1 rounded-full hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+              aria-label="Clear search"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+          {onSave && (
+            <button
+              type="button"
+              onClick={onSave}
+              className="p-1 rounded-full hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+              title={tSaved("save")}
+              aria-label={tSaved("save")}
+            >
+              <Pin className="w-4 h-4" />
+            </button>
+          )}
+          {onToggleAdvanced && (
+            <button
+              type="button"
+              onClick={onToggleAdvanced}
+              className={cn(
+                "p-1 rounded-full hover:bg-muted transition-colors",
+                isAdvancedOpen ? "text-foreground" : "text-muted-foreground hover:text-foreground"
+              )}
+              title={t("title")}
+              aria-label={t("title")}
+              aria-pressed={isAdvancedOpen}
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="absolute top-11 left-0 right-0 bg-popover border border-border rounded-md shadow-lg z-50 py-1 max-h-72 overflow-y-auto">
+          {suggestions.map((suggestion, index) => {
+            const Icon = SUGGESTION_ICONS[suggestion.kind];
+            return (
+              <button
+                key={`${suggestion.kind}-${suggestion.text}`}
+                type="button"
+                // Keep the focus (and the caret) in the input
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => applySuggestion(suggestion)}
+                className={cn(
+                  "w-full px-3 py-1.5 text-left flex items-center gap-2 text-sm hover:bg-muted transition-colors",
+                  selectedIndex === index && "bg-muted"
+                )}
+              >
+                <Icon className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" />
+                <span className="truncate">{suggestion.label}</span>
+                {suggestion.detail && (
+                  <span className="ml-auto truncate text-xs text-muted-foreground">{suggestion.detail}</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {showErrors && errors.length > 0 && (
+        <ul className="mt-1.5 space-y-0.5 text-xs text-destructive" role="alert">
+          {errors.map((error) => (
+            <li key={`${error.code}-${error.start}`}>
+              {t(`errors.${error.code}`, { value: error.value || "" })}
+            </li>
+          ))}
+        </ul>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useMemo } from "react";
+import { parseSearchSnippet } from "@/lib/search-query-utils";
+
+interface SearchSnippetTextProps {
+  snippet?: string | null; // SearchSnippet subject or preview, null when nothing matched there
+  fallback: string;
+}
+
+// Text of a search result with the server's matches highlighted, or the plain fallback
+export function SearchSnippetText({ snippet, fallback }: SearchSnippetTextProps) {
+  const parts = useMemo(() => (snippet ? parseSearchSnippet(snippet) : null), [snippet]);
+
+  if (!parts) return <>{fallback}</>;
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.isMatch ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Clock, ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { getSendLaterPresets, isWithinMaxDelayedSend } from "@/lib/email-scheduling-types";
+
+interface SendLaterMenuProps {
+  label: string;
+  maxDelayedSend: number; // Seconds, from the submission capability
+  onSchedule: (sendAt: Date) => void;
+  disabled?: boolean;
+  align?: "left" | "right";
+}
+
+// datetime-local wants local time without seconds or zone
+const toLocalInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export function SendLaterMenu({ label, maxDelayedSend, onSchedule, disabled, align = "right" }: SendLaterMenuProps) {
+  const t = useTranslations("send_later");
+  const [isOpen, setIsOpen] = useState(false);
+  const [customValue, setCustomValue] = useState("");
+
+  const now = new Date();
+  const presets = getSendLaterPresets(now).filter(({ date }) => isWithinMaxDelayedSend(date, maxDelayedSend, now));
+  const customDate = customValue ? new Date(customValue) : null;
+  const customValid = !!customDate && isWithinMaxDelayedSend(customDate, maxDelayedSend, now);
+  const latest = new Date(now.getTime() + maxDelayedSend * 1000);
+
+  const choose = (date: Date) => {
+    setIsOpen(false);
+    setCustomValue("");
+    onSchedule(date);
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="gap-1"
+      >
+        <Clock className="w-4 h-4" />
+        {label}
+        <ChevronDown className="w-3 h-3" />
+      </Button>
+      {isOpen && (
+        <div className={cn(
+          "absolute bottom-full mb-1 w-64 bg-card border border-border rounded-lg shadow-lg z-50",
+          align === "right" ? "right-0" : "left-0"
+        )}>
+          {presets.map(({ key, date }) => (
+            <button
+              key={key}
+              onClick={() => choose(date)}
+              className="w-full flex items-center justify-between px-3 py-2 hover:bg-muted transition-colors text-sm border-b border-border/50"
+            >
+              <span className="text-foreground">{t(`presets.${key}`)}</span>
+              <span className="text-xs text-muted-foreground">
+                {date.toLocaleString(undefined, { weekday: "short", hour: "2-digit", minute: "2-digit" })}
+              </span>
+            </button>
+          ))}
+          <div className="p-3 space-y-2">
+            <label className="block text-xs text-muted-foreground">{t("pick_time")}</label>
+            <input
+              type="datetime-local"
+              value={customValue}
+              min={toLocalInputValue(now)}
+              max={toLocalInputValue(latest)}
+              onChange={(e) => setCustomValue(e.target.value)}
+              className="w-full px-2 py-1 text-sm rounded border border-border bg-background text-foreground"
+            />
+            {customValue && !customValid && (
+              <p className="text-xs text-red-600 dark:text-red-400">
+                {t("out_of_range", { date: latest.toLocaleString() })}
+              </p>
+            )}
+            <Button size="sm" className="w-full" disabled={!customValid} onClick={() => customDate && choose(customDate)}>
+              {t("schedule")}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
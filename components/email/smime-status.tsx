@@ -0,0 +1,194 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { AlertTriangle, ChevronDown, ChevronRight, KeyRound, Loader2, Lock, LockOpen, ShieldAlert, ShieldCheck, ShieldX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { SMIMECertificate, SMIMESignatureState } from "@/lib/email-encryption-types";
+import { useSMIMEStore, type SMIMEResult } from "@/stores/smime-store";
+import { DecryptedAttachments } from "./openpgp-status";
+
+interface SMIMEStatusProps {
+  protection: SMIMEResult;
+  className?: string;
+}
+
+interface SMIMEUnlockFormProps {
+  onUnlocked?: () => void;
+  className?: string;
+}
+
+const SIGNATURE_STYLES: Record<SMIMESignatureState, { icon: typeof ShieldCheck; color: string }> = {
+  valid: { icon: ShieldCheck, color: "text-green-700 dark:text-green-400" },
+  mismatch: { icon: ShieldAlert, color: "text-amber-700 dark:text-amber-400" },
+  untrusted: { icon: ShieldAlert, color: "text-amber-700 dark:text-amber-400" },
+  "unknown-key": { icon: ShieldAlert, color: "text-amber-700 dark:text-amber-400" },
+  invalid: { icon: ShieldX, color: "text-red-700 dark:text-red-400" },
+};
+
+const formatFingerprint = (fingerprint: string) => fingerprint.match(/.{1,2}/g)?.join(":") || fingerprint;
+
+// Password prompt that unlocks whichever of the user's certificates it belongs to
+export function SMIMEUnlockForm({ onUnlocked, className }: SMIMEUnlockFormProps) {
+  const t = useTranslations("smime");
+  const { certificates, isUnlocked, unlockCertificate } = useSMIMEStore();
+  const [password, setPassword] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [hasError, setHasError] = useState(false);
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    setHasError(false);
+    const locked = certificates.filter((c) => c.type === "private" && !isUnlocked(c.id));
+    const results = await Promise.allSettled(locked.map((c) => unlockCertificate(c.id, password)));
+    setIsUnlocking(false);
+
+    if (results.some((result) => result.status === "fulfilled")) {
+      setPassword("");
+      onUnlocked?.();
+    } else {
+      setHasError(true);
+    }
+  };
+
+  return (
+    <form
+      className={cn("flex flex-wrap items-center gap-2", className)}
+      onSubmit={(e) => {
+        e.preventDefault();
+        void handleUnlock();
+      }}
+    >
+      <Input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder={t("password")}
+        autoComplete="current-password"
+        className="h-8 w-56"
+      />
+      <Button type="submit" size="sm" disabled={!password || isUnlocking}>
+        {isUnlocking ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <KeyRound className="w-4 h-4 mr-1.5" />}
+        {t("unlock")}
+      </Button>
+      {hasError && <span className="text-sm text-red-600 dark:text-red-400">{t("wrong_password")}</span>}
+    </form>
+  );
+}
+
+function CertificateChain({ chain }: { chain: SMIMECertificate[] }) {
+  const t = useTranslations("smime");
+
+  return (
+    <ol className="space-y-2">
+      {chain.map((certificate, i) => {
+        const isExpired = new Date(certificate.notAfter) < new Date();
+        return (
+          <li key={certificate.id} className="text-xs border-l-2 border-border pl-3" style={{ marginLeft: `${i * 0.75}rem` }}>
+            <div className="font-medium text-foreground">
+              {certificate.subject}
+              {certificate.email && <span className="font-normal text-muted-foreground"> &lt;{certificate.email}&gt;</span>}
+            </div>
+            <div className="text-muted-foreground">{t("chain.issuer", { issuer: certificate.issuer })}</div>
+            <div className={cn("text-muted-foreground", isExpired && "text-red-600 dark:text-red-400")}>
+              {t("chain.validity", {
+                from: new Date(certificate.notBefore).toLocaleDateString(),
+                to: new Date(certificate.notAfter).toLocaleDateString(),
+              })}
+            </div>
+            <div className="font-mono text-muted-foreground break-all">{formatFingerprint(certificate.fingerprint)}</div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+// Trust badge of an S/MIME message: encryption, signature and the signer's certificate chain
+export function SMIMEStatus({ protection, className }: SMIMEStatusProps) {
+  const t = useTranslations("smime");
+  const [showChain, setShowChain] = useState(false);
+  const { status, isEncrypted, signature } = protection;
+
+  if (status === "plain") return null;
+
+  if (status === "loading") {
+    return (
+      <div className={cn("mb-4 flex items-center gap-2 text-sm text-muted-foreground", className)}>
+        <Loader2 className="w-4 h-4 animate-spin" />
+        {t("opening")}
+      </div>
+    );
+  }
+
+  if (status === "locked" || status === "no-key" || status === "failed") {
+    return (
+      <div className={cn("mb-4 rounded-lg border border-border bg-background p-4 space-y-3", className)}>
+        <div className="flex items-start gap-2 text-sm">
+          {status === "failed"
+            ? <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-600 dark:text-red-400" />
+            : <Lock className="w-4 h-4 mt-0.5 flex-shrink-0 text-muted-foreground" />}
+          <div className="min-w-0">
+            <div className="font-medium text-foreground">
+              {status === "failed" ? t("failed") : t("encrypted_locked")}
+            </div>
+            <div className="text-muted-foreground break-words">
+              {status === "locked" && t("locked_hint")}
+              {status === "no-key" && t("no_certificate_hint", { serials: protection.neededKeyIds?.join(", ") || "" })}
+              {status === "failed" && protection.error}
+            </div>
+          </div>
+        </div>
+        {status === "locked" && <SMIMEUnlockForm />}
+      </div>
+    );
+  }
+
+  const signatureStyle = signature && SIGNATURE_STYLES[signature.state];
+  const SignatureIcon = signatureStyle?.icon;
+  const signer = signature?.signer
+    ? signature.signer.email ? `${signature.signer.subject} <${signature.signer.email}>` : signature.signer.subject
+    : "";
+
+  return (
+    <div className={cn("mb-4 rounded-lg border border-border bg-background px-4 py-2.5 space-y-2", className)}>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+        {isEncrypted && (
+          <span className="flex items-center gap-1.5 text-green-700 dark:text-green-400">
+            <LockOpen className="w-4 h-4" />
+            {t("encrypted")}
+          </span>
+        )}
+        {signature && SignatureIcon ? (
+          <span className={cn("flex items-center gap-1.5 min-w-0", signatureStyle.color)} title={signature.error}>
+            <SignatureIcon className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">{t(`signature.${signature.state}`, { signer })}</span>
+          </span>
+        ) : (
+          <span className="text-muted-foreground">{t("unsigned")}</span>
+        )}
+        {signature && signature.chain.length > 0 && (
+          <button
+            onClick={() => setShowChain(!showChain)}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+            aria-expanded={showChain}
+          >
+            {showChain ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+            {t("chain.title")}
+          </button>
+        )}
+      </div>
+
+      {showChain && signature && (
+        <div className="space-y-2 pt-1">
+          {signature.error && <p className="text-xs text-amber-700 dark:text-amber-400">{signature.error}</p>}
+          <CertificateChain chain={signature.chain} />
+        </div>
+      )}
+
+      <DecryptedAttachments attachments={protection.attachments} />
+    </div>
+  );
+}
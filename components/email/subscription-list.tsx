@@ -0,0 +1,224 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Archive, CheckSquare, Loader2, MailMinus, MailX, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn, formatDate } from "@/lib/utils";
+import type { Subscription } from "@/lib/subscription-types";
+import { useAuthStore } from "@/stores/auth-store";
+import { useEmailStore } from "@/stores/email-store";
+import { useSubscriptionStore } from "@/stores/subscription-store";
+import { toast } from "@/stores/toast-store";
+
+interface SubscriptionListProps {
+  subscriptions: Subscription[];
+}
+
+// Mailing lists found in the mailbox, each with its volume and ways to get rid of it
+export function SubscriptionList({ subscriptions }: SubscriptionListProps) {
+  const t = useTranslations("subscriptions");
+  const { client, identities } = useAuthStore();
+  const mailboxes = useEmailStore((state) => state.mailboxes);
+  const { unsubscribe, archiveList, unsubscribed } = useSubscriptionStore();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+
+  const selected = subscriptions.filter((s) => selectedIds.has(s.listId));
+  const allSelected = subscriptions.length > 0 && selected.length === subscriptions.length;
+
+  const setBusy = (listIds: string[], busy: boolean) => {
+    setBusyIds((prev) => {
+      const next = new Set(prev);
+      listIds.forEach((id) => (busy ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const toggleSelection = (listId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(listId)) {
+        next.delete(listId);
+      } else {
+        next.add(listId);
+      }
+      return next;
+    });
+  };
+
+  // Unsubscribe from each list in turn; errors are collected so one failure doesn't stop the rest
+  const runUnsubscribe = async (targets: Subscription[]) => {
+    if (!client) return { done: 0, failed: [] as string[] };
+    let done = 0;
+    const failed: string[] = [];
+    setBusy(targets.map((s) => s.listId), true);
+    for (const subscription of targets) {
+      if (!subscription.unsubscribe) continue;
+      try {
+        const result = await unsubscribe(
+          client,
+          { listId: subscription.listId, method: subscription.unsubscribe, recipients: subscription.recipients },
+          identities
+        );
+        if (result === "done") done++;
+      } catch (error) {
+        console.error(`Failed to unsubscribe from ${subscription.listId}:`, error);
+        failed.push(subscription.name);
+      } finally {
+        setBusy([subscription.listId], false);
+      }
+    }
+    return { done, failed };
+  };
+
+  const handleUnsubscribe = async (subscription: Subscription) => {
+    if (subscription.unsubscribe?.type !== "link" && !window.confirm(t("confirm", { name: subscription.name }))) return;
+    const { done, failed } = await runUnsubscribe([subscription]);
+    if (done > 0) toast.success(t("unsubscribed", { name: subscription.name }));
+    if (failed.length > 0) toast.error(t("unsubscribe_failed"), failed.join(", "));
+  };
+
+  const handleBulkUnsubscribe = async () => {
+    // Sender pages would each open a tab, those are left to be done one by one
+    const targets = selected.filter((s) => s.unsubscribe && s.unsubscribe.type !== "link" && !unsubscribed[s.listId]);
+    const skipped = selected.filter((s) => s.unsubscribe?.type === "link").length;
+    if (targets.length === 0) {
+      if (skipped > 0) toast.info(t("bulk_skipped", { count: skipped }));
+      return;
+    }
+    if (!window.confirm(t("confirm_bulk", { count: targets.length }))) return;
+
+    const { done, failed } = await runUnsubscribe(targets);
+    if (done > 0) toast.success(t("bulk_done", { count: done }));
+    if (failed.length > 0) toast.error(t("unsubscribe_failed"), failed.join(", "));
+    if (skipped > 0) toast.info(t("bulk_skipped", { count: skipped }));
+    setSelectedIds(new Set());
+  };
+
+  const handleArchive = async (targets: Subscription[]) => {
+    if (!client || targets.length === 0) return;
+    let archived = 0;
+    let failed = 0;
+    setBusy(targets.map((s) => s.listId), true);
+    try {
+      for (const subscription of targets) {
+        const result = await archiveList(client, subscription.listId, mailboxes);
+        archived += result.archived;
+        failed += result.failed.length;
+        setBusy([subscription.listId], false);
+      }
+      if (archived > 0 || failed === 0) toast.success(t("archived", { count: archived }));
+      if (failed > 0) toast.error(t("archive_partial", { count: failed }));
+    } catch (error) {
+      toast.error(t("archive_failed"), error instanceof Error ? error.message : undefined);
+    } finally {
+      setBusy(targets.map((s) => s.listId), false);
+    }
+  };
+
+  if (subscriptions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center text-muted-foreground">
+        <MailMinus className="w-10 h-10 mb-3 opacity-50" />
+        <p className="text-sm">{t("empty")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Bulk actions */}
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-border min-h-[48px]">
+        <button
+          onClick={() => setSelectedIds(allSelected ? new Set() : new Set(subscriptions.map((s) => s.listId)))}
+          className="p-1 rounded hover:bg-muted"
+          aria-label={t("select_all")}
+          title={t("select_all")}
+        >
+          {allSelected ? <CheckSquare className="w-4 h-4 text-primary" /> : <Square className="w-4 h-4 text-muted-foreground" />}
+        </button>
+        {selected.length > 0 ? (
+          <>
+            <span className="text-sm text-muted-foreground mr-auto">{t("selected", { count: selected.length })}</span>
+            <Button variant="outline" size="sm" onClick={handleBulkUnsubscribe} disabled={busyIds.size > 0}>
+              <MailMinus className="w-4 h-4 mr-1.5" />
+              {t("unsubscribe")}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleArchive(selected)} disabled={busyIds.size > 0}>
+              <Archive className="w-4 h-4 mr-1.5" />
+              {t("archive_all")}
+            </Button>
+          </>
+        ) : (
+          <span className="text-sm text-muted-foreground">{t("count", { count: subscriptions.length })}</span>
+        )}
+      </div>
+
+      {subscriptions.map((subscription) => {
+        const isBusy = busyIds.has(subscription.listId);
+        const isUnsubscribed = !!unsubscribed[subscription.listId];
+        const isChecked = selectedIds.has(subscription.listId);
+
+        return (
+          <div
+            key={subscription.listId}
+            className={cn(
+              "flex items-center gap-3 px-4 py-3 border-b border-border",
+              isChecked && "bg-accent/40"
+            )}
+          >
+            <button
+              onClick={() => toggleSelection(subscription.listId)}
+              className="p-1 rounded hover:bg-muted flex-shrink-0"
+              aria-label={subscription.name}
+            >
+              {isChecked ? <CheckSquare className="w-4 h-4 text-primary" /> : <Square className="w-4 h-4 text-muted-foreground" />}
+            </button>
+
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-foreground truncate">{subscription.name}</div>
+              <div className="text-xs text-muted-foreground truncate">
+                {subscription.senderEmail || subscription.listId}
+              </div>
+            </div>
+
+            <div className="hidden sm:block w-28 text-right text-xs text-muted-foreground tabular-nums">
+              {t("messages", { count: subscription.emailCount })}
+            </div>
+            <div className="hidden md:block w-28 text-right text-xs text-muted-foreground tabular-nums">
+              {formatDate(subscription.lastReceivedAt)}
+            </div>
+
+            <div className="flex items-center gap-1 flex-shrink-0">
+              {isUnsubscribed ? (
+                <span className="flex items-center gap-1 text-xs text-muted-foreground px-2">
+                  <MailX className="w-3.5 h-3.5" />
+                  {t("status_unsubscribed")}
+                </span>
+              ) : subscription.unsubscribe ? (
+                <Button variant="ghost" size="sm" onClick={() => handleUnsubscribe(subscription)} disabled={isBusy}>
+                  {isBusy && <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />}
+                  {t("unsubscribe")}
+                </Button>
+              ) : (
+                <span className="text-xs text-muted-foreground px-2">{t("no_unsubscribe")}</span>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => handleArchive([subscription])}
+                disabled={isBusy}
+                title={t("archive_all")}
+                aria-label={t("archive_all")}
+              >
+                <Archive className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -32,6 +32,10 @@ import {
 import { useTranslations } from "next-intl";
 import { useSettingsStore } from "@/stores/settings-store";
 import { useAuthStore } from "@/stores/auth-store";
+import { useOpenPGPMessage } from "@/hooks/use-openpgp-message";
+import { OpenPGPStatus } from "./openpgp-status";
+import { useSMIMEMessage } from "@/hooks/use-smime-message";
+import { SMIMEStatus } from "./smime-status";
 
 interface ThreadConversationViewProps {
   thread: ThreadGroup;
@@ -208,7 +212,7 @@ interface EmailCardProps {
 }
 
 function EmailCard({
-  email,
+  email: sourceEmail,
   isExpanded,
   isLatest: _isLatest,
   allowExternal,
@@ -221,6 +225,10 @@ function EmailCard({
   onDownloadAttachment,
   onMarkAsRead,
 }: EmailCardProps) {
+  // Collapsed cards are only decrypted once they are opened
+  const { email: pgpEmail, protection } = useOpenPGPMessage(sourceEmail, isExpanded);
+  const { email: openedEmail, protection: smimeProtection } = useSMIMEMessage(pgpEmail, isExpanded);
+  const email = openedEmail || sourceEmail;
   const t = useTranslations();
   const sender = email.from?.[0];
   const isUnread = !email.keywords?.$seen;
@@ -270,7 +278,7 @@ function EmailCard({
         setIsLoadingRawSource(true);
         setFetchError(null);
         try {
-          const raw = await client.getRawEmail(email.id);
+          const raw = await client.getRawEmail(email.id, email.accountId);
           setFullRawSource(raw);
           setRawSource(raw); // Keep for compatibility with modal logic if needed
         } catch (error) {
@@ -611,6 +619,13 @@ function EmailCard({
               </div>
             )}
 
+            {!showHeadersInline && !showRawInline && protection && (
+              <OpenPGPStatus protection={protection} />
+            )}
+            {!showHeadersInline && !showRawInline && smimeProtection && (
+              <SMIMEStatus protection={smimeProtection} />
+            )}
+
             {!showHeadersInline && !showRawInline && (
               <div
                 className={cn(
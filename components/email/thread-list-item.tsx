@@ -8,8 +8,11 @@ import { Favicon } from "@/components/favicon";
 import { Paperclip, Star, Circle, ChevronRight, ChevronDown, Loader2 } from "lucide-react";
 import { useSettingsStore } from "@/stores/settings-store";
 import { useUIStore } from "@/stores/ui-store";
+import { useEmailStore } from "@/stores/email-store";
 import { getThreadColorTag } from "@/lib/thread-utils";
 import { ThreadEmailItem } from "./thread-email-item";
+import { EmailAccountBadge } from "./email-account-badge";
+import { SearchSnippetText } from "./search-snippet";
 
 interface ThreadListItemProps {
   thread: ThreadGroup;
@@ -48,6 +51,7 @@ export function ThreadListItem({
   const showPreview = useSettingsStore((state) => state.showPreview);
   const isMobile = useUIStore((state) => state.isMobile);
   const { latestEmail, participantNames, hasUnread, hasStarred, hasAttachment, emailCount } = thread;
+  const snippet = useEmailStore((state) => state.searchSnippets[latestEmail.id]);
 
   // Get color tag from thread
   const threadColor = getThreadColorTag(thread.emails);
@@ -193,6 +197,7 @@ export function ThreadListItem({
                 )}>
                   {participantNames.join(", ")}
                 </span>
+                <EmailAccountBadge accountId={latestEmail.accountId} />
                 {/* Email count badge */}
                 {emailCount > 1 && (
                   <span className={cn(
@@ -230,7 +235,7 @@ export function ThreadListItem({
                 ? "font-semibold text-foreground"
                 : "font-normal text-foreground/90"
             )}>
-              {latestEmail.subject || "(no subject)"}
+              <SearchSnippetText snippet={snippet?.subject} fallback={latestEmail.subject || "(no subject)"} />
             </div>
 
             {/* Third Line: Preview */}
@@ -241,7 +246,7 @@ export function ThreadListItem({
                   ? "text-muted-foreground"
                   : "text-muted-foreground/80"
               )}>
-                {latestEmail.preview || "No preview available"}
+                <SearchSnippetText snippet={snippet?.preview} fallback={latestEmail.preview || "No preview available"} />
               </p>
             )}
           </div>
@@ -298,6 +303,7 @@ function SingleEmailItem({
   const isUnread = !email.keywords?.$seen;
   const isStarred = email.keywords?.$flagged;
   const sender = email.from?.[0];
+  const snippet = useEmailStore((state) => state.searchSnippets[email.id]);
 
   const handleContextMenu = (e: React.MouseEvent) => {
     onContextMenu?.(e, email);
@@ -367,6 +373,7 @@ function SingleEmailItem({
               )}>
                 {sender?.name || sender?.email || "Unknown"}
               </span>
+              <EmailAccountBadge accountId={email.accountId} />
               <div className="flex items-center gap-1.5">
                 {isStarred && (
                   <Star className="w-3.5 h-3.5 fill-amber-400 text-amber-400" />
@@ -393,7 +400,7 @@ function SingleEmailItem({
               ? "font-semibold text-foreground"
               : "font-normal text-foreground/90"
           )}>
-            {email.subject || "(no subject)"}
+            <SearchSnippetText snippet={snippet?.subject} fallback={email.subject || "(no subject)"} />
           </div>
 
           {/* Third Line: Preview */}
@@ -404,7 +411,7 @@ function SingleEmailItem({
                 ? "text-muted-foreground"
                 : "text-muted-foreground/80"
             )}>
-              {email.preview || "No preview available"}
+              <SearchSnippetText snippet={snippet?.preview} fallback={email.preview || "No preview available"} />
             </p>
           )}
         </div>
@@ -0,0 +1,89 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Loader2, MailMinus, MailX } from "lucide-react";
+import type { Email } from "@/lib/jmap/types";
+import { extractListHeaders, getUnsubscribeMethod, parseListId } from "@/lib/email-headers";
+import type { UnsubscribeTarget } from "@/lib/subscription-types";
+import { useAuthStore } from "@/stores/auth-store";
+import { useSubscriptionStore } from "@/stores/subscription-store";
+import { toast } from "@/stores/toast-store";
+
+interface UnsubscribeBannerProps {
+  email: Email;
+}
+
+// Offers to leave the mailing list a message came from, using its List-Unsubscribe header
+export function UnsubscribeBanner({ email }: UnsubscribeBannerProps) {
+  const t = useTranslations("subscriptions");
+  const { client, identities } = useAuthStore();
+  const { unsubscribe, unsubscribed } = useSubscriptionStore();
+  const [isUnsubscribing, setIsUnsubscribing] = useState(false);
+
+  const list = useMemo(() => {
+    if (!email.headers) return null;
+    const headers = extractListHeaders(email.headers);
+    const method = getUnsubscribeMethod(headers.listUnsubscribe || [], headers.listUnsubscribePost);
+    if (!method) return null;
+
+    const listId = headers.listId ? parseListId(headers.listId) : null;
+    const sender = email.from?.[0];
+    const target: UnsubscribeTarget = {
+      // Lists without List-Id are remembered by their sender
+      listId: listId?.id || sender?.email?.toLowerCase() || email.id,
+      method,
+      recipients: [...(email.to || []), ...(email.cc || [])].map((addr) => addr.email.toLowerCase()),
+    };
+    return { target, name: listId?.name || sender?.name || sender?.email || listId?.id || "" };
+  }, [email]);
+
+  if (!list) return null;
+
+  const handleUnsubscribe = async () => {
+    if (!client) return;
+    if (list.target.method.type !== "link" && !window.confirm(t("confirm", { name: list.name }))) return;
+
+    setIsUnsubscribing(true);
+    try {
+      const result = await unsubscribe(client, list.target, identities);
+      if (result === "done") {
+        toast.success(t("unsubscribed", { name: list.name }));
+      }
+    } catch (error) {
+      toast.error(t("unsubscribe_failed"), error instanceof Error ? error.message : undefined);
+    } finally {
+      setIsUnsubscribing(false);
+    }
+  };
+
+  if (unsubscribed[list.target.listId]) {
+    return (
+      <div className="border-b border-border">
+        <div className="max-w-4xl mx-auto px-6 py-2 flex items-center gap-2 text-sm text-muted-foreground">
+          <MailX className="w-4 h-4 flex-shrink-0" />
+          <span className="truncate">{t("already_unsubscribed", { name: list.name })}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-b border-border">
+      <div className="max-w-4xl mx-auto px-6 py-2 flex items-center gap-3 text-sm">
+        <MailMinus className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+        <span className="flex-1 min-w-0 truncate text-muted-foreground">
+          {t("from_list", { name: list.name })}
+        </span>
+        <button
+          onClick={handleUnsubscribe}
+          disabled={isUnsubscribing}
+          className="flex items-center gap-1 text-sm font-medium text-foreground hover:underline disabled:opacity-50"
+        >
+          {isUnsubscribing && <Loader2 className="w-3 h-3 animate-spin" />}
+          {t("unsubscribe")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { TreePalm, Loader2 } from "lucide-react";
+import { useRouter } from "@/i18n/navigation";
+import { useAuthStore } from "@/stores/auth-store";
+import { useVacationStore } from "@/stores/vacation-store";
+import { isVacationResponseActive } from "@/lib/vacation-types";
+
+// Reminds the user that automatic replies are going out
+export function VacationBanner() {
+  const t = useTranslations("vacation_banner");
+  const router = useRouter();
+  const { client } = useAuthStore();
+  const { serverResponse, isSaving, disableServerResponse } = useVacationStore();
+
+  if (!isVacationResponseActive(serverResponse)) {
+    return null;
+  }
+
+  const until = serverResponse?.toDate ? new Date(serverResponse.toDate).toLocaleDateString() : null;
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-2 text-sm border-b border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-950/30 text-amber-800 dark:text-amber-200">
+      <TreePalm className="w-4 h-4 flex-shrink-0" />
+      <button
+        onClick={() => router.push("/settings")}
+        className="flex-1 min-w-0 text-left truncate hover:underline"
+      >
+        {until ? t("active_until", { date: until }) : t("active")}
+      </button>
+      <button
+        onClick={() => client && disableServerResponse(client)}
+        disabled={isSaving}
+        className="flex items-center gap-1 text-xs font-medium hover:underline disabled:opacity-50"
+      >
+        {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+        {t("turn_off")}
+      </button>
+    </div>
+  );
+}
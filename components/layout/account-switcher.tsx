@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useRouter } from "@/i18n/navigation";
+import { Check, ChevronDown, LogOut, UserPlus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AccountCredentials } from "@/lib/multi-account-types";
+import { useAuthStore } from "@/stores/auth-store";
+import { useEmailStore } from "@/stores/email-store";
+import { useMultiAccountStore } from "@/stores/multi-account-store";
+import { toast } from "@/stores/toast-store";
+
+interface AccountSwitcherProps {
+  className?: string;
+}
+
+const getInitial = (account: AccountCredentials) =>
+  (account.displayName || account.email || account.username).charAt(0).toUpperCase();
+
+const getServerName = (url: string) => url.replace(/^https?:\/\//, "").replace(/\/.*$/, "");
+
+function UnreadBadge({ count }: { count: number }) {
+  if (count <= 0) return null;
+  return (
+    <span className="text-xs rounded-full px-2 py-0.5 font-medium bg-foreground text-background">
+      {count > 999 ? "999+" : count}
+    </span>
+  );
+}
+
+// Signed-in accounts with their inbox unread count, shown on top of the sidebar
+export function AccountSwitcher({ className }: AccountSwitcherProps) {
+  const t = useTranslations("sidebar.accounts");
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { activeAccountId, connections, switchAccount, logout } = useAuthStore();
+  const { accounts } = useMultiAccountStore();
+  const mailboxes = useEmailStore((state) => state.mailboxes);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const activeAccount = accounts.find((a) => a.id === activeAccountId);
+  if (!activeAccount) return null;
+
+  // The shown account's count comes from the live mailbox list
+  const getUnreadCount = (account: AccountCredentials) => {
+    if (account.id === activeAccountId) {
+      const inbox = mailboxes.find((mb) => mb.role === "inbox" && !mb.isShared);
+      return inbox?.unreadEmails || 0;
+    }
+    return connections[account.id]?.unreadCount || 0;
+  };
+
+  const otherUnread = accounts
+    .filter((a) => a.id !== activeAccountId)
+    .reduce((total, a) => total + getUnreadCount(a), 0);
+
+  const handleSelect = async (account: AccountCredentials) => {
+    setIsOpen(false);
+    if (account.id === activeAccountId) return;
+
+    // Accounts that weren't remembered need to sign in again after a reload
+    if (!connections[account.id]) {
+      const params = new URLSearchParams({ add: "1", server: account.jmapServer, username: account.username });
+      router.push(`/login?${params.toString()}`);
+      return;
+    }
+
+    if (!(await switchAccount(account.id))) {
+      toast.error(t("switch_failed"));
+    }
+  };
+
+  const handleSignOut = (account: AccountCredentials) => {
+    setIsOpen(false);
+    const isLast = Object.keys(connections).every((id) => id === account.id);
+    if (connections[account.id]) {
+      logout(account.id);
+    } else {
+      useMultiAccountStore.getState().deleteAccount(account.id);
+    }
+    if (isLast && account.id === activeAccountId) {
+      router.push("/login");
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={cn("relative", className)}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-4 py-2 hover:bg-muted transition-colors text-left"
+        aria-expanded={isOpen}
+        title={t("switch")}
+      >
+        <span className="w-7 h-7 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-sm font-medium flex-shrink-0">
+          {getInitial(activeAccount)}
+        </span>
+        <span className="flex-1 min-w-0">
+          <span className="block text-sm font-medium text-foreground truncate">
+            {activeAccount.displayName || activeAccount.email}
+          </span>
+          {activeAccount.displayName && (
+            <span className="block text-xs text-muted-foreground truncate">{activeAccount.email}</span>
+          )}
+        </span>
+        {otherUnread > 0 && (
+          <span className="w-2 h-2 rounded-full bg-primary flex-shrink-0" title={t("other_unread", { count: otherUnread })} />
+        )}
+        <ChevronDown className={cn("w-4 h-4 text-muted-foreground transition-transform", isOpen && "rotate-180")} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-2 right-2 top-full mt-1 bg-background border border-border rounded-md shadow-lg z-50 py-1">
+          {accounts.map((account) => {
+            const isSignedIn = !!connections[account.id];
+            return (
+              <div key={account.id} className="group flex items-center hover:bg-muted transition-colors">
+                <button
+                  onClick={() => handleSelect(account)}
+                  className="flex-1 min-w-0 flex items-center gap-2 px-3 py-2 text-left"
+                >
+                  <span
+                    className={cn(
+                      "w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium flex-shrink-0",
+                      isSignedIn ? "bg-primary/15 text-primary" : "bg-muted text-muted-foreground"
+                    )}
+                  >
+                    {getInitial(account)}
+                  </span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm text-foreground truncate">{account.email}</span>
+                    <span className="block text-xs text-muted-foreground truncate">
+                      {isSignedIn ? getServerName(account.jmapServer) : t("signed_out")}
+                    </span>
+                  </span>
+                  {account.id === activeAccountId
+                    ? <Check className="w-4 h-4 text-primary flex-shrink-0" />
+                    : <UnreadBadge count={getUnreadCount(account)} />}
+                </button>
+                <button
+                  onClick={() => handleSignOut(account)}
+                  className="p-2 mr-1 rounded text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  title={t("sign_out")}
+                  aria-label={t("sign_out")}
+                >
+                  <LogOut className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            );
+          })}
+
+          <div className="border-t border-border mt-1 pt-1">
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                router.push("/login?add=1");
+              }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-foreground hover:bg-muted transition-colors"
+            >
+              <UserPlus className="w-4 h-4" />
+              {t("add")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Mailbox } from "@/lib/jmap/types";
+import {
+  ContextMenu,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSubMenu,
+  ContextMenuHeader,
+} from "@/components/ui/context-menu";
+import { FolderPlus, Pencil, Trash2, Tag, Check, Bell, BellOff } from "lucide-react";
+import { ASSIGNABLE_MAILBOX_ROLES } from "@/lib/mailbox-utils";
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+interface MailboxContextMenuProps {
+  mailbox: Mailbox;
+  hasChildren: boolean;
+  position: Position;
+  isOpen: boolean;
+  onClose: () => void;
+  menuRef: React.RefObject<HTMLDivElement | null>;
+  onNewSubfolder: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+  onToggleSubscribed: () => void;
+  onSetRole: (role: string | null) => void;
+}
+
+export function MailboxContextMenu({
+  mailbox,
+  hasChildren,
+  position,
+  isOpen,
+  onClose,
+  menuRef,
+  onNewSubfolder,
+  onRename,
+  onDelete,
+  onToggleSubscribed,
+  onSetRole,
+}: MailboxContextMenuProps) {
+  const t = useTranslations("sidebar.mailbox_actions");
+  const rights = mailbox.myRights;
+
+  // Core roles (inbox, sent, ...) stay where the server put them
+  const canChangeRole = rights.mayRename &&
+    (!mailbox.role || (ASSIGNABLE_MAILBOX_ROLES as readonly string[]).includes(mailbox.role));
+
+  const handleAction = (action: () => void) => {
+    action();
+    onClose();
+  };
+
+  return (
+    <ContextMenu
+      ref={menuRef}
+      isOpen={isOpen}
+      position={position}
+      onClose={onClose}
+    >
+      <ContextMenuHeader>{mailbox.name}</ContextMenuHeader>
+
+      <ContextMenuItem
+        icon={FolderPlus}
+        label={t("new_subfolder")}
+        onClick={() => handleAction(onNewSubfolder)}
+        disabled={!rights.mayCreateChild}
+      />
+      <ContextMenuItem
+        icon={Pencil}
+        label={t("rename")}
+        onClick={() => handleAction(onRename)}
+        disabled={!rights.mayRename}
+      />
+
+      {canChangeRole && (
+        <ContextMenuSubMenu icon={Tag} label={t("set_role")}>
+          {ASSIGNABLE_MAILBOX_ROLES.map((role) => (
+            <ContextMenuItem
+              key={role}
+              icon={mailbox.role === role ? Check : undefined}
+              label={t(`roles.${role}`)}
+              onClick={() => handleAction(() => onSetRole(role))}
+              disabled={mailbox.role === role}
+            />
+          ))}
+          {mailbox.role && (
+            <>
+              <ContextMenuSeparator />
+              <ContextMenuItem
+                label={t("role_none")}
+                onClick={() => handleAction(() => onSetRole(null))}
+              />
+            </>
+          )}
+        </ContextMenuSubMenu>
+      )}
+
+      {mailbox.isShared && (
+        <ContextMenuItem
+          icon={mailbox.isSubscribed ? BellOff : Bell}
+          label={mailbox.isSubscribed ? t("unsubscribe") : t("subscribe")}
+          onClick={() => handleAction(onToggleSubscribed)}
+        />
+      )}
+
+      <ContextMenuSeparator />
+
+      <ContextMenuItem
+        icon={Trash2}
+        label={hasChildren ? t("delete_has_children") : t("delete")}
+        onClick={() => handleAction(onDelete)}
+        disabled={!rights.mayDelete || hasChildren || mailbox.role === "inbox"}
+        destructive
+      />
+    </ContextMenu>
+  );
+}
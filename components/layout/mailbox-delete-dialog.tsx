@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Mailbox } from "@/lib/jmap/types";
+
+interface MailboxDeleteDialogProps {
+  mailbox: Mailbox;
+  onConfirm: (removeEmails: boolean) => Promise<void>;
+  onClose: () => void;
+}
+
+export function MailboxDeleteDialog({ mailbox, onConfirm, onClose }: MailboxDeleteDialogProps) {
+  const t = useTranslations("sidebar.mailbox_actions");
+  const [removeEmails, setRemoveEmails] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasEmails = mailbox.totalEmails > 0;
+
+  const handleConfirm = async () => {
+    setIsDeleting(true);
+    setError(null);
+    try {
+      await onConfirm(removeEmails);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-card border border-border rounded-lg shadow-lg w-full max-w-md">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <h3 className="font-semibold text-foreground truncate">
+            {t("delete_title", { name: mailbox.name })}
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-muted rounded transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 text-sm">
+          <p className="text-muted-foreground">{t("delete_description")}</p>
+
+          {hasEmails && (
+            <>
+              <label className="flex items-start gap-2 text-foreground">
+                <input
+                  type="checkbox"
+                  checked={removeEmails}
+                  onChange={(e) => setRemoveEmails(e.target.checked)}
+                  className="mt-0.5"
+                />
+                <span>
+                  {t("delete_emails", { count: mailbox.totalEmails })}
+                  <span className="block text-xs text-muted-foreground">{t("delete_emails_hint")}</span>
+                </span>
+              </label>
+              {!removeEmails && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">{t("keep_emails_warning")}</p>
+              )}
+            </>
+          )}
+
+          {error && (
+            <p className="p-2 rounded-md bg-red-500/10 text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-border">
+          <Button variant="outline" size="sm" onClick={onClose} disabled={isDeleting}>
+            {t("cancel")}
+          </Button>
+          <Button variant="destructive" size="sm" onClick={handleConfirm} disabled={isDeleting}>
+            {isDeleting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t("delete")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
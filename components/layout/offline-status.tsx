@@ -0,0 +1,76 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { AlertTriangle, CloudOff, RefreshCw, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { OutboxEntry } from "@/lib/offline-types";
+import { useServiceWorker } from "@/hooks/use-service-worker";
+import { useAuthStore } from "@/stores/auth-store";
+import { useOutboxStore } from "@/stores/outbox-store";
+
+interface OfflineStatusProps {
+  className?: string;
+}
+
+// Offline notice, queued changes and the ones that couldn't be applied, shown in the sidebar
+export function OfflineStatus({ className }: OfflineStatusProps) {
+  const t = useTranslations("offline");
+  const { isOnline } = useServiceWorker();
+  const client = useAuthStore((state) => state.client);
+  const { entries, isReplaying, retry, discard } = useOutboxStore();
+
+  const pendingCount = entries.filter((e) => e.status === "pending").length;
+  const problems = entries.filter((e) => e.status !== "pending");
+
+  if (isOnline && pendingCount === 0 && problems.length === 0) return null;
+
+  const getReason = (entry: OutboxEntry) => {
+    if (entry.status === "failed") return t("failed", { error: entry.error || "" });
+    return t(`conflict_${entry.conflict || "deleted"}`);
+  };
+
+  return (
+    <div className={cn("px-3 py-2 space-y-1.5 text-xs", className)}>
+      {!isOnline && (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <CloudOff className="w-3.5 h-3.5 flex-shrink-0" />
+          <span>{t("showing_cached")}</span>
+        </div>
+      )}
+      {pendingCount > 0 && (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <RefreshCw className={cn("w-3.5 h-3.5 flex-shrink-0", isReplaying && "animate-spin")} />
+          <span>{isReplaying ? t("replaying") : t("pending", { count: pendingCount })}</span>
+        </div>
+      )}
+      {problems.map((entry) => (
+        <div key={entry.id} className="flex items-start gap-2 text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="font-medium">{t(`action_${entry.action.type}`)}</div>
+            <div className="text-muted-foreground break-words">{getReason(entry)}</div>
+            <div className="flex gap-3 mt-1">
+              {client && isOnline && (
+                <button
+                  type="button"
+                  onClick={() => retry(client, entry.id)}
+                  className="font-medium hover:underline"
+                >
+                  {t("retry")}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => discard(entry.id)}
+                className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground"
+              >
+                <X className="w-3 h-3" />
+                {t("discard")}
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
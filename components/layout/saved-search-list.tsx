@@ -0,0 +1,217 @@
+"use client";
+
+import { useState, DragEvent } from "react";
+import { useTranslations } from "next-intl";
+import { ArrowDown, ArrowUp, Pencil, Search, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  ContextMenu,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuHeader,
+} from "@/components/ui/context-menu";
+import { useContextMenu } from "@/hooks/use-context-menu";
+import { cn } from "@/lib/utils";
+import { getSavedSearchId, toSavedSearchView } from "@/lib/mailbox-utils";
+import type { SavedSearch } from "@/lib/advanced-search-types";
+import { useAdvancedSearchStore } from "@/stores/advanced-search-store";
+import { useEmailStore } from "@/stores/email-store";
+import { toast } from "@/stores/toast-store";
+
+interface SavedSearchListProps {
+  selectedMailbox: string;
+  onMailboxSelect?: (mailboxId: string) => void;
+  isCollapsed: boolean;
+}
+
+// Saved searches under the mailbox tree, opened like folders; drag or use the menu to reorder
+export function SavedSearchList({ selectedMailbox, onMailboxSelect, isCollapsed }: SavedSearchListProps) {
+  const t = useTranslations("sidebar.saved_searches");
+  const { savedSearches, updateSavedSearch, deleteSavedSearch, moveSavedSearch } = useAdvancedSearchStore();
+  const mailboxes = useEmailStore((state) => state.mailboxes);
+  const { contextMenu, openContextMenu, closeContextMenu, menuRef } = useContextMenu<SavedSearch>();
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  if (savedSearches.length === 0) return null;
+
+  const contextSearch = contextMenu.data;
+  const contextIndex = contextSearch ? savedSearches.findIndex((s) => s.id === contextSearch.id) : -1;
+
+  const handleRename = (search: SavedSearch, name: string) => {
+    setRenamingId(null);
+    if (name && name !== search.name) {
+      updateSavedSearch(search.id, { name });
+    }
+  };
+
+  const handleDelete = (search: SavedSearch) => {
+    deleteSavedSearch(search.id);
+    toast.success(t("deleted", { name: search.name }));
+    // Its list is gone, fall back to the inbox
+    if (getSavedSearchId(selectedMailbox) === search.id) {
+      const inbox = mailboxes.find((mb) => mb.role === "inbox" && !mb.isShared);
+      if (inbox) onMailboxSelect?.(inbox.id);
+    }
+  };
+
+  const dropHandlers = (index: number) => ({
+    onDragOver: (e: DragEvent<HTMLDivElement>) => {
+      if (!draggedId) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      setDropIndex(index);
+    },
+    onDrop: (e: DragEvent<HTMLDivElement>) => {
+      if (!draggedId) return;
+      e.preventDefault();
+      // Dropping below itself shifts the target up by one once it's removed
+      const from = savedSearches.findIndex((s) => s.id === draggedId);
+      moveSavedSearch(draggedId, from < index ? index - 1 : index);
+      setDraggedId(null);
+      setDropIndex(null);
+    },
+  });
+
+  return (
+    <div className="mt-1">
+      {!isCollapsed && (
+        <>
+          <div className="mx-3 my-1 border-t border-border" />
+          <div className="px-3 pt-1 pb-0.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+            {t("title")}
+          </div>
+        </>
+      )}
+
+      {savedSearches.map((search, index) => {
+        const view = toSavedSearchView(search.id);
+        const isSelected = selectedMailbox === view;
+
+        if (renamingId === search.id && !isCollapsed) {
+          return (
+            <div key={search.id} className="px-2 py-1 pl-8">
+              <Input
+                autoFocus
+                defaultValue={search.name}
+                onFocus={(e) => e.target.select()}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    handleRename(search, e.currentTarget.value.trim());
+                  } else if (e.key === "Escape") {
+                    setRenamingId(null);
+                  }
+                }}
+                onBlur={() => setRenamingId(null)}
+                className="h-7 text-xs sm:text-sm"
+              />
+            </div>
+          );
+        }
+
+        return (
+          <div
+            key={search.id}
+            {...dropHandlers(index)}
+            draggable={!isCollapsed}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              e.dataTransfer.setData("application/x-saved-search-id", search.id);
+              setDraggedId(search.id);
+            }}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setDropIndex(null);
+            }}
+            onContextMenu={(e) => openContextMenu(e, search)}
+            className={cn(
+              "border-t-2 border-transparent",
+              draggedId && dropIndex === index && draggedId !== search.id && "border-primary",
+              draggedId === search.id && "opacity-50"
+            )}
+          >
+            <button
+              onClick={() => onMailboxSelect?.(view)}
+              className={cn(
+                "w-full flex items-center px-1.5 sm:px-2 py-1 lg:py-1 max-lg:py-2 max-lg:min-h-[40px] text-xs sm:text-sm transition-all duration-200 text-left",
+                isSelected ? "bg-accent text-accent-foreground" : "hover:bg-muted text-foreground"
+              )}
+              title={isCollapsed ? search.name : `${search.query} · ${t("results", { count: search.resultCount })}`}
+            >
+              <Search className="w-4 h-4 mr-2 ml-7 flex-shrink-0 text-muted-foreground" />
+              {!isCollapsed && (
+                <>
+                  <span className="flex-1 truncate">{search.name}</span>
+                  {search.unreadCount > 0 && (
+                    <span className={cn(
+                      "text-xs rounded-full px-2 py-0.5 ml-2 font-medium",
+                      isSelected ? "bg-primary text-primary-foreground" : "bg-foreground text-background"
+                    )}>
+                      {search.unreadCount}
+                    </span>
+                  )}
+                </>
+              )}
+            </button>
+          </div>
+        );
+      })}
+
+      {/* Drop target after the last saved search */}
+      {draggedId && (
+        <div
+          {...dropHandlers(savedSearches.length)}
+          className={cn("h-2 border-t-2 border-transparent", dropIndex === savedSearches.length && "border-primary")}
+        />
+      )}
+
+      {contextSearch && (
+        <ContextMenu
+          ref={menuRef}
+          isOpen={contextMenu.isOpen}
+          position={contextMenu.position}
+          onClose={closeContextMenu}
+        >
+          <ContextMenuHeader>{contextSearch.name}</ContextMenuHeader>
+          <ContextMenuItem
+            icon={Pencil}
+            label={t("rename")}
+            onClick={() => {
+              setRenamingId(contextSearch.id);
+              closeContextMenu();
+            }}
+          />
+          <ContextMenuItem
+            icon={ArrowUp}
+            label={t("move_up")}
+            onClick={() => {
+              moveSavedSearch(contextSearch.id, contextIndex - 1);
+              closeContextMenu();
+            }}
+            disabled={contextIndex <= 0}
+          />
+          <ContextMenuItem
+            icon={ArrowDown}
+            label={t("move_down")}
+            onClick={() => {
+              moveSavedSearch(contextSearch.id, contextIndex + 1);
+              closeContextMenu();
+            }}
+            disabled={contextIndex >= savedSearches.length - 1}
+          />
+          <ContextMenuSeparator />
+          <ContextMenuItem
+            icon={Trash2}
+            label={t("delete")}
+            onClick={() => {
+              handleDelete(contextSearch);
+              closeContextMenu();
+            }}
+            destructive
+          />
+        </ContextMenu>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, DragEvent } from "react";
 import { useTranslations } from "next-intl";
 import { useRouter } from "@/i18n/navigation";
 import { Button } from "@/components/ui/button";
@@ -13,7 +13,6 @@ import {
   Trash2,
   Archive,
   PenSquare,
-  Search,
   Menu,
   LogOut,
   ChevronRight,
@@ -26,11 +25,31 @@ import {
   User,
   X,
   Calendar,
+  MailMinus,
+  FolderPlus,
+  Clock,
+  Mails,
+  MailOpen,
+  Flag,
+  type LucideIcon,
 } from "lucide-react";
 import { cn, buildMailboxTree, MailboxNode, formatFileSize } from "@/lib/utils";
 import { Mailbox } from "@/lib/jmap/types";
 import { useDragDropContext } from "@/contexts/drag-drop-context";
 import { useMailboxDrop } from "@/hooks/use-mailbox-drop";
+import { useContextMenu } from "@/hooks/use-context-menu";
+import { useAuthStore } from "@/stores/auth-store";
+import { useEmailStore } from "@/stores/email-store";
+import { toast } from "@/stores/toast-store";
+import { canReparentMailbox, isMailboxWithin, type UnifiedView } from "@/lib/mailbox-utils";
+import { MailboxContextMenu } from "./mailbox-context-menu";
+import { MailboxDeleteDialog } from "./mailbox-delete-dialog";
+import { AccountSwitcher } from "./account-switcher";
+import { OfflineStatus } from "./offline-status";
+import { SearchQueryInput } from "@/components/email/search-query-input";
+import { AdvancedSearch } from "@/components/email/advanced-search";
+import { SavedSearchList } from "./saved-search-list";
+import { useAdvancedSearchStore } from "@/stores/advanced-search-store";
 
 interface SidebarProps {
   mailboxes: Mailbox[];
@@ -76,10 +95,71 @@ const getIconForMailbox = (role?: string, name?: string, hasChildren?: boolean,
   if (role === "drafts" || lowerName.includes("draft")) return File;
   if (role === "trash" || lowerName.includes("trash")) return Trash2;
   if (role === "archive" || lowerName.includes("archive")) return Archive;
+  if (role === "scheduled") return Clock;
   if (lowerName.includes("star") || lowerName.includes("flag")) return Star;
   return Inbox; // Default icon
 };
 
+const UNIFIED_VIEW_ITEMS: { id: UnifiedView; icon: LucideIcon; label: "inbox" | "unread" | "flagged" }[] = [
+  { id: "unified:inbox", icon: Mails, label: "inbox" },
+  { id: "unified:unread", icon: MailOpen, label: "unread" },
+  { id: "unified:flagged", icon: Flag, label: "flagged" },
+];
+
+// Inline folder name being typed: a rename, or a new folder under parentId (null = top level)
+type MailboxEdit =
+  | { mode: "rename"; mailboxId: string }
+  | { mode: "create"; parentId: string | null };
+
+// Folder management shared by every node of the tree
+interface MailboxTreeActions {
+  edit: MailboxEdit | null;
+  draggedMailbox: Mailbox | null;
+  onContextMenu: (e: React.MouseEvent, node: MailboxNode) => void;
+  onSubmitName: (name: string) => void;
+  onCancelEdit: () => void;
+  onFolderDragStart: (node: MailboxNode) => void;
+  onFolderDragEnd: () => void;
+  onFolderDrop: (target: MailboxNode | null) => void;
+  canDropFolder: (target: MailboxNode | null) => boolean;
+}
+
+function MailboxNameInput({
+  initialValue = "",
+  indentPixels,
+  onSubmit,
+  onCancel,
+}: {
+  initialValue?: string;
+  indentPixels: number;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}) {
+  const t = useTranslations('sidebar.mailbox_actions');
+  const [value, setValue] = useState(initialValue);
+
+  return (
+    <div className="px-1.5 sm:px-2 py-1" style={{ paddingLeft: indentPixels + 24 }}>
+      <Input
+        autoFocus
+        value={value}
+        placeholder={t('folder_name_placeholder')}
+        onChange={(e) => setValue(e.target.value)}
+        onFocus={(e) => e.target.select()}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && value.trim()) {
+            onSubmit(value.trim());
+          } else if (e.key === 'Escape') {
+            onCancel();
+          }
+        }}
+        onBlur={onCancel}
+        className="h-7 text-xs sm:text-sm"
+      />
+    </div>
+  );
+}
+
 // Component for rendering a single mailbox node with its children
 function MailboxTreeItem({
   node,
@@ -88,6 +168,7 @@ function MailboxTreeItem({
   onMailboxSelect,
   onToggleExpand,
   isCollapsed,
+  actions,
 }: {
   node: MailboxNode;
   selectedMailbox: string;
@@ -95,6 +176,7 @@ function MailboxTreeItem({
   onMailboxSelect?: (id: string) => void;
   onToggleExpand: (id: string) => void;
   isCollapsed: boolean;
+  actions: MailboxTreeActions;
 }) {
   const t = useTranslations('sidebar');
   const hasChildren = node.children.length > 0;
@@ -109,10 +191,60 @@ function MailboxTreeItem({
     mailbox: node,
   });
 
+  // Folder drag (reparenting), separate from email drags
+  const [isFolderOver, setIsFolderOver] = useState(false);
+  const { edit, draggedMailbox } = actions;
+  const isRenaming = edit?.mode === "rename" && edit.mailboxId === node.id;
+  const isCreatingChild = edit?.mode === "create" && edit.parentId === node.id;
+  const canDrag = !isVirtualNode && !isCollapsed && !isRenaming && node.myRights.mayRename;
+  const folderDropValid = !isVirtualNode && actions.canDropFolder(node);
+
+  const folderDropHandlers = {
+    onDragOver: (e: DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = folderDropValid ? "move" : "none";
+    },
+    onDragEnter: (e: DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      setIsFolderOver(true);
+    },
+    onDragLeave: (e: DragEvent<HTMLDivElement>) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+        setIsFolderOver(false);
+      }
+    },
+    onDrop: (e: DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setIsFolderOver(false);
+      if (folderDropValid) actions.onFolderDrop(node);
+    },
+  };
+
+  if (isRenaming) {
+    return (
+      <MailboxNameInput
+        initialValue={node.name}
+        indentPixels={indentPixels}
+        onSubmit={actions.onSubmitName}
+        onCancel={actions.onCancelEdit}
+      />
+    );
+  }
+
   return (
     <>
       <div
         {...(globalDragging ? dropHandlers : {})}
+        {...(draggedMailbox ? folderDropHandlers : {})}
+        draggable={canDrag}
+        onDragStart={canDrag ? (e) => {
+          e.dataTransfer.effectAllowed = "move";
+          e.dataTransfer.setData("application/x-mailbox-id", node.id);
+          actions.onFolderDragStart(node);
+        } : undefined}
+        onDragEnd={canDrag ? actions.onFolderDragEnd : undefined}
+        onContextMenu={isVirtualNode ? undefined : (e) => actions.onContextMenu(e, node)}
         className={cn(
           "group w-full flex items-center px-1.5 sm:px-2 py-1 lg:py-1 max-lg:py-2 max-lg:min-h-[40px] text-xs sm:text-sm transition-all duration-200",
           selectedMailbox === node.id
@@ -120,7 +252,10 @@ function MailboxTreeItem({
             : "hover:bg-muted text-foreground",
           node.depth === 0 && "font-medium",
           isValidDropTarget && "bg-primary/20 ring-2 ring-primary ring-inset",
-          isInvalidDropTarget && "bg-destructive/10 ring-2 ring-destructive/30 ring-inset opacity-50"
+          isInvalidDropTarget && "bg-destructive/10 ring-2 ring-destructive/30 ring-inset opacity-50",
+          isFolderOver && folderDropValid && "bg-primary/20 ring-2 ring-primary ring-inset",
+          draggedMailbox?.id === node.id && "opacity-50",
+          node.isShared && !node.isSubscribed && !isVirtualNode && "opacity-60 italic"
         )}
       >
         {/* Expand/Collapse Chevron */}
@@ -196,10 +331,19 @@ function MailboxTreeItem({
               onMailboxSelect={onMailboxSelect}
               onToggleExpand={onToggleExpand}
               isCollapsed={isCollapsed}
+              actions={actions}
             />
           ))}
         </div>
       )}
+
+      {isCreatingChild && !isCollapsed && (
+        <MailboxNameInput
+          indentPixels={indentPixels + 16}
+          onSubmit={actions.onSubmitName}
+          onCancel={actions.onCancelEdit}
+        />
+      )}
     </>
   );
 }
@@ -220,9 +364,26 @@ export function Sidebar({
 }: SidebarProps) {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [showAdvancedSearch, setShowAdvancedSearch] = useState(false);
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
   const [showMenu, setShowMenu] = useState(false);
+  const [mailboxEdit, setMailboxEdit] = useState<MailboxEdit | null>(null);
+  const [deletingMailbox, setDeletingMailbox] = useState<Mailbox | null>(null);
+  const [draggedMailbox, setDraggedMailbox] = useState<Mailbox | null>(null);
+  const [isOverTopLevel, setIsOverTopLevel] = useState(false);
   const t = useTranslations('sidebar');
+  const tActions = useTranslations('sidebar.mailbox_actions');
+  const tUnified = useTranslations('sidebar.unified');
+  const { client } = useAuthStore();
+  const {
+    createMailbox,
+    renameMailbox,
+    moveMailbox,
+    deleteMailbox,
+    setMailboxSubscribed,
+    setMailboxRole,
+  } = useEmailStore();
+  const { contextMenu, openContextMenu, closeContextMenu, menuRef } = useContextMenu<MailboxNode>();
 
   // Sync local search query with store's active search query
   useEffect(() => {
@@ -264,16 +425,111 @@ export function Sidebar({
     });
   };
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim() && onSearch) {
-      onSearch(searchQuery);
+  // Run a folder operation, reporting failures (e.g. server SetErrors) as a toast
+  const runMailboxAction = async (action: () => Promise<void>) => {
+    if (!client) return;
+    try {
+      await action();
+    } catch (error) {
+      console.error('Mailbox operation failed:', error);
+      toast.error(tActions('failed'), error instanceof Error ? error.message : undefined);
     }
   };
 
+  const startCreate = (parentId: string | null) => {
+    if (parentId && !expandedFolders.has(parentId)) {
+      handleToggleExpand(parentId);
+    }
+    setMailboxEdit({ mode: "create", parentId });
+  };
+
+  const handleSubmitName = (name: string) => {
+    const edit = mailboxEdit;
+    setMailboxEdit(null);
+    if (!edit || !client) return;
+
+    if (edit.mode === "rename") {
+      const mailbox = mailboxes.find(mb => mb.id === edit.mailboxId);
+      if (mailbox && mailbox.name !== name) {
+        runMailboxAction(() => renameMailbox(client, edit.mailboxId, name));
+      }
+    } else {
+      runMailboxAction(() => createMailbox(client, name, edit.parentId || undefined));
+    }
+  };
+
+  const handleDeleteMailbox = async (removeEmails: boolean) => {
+    if (!client || !deletingMailbox) return;
+    const wasSelected = !!selectedMailbox && isMailboxWithin(mailboxes, selectedMailbox, deletingMailbox.id);
+    await deleteMailbox(client, deletingMailbox.id, removeEmails);
+    // Don't leave the view pointing at a folder that no longer exists
+    if (wasSelected) {
+      const inbox = mailboxes.find(mb => mb.role === 'inbox' && !mb.isShared);
+      if (inbox) onMailboxSelect?.(inbox.id);
+    }
+  };
+
+  const canDropFolder = (target: MailboxNode | null) =>
+    !!draggedMailbox && canReparentMailbox(mailboxes, draggedMailbox, target);
+
+  const treeActions: MailboxTreeActions = {
+    edit: mailboxEdit,
+    draggedMailbox,
+    onContextMenu: openContextMenu,
+    onSubmitName: handleSubmitName,
+    onCancelEdit: () => setMailboxEdit(null),
+    onFolderDragStart: (node) => setDraggedMailbox(node),
+    onFolderDragEnd: () => {
+      setDraggedMailbox(null);
+      setIsOverTopLevel(false);
+    },
+    onFolderDrop: (target) => {
+      const mailbox = draggedMailbox;
+      setDraggedMailbox(null);
+      setIsOverTopLevel(false);
+      if (!mailbox || !client) return;
+      if (target && !expandedFolders.has(target.id)) {
+        handleToggleExpand(target.id);
+      }
+      runMailboxAction(() => moveMailbox(client, mailbox.id, target ? target.id : null));
+    },
+    canDropFolder,
+  };
+
+  const contextMailbox = contextMenu.data;
+  const canCreateTopLevel = !!client?.canCreateTopLevelMailbox();
+
+  const handleSearch = (query: string) => {
+    setSearchQuery(query);
+    setShowAdvancedSearch(false);
+    onSearch?.(query);
+  };
+
+  // Pin the running search as a virtual folder, named after its query until renamed
+  const { savedSearches, saveSearch, refreshSavedSearchCounts } = useAdvancedSearchStore();
+  const canSaveSearch = !!activeSearchQuery && searchQuery === activeSearchQuery
+    && !savedSearches.some(s => s.query === activeSearchQuery);
+  const handleSaveSearch = () => {
+    saveSearch({
+      id: `search-${Date.now()}`,
+      name: activeSearchQuery,
+      query: activeSearchQuery,
+      resultCount: 0,
+      unreadCount: 0,
+    });
+    toast.success(t('saved_searches.saved'));
+    if (client) void refreshSavedSearchCounts(client, mailboxes);
+  };
+
   // Build hierarchical mailbox tree
   const mailboxTree = buildMailboxTree(mailboxes);
 
+  // Accounts the unified views span, and their combined inbox unread count
+  const accountCount = new Set(mailboxes.map(mb => mb.accountId)).size;
+  const unifiedInboxUnread = mailboxes
+    .filter(mb => mb.role === 'inbox')
+    .reduce((total, mb) => total + mb.unreadEmails, 0);
+
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -351,33 +607,24 @@ export function Sidebar({
         )}
       </div>
 
+      {/* Accounts */}
+      {!isCollapsed && <AccountSwitcher className="border-b border-border" />}
+      {!isCollapsed && <OfflineStatus className="border-b border-border" />}
+
       {/* Search */}
       {!isCollapsed && (
         <div className="px-4 py-3">
-          <form onSubmit={handleSearch} className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-            <Input
-              type="text"
-              placeholder={t("search_placeholder")}
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className={cn("pl-9", searchQuery && "pr-8")}
-              data-search-input
-            />
-            {searchQuery && (
-              <button
-                type="button"
-                onClick={() => {
-                  setSearchQuery("");
-                  onClearSearch?.();
-                }}
-                className="absolute right-2 top-1/2 transform -translate-y-1/2 p-1 rounded-full hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
-                aria-label="Clear search"
-              >
-                <X className="w-4 h-4" />
-              </button>
-            )}
-          </form>
+          <SearchQueryInput
+            value={searchQuery}
+            onChange={setSearchQuery}
+            onSubmit={handleSearch}
+            onClear={onClearSearch}
+            onToggleAdvanced={() => setShowAdvancedSearch(!showAdvancedSearch)}
+            isAdvancedOpen={showAdvancedSearch}
+            onSave={canSaveSearch ? handleSaveSearch : undefined}
+            placeholder={t("search_placeholder")}
+          />
+          {showAdvancedSearch && <AdvancedSearch onSearch={handleSearch} className="mt-2" />}
         </div>
       )}
 
@@ -390,6 +637,35 @@ export function Sidebar({
             </div>
           ) : (
             <>
+              {/* Views across every account */}
+              {UNIFIED_VIEW_ITEMS.filter(view => view.id !== "unified:inbox" || accountCount > 1).map(({ id, icon: ViewIcon, label }) => (
+                <button
+                  key={id}
+                  onClick={() => onMailboxSelect?.(id)}
+                  className={cn(
+                    "w-full flex items-center px-1.5 sm:px-2 py-1 lg:py-1 max-lg:py-2 max-lg:min-h-[40px] text-xs sm:text-sm font-medium transition-all duration-200 text-left",
+                    selectedMailbox === id ? "bg-accent text-accent-foreground" : "hover:bg-muted text-foreground"
+                  )}
+                  title={isCollapsed ? tUnified(label) : undefined}
+                >
+                  <ViewIcon className="w-4 h-4 mr-2 ml-7 flex-shrink-0" />
+                  {!isCollapsed && (
+                    <>
+                      <span className="flex-1 truncate">{tUnified(label)}</span>
+                      {id === "unified:inbox" && unifiedInboxUnread > 0 && (
+                        <span className={cn(
+                          "text-xs rounded-full px-2 py-0.5 ml-2 font-medium",
+                          selectedMailbox === id ? "bg-primary text-primary-foreground" : "bg-foreground text-background"
+                        )}>
+                          {unifiedInboxUnread}
+                        </span>
+                      )}
+                    </>
+                  )}
+                </button>
+              ))}
+              {!isCollapsed && <div className="mx-3 my-1 border-t border-border" />}
+
               {/* Render hierarchical mailbox tree */}
               {mailboxTree.map((node) => (
                 <MailboxTreeItem
@@ -400,13 +676,88 @@ export function Sidebar({
                   onMailboxSelect={onMailboxSelect}
                   onToggleExpand={handleToggleExpand}
                   isCollapsed={isCollapsed}
+                  actions={treeActions}
                 />
               ))}
+
+              {!isCollapsed && mailboxEdit?.mode === "create" && mailboxEdit.parentId === null && (
+                <MailboxNameInput
+                  indentPixels={0}
+                  onSubmit={handleSubmitName}
+                  onCancel={() => setMailboxEdit(null)}
+                />
+              )}
+
+              {/* Dropping a folder here moves it to the top level */}
+              {!isCollapsed && draggedMailbox && canDropFolder(null) && (
+                <div
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = "move";
+                  }}
+                  onDragEnter={() => setIsOverTopLevel(true)}
+                  onDragLeave={() => setIsOverTopLevel(false)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    treeActions.onFolderDrop(null);
+                  }}
+                  className={cn(
+                    "mx-2 my-1 px-2 py-2 text-xs text-center text-muted-foreground border border-dashed border-border rounded",
+                    isOverTopLevel && "bg-primary/20 border-primary text-foreground"
+                  )}
+                >
+                  {tActions('move_to_top_level')}
+                </div>
+              )}
+
+              {!isCollapsed && canCreateTopLevel && mailboxEdit?.mode !== "create" && (
+                <button
+                  onClick={() => startCreate(null)}
+                  className="w-full flex items-center px-2 py-1 mt-1 text-xs text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                >
+                  <FolderPlus className="w-4 h-4 mr-2 ml-6" />
+                  {tActions('new_folder')}
+                </button>
+              )}
+
+              <SavedSearchList
+                selectedMailbox={selectedMailbox}
+                onMailboxSelect={onMailboxSelect}
+                isCollapsed={isCollapsed}
+              />
             </>
           )}
         </div>
       </div>
 
+      {contextMailbox && (
+        <MailboxContextMenu
+          mailbox={contextMailbox}
+          hasChildren={contextMailbox.children.length > 0}
+          position={contextMenu.position}
+          isOpen={contextMenu.isOpen}
+          onClose={closeContextMenu}
+          menuRef={menuRef}
+          onNewSubfolder={() => startCreate(contextMailbox.id)}
+          onRename={() => setMailboxEdit({ mode: "rename", mailboxId: contextMailbox.id })}
+          onDelete={() => setDeletingMailbox(contextMailbox)}
+          onToggleSubscribed={() => client && runMailboxAction(() =>
+            setMailboxSubscribed(client, contextMailbox.id, !contextMailbox.isSubscribed)
+          )}
+          onSetRole={(role) => client && runMailboxAction(() =>
+            setMailboxRole(client, contextMailbox.id, role)
+          )}
+        />
+      )}
+
+      {deletingMailbox && (
+        <MailboxDeleteDialog
+          mailbox={deletingMailbox}
+          onConfirm={handleDeleteMailbox}
+          onClose={() => setDeletingMailbox(null)}
+        />
+      )}
+
       {/* Footer */}
       {!isCollapsed && (
         <>
@@ -460,6 +811,18 @@ export function Sidebar({
                     <ChevronRight className="w-4 h-4 text-muted-foreground" />
                   </button>
 
+                  {/* Subscriptions */}
+                  <button
+                    onClick={() => router.push('/subscriptions')}
+                    className="w-full px-4 py-2 flex items-center justify-between hover:bg-muted transition-colors text-sm"
+                  >
+                    <span className="flex items-center gap-2">
+                      <MailMinus className="w-4 h-4" />
+                      {t("subscriptions.title")}
+                    </span>
+                    <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                  </button>
+
                   {/* Settings */}
                   <button
                     onClick={() => router.push('/settings')}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useTranslations } from 'next-intl';
+import { useSettingsStore, type ComposeFormat, type ReplyMode } from '@/stores/settings-store';
+import { useEmailTrackingStore } from '@/stores/email-tracking-store';
+import { SettingsSection, SettingItem, Select, ToggleSwitch } from './settings-section';
+
+export function ComposerSettings() {
+  const t = useTranslations('settings.composer');
+
+  const {
+    autoSaveDraftInterval,
+    sendConfirmation,
+    undoSendDelay,
+    defaultReplyMode,
+    composeFormat,
+    updateSetting,
+  } = useSettingsStore();
+  const { settings: trackingSettings, updateSettings: updateTrackingSettings } = useEmailTrackingStore();
+
+  return (
+    <SettingsSection title={t('title')} description={t('description')}>
+      {/* Compose Format */}
+      <SettingItem label={t('compose_format.label')} description={t('compose_format.description')}>
+        <Select
+          value={composeFormat}
+          onChange={(value) => updateSetting('composeFormat', value as ComposeFormat)}
+          options={[
+            { value: 'html', label: t('compose_format.html') },
+            { value: 'plain', label: t('compose_format.plain') },
+          ]}
+        />
+      </SettingItem>
+
+      {/* Auto-save Interval */}
+      <SettingItem label={t('autosave.label')} description={t('autosave.description')}>
+        <Select
+          value={autoSaveDraftInterval.toString()}
+          onChange={(value) => updateSetting('autoSaveDraftInterval', parseInt(value))}
+          options={[
+            { value: '30000', label: t('autosave.30s') },
+            { value: '60000', label: t('autosave.1m') },
+            { value: '120000', label: t('autosave.2m') },
+            { value: '300000', label: t('autosave.5m') },
+          ]}
+        />
+      </SettingItem>
+
+      {/* Send Confirmation */}
+      <SettingItem label={t('send_confirmation.label')} description={t('send_confirmation.description')}>
+        <ToggleSwitch
+          checked={sendConfirmation}
+          onChange={(checked) => updateSetting('sendConfirmation', checked)}
+        />
+      </SettingItem>
+
+      {/* Undo Send */}
+      <SettingItem label={t('undo_send.label')} description={t('undo_send.description')}>
+        <Select
+          value={undoSendDelay.toString()}
+          onChange={(value) => updateSetting('undoSendDelay', parseInt(value))}
+          options={[
+            { value: '0', label: t('undo_send.off') },
+            { value: '5', label: t('undo_send.seconds', { count: 5 }) },
+            { value: '10', label: t('undo_send.seconds', { count: 10 }) },
+            { value: '20', label: t('undo_send.seconds', { count: 20 }) },
+            { value: '30', label: t('undo_send.seconds', { count: 30 }) },
+          ]}
+        />
+      </SettingItem>
+
+      {/* Read Receipts */}
+      <SettingItem label={t('read_receipts.label')} description={t('read_receipts.description')}>
+        <ToggleSwitch
+          checked={trackingSettings.requestReadReceipts}
+          onChange={(checked) => updateTrackingSettings({ requestReadReceipts: checked })}
+        />
+      </SettingItem>
+
+      {/* Default Reply Mode */}
+      <SettingItem label={t('default_reply.label')} description={t('default_reply.description')}>
+        <Select
+          value={defaultReplyMode}
+          onChange={(value) => updateSetting('defaultReplyMode', value as ReplyMode)}
+          options={[
+            { value: 'reply', label: t('default_reply.reply') },
+            { value: 'replyAll', label: t('default_reply.reply_all') },
+          ]}
+        />
+      </SettingItem>
+    </SettingsSection>
+  );
+}
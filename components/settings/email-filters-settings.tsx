@@ -3,7 +3,9 @@
 import { useState, useMemo } from "react";
 import { useTranslations } from "next-intl";
 import { useFilterStore } from "@/stores/filter-store";
+import { useEmailStore } from "@/stores/email-store";
 import { SettingsSection } from "./settings-section";
+import { SieveServerRules } from "./sieve-server-rules";
 import {
   Plus,
   Trash2,
@@ -24,6 +26,7 @@ import type {
   FilterConditionType,
   FilterActionType,
 } from "@/lib/filter-types";
+import type { Mailbox } from "@/lib/jmap/types";
 
 export function EmailFiltersSettings() {
   const t = useTranslations("settings.email_filters");
@@ -44,6 +47,7 @@ export function EmailFiltersSettings() {
     removeAction,
     stats,
   } = useFilterStore();
+  const { mailboxes } = useEmailStore();
 
   const [filterName, setFilterName] = useState("");
   const [newFilterDescription, setNewFilterDescription] = useState("");
@@ -128,6 +132,9 @@ export function EmailFiltersSettings() {
         </div>
       </div>
 
+      {/* Server-side rules (Sieve) */}
+      <SieveServerRules />
+
       {/* Create New Filter */}
       <div className="p-4 bg-secondary rounded-lg mb-6 border border-border">
         <h3 className="font-semibold text-foreground mb-3">{t("new_filter")}</h3>
@@ -306,6 +313,7 @@ export function EmailFiltersSettings() {
                             key={action.id}
                             action={action}
                             actionTypes={actionTypes}
+                            mailboxes={mailboxes}
                             onUpdate={(updates) =>
                               updateAction(filter.id, action.id, updates)
                             }
@@ -403,11 +411,13 @@ function ConditionRow({
 function ActionRow({
   action,
   actionTypes,
+  mailboxes,
   onUpdate,
   onRemove,
 }: {
   action: FilterAction;
   actionTypes: Array<{ value: FilterActionType; label: string }>;
+  mailboxes: Mailbox[];
   onUpdate: (updates: Partial<FilterAction>) => void;
   onRemove: () => void;
 }) {
@@ -430,7 +440,25 @@ function ActionRow({
         ))}
       </select>
 
-      {needsValue && (
+      {/* Rules compile to Sieve, which needs a real folder to file into */}
+      {action.type === "moveToMailbox" && mailboxes.length > 0 ? (
+        <select
+          value={action.value || ""}
+          onChange={(e) => onUpdate({ value: e.target.value })}
+          className="text-xs px-2 py-1 rounded border border-border bg-background text-foreground flex-1"
+        >
+          <option value="" disabled>
+            Mailbox...
+          </option>
+          {mailboxes
+            .filter((m) => !m.isShared)
+            .map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.name}
+              </option>
+            ))}
+        </select>
+      ) : needsValue && (
         <input
           type="text"
           value={action.value || ""}
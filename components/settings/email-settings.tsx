@@ -3,6 +3,11 @@
 import { useState } from 'react';
 import { useTranslations } from 'next-intl';
 import { useSettingsStore } from '@/stores/settings-store';
+import { useEmailTrackingStore } from '@/stores/email-tracking-store';
+import { useAuthStore } from '@/stores/auth-store';
+import { useWebPushStore } from '@/stores/web-push-store';
+import { toast } from '@/stores/toast-store';
+import type { ReceiptResponsePolicy } from '@/lib/email-tracking-types';
 import { SettingsSection, SettingItem, Select, ToggleSwitch } from './settings-section';
 import { TrustedSendersModal } from '@/components/trusted-senders-modal';
 import { ChevronRight } from 'lucide-react';
@@ -20,6 +25,35 @@ export function EmailSettings() {
     trustedSenders,
     updateSetting,
   } = useSettingsStore();
+  const { settings: trackingSettings, updateSettings: updateTrackingSettings } = useEmailTrackingStore();
+  const { client, activeAccountId, primaryIdentity, username } = useAuthStore();
+  const { subscriptions, isUpdating, isSupported, enable, disable } = useWebPushStore();
+  const pushEnabled = !!activeAccountId && !!subscriptions[activeAccountId];
+  // The service worker reaches the server through the proxy, and browsers need the server's key to subscribe
+  const pushUnavailable = !client?.getProxySessionId()
+    ? t('push_notifications.needs_proxy')
+    : !client.getVapidKey() ? t('push_notifications.not_supported') : null;
+
+  const handlePushToggle = async (checked: boolean) => {
+    if (!client || !activeAccountId) return;
+    try {
+      if (checked) {
+        await enable(activeAccountId, client, {
+          label: primaryIdentity?.email || username || '',
+          strings: {
+            newMail: t('push_notifications.new_mail'),
+            markRead: t('push_notifications.mark_read'),
+            archive: t('push_notifications.archive'),
+          },
+        });
+        toast.success(t('push_notifications.enabled'));
+      } else {
+        await disable(activeAccountId, client);
+      }
+    } catch (error) {
+      toast.error(t('push_notifications.failed'), error instanceof Error ? error.message : undefined);
+    }
+  };
 
   // Get count label for trusted senders button
   const getTrustedSendersCount = () => {
@@ -101,6 +135,30 @@ export function EmailSettings() {
         </button>
       </SettingItem>
 
+      {/* Read Receipts */}
+      <SettingItem label={t('read_receipts.label')} description={t('read_receipts.description')}>
+        <Select
+          value={trackingSettings.receiptResponse}
+          onChange={(value) => updateTrackingSettings({ receiptResponse: value as ReceiptResponsePolicy })}
+          options={[
+            { value: 'ask', label: t('read_receipts.ask') },
+            { value: 'always', label: t('read_receipts.always') },
+            { value: 'never', label: t('read_receipts.never') },
+          ]}
+        />
+      </SettingItem>
+
+      {/* Push Notifications */}
+      {client && isSupported() && (
+        <SettingItem
+          label={t('push_notifications.label')}
+          description={pushUnavailable || t('push_notifications.description')}
+        >
+          {/* Still lets a subscription made before be turned off */}
+          <ToggleSwitch checked={pushEnabled} onChange={handlePushToggle} disabled={isUpdating || (!!pushUnavailable && !pushEnabled)} />
+        </SettingItem>
+      )}
+
       {/* Trusted Senders Modal */}
       <TrustedSendersModal
         isOpen={showTrustedModal}
@@ -0,0 +1,335 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Download, KeyRound, Loader2, Lock, LockOpen, Star, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { AutocryptPeer } from "@/lib/autocrypt-types";
+import { getPeerKey } from "@/lib/autocrypt-utils";
+import type { PGPKey } from "@/lib/email-encryption-types";
+import { useAuthStore } from "@/stores/auth-store";
+import { useAutocryptStore } from "@/stores/autocrypt-store";
+import { useEmailEncryptionStore } from "@/stores/email-encryption-store";
+import { toast } from "@/stores/toast-store";
+import { SettingsSection, SettingItem, ToggleSwitch } from "./settings-section";
+
+const formatFingerprint = (fingerprint: string) => fingerprint.match(/.{1,4}/g)?.join(" ") || fingerprint;
+
+const downloadArmored = (armored: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([armored], { type: "application/pgp-keys" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export function EncryptionSettings() {
+  const t = useTranslations("settings.encryption");
+  const { primaryIdentity } = useAuthStore();
+  const {
+    keys,
+    settings,
+    unlockedKeyIds,
+    generateKey,
+    importKeys,
+    deleteKey,
+    setDefaultPrivateKey,
+    lockKeys,
+    updateSettings,
+  } = useEmailEncryptionStore();
+  const {
+    peers,
+    settings: autocryptSettings,
+    forgetPeer,
+    updateSettings: updateAutocryptSettings,
+  } = useAutocryptStore();
+
+  const [name, setName] = useState(primaryIdentity?.name || "");
+  const [email, setEmail] = useState(primaryIdentity?.email || "");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [armoredInput, setArmoredInput] = useState("");
+  const [importPassphrase, setImportPassphrase] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleGenerate = async () => {
+    if (!email.trim() || !passphrase || passphrase !== confirmPassphrase) return;
+    setIsGenerating(true);
+    try {
+      const key = await generateKey(name.trim(), email.trim(), passphrase);
+      setPassphrase("");
+      setConfirmPassphrase("");
+      toast.success(t("generated"), formatFingerprint(key.fingerprint));
+    } catch (error) {
+      toast.error(t("generate_failed"), error instanceof Error ? error.message : undefined);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!armoredInput.trim()) return;
+    setIsImporting(true);
+    try {
+      const imported = await importKeys(armoredInput, importPassphrase || undefined);
+      setArmoredInput("");
+      setImportPassphrase("");
+      toast.success(t("imported", { count: imported.length }));
+    } catch (error) {
+      toast.error(t("import_failed"), error instanceof Error ? error.message : undefined);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) setArmoredInput(await file.text());
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleDelete = (key: PGPKey) => {
+    const message = key.type === "private" ? t("delete_private_confirm") : t("delete_confirm");
+    if (window.confirm(message)) deleteKey(key.id);
+  };
+
+  const privateKeys = keys.filter((key) => key.type === "private");
+  const publicKeys = keys.filter((key) => key.type === "public");
+  const autocryptPeers = Object.values(peers).sort((a, b) => a.addr.localeCompare(b.addr));
+
+  const renderKey = (key: PGPKey) => {
+    const isUnlocked = unlockedKeyIds.includes(key.id);
+    const isExpired = !!key.expiresAt && new Date(key.expiresAt) < new Date();
+    const fileName = `${key.email || key.keyId}`.replace(/[^\w.@-]/g, "_");
+
+    return (
+      <div key={key.id} className="p-3 border border-border rounded-lg space-y-2">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+              <span className="truncate">{key.name ? `${key.name} <${key.email}>` : key.email || key.userIds[0]}</span>
+              {key.isDefault && <Star className="w-3.5 h-3.5 text-amber-500 fill-amber-500 flex-shrink-0" />}
+              {isExpired && <span className="text-xs text-red-600 dark:text-red-400">{t("expired")}</span>}
+            </div>
+            <div className="text-xs font-mono text-muted-foreground mt-0.5 break-all">{formatFingerprint(key.fingerprint)}</div>
+            <div className="text-xs text-muted-foreground mt-0.5">
+              {key.algorithm}{key.keySize ? ` ${key.keySize}` : ""} · {t("created", { date: new Date(key.createdAt).toLocaleDateString() })}
+              {key.expiresAt && ` · ${t("expires", { date: new Date(key.expiresAt).toLocaleDateString() })}`}
+            </div>
+          </div>
+          {key.type === "private" && (
+            <span
+              className={cn("flex items-center gap-1 text-xs flex-shrink-0", isUnlocked ? "text-green-700 dark:text-green-400" : "text-muted-foreground")}
+            >
+              {isUnlocked ? <LockOpen className="w-3.5 h-3.5" /> : <Lock className="w-3.5 h-3.5" />}
+              {isUnlocked ? t("unlocked") : t("locked")}
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => downloadArmored(key.publicKeyArmored, `${fileName}.pub.asc`)}>
+            <Download className="w-3.5 h-3.5 mr-1.5" />
+            {t("export_public")}
+          </Button>
+          {key.encryptedPrivateKeyArmored && (
+            <Button variant="outline" size="sm" onClick={() => downloadArmored(key.encryptedPrivateKeyArmored!, `${fileName}.sec.asc`)}>
+              <Download className="w-3.5 h-3.5 mr-1.5" />
+              {t("export_private")}
+            </Button>
+          )}
+          {key.type === "private" && !key.isDefault && (
+            <Button variant="outline" size="sm" onClick={() => setDefaultPrivateKey(key.id)}>
+              <Star className="w-3.5 h-3.5 mr-1.5" />
+              {t("set_default")}
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => handleDelete(key)} className="text-red-600 hover:text-red-700">
+            <Trash2 className="w-3.5 h-3.5 mr-1.5" />
+            {t("delete")}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderPeer = (peer: AutocryptPeer) => {
+    const key = getPeerKey(peer);
+    const isGossip = !!key && key === peer.gossipKey;
+
+    return (
+      <div key={peer.addr} className="flex items-start justify-between gap-3 p-3 border border-border rounded-lg">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+            <span className="truncate">{peer.addr}</span>
+            {peer.preferEncrypt === "mutual" && (
+              <span className="text-xs text-green-700 dark:text-green-400 flex-shrink-0">{t("autocrypt.mutual")}</span>
+            )}
+            {isGossip && <span className="text-xs text-muted-foreground flex-shrink-0">{t("autocrypt.gossip")}</span>}
+          </div>
+          <div className="text-xs font-mono text-muted-foreground mt-0.5 break-all">
+            {key ? formatFingerprint(key.fingerprint) : t("autocrypt.no_key")}
+          </div>
+          {peer.lastSeen && (
+            <div className="text-xs text-muted-foreground mt-0.5">
+              {t("autocrypt.last_seen", { date: new Date(peer.lastSeen).toLocaleDateString() })}
+            </div>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => forgetPeer(peer.addr)} className="text-red-600 hover:text-red-700 flex-shrink-0">
+          <Trash2 className="w-3.5 h-3.5 mr-1.5" />
+          {t("autocrypt.forget")}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <SettingsSection title={t("title")} description={t("description")}>
+      <SettingItem label={t("encrypt_by_default.label")} description={t("encrypt_by_default.description")}>
+        <ToggleSwitch
+          checked={settings.encryptByDefault}
+          onChange={(checked) => updateSettings({ encryptByDefault: checked })}
+        />
+      </SettingItem>
+
+      <SettingItem label={t("auto_sign.label")} description={t("auto_sign.description")}>
+        <ToggleSwitch
+          checked={settings.autoSignEmails}
+          onChange={(checked) => updateSettings({ autoSignEmails: checked })}
+          disabled={privateKeys.length === 0}
+        />
+      </SettingItem>
+
+      {/* Own keys */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold text-foreground">{t("my_keys")}</h4>
+          {unlockedKeyIds.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={lockKeys}>
+              <Lock className="w-3.5 h-3.5 mr-1.5" />
+              {t("lock_all")}
+            </Button>
+          )}
+        </div>
+        {privateKeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("no_private_keys")}</p>
+        ) : (
+          privateKeys.map(renderKey)
+        )}
+      </div>
+
+      {/* Generate */}
+      <div className="p-4 bg-secondary rounded-lg border border-border space-y-3">
+        <h4 className="font-semibold text-foreground">{t("generate_title")}</h4>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder={t("name")} className="bg-background" />
+          <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder={t("email")} className="bg-background" />
+          <Input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={t("passphrase")}
+            autoComplete="new-password"
+            className="bg-background"
+          />
+          <Input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            placeholder={t("confirm_passphrase")}
+            autoComplete="new-password"
+            className="bg-background"
+          />
+        </div>
+        {confirmPassphrase && passphrase !== confirmPassphrase && (
+          <p className="text-xs text-red-600 dark:text-red-400">{t("passphrase_mismatch")}</p>
+        )}
+        <p className="text-xs text-muted-foreground">{t("passphrase_hint")}</p>
+        <Button
+          onClick={handleGenerate}
+          disabled={isGenerating || !email.trim() || !passphrase || passphrase !== confirmPassphrase}
+        >
+          {isGenerating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <KeyRound className="w-4 h-4 mr-2" />}
+          {t("generate")}
+        </Button>
+      </div>
+
+      {/* Import */}
+      <div className="p-4 bg-secondary rounded-lg border border-border space-y-3">
+        <h4 className="font-semibold text-foreground">{t("import_title")}</h4>
+        <textarea
+          value={armoredInput}
+          onChange={(e) => setArmoredInput(e.target.value)}
+          placeholder="-----BEGIN PGP PUBLIC KEY BLOCK-----"
+          rows={5}
+          className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground font-mono text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <Input
+          type="password"
+          value={importPassphrase}
+          onChange={(e) => setImportPassphrase(e.target.value)}
+          placeholder={t("import_passphrase")}
+          autoComplete="new-password"
+          className="bg-background"
+        />
+        <p className="text-xs text-muted-foreground">{t("import_hint")}</p>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".asc,.gpg,.pgp,.key,text/plain,application/pgp-keys"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            {t("choose_file")}
+          </Button>
+          <Button onClick={handleImport} disabled={isImporting || !armoredInput.trim()}>
+            {isImporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t("import")}
+          </Button>
+        </div>
+      </div>
+
+      {/* Correspondents' keys */}
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-foreground">{t("public_keys")}</h4>
+        {publicKeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("no_public_keys")}</p>
+        ) : (
+          publicKeys.map(renderKey)
+        )}
+      </div>
+
+      {/* Autocrypt */}
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-foreground">{t("autocrypt.title")}</h4>
+        <SettingItem label={t("autocrypt.enabled.label")} description={t("autocrypt.enabled.description")}>
+          <ToggleSwitch
+            checked={autocryptSettings.enabled}
+            onChange={(checked) => updateAutocryptSettings({ enabled: checked })}
+          />
+        </SettingItem>
+        <SettingItem label={t("autocrypt.prefer_encrypt.label")} description={t("autocrypt.prefer_encrypt.description")}>
+          <ToggleSwitch
+            checked={autocryptSettings.preferEncrypt === "mutual"}
+            onChange={(checked) => updateAutocryptSettings({ preferEncrypt: checked ? "mutual" : "nopreference" })}
+            disabled={!autocryptSettings.enabled}
+          />
+        </SettingItem>
+        {autocryptPeers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("autocrypt.no_peers")}</p>
+        ) : (
+          autocryptPeers.map(renderPeer)
+        )}
+      </div>
+    </SettingsSection>
+  );
+}
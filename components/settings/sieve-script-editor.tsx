@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { AlertCircle, CheckCircle, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useAuthStore } from "@/stores/auth-store";
+import { useFilterStore } from "@/stores/filter-store";
+import { parseSieveError, type SieveValidationError } from "@/lib/sieve-utils";
+import type { SieveScript } from "@/lib/jmap/types";
+
+interface SieveScriptEditorProps {
+  script: SieveScript | null; // null creates the webmail's own script
+  onClose: () => void;
+}
+
+export function SieveScriptEditor({ script, onClose }: SieveScriptEditorProps) {
+  const t = useTranslations("settings.email_filters.sieve");
+  const { client } = useAuthStore();
+  const { saveRawScript } = useFilterStore();
+
+  const [content, setContent] = useState("");
+  const [isLoading, setIsLoading] = useState(!!script);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<SieveValidationError | null>(null);
+  const [isValid, setIsValid] = useState(false);
+  const [activate, setActivate] = useState(script?.isActive ?? true);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!client || !script) return;
+
+    client.getSieveScriptContent(script.blobId)
+      .then(setContent)
+      .catch((err) => setError({ message: err instanceof Error ? err.message : String(err) }))
+      .finally(() => setIsLoading(false));
+  }, [client, script]);
+
+  const lineCount = content.split("\n").length;
+
+  // Put the caret at the start of the line the server complained about
+  const goToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lines = content.split("\n");
+    const start = lines.slice(0, line - 1).reduce((pos, l) => pos + l.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length || 0));
+  };
+
+  const runValidation = async (): Promise<boolean> => {
+    if (!client) return false;
+    const description = await client.validateSieveScript(content);
+    if (description) {
+      const parsed = parseSieveError(description);
+      setError(parsed);
+      setIsValid(false);
+      if (parsed.line) goToLine(parsed.line);
+      return false;
+    }
+    setError(null);
+    setIsValid(true);
+    return true;
+  };
+
+  const handleValidate = async () => {
+    setIsBusy(true);
+    try {
+      await runValidation();
+    } catch (err) {
+      setError({ message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!client) return;
+    setIsBusy(true);
+    try {
+      if (await runValidation()) {
+        await saveRawScript(client, script, content, activate);
+        onClose();
+      }
+    } catch (err) {
+      // Set errors (e.g. invalidSieve from the server) may carry a line too
+      const parsed = parseSieveError(err instanceof Error ? err.message : String(err));
+      setError(parsed);
+      if (parsed.line) goToLine(parsed.line);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-card border border-border rounded-lg shadow-lg w-full max-w-3xl flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <div>
+            <h3 className="font-semibold text-foreground">{t("editor_title")}</h3>
+            <p className="text-xs text-muted-foreground">{script?.name || t("webmail_script")}</p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-muted rounded transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 p-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="flex h-96 border border-border rounded-md overflow-hidden font-mono text-xs">
+              <div
+                ref={gutterRef}
+                className="select-none overflow-hidden bg-muted text-muted-foreground text-right py-2 px-2 leading-5"
+              >
+                {Array.from({ length: lineCount }, (_, i) => (
+                  <div
+                    key={i}
+                    className={cn(error?.line === i + 1 && "bg-red-500/20 text-red-600 dark:text-red-400")}
+                  >
+                    {i + 1}
+                  </div>
+                ))}
+              </div>
+              <textarea
+                ref={textareaRef}
+                value={content}
+                onChange={(e) => {
+                  setContent(e.target.value);
+                  setIsValid(false);
+                }}
+                onScroll={(e) => {
+                  if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+                }}
+                spellCheck={false}
+                wrap="off"
+                className="flex-1 resize-none outline-none bg-background text-foreground py-2 px-3 leading-5"
+              />
+            </div>
+          )}
+
+          {error && (
+            <div className="mt-3 flex items-start gap-2 p-3 rounded-md bg-red-500/10 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <div className="flex-1">
+                {error.line && (
+                  <button onClick={() => goToLine(error.line!)} className="font-medium underline mr-2">
+                    {t("error_line", { line: error.line })}
+                  </button>
+                )}
+                <span>{error.message}</span>
+              </div>
+            </div>
+          )}
+          {isValid && !error && (
+            <div className="mt-3 flex items-center gap-2 text-sm text-green-600 dark:text-green-400">
+              <CheckCircle className="w-4 h-4" />
+              {t("valid")}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-4 py-3 border-t border-border">
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <input type="checkbox" checked={activate} onChange={(e) => setActivate(e.target.checked)} />
+            {t("activate_on_save")}
+          </label>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleValidate} disabled={isBusy || isLoading}>
+              {t("validate")}
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={isBusy || isLoading}>
+              {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("save")}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { AlertTriangle, CheckCircle, Code, Loader2, Power, PowerOff, RefreshCw, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useAuthStore } from "@/stores/auth-store";
+import { useEmailStore } from "@/stores/email-store";
+import { useFilterStore } from "@/stores/filter-store";
+import { SIEVE_SCRIPT_NAME, compileFiltersToSieve } from "@/lib/sieve-utils";
+import { SieveScriptEditor } from "./sieve-script-editor";
+import type { SieveScript } from "@/lib/jmap/types";
+
+export function SieveServerRules() {
+  const t = useTranslations("settings.email_filters.sieve");
+  const { client } = useAuthStore();
+  const { mailboxes, fetchMailboxes } = useEmailStore();
+  const {
+    filters,
+    sieveScripts,
+    sieveScriptId,
+    isScriptCustomized,
+    syncedScript,
+    isSyncing,
+    syncError,
+    loadServerRules,
+    syncServerRules,
+    activateScript,
+    deleteScript,
+    getForeignActiveScript,
+  } = useFilterStore();
+
+  // undefined = closed, null = new webmail script
+  const [editingScript, setEditingScript] = useState<SieveScript | null | undefined>(undefined);
+
+  const supported = !!client?.supportsSieve();
+
+  useEffect(() => {
+    if (!client || !supported) return;
+    loadServerRules(client);
+    // Folder names/IDs are needed to compile "Move to Folder" actions
+    if (mailboxes.length === 0) {
+      fetchMailboxes(client);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- load once per client
+  }, [client, supported]);
+
+  const hasUnsyncedChanges = useMemo(() => {
+    if (!client || !supported) return false;
+    const compiled = compileFiltersToSieve(filters, {
+      mailboxes,
+      extensions: client.getSieveCapability()?.sieveExtensions,
+    });
+    return compiled !== syncedScript;
+  }, [client, supported, filters, mailboxes, syncedScript]);
+
+  if (!client || !supported) {
+    return (
+      <div className="p-4 mb-6 rounded-lg border border-border bg-muted text-sm text-muted-foreground">
+        {t("unsupported")}
+      </div>
+    );
+  }
+
+  const foreignActive = getForeignActiveScript();
+
+  const handleSync = async () => {
+    // Ask before replacing a hand-edited script or another client's active script
+    if (isScriptCustomized && !window.confirm(t("confirm_overwrite_customized"))) {
+      return;
+    }
+    if (foreignActive && !window.confirm(t("confirm_replace_active", { name: foreignActive.name || foreignActive.id }))) {
+      return;
+    }
+    await syncServerRules(client, mailboxes, { overwriteCustomized: true, replaceActive: true });
+  };
+
+  return (
+    <div className="p-4 mb-6 rounded-lg border border-border bg-secondary space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-foreground">{t("title")}</h3>
+          <p className="text-xs text-muted-foreground">{t("description")}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => loadServerRules(client)}
+            disabled={isSyncing}
+            title={t("reload")}
+          >
+            <RefreshCw className={cn("w-4 h-4", isSyncing && "animate-spin")} />
+          </Button>
+          <Button size="sm" onClick={handleSync} disabled={isSyncing}>
+            {isSyncing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            {t("save_to_server")}
+          </Button>
+        </div>
+      </div>
+
+      {/* Status */}
+      {syncError ? (
+        <div className="flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{syncError}</span>
+        </div>
+      ) : isScriptCustomized ? (
+        <div className="flex items-start gap-2 text-sm text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{t("customized")}</span>
+        </div>
+      ) : hasUnsyncedChanges ? (
+        <div className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="w-4 h-4" />
+          <span>{t("unsynced")}</span>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 text-sm text-green-600 dark:text-green-400">
+          <CheckCircle className="w-4 h-4" />
+          <span>{t("synced")}</span>
+        </div>
+      )}
+
+      {foreignActive && (
+        <div className="flex items-start gap-2 text-sm text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{t("foreign_active", { name: foreignActive.name || foreignActive.id })}</span>
+        </div>
+      )}
+
+      {/* Scripts on the server */}
+      {sieveScripts.length > 0 && (
+        <div className="space-y-1">
+          {sieveScripts.map((script) => {
+            const isOurs = script.name === SIEVE_SCRIPT_NAME;
+            return (
+              <div key={script.id} className="flex items-center gap-2 px-3 py-2 rounded-md bg-background text-sm">
+                <span className="flex-1 truncate text-foreground">
+                  {script.name || script.id}
+                  {!isOurs && (
+                    <span className="ml-2 text-xs text-muted-foreground">{t("other_client")}</span>
+                  )}
+                </span>
+                {script.isActive && (
+                  <span className="text-xs px-2 py-0.5 rounded bg-primary/10 text-primary">{t("active")}</span>
+                )}
+                <button
+                  onClick={() => activateScript(client, script.isActive ? null : script.id)}
+                  className="p-1 hover:bg-muted rounded transition-colors"
+                  title={script.isActive ? t("deactivate") : t("activate")}
+                >
+                  {script.isActive
+                    ? <PowerOff className="w-4 h-4 text-muted-foreground" />
+                    : <Power className="w-4 h-4 text-muted-foreground" />}
+                </button>
+                <button
+                  onClick={() => setEditingScript(script)}
+                  className="p-1 hover:bg-muted rounded transition-colors"
+                  title={t("edit_raw")}
+                >
+                  <Code className="w-4 h-4 text-muted-foreground" />
+                </button>
+                {!script.isActive && (
+                  <button
+                    onClick={() => {
+                      if (window.confirm(t("confirm_delete", { name: script.name || script.id }))) {
+                        deleteScript(client, script.id);
+                      }
+                    }}
+                    className="p-1 hover:bg-destructive/10 rounded transition-colors"
+                    title={t("delete")}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!sieveScriptId && (
+        <button
+          onClick={() => setEditingScript(null)}
+          className="text-xs text-muted-foreground hover:text-foreground underline"
+        >
+          {t("write_raw")}
+        </button>
+      )}
+
+      {editingScript !== undefined && (
+        <SieveScriptEditor script={editingScript} onClose={() => setEditingScript(undefined)} />
+      )}
+    </div>
+  );
+}
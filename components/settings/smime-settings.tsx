@@ -0,0 +1,255 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Download, Loader2, Lock, LockOpen, ShieldCheck, Star, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { SMIMECertificate } from "@/lib/email-encryption-types";
+import { useSMIMEStore } from "@/stores/smime-store";
+import { toast } from "@/stores/toast-store";
+import { SettingsSection, SettingItem, ToggleSwitch } from "./settings-section";
+
+const formatFingerprint = (fingerprint: string) => fingerprint.match(/.{1,2}/g)?.join(":") || fingerprint;
+
+const downloadPem = (pem: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([pem], { type: "application/x-pem-file" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const readFile = async (file: File) => new Uint8Array(await file.arrayBuffer());
+
+export function SMIMESettings() {
+  const t = useTranslations("settings.smime");
+  const {
+    certificates,
+    trustAnchors,
+    settings,
+    unlockedCertificateIds,
+    importPKCS12,
+    importCertificates,
+    deleteCertificate,
+    setDefaultCertificate,
+    importTrustAnchors,
+    removeTrustAnchor,
+    lockCertificates,
+    updateSettings,
+  } = useSMIMEStore();
+
+  const [pkcs12File, setPkcs12File] = useState<File | null>(null);
+  const [password, setPassword] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const pkcs12InputRef = useRef<HTMLInputElement>(null);
+  const certificateInputRef = useRef<HTMLInputElement>(null);
+  const anchorInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportPKCS12 = async () => {
+    if (!pkcs12File || !password) return;
+    setIsImporting(true);
+    try {
+      const certificate = await importPKCS12(await readFile(pkcs12File), password);
+      setPkcs12File(null);
+      setPassword("");
+      if (pkcs12InputRef.current) pkcs12InputRef.current.value = "";
+      toast.success(t("imported_own"), certificate.email || certificate.subject);
+    } catch (error) {
+      toast.error(t("import_failed"), error instanceof Error ? error.message : undefined);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleImportFile = async (
+    input: HTMLInputElement | null,
+    importer: (data: Uint8Array) => Promise<SMIMECertificate[]>
+  ) => {
+    const file = input?.files?.[0];
+    if (!file) return;
+    try {
+      const imported = await importer(await readFile(file));
+      toast.success(t("imported", { count: imported.length }));
+    } catch (error) {
+      toast.error(t("import_failed"), error instanceof Error ? error.message : undefined);
+    } finally {
+      if (input) input.value = "";
+    }
+  };
+
+  const handleDelete = (certificate: SMIMECertificate) => {
+    const message = certificate.type === "private" ? t("delete_own_confirm") : t("delete_confirm");
+    if (window.confirm(message)) deleteCertificate(certificate.id);
+  };
+
+  const ownCertificates = certificates.filter((c) => c.type === "private");
+  const correspondentCertificates = certificates.filter((c) => c.type === "public");
+
+  const renderCertificate = (certificate: SMIMECertificate, onRemove: () => void) => {
+    const isUnlocked = unlockedCertificateIds.includes(certificate.id);
+    const isExpired = new Date(certificate.notAfter) < new Date();
+    const fileName = `${certificate.email || certificate.subject}`.replace(/[^\w.@-]/g, "_");
+
+    return (
+      <div key={certificate.id} className="p-3 border border-border rounded-lg space-y-2">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+              <span className="truncate">
+                {certificate.subject}
+                {certificate.email && certificate.email !== certificate.subject && ` <${certificate.email}>`}
+              </span>
+              {certificate.isDefault && <Star className="w-3.5 h-3.5 text-amber-500 fill-amber-500 flex-shrink-0" />}
+              {isExpired && <span className="text-xs text-red-600 dark:text-red-400">{t("expired")}</span>}
+            </div>
+            <div className="text-xs text-muted-foreground mt-0.5">{t("issued_by", { issuer: certificate.issuer })}</div>
+            <div className="text-xs font-mono text-muted-foreground mt-0.5 break-all">{formatFingerprint(certificate.fingerprint)}</div>
+            <div className="text-xs text-muted-foreground mt-0.5">
+              {t("validity", {
+                from: new Date(certificate.notBefore).toLocaleDateString(),
+                to: new Date(certificate.notAfter).toLocaleDateString(),
+              })}
+            </div>
+          </div>
+          {certificate.type === "private" && (
+            <span
+              className={cn("flex items-center gap-1 text-xs flex-shrink-0", isUnlocked ? "text-green-700 dark:text-green-400" : "text-muted-foreground")}
+            >
+              {isUnlocked ? <LockOpen className="w-3.5 h-3.5" /> : <Lock className="w-3.5 h-3.5" />}
+              {isUnlocked ? t("unlocked") : t("locked")}
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => downloadPem(certificate.certificatePem, `${fileName}.pem`)}>
+            <Download className="w-3.5 h-3.5 mr-1.5" />
+            {t("export")}
+          </Button>
+          {certificate.type === "private" && !certificate.isDefault && (
+            <Button variant="outline" size="sm" onClick={() => setDefaultCertificate(certificate.id)}>
+              <Star className="w-3.5 h-3.5 mr-1.5" />
+              {t("set_default")}
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onRemove} className="text-red-600 hover:text-red-700">
+            <Trash2 className="w-3.5 h-3.5 mr-1.5" />
+            {t("delete")}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <SettingsSection title={t("title")} description={t("description")}>
+      <SettingItem label={t("prefer_smime.label")} description={t("prefer_smime.description")}>
+        <ToggleSwitch
+          checked={settings.preferSMIME}
+          onChange={(checked) => updateSettings({ preferSMIME: checked })}
+          disabled={ownCertificates.length === 0}
+        />
+      </SettingItem>
+
+      {/* Own certificates */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold text-foreground">{t("my_certificates")}</h4>
+          {unlockedCertificateIds.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={lockCertificates}>
+              <Lock className="w-3.5 h-3.5 mr-1.5" />
+              {t("lock_all")}
+            </Button>
+          )}
+        </div>
+        {ownCertificates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("no_own_certificates")}</p>
+        ) : (
+          ownCertificates.map((certificate) => renderCertificate(certificate, () => handleDelete(certificate)))
+        )}
+      </div>
+
+      {/* PKCS#12 import */}
+      <div className="p-4 bg-secondary rounded-lg border border-border space-y-3">
+        <h4 className="font-semibold text-foreground">{t("import_pkcs12_title")}</h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            ref={pkcs12InputRef}
+            type="file"
+            accept=".p12,.pfx,application/x-pkcs12"
+            onChange={(e) => setPkcs12File(e.target.files?.[0] || null)}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => pkcs12InputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            {pkcs12File ? pkcs12File.name : t("choose_file")}
+          </Button>
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={t("password")}
+            autoComplete="current-password"
+            className="bg-background w-56"
+          />
+          <Button onClick={handleImportPKCS12} disabled={isImporting || !pkcs12File || !password}>
+            {isImporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t("import")}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">{t("import_pkcs12_hint")}</p>
+      </div>
+
+      {/* Trust store */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold text-foreground">{t("trust_store")}</h4>
+          <input
+            ref={anchorInputRef}
+            type="file"
+            accept=".pem,.crt,.cer,.der"
+            onChange={() => handleImportFile(anchorInputRef.current, importTrustAnchors)}
+            className="hidden"
+          />
+          <Button variant="outline" size="sm" onClick={() => anchorInputRef.current?.click()}>
+            <ShieldCheck className="w-3.5 h-3.5 mr-1.5" />
+            {t("add_authority")}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">{t("trust_store_hint")}</p>
+        {trustAnchors.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("no_authorities")}</p>
+        ) : (
+          trustAnchors.map((anchor) => renderCertificate(anchor, () => removeTrustAnchor(anchor.id)))
+        )}
+      </div>
+
+      {/* Correspondents' certificates */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold text-foreground">{t("correspondents")}</h4>
+          <input
+            ref={certificateInputRef}
+            type="file"
+            accept=".pem,.crt,.cer,.der"
+            onChange={() => handleImportFile(certificateInputRef.current, importCertificates)}
+            className="hidden"
+          />
+          <Button variant="outline" size="sm" onClick={() => certificateInputRef.current?.click()}>
+            <Upload className="w-3.5 h-3.5 mr-1.5" />
+            {t("import_certificate")}
+          </Button>
+        </div>
+        {correspondentCertificates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("no_correspondents")}</p>
+        ) : (
+          correspondentCertificates.map((certificate) => renderCertificate(certificate, () => handleDelete(certificate)))
+        )}
+      </div>
+    </SettingsSection>
+  );
+}
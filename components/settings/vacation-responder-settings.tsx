@@ -1,91 +1,126 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { useTranslations } from "next-intl";
 import { useVacationStore } from "@/stores/vacation-store";
 import { useAuthStore } from "@/stores/auth-store";
 import { SettingsSection } from "./settings-section";
-import { Plus, Trash2, Copy, ChevronDown, ChevronUp, Clock } from "lucide-react";
+import { Trash2, ChevronDown, ChevronUp, Clock, AlertTriangle, Loader2, Check, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
-import type { VacationResponder } from "@/lib/vacation-types";
+import { isVacationResponseActive, type VacationResponder } from "@/lib/vacation-types";
+
+// Split a timestamp into the values of <input type="date"> and <input type="time">
+const toDateInput = (timestamp: number | null) => {
+  if (timestamp === null) return { date: "", time: "" };
+  const d = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return {
+    date: `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`,
+    time: `${pad(d.getHours())}:${pad(d.getMinutes())}`,
+  };
+};
+
+const fromDateInput = (date: string, time: string, fallbackTime: string): string | null => {
+  if (!date) return null;
+  return new Date(`${date}T${time || fallbackTime}`).toISOString();
+};
 
 export function VacationResponderSettings() {
   const t = useTranslations("settings.vacation_responder");
   const {
     responders,
     settings,
-    selectedResponderId,
-    createResponder,
-    updateResponder,
+    serverResponse,
+    isLoading,
+    isSaving,
+    error,
     deleteResponder,
-    selectResponder,
     updateSettings,
-    getRespondersByIdentity,
-    getActiveResponder,
+    fetchServerResponse,
+    saveServerResponse,
   } = useVacationStore();
 
-  const { identities, primaryIdentity } = useAuthStore();
+  const { client } = useAuthStore();
+  const isSupported = !!client?.supportsVacationResponse();
 
+  const [isEnabled, setIsEnabled] = useState(false);
   const [subject, setSubject] = useState("");
   const [message, setMessage] = useState("");
   const [startDate, setStartDate] = useState("");
-  const [startTime, setStartTime] = useState("09:00");
+  const [startTime, setStartTime] = useState("");
   const [endDate, setEndDate] = useState("");
-  const [endTime, setEndTime] = useState("17:00");
-  const [respondToAll, setRespondToAll] = useState(false);
-  const [respondOncePerSender, setRespondOncePerSender] = useState(true);
-  const [selectedIdentityId, setSelectedIdentityId] = useState<string>(
-    primaryIdentity?.id || identities[0]?.id || ""
-  );
+  const [endTime, setEndTime] = useState("");
+  const [justSaved, setJustSaved] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [expandedResponderIds, setExpandedResponderIds] = useState<Set<string>>(new Set());
 
+  useEffect(() => {
+    if (client && isSupported) {
+      fetchServerResponse(client);
+    }
+  }, [client, isSupported, fetchServerResponse]);
+
+  // Show what is on the server whenever it is (re)loaded
+  useEffect(() => {
+    if (!serverResponse) return;
+    const start = toDateInput(serverResponse.fromDate ? new Date(serverResponse.fromDate).getTime() : null);
+    const end = toDateInput(serverResponse.toDate ? new Date(serverResponse.toDate).getTime() : null);
+    setIsEnabled(serverResponse.isEnabled);
+    setSubject(serverResponse.subject || "");
+    setMessage(serverResponse.textBody || "");
+    setStartDate(start.date);
+    setStartTime(start.time);
+    setEndDate(end.date);
+    setEndTime(end.time);
+  }, [serverResponse]);
+
   const filteredResponders = useMemo(() => {
-    const identityResponders = getRespondersByIdentity(selectedIdentityId);
+    const history = [...responders].sort((a, b) => b.updatedAt - a.updatedAt);
     if (!searchQuery.trim()) {
-      return identityResponders;
+      return history;
     }
 
     const lowerQuery = searchQuery.toLowerCase();
-    return identityResponders.filter(
+    return history.filter(
       (r) =>
         r.subject.toLowerCase().includes(lowerQuery) ||
         r.message.toLowerCase().includes(lowerQuery)
     );
-  }, [searchQuery, selectedIdentityId, responders]);
+  }, [searchQuery, responders]);
 
-  const handleCreateResponder = () => {
-    if (!subject.trim() || !message.trim() || !startDate || !endDate) return;
+  const handleSave = async () => {
+    if (!client) return;
 
-    const startDateTime = new Date(`${startDate}T${startTime}`).getTime();
-    const endDateTime = new Date(`${endDate}T${endTime}`).getTime();
+    const fromDate = fromDateInput(startDate, startTime, "00:00");
+    const toDate = fromDateInput(endDate, endTime, "23:59");
 
-    if (startDateTime >= endDateTime) {
+    if (fromDate && toDate && fromDate >= toDate) {
       alert(t("error_invalid_dates"));
       return;
     }
 
-    createResponder({
-      identityId: selectedIdentityId,
-      isEnabled: false,
-      subject: subject.trim(),
-      message: message.trim(),
-      startDate: startDateTime,
-      endDate: endDateTime,
-      respondToAll,
-      respondOncePerSender,
+    const saved = await saveServerResponse(client, {
+      isEnabled,
+      fromDate,
+      toDate,
+      subject: subject.trim() || null,
+      textBody: message.trim() || null,
+      // Plain text only; the server derives what it needs from textBody
+      htmlBody: null,
     });
 
-    setSubject("");
-    setMessage("");
-    setStartDate("");
-    setStartTime("09:00");
-    setEndDate("");
-    setEndTime("17:00");
-    setRespondToAll(false);
-    setRespondOncePerSender(true);
+    if (saved) {
+      setJustSaved(true);
+      setTimeout(() => setJustSaved(false), 2000);
+    }
+  };
+
+  // Load a past message into the form
+  const handleUseResponder = (responder: VacationResponder) => {
+    setSubject(responder.subject);
+    setMessage(responder.message);
   };
 
   const toggleExpanded = (id: string) => {
@@ -98,75 +133,137 @@ export function VacationResponderSettings() {
     setExpandedResponderIds(newSet);
   };
 
-  const handleDuplicateResponder = (responder: VacationResponder) => {
-    createResponder({
-      identityId: responder.identityId,
-      isEnabled: false,
-      subject: `${responder.subject} (copy)`,
-      message: responder.message,
-      startDate: responder.startDate,
-      endDate: responder.endDate,
-      respondToAll: responder.respondToAll,
-      respondOncePerSender: responder.respondOncePerSender,
-    });
-  };
-
-  const activeResponder = getActiveResponder(selectedIdentityId);
-  const now = Date.now();
-
-  const formatDateTime = (timestamp: number) => {
-    return new Date(timestamp).toLocaleString();
+  const formatDateTime = (timestamp: number | null) => {
+    return timestamp === null ? "…" : new Date(timestamp).toLocaleString();
   };
 
-  const isResponderActive = (responder: VacationResponder) => {
-    return responder.isEnabled && responder.startDate <= now && responder.endDate >= now;
-  };
+  const isActive = isVacationResponseActive(serverResponse);
+  const isScheduled = !isActive && !!serverResponse?.isEnabled &&
+    !!serverResponse.fromDate && new Date(serverResponse.fromDate).getTime() > Date.now();
 
   return (
     <SettingsSection title={t("title")} description={t("description")}>
-      {/* Stats */}
-      <div className="grid grid-cols-2 gap-4 mb-6 p-4 bg-muted rounded-lg">
-        <div>
-          <p className="text-sm font-medium text-foreground">{t("total_responders")}</p>
-          <p className="text-2xl font-bold text-primary mt-1">
-            {getRespondersByIdentity(selectedIdentityId).length}
-          </p>
+      {!isSupported ? (
+        <div className="flex items-start gap-2 p-4 mb-6 rounded-lg border border-border bg-muted text-sm text-muted-foreground">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{t("unsupported")}</span>
         </div>
-        <div>
-          <p className="text-sm font-medium text-foreground">{t("active_responder")}</p>
-          <p className="text-sm text-muted-foreground mt-1">
-            {activeResponder ? (
-              <span className="flex items-center gap-1">
+      ) : (
+        <div className="p-4 bg-secondary rounded-lg mb-6 border border-border space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-foreground">{t("server_title")}</h3>
+            {isLoading ? (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            ) : (
+              <span
+                className={cn(
+                  "text-xs font-semibold px-2 py-1 rounded flex items-center gap-1",
+                  isActive
+                    ? "bg-green-500/20 text-green-700 dark:text-green-400"
+                    : isScheduled
+                      ? "bg-amber-500/20 text-amber-700 dark:text-amber-400"
+                      : "bg-muted text-muted-foreground"
+                )}
+              >
                 <Clock className="w-3 h-3" />
-                {activeResponder.subject}
+                {isActive ? t("status_active") : isScheduled ? t("status_scheduled") : t("status_off")}
               </span>
-            ) : (
-              t("none")
             )}
-          </p>
-        </div>
-      </div>
+          </div>
 
-      {/* Identity Selector */}
-      {identities.length > 1 && (
-        <div className="mb-6">
-          <label className="text-sm font-medium text-foreground mb-2 block">
-            {t("select_identity")}
+          <label className="text-sm font-medium text-foreground flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={isEnabled}
+              onChange={(e) => setIsEnabled(e.target.checked)}
+              className="w-4 h-4 rounded border-border"
+            />
+            {t("enable_auto_reply")}
           </label>
-          <select
-            value={selectedIdentityId}
-            onChange={(e) => {
-              setSelectedIdentityId(e.target.value);
-              setSearchQuery("");
-            }}
-            className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+
+          <Input
+            placeholder={t("subject_placeholder")}
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            className="bg-background"
+          />
+
+          <textarea
+            placeholder={t("message_placeholder")}
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+            rows={6}
+          />
+
+          <p className="text-xs text-muted-foreground">{t("dates_optional")}</p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium text-foreground mb-1 block">
+                {t("start_date")}
+              </label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-foreground mb-1 block">
+                {t("start_time")}
+              </label>
+              <input
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium text-foreground mb-1 block">
+                {t("end_date")}
+              </label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-foreground mb-1 block">
+                {t("end_time")}
+              </label>
+              <input
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || (isEnabled && !message.trim())}
+            className="w-full"
           >
-            {identities.map((identity) => (
-              <option key={identity.id} value={identity.id}>
-                {identity.name ? `${identity.name} <${identity.email}>` : identity.email}
-              </option>
-            ))}
-          </select>
+            {isSaving ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : justSaved ? (
+              <Check className="w-4 h-4 mr-2" />
+            ) : null}
+            {justSaved ? t("saved") : t("save")}
+          </Button>
         </div>
       )}
 
@@ -183,19 +280,11 @@ export function VacationResponderSettings() {
           />
           {t("auto_disable_on_return")}
         </label>
-
-        <label className="text-sm font-medium text-foreground flex items-center gap-2">
-          <input
-            type="checkbox"
-            checked={settings.notifyOnResponses}
-            onChange={(e) => updateSettings({ notifyOnResponses: e.target.checked })}
-            className="w-4 h-4 rounded border-border"
-          />
-          {t("notify_on_responses")}
-        </label>
       </div>
 
-      {/* Search */}
+      {/* Past messages */}
+      <h3 className="font-semibold text-foreground mb-3">{t("history_title")}</h3>
+
       <div className="mb-6">
         <Input
           placeholder={t("search_placeholder")}
@@ -205,106 +294,6 @@ export function VacationResponderSettings() {
         />
       </div>
 
-      {/* Create New Responder */}
-      <div className="p-4 bg-secondary rounded-lg mb-6 border border-border space-y-3">
-        <h3 className="font-semibold text-foreground">{t("new_responder")}</h3>
-
-        <Input
-          placeholder={t("subject_placeholder")}
-          value={subject}
-          onChange={(e) => setSubject(e.target.value)}
-          className="bg-background"
-        />
-
-        <textarea
-          placeholder={t("message_placeholder")}
-          value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary resize-none"
-          rows={6}
-        />
-
-        <div className="grid grid-cols-2 gap-3">
-          <div>
-            <label className="text-sm font-medium text-foreground mb-1 block">
-              {t("start_date")}
-            </label>
-            <input
-              type="date"
-              value={startDate}
-              onChange={(e) => setStartDate(e.target.value)}
-              className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
-            />
-          </div>
-          <div>
-            <label className="text-sm font-medium text-foreground mb-1 block">
-              {t("start_time")}
-            </label>
-            <input
-              type="time"
-              value={startTime}
-              onChange={(e) => setStartTime(e.target.value)}
-              className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
-            />
-          </div>
-        </div>
-
-        <div className="grid grid-cols-2 gap-3">
-          <div>
-            <label className="text-sm font-medium text-foreground mb-1 block">
-              {t("end_date")}
-            </label>
-            <input
-              type="date"
-              value={endDate}
-              onChange={(e) => setEndDate(e.target.value)}
-              className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
-            />
-          </div>
-          <div>
-            <label className="text-sm font-medium text-foreground mb-1 block">
-              {t("end_time")}
-            </label>
-            <input
-              type="time"
-              value={endTime}
-              onChange={(e) => setEndTime(e.target.value)}
-              className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
-            />
-          </div>
-        </div>
-
-        <label className="text-sm font-medium text-foreground flex items-center gap-2">
-          <input
-            type="checkbox"
-            checked={respondToAll}
-            onChange={(e) => setRespondToAll(e.target.checked)}
-            className="w-4 h-4 rounded border-border"
-          />
-          {t("respond_to_all")}
-        </label>
-
-        <label className="text-sm font-medium text-foreground flex items-center gap-2">
-          <input
-            type="checkbox"
-            checked={respondOncePerSender}
-            onChange={(e) => setRespondOncePerSender(e.target.checked)}
-            className="w-4 h-4 rounded border-border"
-          />
-          {t("respond_once_per_sender")}
-        </label>
-
-        <Button
-          onClick={handleCreateResponder}
-          disabled={!subject.trim() || !message.trim() || !startDate || !endDate}
-          className="w-full"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          {t("create_responder")}
-        </Button>
-      </div>
-
-      {/* Responders List */}
       <div className="space-y-3">
         {filteredResponders.length === 0 ? (
           <p className="text-center text-muted-foreground py-6">{t("no_responders")}</p>
@@ -318,13 +307,13 @@ export function VacationResponderSettings() {
               <div
                 className={cn(
                   "flex items-center gap-2 p-4 transition-colors cursor-pointer",
-                  isResponderActive(responder)
+                  responder.isEnabled
                     ? "bg-green-500/10 hover:bg-green-500/20"
                     : "bg-secondary hover:bg-accent"
                 )}
                 onClick={() => toggleExpanded(responder.id)}
               >
-                {isResponderActive(responder) && (
+                {responder.isEnabled && (
                   <div className="text-xs font-semibold bg-green-500/20 text-green-700 dark:text-green-400 px-2 py-1 rounded flex items-center gap-1">
                     <Clock className="w-3 h-3" />
                     {t("active")}
@@ -332,39 +321,25 @@ export function VacationResponderSettings() {
                 )}
 
                 <div className="flex-1 min-w-0">
-                  <h4 className="font-medium truncate text-foreground">{responder.subject}</h4>
+                  <h4 className="font-medium truncate text-foreground">{responder.subject || t("no_subject")}</h4>
                   <p className="text-xs text-muted-foreground truncate">
                     {formatDateTime(responder.startDate)} - {formatDateTime(responder.endDate)}
                   </p>
                 </div>
 
                 <div className="flex items-center gap-1">
-                  <label
-                    className="flex items-center gap-2 px-2 py-1 hover:bg-muted rounded transition-colors"
-                    onClick={(e) => e.stopPropagation()}
-                  >
-                    <input
-                      type="checkbox"
-                      checked={responder.isEnabled}
-                      onChange={(e) => {
+                  {isSupported && (
+                    <button
+                      onClick={(e) => {
                         e.stopPropagation();
-                        updateResponder(responder.id, { isEnabled: e.target.checked });
+                        handleUseResponder(responder);
                       }}
-                      className="w-4 h-4 rounded border-border"
-                    />
-                    <span className="text-xs font-medium text-foreground">{t("enabled")}</span>
-                  </label>
-
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDuplicateResponder(responder);
-                    }}
-                    className="p-1 hover:bg-muted rounded transition-colors"
-                    title={t("duplicate_responder")}
-                  >
-                    <Copy className="w-4 h-4 text-muted-foreground" />
-                  </button>
+                      className="p-1 hover:bg-muted rounded transition-colors"
+                      title={t("use_message")}
+                    >
+                      <RotateCcw className="w-4 h-4 text-muted-foreground" />
+                    </button>
+                  )}
 
                   <button
                     onClick={(e) => {
@@ -397,17 +372,6 @@ export function VacationResponderSettings() {
                     </div>
                   </div>
 
-                  <div className="grid grid-cols-2 gap-3 text-xs text-muted-foreground">
-                    <div>
-                      <p className="font-semibold">{t("respond_to_all")}:</p>
-                      <p>{responder.respondToAll ? t("yes") : t("no")}</p>
-                    </div>
-                    <div>
-                      <p className="font-semibold">{t("respond_once_per_sender")}:</p>
-                      <p>{responder.respondOncePerSender ? t("yes") : t("no")}</p>
-                    </div>
-                  </div>
-
                   <div className="text-xs text-muted-foreground">
                     {t("created")}: {new Date(responder.createdAt).toLocaleDateString()}
                   </div>
@@ -13,6 +13,7 @@ export interface Toast {
   message?: string;
   duration?: number;
   onClick?: () => void;
+  action?: { label: string; onClick: () => void }; // e.g. "Undo"
 }
 
 interface ToastProps {
@@ -67,6 +68,18 @@ export function ToastItem({ toast, onClose }: ToastProps) {
           <p className="text-sm mt-1 opacity-90">{toast.message}</p>
         )}
       </div>
+      {toast.action && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            toast.action!.onClick();
+            onClose(toast.id);
+          }}
+          className="text-sm font-medium underline hover:no-underline flex-shrink-0"
+        >
+          {toast.action.label}
+        </button>
+      )}
       <button
         onClick={(e) => {
           e.stopPropagation();
@@ -49,6 +49,14 @@ export default [
       },
     },
   },
+  {
+    files: ["public/service-worker.js"],
+    languageOptions: {
+      globals: {
+        ...globals.serviceworker,
+      },
+    },
+  },
   {
     ignores: [
       ".next/**",
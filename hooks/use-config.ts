@@ -2,18 +2,34 @@
 
 import { useState, useEffect } from 'react';
 
-interface AppConfig {
+interface RuntimeConfig {
   appName: string;
   jmapServerUrl: string;
+  oauthClientId: string;
+  oauthIssuerUrl: string;
+  allowBasicAuth: boolean;
+  useProxy: boolean; // JMAP requests go through /api/jmap, which holds the credentials
+}
+
+interface AppConfig extends RuntimeConfig {
   isLoading: boolean;
   error: string | null;
 }
 
+const DEFAULT_CONFIG: RuntimeConfig = {
+  appName: 'Webmail',
+  jmapServerUrl: '',
+  oauthClientId: '',
+  oauthIssuerUrl: '',
+  allowBasicAuth: false,
+  useProxy: false,
+};
+
 // Cache the config to avoid multiple fetches
-let configCache: { appName: string; jmapServerUrl: string } | null = null;
-let configPromise: Promise<{ appName: string; jmapServerUrl: string }> | null = null;
+let configCache: RuntimeConfig | null = null;
+let configPromise: Promise<RuntimeConfig> | null = null;
 
-async function fetchConfig(): Promise<{ appName: string; jmapServerUrl: string }> {
+async function fetchConfig(): Promise<RuntimeConfig> {
   // Return cached config if available
   if (configCache) {
     return configCache;
@@ -33,8 +49,8 @@ async function fetchConfig(): Promise<{ appName: string; jmapServerUrl: string }
       return res.json();
     })
     .then((data) => {
-      configCache = data;
-      return data;
+      configCache = { ...DEFAULT_CONFIG, ...data };
+      return configCache!;
     })
     .finally(() => {
       configPromise = null;
@@ -53,8 +69,7 @@ async function fetchConfig(): Promise<{ appName: string; jmapServerUrl: string }
  */
 export function useConfig(): AppConfig {
   const [config, setConfig] = useState<AppConfig>({
-    appName: configCache?.appName || 'Webmail',
-    jmapServerUrl: configCache?.jmapServerUrl || '',
+    ...(configCache || DEFAULT_CONFIG),
     isLoading: !configCache,
     error: null,
   });
@@ -63,8 +78,7 @@ export function useConfig(): AppConfig {
     // If already cached, no need to fetch
     if (configCache) {
       setConfig({
-        appName: configCache.appName,
-        jmapServerUrl: configCache.jmapServerUrl,
+        ...configCache,
         isLoading: false,
         error: null,
       });
@@ -74,8 +88,7 @@ export function useConfig(): AppConfig {
     fetchConfig()
       .then((data) => {
         setConfig({
-          appName: data.appName,
-          jmapServerUrl: data.jmapServerUrl,
+          ...data,
           isLoading: false,
           error: null,
         });
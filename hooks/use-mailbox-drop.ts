@@ -43,14 +43,15 @@ export function useMailboxDrop({ mailbox, onDropComplete }: UseMailboxDropOption
     // Virtual nodes (shared folder headers) cannot be drop targets
     if (mailbox.id.startsWith("shared-")) return false;
 
-    // For shared mailboxes, check account compatibility
-    if (mailbox.isShared && draggedEmails[0]) {
+    // Check account compatibility (emails dragged from a unified view carry their account)
+    if (draggedEmails[0]) {
       // Get the source mailbox's account ID from the store
       const mailboxes = useEmailStore.getState().mailboxes;
       const sourceMb = mailboxes.find(mb => mb.id === sourceMailboxId);
+      const sourceAccountId = draggedEmails[0].accountId || sourceMb?.accountId;
 
       // Cross-account moves are not supported
-      if (sourceMb?.accountId !== mailbox.accountId) {
+      if (sourceAccountId && sourceAccountId !== mailbox.accountId) {
         return false;
       }
     }
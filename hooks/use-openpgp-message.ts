@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import type { Email } from "@/lib/jmap/types";
+import { encodeBase64Lines, type MimeAttachment } from "@/lib/mime-utils";
+import { isOpenPGPMessage, isProtectionPart, type DecryptionResult } from "@/lib/email-encryption-types";
+import { useAuthStore } from "@/stores/auth-store";
+import { useAutocryptStore } from "@/stores/autocrypt-store";
+import { useEmailEncryptionStore } from "@/stores/email-encryption-store";
+
+interface UseOpenPGPMessageReturn {
+  email: Email | null; // With the decrypted (or verified) body in place of the original one
+  protection: DecryptionResult | null; // Null for messages that aren't OpenPGP at all
+}
+
+const LOADING: DecryptionResult = { status: "loading", isEncrypted: false, signature: null, attachments: [] };
+
+// Decrypted inline images can't be fetched from the server, so they are embedded
+const embedInlineImages = (html: string, attachments: MimeAttachment[]) =>
+  attachments.reduce((result, att) => {
+    if (!att.cid || !att.type.startsWith("image/")) return result;
+    const dataUrl = `data:${att.type};base64,${encodeBase64Lines(att.data).replace(/\r\n/g, "")}`;
+    return result.split(`cid:${att.cid}`).join(dataUrl);
+  }, html);
+
+// The email with the decrypted (or verified) body and attachments in place of the original ones
+export const applyDecryptionResult = (email: Email, result: DecryptionResult<unknown>): Email => {
+  if (result.status !== "ok") return email;
+
+  const bodyValues: Email["bodyValues"] = {};
+  if (result.text !== undefined) bodyValues["pgp-text"] = { value: result.text };
+  if (result.html !== undefined) bodyValues["pgp-html"] = { value: embedInlineImages(result.html, result.attachments) };
+
+  return {
+    ...email,
+    bodyValues,
+    textBody: result.text !== undefined ? [{ partId: "pgp-text", blobId: "", size: result.text.length, type: "text/plain" }] : [],
+    htmlBody: result.html !== undefined ? [{ partId: "pgp-html", blobId: "", size: result.html.length, type: "text/html" }] : [],
+    // Encrypted attachments only exist in memory and are offered by the badge; the
+    // attachments of a signed message are regular blobs, minus the signature itself
+    attachments: result.isEncrypted ? [] : email.attachments?.filter((att) => !isProtectionPart(att.type)),
+  };
+};
+
+/**
+ * Decrypt and verify an OpenPGP message (PGP/MIME or inline) for display
+ */
+export function useOpenPGPMessage(email: Email | null, enabled = true): UseOpenPGPMessageReturn {
+  const { client, identities } = useAuthStore();
+  const processAutocrypt = useAutocryptStore((state) => state.processEmail);
+  const openMessage = useEmailEncryptionStore((state) => state.openMessage);
+  const result = useEmailEncryptionStore((state) => (email ? state.openedMessages[email.id] : undefined));
+  const isProtected = !!email && isOpenPGPMessage(email);
+
+  useEffect(() => {
+    if (email && client && enabled && isProtected && !result) {
+      void openMessage(client, email);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- the message is opened once per email id
+  }, [email?.id, client, enabled, isProtected, result, openMessage]);
+
+  // Learn the sender's key from the Autocrypt header of every message read, except our own
+  const sender = email?.from?.[0]?.email?.toLowerCase();
+  const isOwnMessage = !!sender && identities.some((identity) => identity.email.toLowerCase() === sender);
+  useEffect(() => {
+    if (email && client && enabled && !isOwnMessage) {
+      void processAutocrypt(client, email);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- the headers are processed once per email id
+  }, [email?.id, client, enabled, isOwnMessage, processAutocrypt]);
+
+  return useMemo(() => {
+    if (!email || !isProtected) return { email, protection: null };
+    if (!result) return { email, protection: LOADING };
+    return { email: applyDecryptionResult(email, result), protection: result };
+  }, [email, isProtected, result]);
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import type { Email } from "@/lib/jmap/types";
+import { isSMIMEMessage } from "@/lib/email-encryption-types";
+import { useAuthStore } from "@/stores/auth-store";
+import { useSMIMEStore, type SMIMEResult } from "@/stores/smime-store";
+import { applyDecryptionResult } from "./use-openpgp-message";
+
+interface UseSMIMEMessageReturn {
+  email: Email | null; // With the decrypted (or verified) body in place of the original one
+  protection: SMIMEResult | null; // Null for messages that aren't S/MIME at all
+}
+
+const LOADING: SMIMEResult = { status: "loading", isEncrypted: false, signature: null, attachments: [] };
+
+/**
+ * Decrypt and verify an S/MIME message (application/pkcs7-mime or multipart/signed) for display
+ */
+export function useSMIMEMessage(email: Email | null, enabled = true): UseSMIMEMessageReturn {
+  const { client } = useAuthStore();
+  const openMessage = useSMIMEStore((state) => state.openMessage);
+  const result = useSMIMEStore((state) => (email ? state.openedMessages[email.id] : undefined));
+  const isProtected = !!email && isSMIMEMessage(email);
+
+  useEffect(() => {
+    if (email && client && enabled && isProtected && !result) {
+      void openMessage(client, email);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- the message is opened once per email id
+  }, [email?.id, client, enabled, isProtected, result, openMessage]);
+
+  return useMemo(() => {
+    if (!email || !isProtected) return { email, protection: null };
+    if (!result) return { email, protection: LOADING };
+    return { email: applyDecryptionResult(email, result), protection: result };
+  }, [email, isProtected, result]);
+}
@@ -32,11 +32,66 @@ export interface SearchResult {
   relevanceScore: number;
 }
 
+// Search pinned as a virtual folder in the sidebar, listed in the user's order
 export interface SavedSearch {
   id: string;
   name: string;
   description?: string;
-  query: AdvancedSearchQuery;
+  query: string; // Search bar query, AdvancedSearch filters are saved in that form too
   resultCount: number;
-  lastExecuted?: Date;
+  unreadCount: number;
+  lastExecuted?: number; // When the counts were last refreshed
+}
+
+// Search bar query language (Gmail-style operators)
+
+export type SearchQueryOperator =
+  | 'from' | 'to' | 'cc' | 'bcc' | 'subject' | 'body'
+  | 'has' | 'is' | 'in'
+  | 'before' | 'after' | 'larger' | 'smaller';
+
+export interface SearchQueryTerm {
+  type: 'term';
+  operator?: SearchQueryOperator; // None for plain words and quoted phrases
+  value: string;
+  start: number; // Range in the query string
+  end: number;
+}
+
+// Parsed query; OR binds tighter than the implicit AND, as in Gmail
+export type SearchQueryNode =
+  | SearchQueryTerm
+  | { type: 'and' | 'or'; children: SearchQueryNode[] }
+  | { type: 'not'; child: SearchQueryNode };
+
+export type SearchQueryErrorCode =
+  | 'unterminated_quote'
+  | 'missing_value'
+  | 'missing_operand'
+  | 'unbalanced_parenthesis'
+  | 'invalid_date'
+  | 'invalid_size'
+  | 'invalid_value'
+  | 'unknown_mailbox';
+
+export interface SearchQueryError {
+  code: SearchQueryErrorCode;
+  value?: string; // Offending text, shown in the message
+  start: number;
+  end: number;
+}
+
+export interface SearchSuggestion {
+  kind: 'operator' | 'value' | 'mailbox' | 'contact';
+  label: string;
+  detail?: string;
+  text: string; // Replaces query.slice(start, end)
+  start: number;
+  end: number;
+}
+
+// A run of SearchSnippet text, highlighted when the server marked it as a match
+export interface SearchSnippetPart {
+  text: string;
+  isMatch: boolean;
 }
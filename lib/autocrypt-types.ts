@@ -0,0 +1,37 @@
+/**
+ * Autocrypt Types
+ * Opportunistic key exchange through Autocrypt headers (Autocrypt Level 1)
+ */
+
+import type { PGPKey } from '@/lib/email-encryption-types';
+
+export type PreferEncrypt = 'mutual' | 'nopreference';
+
+// A parsed Autocrypt or Autocrypt-Gossip header
+export interface AutocryptHeader {
+  addr: string; // Lower-cased
+  preferEncrypt: PreferEncrypt;
+  keydata: Uint8Array; // Binary transferable public key
+}
+
+// What we know about a correspondent, keyed by lower-cased address
+export interface AutocryptPeer {
+  addr: string;
+  lastSeen?: string; // Effective date of the most recent message from the peer
+  autocryptTimestamp?: string; // Effective date of the most recent message with an Autocrypt header
+  key?: PGPKey;
+  preferEncrypt: PreferEncrypt;
+  gossipTimestamp?: string;
+  gossipKey?: PGPKey;
+}
+
+export type AutocryptRecommendation =
+  | 'disable' // No usable key
+  | 'discourage' // The key may be stale or only known from gossip
+  | 'available' // Encryption is possible, but off by default
+  | 'encrypt'; // Both sides prefer encryption, turn it on
+
+export interface AutocryptSettings {
+  enabled: boolean; // Send our own Autocrypt header and harvest incoming ones
+  preferEncrypt: PreferEncrypt;
+}
@@ -0,0 +1,115 @@
+/**
+ * Autocrypt Level 1 helpers: header parsing and building, and the encryption
+ * recommendation (https://autocrypt.org/level1.html)
+ */
+
+import type { AutocryptHeader, AutocryptPeer, AutocryptRecommendation, PreferEncrypt } from './autocrypt-types';
+import type { PGPKey } from './email-encryption-types';
+import { base64ToBytes, encodeBase64Lines } from './mime-utils';
+import { exportBinaryPublicKey } from './pgp-utils';
+
+// A key seen with an Autocrypt header this long before the peer's last message may be stale
+const STALE_KEY_MS = 35 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an Autocrypt or Autocrypt-Gossip header value. Returns null when the
+ * header is invalid, e.g. when it has an unknown critical attribute
+ */
+export function parseAutocryptHeader(value: string): AutocryptHeader | null {
+  const attributes: Record<string, string> = {};
+
+  for (const attribute of value.replace(/\r?\n[ \t]+/g, ' ').split(';')) {
+    const eq = attribute.indexOf('=');
+    if (eq <= 0) continue;
+    const name = attribute.slice(0, eq).trim().toLowerCase();
+    if (name in attributes) return null;
+    attributes[name] = attribute.slice(eq + 1).trim();
+  }
+
+  const { addr, keydata } = attributes;
+  if (!addr || !keydata) return null;
+
+  // Attributes starting with an underscore are non-critical and may be ignored
+  const known = ['addr', 'prefer-encrypt', 'keydata'];
+  if (Object.keys(attributes).some((name) => !known.includes(name) && !name.startsWith('_'))) return null;
+
+  try {
+    return {
+      addr: addr.toLowerCase(),
+      preferEncrypt: attributes['prefer-encrypt'] === 'mutual' ? 'mutual' : 'nopreference',
+      keydata: base64ToBytes(keydata),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Our own Autocrypt header value, folded so it can be used as a raw header
+ */
+export async function buildAutocryptHeader(
+  addr: string,
+  publicKeyArmored: string,
+  preferEncrypt: PreferEncrypt
+): Promise<string> {
+  const keydata = encodeBase64Lines(await exportBinaryPublicKey(publicKeyArmored)).replace(/\r\n/g, '\r\n ');
+  const preference = preferEncrypt === 'mutual' ? ' prefer-encrypt=mutual;' : '';
+  return `addr=${addr};${preference} keydata=\r\n ${keydata}`;
+}
+
+/**
+ * Autocrypt-Gossip header value telling the other recipients about a peer's key
+ */
+export async function buildGossipHeader(addr: string, publicKeyArmored: string): Promise<string> {
+  const keydata = encodeBase64Lines(await exportBinaryPublicKey(publicKeyArmored)).replace(/\r\n/g, '\r\n ');
+  return `addr=${addr}; keydata=\r\n ${keydata}`;
+}
+
+/**
+ * The Date of a message, but never in the future
+ */
+export function getEffectiveDate(sentAt: string | undefined, receivedAt: string): string {
+  const date = new Date(sentAt || receivedAt);
+  const now = new Date();
+  return (isNaN(date.getTime()) || date > now ? now : date).toISOString();
+}
+
+const isUsable = (key: PGPKey | undefined): key is PGPKey =>
+  !!key && (!key.expiresAt || new Date(key.expiresAt) > new Date());
+
+/**
+ * The key to encrypt to: the one from the peer's own header, otherwise a gossiped one
+ */
+export function getPeerKey(peer: AutocryptPeer | undefined): PGPKey | undefined {
+  if (isUsable(peer?.key)) return peer.key;
+  if (isUsable(peer?.gossipKey)) return peer.gossipKey;
+  return undefined;
+}
+
+/**
+ * Recommendation for a single recipient (Level 1, section 2.4)
+ */
+export function getPeerRecommendation(
+  peer: AutocryptPeer | undefined,
+  ownPreferEncrypt: PreferEncrypt
+): AutocryptRecommendation {
+  if (!peer || !getPeerKey(peer)) return 'disable';
+
+  if (!isUsable(peer.key)) return 'discourage';
+  if (peer.autocryptTimestamp && peer.lastSeen &&
+    new Date(peer.lastSeen).getTime() - new Date(peer.autocryptTimestamp).getTime() > STALE_KEY_MS) {
+    return 'discourage';
+  }
+
+  return peer.preferEncrypt === 'mutual' && ownPreferEncrypt === 'mutual' ? 'encrypt' : 'available';
+}
+
+/**
+ * Recommendation for a message, from the recommendations for each of its recipients
+ */
+export function combineRecommendations(recommendations: AutocryptRecommendation[]): AutocryptRecommendation {
+  if (recommendations.length === 0 || recommendations.includes('disable')) return 'disable';
+  if (recommendations.every((recommendation) => recommendation === 'encrypt')) return 'encrypt';
+  if (recommendations.includes('discourage')) return 'discourage';
+  return 'available';
+}
@@ -1,15 +1,26 @@
 /**
  * Calendar Invite Types
- * Defines types for handling calendar invitations and RSVP
+ * Defines types for iMIP invitations (RFC 6047) received by email and the RSVP sent back
  */
 
-export type InviteStatus = 'pending' | 'accepted' | 'declined' | 'tentative' | 'no-response';
-export type InviteRole = 'organizer' | 'attendee' | 'optional';
+import type { Attachment, Email } from '@/lib/jmap/types';
+
+// iTIP methods (RFC 5546) an invitation email can carry
+export type ITipMethod = 'PUBLISH' | 'REQUEST' | 'REPLY' | 'ADD' | 'CANCEL' | 'REFRESH' | 'COUNTER' | 'DECLINECOUNTER';
+
+// PARTSTAT values, lower-cased like CalendarEventParticipant.status
+export type InviteStatus = 'needs-action' | 'accepted' | 'declined' | 'tentative';
+export type InviteRole = 'chair' | 'req-participant' | 'opt-participant' | 'non-participant';
+
+// What the user can answer with
+export type InviteAnswer = Exclude<InviteStatus, 'needs-action'>;
 
 export interface CalendarInvite {
-  id: string;
   emailId: string;
-  eventId: string;
+  method: ITipMethod;
+  uid: string;
+  sequence: number;
+  recurrenceId?: string;
   eventTitle: string;
   eventDescription?: string;
   organizer: {
@@ -19,24 +30,19 @@ export interface CalendarInvite {
   attendees: CalendarAttendee[];
   startTime: Date;
   endTime: Date;
+  isAllDay: boolean;
   location?: string;
-  timezone?: string;
+  timezone?: string; // TZID of DTSTART, times above are already converted
   recurrence?: RecurrenceRule;
-  status: InviteStatus;
-  role: InviteRole;
-  createdAt: Date;
-  updatedAt: Date;
-  icalData?: string; // Raw iCal data
+  icalData: string; // Raw iCalendar data
 }
 
 export interface CalendarAttendee {
-  id: string;
   name: string;
   email: string;
   status: InviteStatus;
   role: InviteRole;
-  responseTime?: Date;
-  comment?: string;
+  rsvp: boolean;
 }
 
 export interface RecurrenceRule {
@@ -45,32 +51,31 @@ export interface RecurrenceRule {
   count?: number;
   until?: Date;
   byDay?: string[];
-  byMonth?: number[];
-  byMonthDay?: number[];
 }
 
+// The user's answer, kept so the card shows it again after a reload
 export interface InviteResponse {
-  id: string;
-  inviteId: string;
-  status: InviteStatus;
-  comment?: string;
-  respondedAt: Date;
-  sendNotification: boolean;
+  uid: string;
+  sequence: number;
+  status: InviteAnswer;
+  respondedAt: string;
 }
 
-export interface InviteNotification {
-  id: string;
-  inviteId: string;
-  type: 'new_invite' | 'reminder' | 'update' | 'cancellation';
-  sentAt: Date;
-  read: boolean;
+export interface CalendarInviteSettings {
+  sendReplies: boolean; // Send the iTIP REPLY to the organizer
+  calendarId: string | null; // Where accepted invitations go, the first calendar when null
 }
 
-export interface CalendarInviteSettings {
-  autoAcceptFromTrustedSenders: boolean;
-  trustedSenders: string[];
-  sendResponseNotifications: boolean;
-  showInvitesInCalendar: boolean;
-  defaultResponse: InviteStatus;
-  reminderMinutes: number[];
+const CALENDAR_TYPES = ['text/calendar', 'application/ics'];
+
+// The iCalendar part of an iMIP message, usually next to the text and HTML alternatives
+export function getInvitePart(email: Email): Attachment | undefined {
+  return email.attachments?.find((part) =>
+    CALENDAR_TYPES.includes(part.type?.toLowerCase()) || part.name?.toLowerCase().endsWith('.ics')
+  );
+}
+
+export function findAttendee(invite: CalendarInvite, addresses: string[]): CalendarAttendee | undefined {
+  const lowered = addresses.map((address) => address.toLowerCase());
+  return invite.attendees.find((attendee) => lowered.includes(attendee.email.toLowerCase()));
 }
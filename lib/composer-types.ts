@@ -0,0 +1,42 @@
+/**
+ * Composer Types
+ * State of the email composer, kept so a message can be reopened exactly as it was
+ */
+
+import type { ComposeFormat } from "@/stores/settings-store";
+import type { OpenPGPSendMode, SMIMESendMode } from "@/lib/email-encryption-types";
+
+export type ComposerMode = 'compose' | 'reply' | 'replyAll' | 'forward';
+
+// An attachment in the composer: either a local file being uploaded, or an
+// existing blob carried over from the original message when forwarding
+export interface ComposerAttachment {
+  name: string;
+  size: number;
+  type: string;
+  file?: File;
+  blobId?: string;
+  cid?: string;
+  uploading?: boolean;
+  error?: boolean;
+}
+
+// Everything needed to reopen the composer after an undone send
+export interface ComposerSnapshot {
+  mode: ComposerMode;
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  body: string;
+  htmlBody: string;
+  format: ComposeFormat;
+  attachments: ComposerAttachment[];
+  identityId: string | null;
+  draftId: string | null;
+  requestReadReceipt?: boolean;
+  openpgp?: OpenPGPSendMode;
+  smime?: SMIMESendMode;
+  inReplyTo?: string[];
+  references?: string[];
+}
@@ -1,65 +1,152 @@
 /**
  * Email Encryption Types
- * Defines types for PGP/GPG email encryption
+ * Defines types for OpenPGP (PGP/MIME, RFC 3156) and S/MIME (RFC 8551) email
+ * encryption and signing
  */
 
-export type EncryptionMethod = 'pgp' | 'gpg' | 'smime';
+import type { Email, OutgoingAttachment } from '@/lib/jmap/types';
+import type { MimeAttachment } from '@/lib/mime-utils';
+
+export type EncryptionMethod = 'pgp' | 'smime';
 export type KeyType = 'public' | 'private';
 
 export interface PGPKey {
-  id: string;
-  keyId: string;
+  id: string; // Primary key fingerprint
+  keyId: string; // Long key ID, upper-case hex
   fingerprint: string;
   type: KeyType;
   algorithm: string;
-  keySize: number;
-  email: string;
+  keySize?: number;
+  email: string; // From the primary user ID
   name?: string;
-  createdAt: Date;
-  expiresAt?: Date;
+  userIds: string[];
+  createdAt: string;
+  expiresAt?: string;
   isDefault: boolean;
   publicKeyArmored: string;
-  privateKeyArmored?: string; // Only for private keys
+  // Only for private keys, always protected with a passphrase; it is never stored unlocked
+  encryptedPrivateKeyArmored?: string;
 }
 
-export interface EncryptedEmail {
-  id: string;
-  emailId: string;
-  encryptionMethod: EncryptionMethod;
-  encryptedBody: string;
-  encryptedSubject?: string;
-  recipientKeyIds: string[];
-  senderKeyId: string;
-  isEncrypted: boolean;
-  isSigned: boolean;
-  signatureValid?: boolean;
-  createdAt: Date;
+// An X.509 certificate for S/MIME; own certificates come from a PKCS#12 file with their key
+export interface SMIMECertificate {
+  id: string; // SHA-256 fingerprint of the DER certificate, upper-case hex
+  fingerprint: string;
+  type: KeyType;
+  subject: string; // Common name, otherwise the whole distinguished name
+  email: string; // First address of the certificate, lower-cased
+  emails: string[];
+  issuer: string;
+  serialNumber: string;
+  notBefore: string;
+  notAfter: string;
+  isCA: boolean;
+  isDefault: boolean;
+  certificatePem: string;
+  chainPem?: string[]; // Intermediate certificates, sent along with our signatures
+  // Only for own certificates, PKCS#8 encrypted with the PKCS#12 password
+  encryptedPrivateKeyPem?: string;
 }
 
 export interface EncryptionSettings {
-  enableEncryption: boolean;
-  encryptionMethod: EncryptionMethod;
-  autoEncryptToTrustedRecipients: boolean;
+  encryptByDefault: boolean; // Turn on encryption in the composer when every recipient has a key
   autoSignEmails: boolean;
   defaultPrivateKeyId?: string;
-  trustedRecipients: string[];
 }
 
-export interface KeyPair {
-  publicKey: PGPKey;
-  privateKey: PGPKey;
+// What the composer asks for; the keys are looked up when the message is sent
+export interface OpenPGPSendMode {
+  encrypt: boolean;
+  sign: boolean;
 }
 
-export interface EncryptionResult {
-  success: boolean;
-  encryptedData: string;
-  error?: string;
+export type SMIMESendMode = OpenPGPSendMode;
+
+// What the composer hands over to be protected
+export interface OutgoingProtectedMessage {
+  from: string;
+  recipients: string[];
+  body: string;
+  htmlBody?: string;
+  attachments?: OutgoingAttachment[];
+}
+
+// Outcome of checking a signature, shown as the trust badge
+export type SignatureState =
+  | 'valid' // Good signature from a key whose user ID matches the sender
+  | 'mismatch' // Good signature, but the key belongs to someone else
+  | 'unknown-key' // Signed with a key that isn't in the keyring
+  | 'invalid'; // The signature doesn't match the content
+
+export interface SignatureCheck {
+  state: SignatureState;
+  keyId: string;
+  signer?: PGPKey;
+}
+
+export type SMIMESignatureState =
+  | SignatureState
+  | 'untrusted'; // Good signature, but the certificate chain doesn't lead to a trusted authority
+
+export interface SMIMESignatureCheck {
+  state: SMIMESignatureState;
+  signer?: SMIMECertificate;
+  chain: SMIMECertificate[]; // Signer first, up to the last certificate that could be found
+  error?: string; // Why the chain isn't trusted
 }
 
-export interface DecryptionResult {
-  success: boolean;
-  decryptedData: string;
-  signatureValid?: boolean;
-  signer?: string;
+export type DecryptionStatus =
+  | 'plain' // Neither encrypted nor signed
+  | 'loading'
+  | 'ok'
+  | 'locked' // A matching private key exists but is locked
+  | 'no-key' // Encrypted to keys we don't have
+  | 'failed';
+
+export interface DecryptionResult<Signature = SignatureCheck> {
+  status: DecryptionStatus;
+  isEncrypted: boolean;
+  signature: Signature | null;
+  text?: string;
+  html?: string;
+  attachments: MimeAttachment[];
+  neededKeyIds?: string[]; // Key IDs (or certificate serial numbers) the message is encrypted to, when it can't be opened
   error?: string;
 }
+
+export const PGP_ARMORED_MESSAGE = /-----BEGIN PGP MESSAGE-----[\s\S]+?-----END PGP MESSAGE-----/;
+export const PGP_SIGNED_MESSAGE = /-----BEGIN PGP SIGNED MESSAGE-----[\s\S]+?-----END PGP SIGNATURE-----/;
+
+const PGP_MIME_TYPES = ['application/pgp-encrypted', 'application/pgp-signature'];
+const SMIME_MIME_TYPES = [
+  'application/pkcs7-mime',
+  'application/x-pkcs7-mime',
+  'application/pkcs7-signature',
+  'application/x-pkcs7-signature',
+];
+
+// Signatures and S/MIME containers the server lists as attachments, not meant for the reader
+export function isProtectionPart(type: string | undefined): boolean {
+  const mediaType = type?.toLowerCase() || '';
+  return mediaType === 'application/pgp-signature' || SMIME_MIME_TYPES.includes(mediaType);
+}
+
+export function getTextBody(email: Email): string {
+  const partId = email.textBody?.[0]?.partId;
+  return (partId && email.bodyValues?.[partId]?.value) || '';
+}
+
+// The server lists the control parts of multipart/encrypted and multipart/signed as attachments
+export function hasPGPMimeParts(email: Email): boolean {
+  return !!email.attachments?.some((part) => PGP_MIME_TYPES.includes(part.type?.toLowerCase()));
+}
+
+export function isOpenPGPMessage(email: Email): boolean {
+  const text = getTextBody(email);
+  return hasPGPMimeParts(email) || PGP_ARMORED_MESSAGE.test(text) || PGP_SIGNED_MESSAGE.test(text);
+}
+
+// S/MIME bodies (application/pkcs7-mime) and signatures are listed as attachments too
+export function isSMIMEMessage(email: Email): boolean {
+  return !!email.attachments?.some((part) => SMIME_MIME_TYPES.includes(part.type?.toLowerCase()));
+}
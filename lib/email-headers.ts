@@ -1,4 +1,5 @@
 import { AuthenticationResults } from './jmap/types';
+import type { UnsubscribeMethod } from './subscription-types';
 
 /**
  * Parse Authentication-Results header to extract SPF, DKIM, DMARC results
@@ -189,42 +190,100 @@ export function parseSpamLLM(header: string): { verdict: string; explanation: st
 /**
  * Extract list headers (List-Unsubscribe, List-Id, etc.)
  */
-interface ListHeaders {
+export interface ListHeaders {
   listId?: string;
-  listUnsubscribe?: string;
+  listUnsubscribe?: string[]; // Every URI offered, in the sender's order of preference
+  listUnsubscribePost?: string; // "List-Unsubscribe=One-Click" when one-click is supported
   listHelp?: string;
   listPost?: string;
 }
 
+// Header names are case-insensitive, servers don't all keep the sender's casing
+const getHeader = (headers: Record<string, string | string[]>, name: string): string | undefined => {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name.toLowerCase());
+  if (!key) return undefined;
+  const value = headers[key];
+  return Array.isArray(value) ? value[0] : value;
+};
+
 export function extractListHeaders(headers: Record<string, string | string[]>): ListHeaders {
   const result: ListHeaders = {};
 
-  if (headers['List-Id']) {
-    result.listId = Array.isArray(headers['List-Id'])
-      ? headers['List-Id'][0]
-      : headers['List-Id'];
+  const listId = getHeader(headers, 'List-Id');
+  if (listId) {
+    result.listId = listId;
+  }
+
+  const unsub = getHeader(headers, 'List-Unsubscribe');
+  if (unsub) {
+    // Extract URLs from "<url>, <url>" format
+    const uris = Array.from(unsub.matchAll(/<([^>]+)>/g), (match) => match[1].trim());
+    result.listUnsubscribe = uris.length > 0 ? uris : [unsub.trim()];
   }
 
-  if (headers['List-Unsubscribe']) {
-    const unsub = Array.isArray(headers['List-Unsubscribe'])
-      ? headers['List-Unsubscribe'][0]
-      : headers['List-Unsubscribe'];
-    // Extract URL from <url> format
-    const match = unsub.match(/<([^>]+)>/);
-    result.listUnsubscribe = match ? match[1] : unsub;
+  const unsubPost = getHeader(headers, 'List-Unsubscribe-Post');
+  if (unsubPost) {
+    result.listUnsubscribePost = unsubPost.trim();
   }
 
-  if (headers['List-Help']) {
-    result.listHelp = Array.isArray(headers['List-Help'])
-      ? headers['List-Help'][0]
-      : headers['List-Help'];
+  const listHelp = getHeader(headers, 'List-Help');
+  if (listHelp) {
+    result.listHelp = listHelp;
   }
 
-  if (headers['List-Post']) {
-    result.listPost = Array.isArray(headers['List-Post'])
-      ? headers['List-Post'][0]
-      : headers['List-Post'];
+  const listPost = getHeader(headers, 'List-Post');
+  if (listPost) {
+    result.listPost = listPost;
   }
 
   return result;
-}
\ No newline at end of file
+}
+
+/**
+ * Split a List-Id header ("Weekly News <news.example.com>") into its identifier and name
+ */
+export function parseListId(header: string): { id: string; name: string } | null {
+  const match = header.match(/<([^>]+)>/);
+  const id = (match ? match[1] : header).trim().toLowerCase();
+  if (!id) return null;
+  const name = match ? header.slice(0, match.index).trim().replace(/^"(.*)"$/, '$1') : '';
+  return { id, name };
+}
+
+// A malformed escape (e.g. %ZZ) comes back empty instead of throwing
+function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Pick how to unsubscribe from the List-Unsubscribe URIs: RFC 8058 one-click when the
+ * sender supports it, then a mailto: request, then a web page the user completes
+ */
+export function getUnsubscribeMethod(uris: string[], post?: string | null): UnsubscribeMethod | null {
+  const httpsUrl = uris.find((uri) => /^https:\/\//i.test(uri));
+  if (httpsUrl && post && /List-Unsubscribe=One-Click/i.test(post)) {
+    return { type: 'one-click', url: httpsUrl };
+  }
+
+  const mailto = uris.find((uri) => /^mailto:/i.test(uri));
+  if (mailto) {
+    const [address, query = ''] = mailto.slice('mailto:'.length).split('?');
+    const params = new URLSearchParams(query);
+    const to = safeDecodeURIComponent(address).trim();
+    if (to) {
+      return {
+        type: 'mailto',
+        to,
+        subject: params.get('subject') || 'unsubscribe',
+        body: params.get('body') || 'unsubscribe',
+      };
+    }
+  }
+
+  const webUrl = httpsUrl || uris.find((uri) => /^http:\/\//i.test(uri));
+  return webUrl ? { type: 'link', url: webUrl } : null;
+}
@@ -1,41 +1,77 @@
 /**
  * Email Scheduling Types
- * Defines types for scheduling emails to be sent at a later time
+ * Scheduled emails are EmailSubmissions the server holds until sendAt
+ * (FUTURERELEASE, RFC 4865), so the schedule lives on the server
  */
 
-export type ScheduleFrequency = 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+import type { Mailbox } from "@/lib/jmap/types";
+
+// EmailSubmission undoStatus: pending submissions can still be canceled
+export type ScheduleStatus = 'pending' | 'final' | 'canceled';
+
+export interface SubmissionAddress {
+  email: string;
+  parameters?: Record<string, string | null> | null;
+}
+
+export interface SubmissionEnvelope {
+  mailFrom: SubmissionAddress;
+  rcptTo: SubmissionAddress[];
+}
 
 export interface EmailSchedule {
-  id: string;
+  id: string; // EmailSubmission ID
   emailId: string;
-  scheduledTime: Date;
-  frequency?: ScheduleFrequency;
-  endDate?: Date;
-  timezone: string;
-  status: 'scheduled' | 'sent' | 'cancelled' | 'failed';
-  createdAt: Date;
-  updatedAt: Date;
-  failureReason?: string;
-  retryCount: number;
-  maxRetries: number;
+  identityId: string;
+  sendAt: string; // UTCDate the server releases the message at
+  undoStatus: ScheduleStatus;
+  envelope: SubmissionEnvelope | null;
 }
 
 export interface ScheduledEmail {
-  id: string;
-  draftId: string;
-  to: string[];
-  cc?: string[];
-  bcc?: string[];
-  subject: string;
-  body: string;
-  attachments?: string[];
   schedule: EmailSchedule;
-  reminderMinutes?: number; // Remind user X minutes before sending
+  subject: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  preview: string;
+}
+
+export type SendLaterPreset = 'later_today' | 'tomorrow_morning' | 'tomorrow_afternoon' | 'next_monday';
+
+// Preset times offered by "Send later", skipping ones already in the past
+export function getSendLaterPresets(now: Date = new Date()): { key: SendLaterPreset; date: Date }[] {
+  const at = (daysFromNow: number, hours: number) => {
+    const date = new Date(now);
+    date.setDate(date.getDate() + daysFromNow);
+    date.setHours(hours, 0, 0, 0);
+    return date;
+  };
+
+  const laterToday = new Date(now);
+  laterToday.setHours(laterToday.getHours() + 3, 0, 0, 0);
+
+  const daysToMonday = ((8 - now.getDay()) % 7) || 7;
+
+  const presets: { key: SendLaterPreset; date: Date }[] = [
+    { key: 'later_today', date: laterToday },
+    { key: 'tomorrow_morning', date: at(1, 8) },
+    { key: 'tomorrow_afternoon', date: at(1, 13) },
+    { key: 'next_monday', date: at(daysToMonday, 8) },
+  ];
+
+  // "Later today" is pointless once it rolls over to tomorrow
+  return presets.filter(({ key, date }) => key !== 'later_today' || date.getDate() === now.getDate());
+}
+
+// maxDelayedSend is in seconds; 0 means the server does not support delayed send
+export function isWithinMaxDelayedSend(sendAt: Date, maxDelayedSend: number, now: Date = new Date()): boolean {
+  const delay = (sendAt.getTime() - now.getTime()) / 1000;
+  return maxDelayedSend > 0 && delay > 0 && delay <= maxDelayedSend;
 }
 
-export interface ScheduleReminder {
-  id: string;
-  scheduledEmailId: string;
-  reminderTime: Date;
-  notified: boolean;
+// The folder scheduled messages wait in; servers without the "scheduled" role get a plain one
+export function isScheduledMailbox(mailbox: Mailbox | undefined): boolean {
+  if (!mailbox || mailbox.isShared) return false;
+  return mailbox.role === 'scheduled' || (!mailbox.role && !mailbox.parentId && mailbox.name === 'Scheduled');
 }
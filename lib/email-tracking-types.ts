@@ -1,56 +1,82 @@
 /**
  * Email Tracking Types
- * Defines types for tracking email opens, clicks, and delivery status
+ * Delivery status as reported by the server (DSN) and read receipts the recipient
+ * chooses to send (MDN). Nothing is embedded in outgoing messages.
  */
 
-export type TrackingEventType = 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'failed';
+import type { Attachment, Email, EmailSubmission } from '@/lib/jmap/types';
 
-export interface TrackingPixel {
-  id: string;
-  emailId: string;
-  trackingId: string;
-  createdAt: Date;
+export type RecipientDeliveryState = 'queued' | 'delivered' | 'failed' | 'unknown';
+
+export interface RecipientDelivery {
+  email: string;
+  state: RecipientDeliveryState;
+  smtpReply: string | null;
+  displayed: boolean; // Only known when the receiving server reports it
 }
 
-export interface TrackingEvent {
-  id: string;
+export interface EmailDeliveryStatus {
   emailId: string;
-  trackingId: string;
-  eventType: TrackingEventType;
-  timestamp: Date;
-  userAgent?: string;
-  ipAddress?: string;
-  location?: {
-    country?: string;
-    city?: string;
-    latitude?: number;
-    longitude?: number;
+  sentAt: string | null;
+  undoStatus: EmailSubmission['undoStatus'];
+  recipients: RecipientDelivery[];
+  fetchedAt: number;
+}
+
+// How to answer a read receipt request
+export type ReceiptResponsePolicy = 'ask' | 'always' | 'never';
+
+export interface TrackingSettings {
+  requestReadReceipts: boolean; // Default of the composer toggle
+  receiptResponse: ReceiptResponsePolicy;
+}
+
+const DELIVERY_STATES: Record<string, RecipientDeliveryState> = {
+  queued: 'queued',
+  yes: 'delivered',
+  no: 'failed',
+};
+
+export function toEmailDeliveryStatus(submission: EmailSubmission): EmailDeliveryStatus {
+  const statuses = submission.deliveryStatus || {};
+  // Servers without delivery tracking leave deliveryStatus null; list the envelope instead
+  const recipients = Object.keys(statuses).length > 0
+    ? Object.entries(statuses).map(([email, status]) => ({
+        email,
+        state: DELIVERY_STATES[status.delivered] || 'unknown',
+        smtpReply: status.smtpReply || null,
+        displayed: status.displayed === 'yes',
+      }))
+    : (submission.envelope?.rcptTo || []).map(({ email }) => ({
+        email,
+        state: (submission.undoStatus === 'pending' ? 'queued' : 'unknown') as RecipientDeliveryState,
+        smtpReply: null,
+        displayed: false,
+      }));
+
+  return {
+    emailId: submission.emailId,
+    sentAt: submission.sendAt || null,
+    undoStatus: submission.undoStatus,
+    recipients,
+    fetchedAt: Date.now(),
   };
-  clickedLink?: string;
 }
 
-export interface EmailTrackingData {
-  id: string;
-  emailId: string;
-  trackingId: string;
-  recipientEmail: string;
-  sentAt: Date;
-  deliveredAt?: Date;
-  firstOpenedAt?: Date;
-  lastOpenedAt?: Date;
-  openCount: number;
-  clickCount: number;
-  clickedLinks: string[];
-  status: 'pending' | 'sent' | 'delivered' | 'opened' | 'bounced' | 'failed';
-  events: TrackingEvent[];
+// Address a read receipt should go to, when the sender asked for one and it wasn't answered yet
+export function getReadReceiptRequest(email: Email): string | null {
+  if (email.keywords?.$mdnsent || !email.headers) return null;
+
+  const name = Object.keys(email.headers).find((key) => key.toLowerCase() === 'disposition-notification-to');
+  if (!name) return null;
+
+  const raw = email.headers[name];
+  const value = (Array.isArray(raw) ? raw[0] : raw).trim();
+  const match = value.match(/<([^>]+)>/);
+  return match ? match[1] : value || null;
 }
 
-export interface TrackingSettings {
-  enableTracking: boolean;
-  trackOpens: boolean;
-  trackClicks: boolean;
-  trackDelivery: boolean;
-  notifyOnOpen: boolean;
-  notifyOnClick: boolean;
-  retentionDays: number; // How long to keep tracking data
+// The machine-readable part of a received read receipt
+export function getReadReceiptPart(email: Email): Attachment | undefined {
+  return email.attachments?.find((part) => part.type?.toLowerCase() === 'message/disposition-notification');
 }
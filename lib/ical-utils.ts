@@ -0,0 +1,302 @@
+import type {
+  CalendarAttendee,
+  CalendarInvite,
+  InviteAnswer,
+  InviteRole,
+  InviteStatus,
+  ITipMethod,
+  RecurrenceRule,
+} from './calendar-invite-types';
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+/**
+ * Parse iCalendar (RFC 5545) text into its component tree
+ */
+export function parseICalendar(text: string): ICalComponent | null {
+  // Unfold continuation lines first
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const stack: ICalComponent[] = [];
+  let root: ICalComponent | null = null;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parsePropertyLine(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { name: property.value.toUpperCase(), properties: [], components: [] };
+      if (stack.length > 0) {
+        stack[stack.length - 1].components.push(component);
+      } else {
+        root = component;
+      }
+      stack.push(component);
+    } else if (property.name === 'END') {
+      stack.pop();
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  return root;
+}
+
+function parsePropertyLine(line: string): ICalProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) || [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Unescape a TEXT value
+ */
+export function unescapeICalText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+/**
+ * Escape a TEXT value
+ */
+export function escapeICalText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Offset of a time zone from UTC at a given instant, in milliseconds
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(time));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUTC - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value, converting TZID local times to an instant
+ */
+export function parseICalDate(value: string, params: Record<string, string> = {}): { date: Date; isDate: boolean } | null {
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly || params.VALUE === 'DATE') {
+    if (!dateOnly) return null;
+    return { date: new Date(+dateOnly[1], +dateOnly[2] - 1, +dateOnly[3]), isDate: true };
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+
+  if (utc) {
+    return { date: new Date(wallClock), isDate: false };
+  }
+
+  if (params.TZID) {
+    try {
+      // Two passes so times right after a DST change land on the right offset
+      let time = wallClock - getTimeZoneOffset(wallClock, params.TZID);
+      time = wallClock - getTimeZoneOffset(time, params.TZID);
+      return { date: new Date(time), isDate: false };
+    } catch {
+      // Not an IANA zone (e.g. a Windows zone name); read it as local time
+    }
+  }
+
+  // Floating time
+  return { date: new Date(+year, +month - 1, +day, +hour, +minute, +second), isDate: false };
+}
+
+/**
+ * Parse a DURATION value (e.g. "PT1H30M", "P1D") into milliseconds
+ */
+export function parseICalDuration(value: string): number {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return 0;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = ((+(weeks || 0) * 7 + +(days || 0)) * 24 * 3600 + +(hours || 0) * 3600 + +(minutes || 0) * 60 + +(seconds || 0)) * 1000;
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME value
+ */
+export function formatICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Lines are folded at 75 octets; counting characters keeps multi-byte text under the limit only approximately
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    chunks.push(line.slice(i, i + 74));
+  }
+  return chunks.join('\r\n ');
+}
+
+const stripMailto = (value: string) => value.replace(/^mailto:/i, '').trim();
+
+const getProperty = (component: ICalComponent, name: string) =>
+  component.properties.find((property) => property.name === name);
+
+const toStatus = (partstat?: string): InviteStatus => {
+  const status = partstat?.toLowerCase();
+  return status === 'accepted' || status === 'declined' || status === 'tentative' ? status : 'needs-action';
+};
+
+const toRole = (role?: string): InviteRole => {
+  const value = role?.toLowerCase();
+  return value === 'chair' || value === 'opt-participant' || value === 'non-participant' ? value : 'req-participant';
+};
+
+function parseRecurrence(value: string): RecurrenceRule | undefined {
+  const parts = Object.fromEntries(value.split(';').map((part) => part.split('=') as [string, string]));
+  const frequency = parts.FREQ?.toLowerCase();
+  if (frequency !== 'daily' && frequency !== 'weekly' && frequency !== 'monthly' && frequency !== 'yearly') {
+    return undefined;
+  }
+  return {
+    frequency,
+    interval: parts.INTERVAL ? parseInt(parts.INTERVAL) : 1,
+    ...(parts.COUNT && { count: parseInt(parts.COUNT) }),
+    ...(parts.UNTIL && { until: parseICalDate(parts.UNTIL)?.date }),
+    ...(parts.BYDAY && { byDay: parts.BYDAY.split(',') }),
+  };
+}
+
+/**
+ * Read the invitation an iMIP message carries. Only the first VEVENT is used;
+ * overridden instances of a recurring event are rare in invitations
+ */
+export function parseCalendarInvite(emailId: string, icalData: string): CalendarInvite | null {
+  const calendar = parseICalendar(icalData);
+  const event = calendar?.components.find((component) => component.name === 'VEVENT');
+  if (!calendar || !event) return null;
+
+  const uid = getProperty(event, 'UID')?.value;
+  const dtstart = getProperty(event, 'DTSTART');
+  const start = dtstart && parseICalDate(dtstart.value, dtstart.params);
+  if (!uid || !start) return null;
+
+  const dtend = getProperty(event, 'DTEND');
+  const duration = getProperty(event, 'DURATION');
+  const end = dtend
+    ? parseICalDate(dtend.value, dtend.params)?.date
+    : duration
+      ? new Date(start.date.getTime() + parseICalDuration(duration.value))
+      : null;
+
+  const organizer = getProperty(event, 'ORGANIZER');
+  const attendees: CalendarAttendee[] = event.properties
+    .filter((property) => property.name === 'ATTENDEE')
+    .map((property) => ({
+      name: property.params.CN || '',
+      email: stripMailto(property.value),
+      status: toStatus(property.params.PARTSTAT),
+      role: toRole(property.params.ROLE),
+      rsvp: property.params.RSVP?.toUpperCase() === 'TRUE',
+    }));
+
+  const text = (name: string) => {
+    const value = getProperty(event, name)?.value;
+    return value ? unescapeICalText(value) : undefined;
+  };
+  const rrule = getProperty(event, 'RRULE')?.value;
+
+  return {
+    emailId,
+    method: (getProperty(calendar, 'METHOD')?.value.toUpperCase() || 'PUBLISH') as ITipMethod,
+    uid,
+    sequence: parseInt(getProperty(event, 'SEQUENCE')?.value || '0') || 0,
+    recurrenceId: getProperty(event, 'RECURRENCE-ID')?.value,
+    eventTitle: text('SUMMARY') || '',
+    eventDescription: text('DESCRIPTION'),
+    organizer: {
+      name: organizer?.params.CN || '',
+      email: organizer ? stripMailto(organizer.value) : '',
+    },
+    attendees,
+    startTime: start.date,
+    // All-day events without DTEND last one day, timed ones are instantaneous
+    endTime: end || new Date(start.date.getTime() + (start.isDate ? 24 * 3600 * 1000 : 0)),
+    isAllDay: start.isDate,
+    location: text('LOCATION'),
+    timezone: dtstart.params.TZID,
+    recurrence: rrule ? parseRecurrence(rrule) : undefined,
+    icalData,
+  };
+}
+
+/**
+ * Build the iTIP REPLY (RFC 5546 Section 3.2.3) answering an invitation for one attendee
+ */
+export function buildInviteReply(invite: CalendarInvite, attendee: { name?: string; email: string }, status: InviteAnswer): string {
+  const calendar = parseICalendar(invite.icalData);
+  const event = calendar?.components.find((component) => component.name === 'VEVENT');
+  // Keep the original date properties as they were written, time zone included
+  const copied = ['DTSTART', 'DTEND', 'DURATION', 'RECURRENCE-ID', 'ORGANIZER']
+    .map((name) => event && getProperty(event, name))
+    .filter((property): property is ICalProperty => !!property)
+    .map((property) => {
+      const params = Object.entries(property.params).map(([key, value]) =>
+        /[;:,]/.test(value) ? `;${key}="${value}"` : `;${key}=${value}`
+      );
+      return `${property.name}${params.join('')}:${property.value}`;
+    });
+
+  const cn = attendee.name ? `;CN="${attendee.name.replace(/"/g, '')}"` : '';
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Webmail//iMIP//EN',
+    'METHOD:REPLY',
+    'BEGIN:VEVENT',
+    `UID:${invite.uid}`,
+    `SEQUENCE:${invite.sequence}`,
+    `DTSTAMP:${formatICalDate(new Date())}`,
+    ...copied,
+    `ATTENDEE;PARTSTAT=${status.toUpperCase()}${cn}:mailto:${attendee.email}`,
+    `SUMMARY:${escapeICalText(invite.eventTitle)}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -1,7 +1,16 @@
-import type { Email, Mailbox, StateChange, AccountStates, Thread, Identity, Contact, ContactGroup, Calendar, CalendarEvent } from "./types";
+import type { Email, Mailbox, PushSubscription, SetError, SetResult, StateChange, AccountStates, Thread, Identity, Contact, ContactGroup, Calendar, CalendarEvent, EmailListPage, EmailListChanges, UnifiedEmailQuery, UnifiedEmailPage, MailboxChanges, MailboxUpdate, ThreadChanges, EmailSendOptions, SentEmail, SieveScript, SieveCapability, VacationResponse, EmailSubmission, MDN, MDNDisposition, EmailSyncState, EmailQueryFilter, SearchSnippet } from "./types";
+import type { CalendarInvite, InviteStatus } from "@/lib/calendar-invite-types";
+import { isScheduledMailbox, type EmailSchedule, type ScheduledEmail, type SubmissionEnvelope } from "@/lib/email-scheduling-types";
+import { encodeHeaderWord, toCRLF } from "@/lib/mime-utils";
+import type { MailingListEmail } from "@/lib/subscription-types";
+import { VAPID_CAPABILITY } from "@/lib/web-push-types";
+import type { OAuthSession, OAuthTokens } from "@/lib/oauth-types";
+import { isTokenExpiring, refreshOAuthTokens } from "@/lib/oauth-utils";
+import { JMAPWebSocketTransport, WEBSOCKET_CAPABILITY, isInterrupted, isNotSent, type WebSocketCapability } from "./websocket-transport";
 
 // JMAP protocol types - these are intentionally flexible due to server variations
-interface JMAPSession {
+export interface JMAPSession {
+  username?: string;
   apiUrl: string;
   downloadUrl: string;
   uploadUrl?: string;
@@ -11,6 +20,13 @@ interface JMAPSession {
   capabilities?: Record<string, unknown>;
 }
 
+// Basic auth is only used where the deployment allows it, OAuth sessions renew their own tokens.
+// Through the proxy (/api/jmap) the credentials stay on the server, in the session's httpOnly cookie
+export type JMAPAuth =
+  | { type: 'basic'; password: string }
+  | { type: 'oauth'; session: OAuthSession }
+  | { type: 'proxy'; sessionId: string };
+
 interface JMAPAccount {
   name?: string;
   isPersonal?: boolean;
@@ -45,6 +61,22 @@ interface JMAPEmailHeader {
   value: string;
 }
 
+// Properties fetched for every email shown in a list view
+const EMAIL_LIST_PROPERTIES = [
+  "id",
+  "threadId",
+  "mailboxIds",
+  "keywords",
+  "size",
+  "receivedAt",
+  "from",
+  "to",
+  "cc",
+  "subject",
+  "preview",
+  "hasAttachment",
+];
+
 // Generic JMAP method call type
 type JMAPMethodCall = [string, Record<string, unknown>, string];
 
@@ -56,11 +88,65 @@ interface JMAPResponse {
   methodResponses: Array<[string, JMAPResponseResult, string]>;
 }
 
+// Arguments of a /set response (RFC 8620 section 5.3)
+interface JMAPSetResponse {
+  accountId: string;
+  oldState?: string | null;
+  newState: string;
+  created?: Record<string, { id: string } & Record<string, unknown>> | null;
+  updated?: Record<string, Record<string, unknown> | null> | null;
+  destroyed?: string[] | null;
+  notCreated?: Record<string, SetError> | null;
+  notUpdated?: Record<string, SetError> | null;
+  notDestroyed?: Record<string, SetError> | null;
+}
+
+// A request waiting to share an HTTP request with others made in the same tick
+interface QueuedRequest {
+  methodCalls: JMAPMethodCall[];
+  using: string[];
+  resolve: (response: JMAPResponse) => void;
+  reject: (error: Error) => void;
+}
+
+// Methods that change data on the server
+const CHANGING_METHOD = /\/(set|copy|import|upload)$/;
+
+const DEFAULT_USING = ["urn:ietf:params:jmap:core", "urn:ietf:params:jmap:mail", "urn:ietf:params:jmap:calendars"];
+
+// Fallback when the server doesn't say, the minimum RFC 8620 recommends
+const DEFAULT_MAX_OBJECTS = 500;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Request-level errors (RFC 8620 section 3.6.1) come before any method runs: unknownCapability,
+// notJSON, notRequest and limit, all with status 400
+const isRefusedRequest = (error: unknown) =>
+  error instanceof Error &&
+  (error.message.startsWith("Request failed: 400") || /urn:ietf:params:jmap:error:(unknownCapability|notJSON|notRequest|limit)/.test(error.message));
+
+// Result references (RFC 8620 section 3.7) follow their call ids when those get a prefix
+function prefixResultReferences(args: Record<string, unknown>, prefix: string): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args).map(([key, value]) => {
+    const reference = value as { resultOf?: unknown } | null;
+    return key.startsWith("#") && typeof reference?.resultOf === "string"
+      ? [key, { ...reference, resultOf: `${prefix}${reference.resultOf}` }]
+      : [key, value];
+  }));
+}
+
 export class JMAPClient {
   private serverUrl: string;
   private username: string;
-  private password: string;
-  private authHeader: string;
+  private auth: JMAPAuth;
+  private tokenRefresh: Promise<void> | null = null;
+  private tokensRefreshedCallback: ((tokens: OAuthTokens) => void) | null = null;
   private apiUrl: string = "";
   private accountId: string = "";
   private downloadUrl: string = "";
@@ -70,27 +156,91 @@ export class JMAPClient {
   private pingInterval: NodeJS.Timeout | null = null;
   private accounts: Record<string, JMAPAccount> = {}; // All accounts (primary + shared)
   private eventSource: EventSource | null = null;
+  private webSocket: JMAPWebSocketTransport | null = null;
+  private isWebSocketPush = false;
   private stateChangeCallback: ((change: StateChange) => void) | null = null;
   private lastStates: AccountStates = {};
+  private requestQueue: QueuedRequest[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(serverUrl: string, username: string, password: string) {
+  // With OAuth the username may be left empty, it is then taken from the JMAP session
+  constructor(serverUrl: string, username: string, auth: JMAPAuth) {
     this.serverUrl = serverUrl.replace(/\/$/, '');
     this.username = username;
-    this.password = password;
-    this.authHeader = `Basic ${btoa(`${username}:${password}`)}`;
+    this.auth = auth;
+  }
+
+  private async getAuthHeader(): Promise<string | null> {
+    if (this.auth.type === 'proxy') {
+      return null;
+    }
+    if (this.auth.type === 'basic') {
+      return `Basic ${btoa(`${this.username}:${this.auth.password}`)}`;
+    }
+    if (isTokenExpiring(this.auth.session.tokens)) {
+      await this.refreshAccessToken();
+    }
+    return `Bearer ${this.auth.session.tokens.accessToken}`;
+  }
+
+  // Requests that find the token expired at the same time share one refresh
+  private refreshAccessToken(): Promise<void> {
+    if (this.auth.type !== 'oauth') return Promise.resolve();
+    const session = this.auth.session;
+
+    if (!this.tokenRefresh) {
+      this.tokenRefresh = (async () => {
+        if (!session.tokens.refreshToken) {
+          throw new Error('Session expired, please sign in again');
+        }
+        session.tokens = await refreshOAuthTokens(session.tokenEndpoint, session.clientId, session.tokens.refreshToken);
+        this.tokensRefreshedCallback?.(session.tokens);
+      })().finally(() => {
+        this.tokenRefresh = null;
+      });
+    }
+    return this.tokenRefresh;
+  }
+
+  // fetch with our credentials; an access token the server rejects is renewed and the request sent once more
+  private async authorizedFetch(url: string, init: { method?: string; headers?: Record<string, string>; body?: string | Blob } = {}): Promise<Response> {
+    const send = async () => {
+      const authHeader = await this.getAuthHeader();
+      return fetch(url, {
+        ...init,
+        headers: authHeader ? { ...init.headers, 'Authorization': authHeader } : init.headers,
+      });
+    };
+
+    const response = await send();
+    if (response.status === 401 && this.auth.type === 'oauth' && this.auth.session.tokens.refreshToken) {
+      await this.refreshAccessToken();
+      return send();
+    }
+    return response;
+  }
+
+  // Called with the new tokens after each refresh, so they can be saved for the next visit
+  onTokensRefreshed(callback: (tokens: OAuthTokens) => void): void {
+    this.tokensRefreshedCallback = callback;
+  }
+
+  getUsername(): string {
+    return this.username;
+  }
+
+  getProxySessionId(): string | null {
+    return this.auth.type === 'proxy' ? this.auth.sessionId : null;
   }
 
   async connect(): Promise<void> {
     // Get the session first
-    const sessionUrl = `${this.serverUrl}/.well-known/jmap`;
+    const sessionUrl = this.auth.type === 'proxy'
+      ? `/api/jmap/${this.auth.sessionId}/session`
+      : `${this.serverUrl}/.well-known/jmap`;
 
     try {
-      const sessionResponse = await fetch(sessionUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': this.authHeader,
-        },
-      });
+      const sessionResponse = await this.authorizedFetch(sessionUrl);
 
       if (!sessionResponse.ok) {
         if (sessionResponse.status === 401) {
@@ -104,6 +254,10 @@ export class JMAPClient {
       // Store the full session for reference
       this.session = session;
 
+      if (!this.username && session.username) {
+        this.username = session.username;
+      }
+
       // Extract and store capabilities
       this.capabilities = session.capabilities || {};
 
@@ -131,6 +285,8 @@ export class JMAPClient {
 
       // Start keep-alive mechanism
       this.startKeepAlive();
+
+      await this.openWebSocket();
     } catch (error) {
       console.error('Connection failed:', error);
       throw error;
@@ -215,6 +371,7 @@ export class JMAPClient {
       const mappedEvent: CalendarEvent = {
         id: jmapEvent.id,
         calendarId: calendarId || requestedCalendarId || 'unknown',
+        uid: jmapEvent.uid,
         title: jmapEvent.title || '',
         description: jmapEvent.description,
         location: jmapEvent.location,
@@ -292,29 +449,178 @@ export class JMAPClient {
     await this.connect();
   }
 
+  getSession(): JMAPSession | null {
+    return this.session;
+  }
+
+  /**
+   * Start from a session saved earlier, when the server can't be reached.
+   * Requests fail until the network is back; the keep-alive then reconnects.
+   */
+  restoreSession(session: JMAPSession): void {
+    const mailAccount = session.primaryAccounts?.["urn:ietf:params:jmap:mail"] || Object.keys(session.accounts || {})[0];
+    if (!mailAccount) {
+      throw new Error('No mail account found in session');
+    }
+
+    this.session = session;
+    this.capabilities = session.capabilities || {};
+    this.apiUrl = session.apiUrl;
+    this.downloadUrl = session.downloadUrl;
+    this.accounts = session.accounts || {};
+    this.accountId = mailAccount;
+    this.startKeepAlive();
+  }
+
+  // Requests and push go over a WebSocket when the server offers one (RFC 8887), HTTP otherwise
+  private async openWebSocket(): Promise<void> {
+    // An existing transport reconnects by itself
+    if (this.webSocket) return;
+
+    const capability = this.capabilities[WEBSOCKET_CAPABILITY] as WebSocketCapability | undefined;
+    if (!capability?.url || typeof WebSocket === 'undefined') {
+      return;
+    }
+
+    const transport = new JMAPWebSocketTransport(capability.url, (isOpen) => this.handleWebSocketChange(isOpen));
+    try {
+      await transport.connect();
+      this.webSocket = transport;
+    } catch (error) {
+      // Browsers can't authenticate every WebSocket handshake, HTTP works regardless
+      console.warn('WebSocket unavailable, using HTTP:', error);
+      transport.close();
+    }
+  }
+
   disconnect(): void {
+    // Whatever was asked for before still goes out
+    this.flushRequests();
     this.stopKeepAlive();
     this.closePushNotifications();
+    this.webSocket?.close();
+    this.webSocket = null;
     this.apiUrl = "";
     this.accountId = "";
     this.session = null;
     this.capabilities = {};
+    this.lastStates = {};
+  }
+
+  /**
+   * Requests made in the same tick share one HTTP request, as many as fit in
+   * maxCallsInRequest. Each caller gets back the responses to its own calls,
+   * under its own call ids.
+   */
+  private async request(methodCalls: JMAPMethodCall[], extraCapabilities: string[] = []): Promise<JMAPResponse> {
+    if (!this.apiUrl) {
+      throw new Error('Not connected. Call connect() first.');
+    }
+
+    const using = [...DEFAULT_USING, ...extraCapabilities];
+    // Creation ids are shared by the whole request, calls creating objects keep theirs to themselves
+    if (methodCalls.some(([name, args]) => args.create || name.endsWith("/import"))) {
+      return this.sendRequest(methodCalls, using);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.requestQueue.push({ methodCalls, using, resolve, reject });
+      this.flushTimer ??= setTimeout(() => this.flushRequests(), 0);
+    });
+  }
+
+  private flushRequests(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const queued = this.requestQueue;
+    this.requestQueue = [];
+
+    // Whole requests in order, calls may refer to the results of earlier ones
+    const maxCalls = this.getMaxCallsInRequest();
+    let batch: QueuedRequest[] = [];
+    let callCount = 0;
+    for (const item of queued) {
+      if (batch.length > 0 && callCount + item.methodCalls.length > maxCalls) {
+        void this.sendBatch(batch);
+        batch = [];
+        callCount = 0;
+      }
+      batch.push(item);
+      callCount += item.methodCalls.length;
+    }
+    if (batch.length > 0) {
+      void this.sendBatch(batch);
+    }
   }
 
-  private async request(methodCalls: JMAPMethodCall[]): Promise<JMAPResponse> {
+  private async sendBatch(batch: QueuedRequest[]): Promise<void> {
+    const sendAlone = (item: QueuedRequest) => this.sendRequest(item.methodCalls, item.using).then(item.resolve, item.reject);
+    if (batch.length === 1) {
+      await sendAlone(batch[0]);
+      return;
+    }
+
+    // Call ids get the caller's index, "0" of the third caller becomes "2.0"
+    const methodCalls = batch.flatMap((item, index) =>
+      item.methodCalls.map(([name, args, id]): JMAPMethodCall => [name, prefixResultReferences(args, `${index}.`), `${index}.${id}`])
+    );
+    const using = [...new Set(batch.flatMap((item) => item.using))];
+
+    let response: JMAPResponse;
+    try {
+      response = await this.sendRequest(methodCalls, using);
+    } catch (error) {
+      // Refused before anything ran, don't let one caller fail the others. Anything else may have
+      // been acted on, and sending changes again could move, destroy or send twice
+      if (isRefusedRequest(error)) {
+        await Promise.all(batch.map(sendAlone));
+      } else {
+        batch.forEach((item) => item.reject(error as Error));
+      }
+      return;
+    }
+
+    batch.forEach((item, index) => {
+      const prefix = `${index}.`;
+      item.resolve({
+        ...response,
+        methodResponses: (response.methodResponses || [])
+          .filter(([, , id]) => id.startsWith(prefix))
+          .map(([name, result, id]) => [name, result, id.slice(prefix.length)]),
+      });
+    });
+  }
+
+  private async sendRequest(methodCalls: JMAPMethodCall[], using: string[]): Promise<JMAPResponse> {
     if (!this.apiUrl) {
       throw new Error('Not connected. Call connect() first.');
     }
 
     const requestBody = {
-      using: ["urn:ietf:params:jmap:core", "urn:ietf:params:jmap:mail", "urn:ietf:params:jmap:calendars"],
+      using,
       methodCalls: methodCalls,
     };
 
-    const response = await fetch(this.apiUrl, {
+    // While the socket is reconnecting, requests take the HTTP way
+    if (this.webSocket?.isOpen()) {
+      try {
+        return { methodResponses: await this.webSocket.request(requestBody) };
+      } catch (error) {
+        // Reads can simply be asked again over HTTP, changes can't: they may have been made already
+        if (isInterrupted(error) && methodCalls.some(([name]) => CHANGING_METHOD.test(name))) {
+          throw new Error('The connection dropped before the server answered, the change may or may not have been made');
+        }
+        if (!(isInterrupted(error) || isNotSent(error)) || !this.apiUrl) {
+          throw error;
+        }
+      }
+    }
+
+    const response = await this.authorizedFetch(this.apiUrl, {
       method: 'POST',
       headers: {
-        'Authorization': this.authHeader,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(requestBody),
@@ -338,6 +644,78 @@ export class JMAPClient {
     return data;
   }
 
+  // Fetches any number of objects, in calls of at most maxObjectsInGet ids
+  private async getInChunks(method: string, args: Record<string, unknown>, ids: string[]): Promise<{ list: JMAPResponseResult[]; notFound: string[] }> {
+    // Made together, the calls share as few requests as the server allows
+    const responses = await Promise.all(chunk(ids, this.getMaxObjectsInGet()).map((chunkIds) =>
+      this.request([[method, { ...args, ids: chunkIds }, "0"]])
+    ));
+
+    const list: JMAPResponseResult[] = [];
+    const notFound: string[] = [];
+    for (const response of responses) {
+      const [name, result] = response.methodResponses?.[0] || [];
+      if (name !== method) {
+        throw new Error(result?.description || result?.type || `${method} failed`);
+      }
+      list.push(...(result.list || []));
+      notFound.push(...(result.notFound || []));
+    }
+    return { list, notFound };
+  }
+
+  /**
+   * Updates and destroys any number of objects, in calls of at most
+   * maxObjectsInSet each. Calls that fail mark their objects as not updated or
+   * not destroyed; it only throws when nothing got through at all.
+   */
+  private async setInChunks(method: string, accountId: string, changes: { update?: Record<string, JMAPResponseResult>; destroy?: string[] }): Promise<SetResult> {
+    const operations = [
+      ...Object.entries(changes.update || {}).map(([id, patch]) => ({ id, patch })),
+      ...(changes.destroy || []).map((id) => ({ id, patch: null })),
+    ];
+    const result: SetResult = { created: {}, updated: [], destroyed: [], notCreated: {}, notUpdated: {}, notDestroyed: {} };
+    let requestError: unknown = null;
+
+    await Promise.all(chunk(operations, this.getMaxObjectsInSet()).map(async (chunkOperations) => {
+      const update = Object.fromEntries(chunkOperations.filter((op) => op.patch).map((op) => [op.id, op.patch]));
+      const destroy = chunkOperations.filter((op) => !op.patch).map((op) => op.id);
+      const fail = (error: SetError) => {
+        Object.keys(update).forEach((id) => { result.notUpdated[id] = error; });
+        destroy.forEach((id) => { result.notDestroyed[id] = error; });
+      };
+
+      try {
+        const response = await this.request([
+          [method, {
+            accountId,
+            ...(Object.keys(update).length > 0 ? { update } : {}),
+            ...(destroy.length > 0 ? { destroy } : {}),
+          }, "0"],
+        ]);
+
+        const [name, set] = response.methodResponses?.[0] || [];
+        if (name !== method) {
+          fail({ type: set?.type || "serverFail", description: set?.description });
+          return;
+        }
+        result.updated.push(...Object.keys(set.updated || {}));
+        result.destroyed.push(...(set.destroyed || []));
+        Object.assign(result.notUpdated, set.notUpdated);
+        Object.assign(result.notDestroyed, set.notDestroyed);
+      } catch (error) {
+        requestError ??= error;
+        fail({ type: "requestFailed", description: error instanceof Error ? error.message : undefined });
+      }
+    }));
+
+    // E.g. the network is down, callers handle that as before
+    if (requestError && result.updated.length === 0 && result.destroyed.length === 0) {
+      throw requestError;
+    }
+    return result;
+  }
+
   async getQuota(): Promise<{ used: number; total: number } | null> {
     try {
       const response = await this.request([
@@ -375,6 +753,7 @@ export class JMAPClient {
 
       if (response.methodResponses?.[0]?.[0] === "Mailbox/get") {
         const rawMailboxes = (response.methodResponses[0][1].list || []) as JMAPMailbox[];
+        this.recordState(this.accountId, 'Mailbox', response.methodResponses[0][1].state);
 
         // Map and ensure all required fields are present
         const mailboxes = rawMailboxes.map((mb) => {
@@ -458,9 +837,6 @@ export class JMAPClient {
 
       // Fetch mailboxes for each account
       for (const accountId of accountIds) {
-        const account = this.accounts[accountId];
-        const isPrimary = accountId === this.accountId;
-
         try {
           const response = await this.request([
             ["Mailbox/get", {
@@ -470,38 +846,10 @@ export class JMAPClient {
 
           if (response.methodResponses?.[0]?.[0] === "Mailbox/get") {
             const rawMailboxes = (response.methodResponses[0][1].list || []) as JMAPMailbox[];
+            this.recordState(accountId, 'Mailbox', response.methodResponses[0][1].state);
 
             // Map mailboxes with account info
-            const mailboxes = rawMailboxes.map((mb) => {
-              return {
-                id: isPrimary ? mb.id : `${accountId}:${mb.id}`, // Namespace shared mailbox IDs
-                originalId: mb.id, // Keep original ID for JMAP queries
-                name: mb.name,
-                parentId: mb.parentId ? (isPrimary ? mb.parentId : `${accountId}:${mb.parentId}`) : undefined,
-                role: mb.role || undefined,
-                sortOrder: mb.sortOrder ?? 0,
-                totalEmails: mb.totalEmails ?? 0,
-                unreadEmails: mb.unreadEmails ?? 0,
-                totalThreads: mb.totalThreads ?? 0,
-                unreadThreads: mb.unreadThreads ?? 0,
-                myRights: mb.myRights || {
-                  mayReadItems: true,
-                  mayAddItems: true,
-                  mayRemoveItems: true,
-                  maySetSeen: true,
-                  maySetKeywords: true,
-                  mayCreateChild: true,
-                  mayRename: true,
-                  mayDelete: true,
-                  maySubmit: true,
-                },
-                isSubscribed: mb.isSubscribed ?? true,
-                // Account info
-                accountId: accountId,
-                accountName: account?.name || (isPrimary ? this.username : accountId),
-                isShared: !isPrimary,
-              } as Mailbox;
-            });
+            const mailboxes = rawMailboxes.map((mb) => this.mapJMAPMailbox(mb, accountId));
 
             allMailboxes.push(...mailboxes);
           }
@@ -519,6 +867,131 @@ export class JMAPClient {
     }
   }
 
+  // Map a raw JMAP mailbox, namespacing IDs for shared accounts
+  private mapJMAPMailbox(mb: JMAPMailbox, accountId: string): Mailbox {
+    const account = this.accounts[accountId];
+    const isPrimary = accountId === this.accountId;
+
+    return {
+      id: isPrimary ? mb.id : `${accountId}:${mb.id}`, // Namespace shared mailbox IDs
+      originalId: mb.id, // Keep original ID for JMAP queries
+      name: mb.name,
+      parentId: mb.parentId ? (isPrimary ? mb.parentId : `${accountId}:${mb.parentId}`) : undefined,
+      role: mb.role || undefined,
+      sortOrder: mb.sortOrder ?? 0,
+      totalEmails: mb.totalEmails ?? 0,
+      unreadEmails: mb.unreadEmails ?? 0,
+      totalThreads: mb.totalThreads ?? 0,
+      unreadThreads: mb.unreadThreads ?? 0,
+      myRights: mb.myRights || {
+        mayReadItems: true,
+        mayAddItems: true,
+        mayRemoveItems: true,
+        maySetSeen: true,
+        maySetKeywords: true,
+        mayCreateChild: true,
+        mayRename: true,
+        mayDelete: true,
+        maySubmit: true,
+      },
+      isSubscribed: mb.isSubscribed ?? true,
+      // Account info
+      accountId: accountId,
+      accountName: account?.name || (isPrimary ? this.username : accountId),
+      isShared: !isPrimary,
+    } as Mailbox;
+  }
+
+  // Mailbox management (Mailbox/set)
+  // These take the server's own mailbox IDs (Mailbox.originalId for shared accounts)
+
+  private async setMailboxes(args: Record<string, unknown>, accountId?: string): Promise<JMAPSetResponse> {
+    const response = await this.request([
+      ["Mailbox/set", {
+        accountId: accountId || this.accountId,
+        ...args,
+      }, "0"],
+    ]);
+
+    const [methodName, result] = response.methodResponses?.[0] || [];
+    if (methodName !== "Mailbox/set") {
+      throw new Error(result?.description || result?.type || 'Failed to update mailboxes');
+    }
+
+    // Surface the first per-mailbox SetError (e.g. mailboxHasChild, forbidden)
+    const setError = [result.notCreated, result.notUpdated, result.notDestroyed]
+      .flatMap((errors) => Object.values(errors || {}))[0] as { type?: string; description?: string } | undefined;
+    if (setError) {
+      throw new Error(setError.description || setError.type || 'Failed to update mailboxes');
+    }
+
+    return result as JMAPSetResponse;
+  }
+
+  async createMailbox(name: string, parentId: string | null = null, accountId?: string, role?: string): Promise<string> {
+    const result = await this.setMailboxes({
+      create: {
+        "mailbox": {
+          name,
+          parentId,
+          ...(role && { role }),
+          isSubscribed: true,
+        },
+      },
+    }, accountId);
+
+    const created = result.created?.["mailbox"];
+    if (!created) {
+      throw new Error('Failed to create mailbox');
+    }
+    return created.id;
+  }
+
+  async updateMailbox(mailboxId: string, updates: MailboxUpdate, accountId?: string): Promise<void> {
+    await this.setMailboxes({
+      update: { [mailboxId]: updates },
+    }, accountId);
+  }
+
+  // Without removeEmails the server refuses to destroy a mailbox that still has emails
+  async destroyMailbox(mailboxId: string, removeEmails: boolean, accountId?: string): Promise<void> {
+    await this.setMailboxes({
+      destroy: [mailboxId],
+      onDestroyRemoveEmails: removeEmails,
+    }, accountId);
+  }
+
+  // A role can only be held by one mailbox, so the previous holder is cleared in the same call
+  async setMailboxRole(mailboxId: string, role: string | null, previousId?: string, accountId?: string): Promise<void> {
+    await this.setMailboxes({
+      update: {
+        ...(previousId && previousId !== mailboxId && { [previousId]: { role: null } }),
+        [mailboxId]: { role },
+      },
+    }, accountId);
+  }
+
+  canCreateTopLevelMailbox(accountId?: string): boolean {
+    const mail = this.accounts[accountId || this.accountId]?.accountCapabilities?.["urn:ietf:params:jmap:mail"] as
+      { mayCreateTopLevelMailbox?: boolean } | undefined;
+    return mail?.mayCreateTopLevelMailbox ?? true;
+  }
+
+  // Namespace mailboxIds of emails fetched from a shared account to match our store
+  private namespaceMailboxIds(emails: Email[], accountId?: string): void {
+    if (!accountId || accountId === this.accountId) return;
+
+    emails.forEach((email) => {
+      if (email.mailboxIds) {
+        const namespacedMailboxIds: Record<string, boolean> = {};
+        Object.keys(email.mailboxIds).forEach(mbId => {
+          namespacedMailboxIds[`${accountId}:${mbId}`] = email.mailboxIds[mbId];
+        });
+        email.mailboxIds = namespacedMailboxIds;
+      }
+    });
+  }
+
   /**
    * Get the raw message content (RFC822 source) as a string
    */
@@ -550,11 +1023,7 @@ export class JMAPClient {
     url = url.replace('{name}', encodeURIComponent('message.eml'));
     url = url.replace('{type}', encodeURIComponent('message/rfc822'));
     
-    const fetchResponse = await fetch(url, {
-      headers: {
-        'Authorization': this.authHeader,
-      },
-    });
+    const fetchResponse = await this.authorizedFetch(url);
 
     if (!fetchResponse.ok) {
       throw new Error(`Failed to fetch raw email: ${fetchResponse.status}`);
@@ -601,21 +1070,15 @@ export class JMAPClient {
     return {};
   }
 
-  async getEmails(mailboxId?: string, accountId?: string, limit: number = 50, position: number = 0): Promise<{ emails: Email[], hasMore: boolean, total: number }> {
+  async getEmails(mailboxId?: string, accountId?: string, limit: number = 50, position: number = 0): Promise<EmailListPage> {
     try {
       // Use provided accountId or fallback to primary account
       const targetAccountId = accountId || this.accountId;
 
-      // Build filter - only add inMailbox if we have a mailboxId
-      const filter: { inMailbox?: string } = {};
-      if (mailboxId && mailboxId !== '') {
-        filter.inMailbox = mailboxId;
-      }
-
       const response = await this.request([
         ["Email/query", {
           accountId: targetAccountId,
-          filter: filter,
+          filter: this.buildEmailListFilter(mailboxId),
           sort: [{ property: "receivedAt", isAscending: false }],
           limit: limit,
           position: position,
@@ -627,20 +1090,7 @@ export class JMAPClient {
             name: "Email/query",
             path: "/ids",
           },
-          properties: [
-            "id",
-            "threadId",
-            "mailboxIds",
-            "keywords",
-            "size",
-            "receivedAt",
-            "from",
-            "to",
-            "cc",
-            "subject",
-            "preview",
-            "hasAttachment",
-          ],
+          properties: EMAIL_LIST_PROPERTIES,
         }, "1"],
       ]);
 
@@ -649,6 +1099,7 @@ export class JMAPClient {
 
       if (response.methodResponses?.[1]?.[0] === "Email/get" && getResponse) {
         const emails = getResponse.list || [];
+        this.recordState(targetAccountId, 'Email', getResponse.state);
 
         // Stalwart doesn't return 'total', so we use a different strategy:
         // If we got exactly 'limit' emails, there might be more
@@ -659,20 +1110,15 @@ export class JMAPClient {
           : emails.length === limit;             // Otherwise, check if we got a full page
 
         // If fetching from a shared account, namespace the mailboxIds to match our store
-        const isSharedAccount = accountId && accountId !== this.accountId;
-        if (isSharedAccount) {
-          emails.forEach((email: Email) => {
-            if (email.mailboxIds) {
-              const namespacedMailboxIds: Record<string, boolean> = {};
-              Object.keys(email.mailboxIds).forEach(mbId => {
-                namespacedMailboxIds[`${accountId}:${mbId}`] = email.mailboxIds[mbId];
-              });
-              email.mailboxIds = namespacedMailboxIds;
-            }
-          });
-        }
-
-        return { emails, hasMore, total };
+        this.namespaceMailboxIds(emails, accountId);
+
+        return {
+          emails,
+          hasMore,
+          total,
+          state: getResponse.state,
+          queryState: queryResponse?.canCalculateChanges ? queryResponse.queryState : undefined,
+        };
       }
 
       return { emails: [], hasMore: false, total: 0 };
@@ -682,6 +1128,248 @@ export class JMAPClient {
     }
   }
 
+  /**
+   * Run one Email/query per account in parallel and merge the results newest first.
+   * Each account is asked for a full page from its own position, so the merged page
+   * is exactly what a single sorted query over all accounts would return.
+   */
+  async getUnifiedEmails(
+    queries: UnifiedEmailQuery[],
+    positions: Record<string, number> = {},
+    limit: number = 50,
+    withSnippets: boolean = false
+  ): Promise<UnifiedEmailPage> {
+    const results = await Promise.all(queries.map(async ({ accountId, filter }) => {
+      const position = positions[accountId] || 0;
+      try {
+        const methodCalls: JMAPMethodCall[] = [
+          ["Email/query", {
+            accountId,
+            filter,
+            sort: [{ property: "receivedAt", isAscending: false }],
+            limit,
+            position,
+          }, "0"],
+          ["Email/get", {
+            accountId,
+            "#ids": {
+              resultOf: "0",
+              name: "Email/query",
+              path: "/ids",
+            },
+            properties: EMAIL_LIST_PROPERTIES,
+          }, "1"],
+        ];
+        if (withSnippets) {
+          methodCalls.push(["SearchSnippet/get", {
+            accountId,
+            filter,
+            "#emailIds": {
+              resultOf: "0",
+              name: "Email/query",
+              path: "/ids",
+            },
+          }, "2"]);
+        }
+        const response = await this.request(methodCalls);
+
+        const queryResponse = response.methodResponses?.[0]?.[1];
+        const getResponse = response.methodResponses?.[1]?.[1];
+        if (response.methodResponses?.[1]?.[0] !== "Email/get" || !getResponse) {
+          throw new Error(queryResponse?.description || queryResponse?.type || 'Unexpected response format');
+        }
+
+        // Email/get doesn't keep the query order
+        const byId = new Map((getResponse.list || []).map((email: Email) => [email.id, email]));
+        const emails = ((queryResponse?.ids || []) as string[])
+          .map((id) => byId.get(id) as Email | undefined)
+          .filter((email): email is Email => !!email);
+        this.namespaceMailboxIds(emails, accountId);
+        emails.forEach((email) => { email.accountId = accountId; });
+
+        const total = queryResponse?.total || 0;
+        const hasMore = total > 0 ? position + emails.length < total : emails.length === limit;
+        const snippets = withSnippets ? this.readSnippets(response.methodResponses?.[2]) : {};
+        return { accountId, position, emails, total, hasMore, snippets };
+      } catch (error) {
+        // One unreachable account shouldn't hide the others
+        console.error(`Failed to query emails of account ${accountId}:`, error);
+        return { accountId, position, emails: [] as Email[], total: 0, hasMore: false, snippets: {} };
+      }
+    }));
+
+    const merged = results
+      .flatMap((result) => result.emails)
+      .sort((a, b) => new Date(b.receivedAt).getTime() - new Date(a.receivedAt).getTime())
+      .slice(0, limit);
+
+    // Advance each account by what it contributed; the rest is fetched again next page
+    const nextPositions: Record<string, number> = { ...positions };
+    let hasMore = false;
+    for (const result of results) {
+      const used = merged.filter((email) => email.accountId === result.accountId).length;
+      nextPositions[result.accountId] = result.position + used;
+      hasMore = hasMore || result.hasMore || used < result.emails.length;
+    }
+
+    return {
+      emails: merged,
+      hasMore,
+      total: results.reduce((sum, result) => sum + result.total, 0),
+      positions: nextPositions,
+      snippets: withSnippets ? Object.assign({}, ...results.map((result) => result.snippets)) : undefined,
+    };
+  }
+
+  // Highlighted matches of a search for emails listed without them (e.g. added by a sync)
+  async getSearchSnippets(filter: EmailQueryFilter, emailIds: string[], accountId?: string): Promise<Record<string, SearchSnippet>> {
+    if (emailIds.length === 0) return {};
+
+    try {
+      const response = await this.request([
+        ["SearchSnippet/get", {
+          accountId: accountId || this.accountId,
+          filter,
+          emailIds,
+        }, "0"],
+      ]);
+      return this.readSnippets(response.methodResponses?.[0]);
+    } catch (error) {
+      console.error('Failed to get search snippets:', error);
+      return {};
+    }
+  }
+
+  // Snippets are only a nicety: a failed SearchSnippet/get leaves the plain previews
+  private readSnippets(methodResponse?: [string, JMAPResponseResult, string]): Record<string, SearchSnippet> {
+    if (methodResponse?.[0] !== "SearchSnippet/get") return {};
+    const list: SearchSnippet[] = methodResponse[1].list || [];
+    return Object.fromEntries(list.map((snippet) => [snippet.emailId, snippet]));
+  }
+
+  // Result counts of several Email/query filters in one round trip, without fetching ids
+  async getEmailQueryTotals(filters: EmailQueryFilter[], accountId?: string): Promise<number[] | null> {
+    if (filters.length === 0) return [];
+
+    try {
+      const targetAccountId = accountId || this.accountId;
+      const response = await this.request(filters.map((filter, index): JMAPMethodCall => (
+        ["Email/query", {
+          accountId: targetAccountId,
+          filter,
+          limit: 0,
+          calculateTotal: true,
+        }, String(index)]
+      )));
+
+      return filters.map((_, index) => {
+        const [name, result] = response.methodResponses?.[index] || [];
+        if (name !== "Email/query") {
+          throw new Error(result?.description || result?.type || 'Unexpected response format');
+        }
+        return result.total || 0;
+      });
+    } catch (error) {
+      console.error('Failed to count emails:', error);
+      return null;
+    }
+  }
+
+  // Ids of the emails matching a filter, newest first
+  async queryEmailIds(filter: EmailQueryFilter, limit: number = 1000, accountId?: string): Promise<string[]> {
+    try {
+      const response = await this.request([
+        ["Email/query", {
+          accountId: accountId || this.accountId,
+          filter,
+          sort: [{ property: "receivedAt", isAscending: false }],
+          limit,
+        }, "0"],
+      ]);
+
+      const [name, result] = response.methodResponses?.[0] || [];
+      if (name !== "Email/query") {
+        throw new Error(result?.description || result?.type || 'Unexpected response format');
+      }
+      return result.ids || [];
+    } catch (error) {
+      console.error('Failed to query email ids:', error);
+      return [];
+    }
+  }
+
+  // Newest messages sent through mailing lists, with the list headers parsed by the server
+  async getMailingListEmails(limit: number = 500, accountId?: string): Promise<MailingListEmail[]> {
+    try {
+      const targetAccountId = accountId || this.accountId;
+      const response = await this.request([
+        ["Email/query", {
+          accountId: targetAccountId,
+          filter: { header: ["List-Id"] },
+          sort: [{ property: "receivedAt", isAscending: false }],
+          limit,
+        }, "0"],
+        ["Email/get", {
+          accountId: targetAccountId,
+          "#ids": {
+            resultOf: "0",
+            name: "Email/query",
+            path: "/ids",
+          },
+          properties: [
+            "id",
+            "from",
+            "to",
+            "receivedAt",
+            "header:List-Id:asText",
+            "header:List-Unsubscribe:asURLs",
+            "header:List-Unsubscribe-Post:asText",
+          ],
+        }, "1"],
+      ]);
+
+      const [name, result] = response.methodResponses?.[1] || [];
+      if (name !== "Email/get") {
+        throw new Error(result?.description || result?.type || 'Unexpected response format');
+      }
+      return (result.list || []).map((email: JMAPResponseResult): MailingListEmail => ({
+        id: email.id,
+        from: email.from || null,
+        to: email.to || null,
+        receivedAt: email.receivedAt,
+        listId: email["header:List-Id:asText"] || null,
+        listUnsubscribe: email["header:List-Unsubscribe:asURLs"] || null,
+        listUnsubscribePost: email["header:List-Unsubscribe-Post:asText"] || null,
+      }));
+    } catch (error) {
+      console.error('Failed to get mailing list emails:', error);
+      return [];
+    }
+  }
+
+  // One-click unsubscribe (RFC 8058) goes through the webmail server, which checks we are signed in
+  async unsubscribeOneClick(url: string): Promise<void> {
+    const proxySessionId = this.getProxySessionId();
+    const response = await this.authorizedFetch(proxySessionId ? `/api/jmap/${proxySessionId}/unsubscribe` : '/api/unsubscribe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(proxySessionId ? { url } : { url, serverUrl: this.serverUrl }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || 'Unsubscribe request failed');
+    }
+  }
+
+  // Current mailboxes and keywords of emails, without namespacing; missing ids no longer exist
+  async getEmailSyncStates(emailIds: string[], accountId?: string): Promise<EmailSyncState[]> {
+    const { list } = await this.getInChunks("Email/get", {
+      accountId: accountId || this.accountId,
+      properties: ["id", "mailboxIds", "keywords"],
+    }, emailIds);
+    return list as EmailSyncState[];
+  }
+
   async getEmail(emailId: string, accountId?: string): Promise<Email | null> {
     try {
       // Use provided accountId or fallback to primary account
@@ -829,28 +1517,22 @@ export class JMAPClient {
     ]);
   }
 
-  async batchMarkAsRead(emailIds: string[], read: boolean = true): Promise<void> {
-    if (emailIds.length === 0) return;
-
-    const updates: Record<string, { "keywords/$seen": boolean }> = {};
-    emailIds.forEach(id => {
-      updates[id] = {
-        "keywords/$seen": read,
-      };
+  async batchUpdateEmailKeywords(keywordsById: Record<string, Record<string, boolean>>, accountId?: string): Promise<SetResult> {
+    return this.setInChunks("Email/set", accountId || this.accountId, {
+      update: Object.fromEntries(Object.entries(keywordsById).map(([id, keywords]) => [id, { keywords }])),
     });
+  }
 
-    await this.request([
-      ["Email/set", {
-        accountId: this.accountId,
-        update: updates,
-      }, "0"],
-    ]);
+  async batchMarkAsRead(emailIds: string[], read: boolean = true, accountId?: string): Promise<SetResult> {
+    return this.setInChunks("Email/set", accountId || this.accountId, {
+      update: Object.fromEntries(emailIds.map(id => [id, { "keywords/$seen": read }])),
+    });
   }
 
-  async toggleStar(emailId: string, starred: boolean): Promise<void> {
+  async toggleStar(emailId: string, starred: boolean, accountId?: string): Promise<void> {
     await this.request([
       ["Email/set", {
-        accountId: this.accountId,
+        accountId: accountId || this.accountId,
         update: {
           [emailId]: {
             "keywords/$flagged": starred,
@@ -860,10 +1542,10 @@ export class JMAPClient {
     ]);
   }
 
-  async updateEmailKeywords(emailId: string, keywords: Record<string, boolean>): Promise<void> {
+  async updateEmailKeywords(emailId: string, keywords: Record<string, boolean>, accountId?: string): Promise<void> {
     await this.request([
       ["Email/set", {
-        accountId: this.accountId,
+        accountId: accountId || this.accountId,
         update: {
           [emailId]: {
             keywords,
@@ -873,10 +1555,10 @@ export class JMAPClient {
     ]);
   }
 
-  async deleteEmail(emailId: string): Promise<void> {
+  async deleteEmail(emailId: string, accountId?: string): Promise<void> {
     await this.request([
       ["Email/set", {
-        accountId: this.accountId,
+        accountId: accountId || this.accountId,
         destroy: [emailId],
       }, "0"],
     ]);
@@ -896,39 +1578,22 @@ export class JMAPClient {
     ]);
   }
 
-  async batchDeleteEmails(emailIds: string[]): Promise<void> {
-    if (emailIds.length === 0) return;
-
-    await this.request([
-      ["Email/set", {
-        accountId: this.accountId,
-        destroy: emailIds,
-      }, "0"],
-    ]);
+  async batchDeleteEmails(emailIds: string[], accountId?: string): Promise<SetResult> {
+    return this.setInChunks("Email/set", accountId || this.accountId, {
+      destroy: emailIds,
+    });
   }
 
-  async batchMoveEmails(emailIds: string[], toMailboxId: string): Promise<void> {
-    if (emailIds.length === 0) return;
-
-    const updates: Record<string, { mailboxIds: Record<string, boolean> }> = {};
-    emailIds.forEach(id => {
-      updates[id] = {
-        mailboxIds: { [toMailboxId]: true },
-      };
+  async batchMoveEmails(emailIds: string[], toMailboxId: string, accountId?: string): Promise<SetResult> {
+    return this.setInChunks("Email/set", accountId || this.accountId, {
+      update: Object.fromEntries(emailIds.map(id => [id, { mailboxIds: { [toMailboxId]: true } }])),
     });
-
-    await this.request([
-      ["Email/set", {
-        accountId: this.accountId,
-        update: updates,
-      }, "0"],
-    ]);
   }
 
-  async moveEmail(emailId: string, toMailboxId: string): Promise<void> {
+  async moveEmail(emailId: string, toMailboxId: string, accountId?: string): Promise<void> {
     await this.request([
       ["Email/set", {
-        accountId: this.accountId,
+        accountId: accountId || this.accountId,
         update: {
           [emailId]: {
             mailboxIds: { [toMailboxId]: true },
@@ -938,21 +1603,15 @@ export class JMAPClient {
     ]);
   }
 
-  async searchEmails(query: string, mailboxId?: string, accountId?: string, limit: number = 50, position: number = 0): Promise<{ emails: Email[], hasMore: boolean, total: number }> {
+  async searchEmails(search: EmailQueryFilter, mailboxId?: string, accountId?: string, limit: number = 50, position: number = 0): Promise<EmailListPage> {
     try {
       // Use provided accountId or fallback to primary account
       const targetAccountId = accountId || this.accountId;
 
-      // Build filter with text search, optionally scoped to a mailbox
-      const filter: Record<string, unknown> = { text: query };
-      if (mailboxId) {
-        filter.inMailbox = mailboxId;
-      }
-
       const response = await this.request([
         ["Email/query", {
           accountId: targetAccountId,
-          filter: filter,
+          filter: this.buildEmailListFilter(mailboxId, search),
           sort: [{ property: "receivedAt", isAscending: false }],
           limit: limit,
           position: position,
@@ -964,39 +1623,218 @@ export class JMAPClient {
             name: "Email/query",
             path: "/ids",
           },
-          properties: [
-            "id",
-            "threadId",
-            "mailboxIds",
-            "keywords",
-            "size",
-            "receivedAt",
-            "from",
-            "to",
-            "cc",
-            "subject",
-            "preview",
-            "hasAttachment",
-          ],
+          properties: EMAIL_LIST_PROPERTIES,
         }, "1"],
+        ["SearchSnippet/get", {
+          accountId: targetAccountId,
+          filter: search,
+          "#emailIds": {
+            resultOf: "0",
+            name: "Email/query",
+            path: "/ids",
+          },
+        }, "2"],
       ]);
 
       const queryResponse = response.methodResponses?.[0]?.[1];
-      const emails = response.methodResponses?.[1]?.[1]?.list || [];
+      const getResponse = response.methodResponses?.[1]?.[1];
+      const emails = getResponse?.list || [];
+      this.recordState(targetAccountId, 'Email', getResponse?.state);
+
+      // Stalwart doesn't always return 'total', so we use a different strategy:
+      // If we got exactly 'limit' emails, there might be more
+      // If we got fewer, we've reached the end
+      const total = queryResponse?.total || 0;
+      const hasMore = total > 0
+        ? (position + emails.length) < total  // Use total if available
+        : emails.length === limit;             // Otherwise, check if we got a full page
+
+      this.namespaceMailboxIds(emails, accountId);
+
+      return {
+        emails,
+        hasMore,
+        total,
+        state: getResponse?.state,
+        queryState: queryResponse?.canCalculateChanges ? queryResponse.queryState : undefined,
+        snippets: this.readSnippets(response.methodResponses?.[2]),
+      };
+    } catch (error) {
+      console.error('Search failed:', error);
+      return { emails: [], hasMore: false, total: 0 };
+    }
+  }
+
+  // Build the Email/query filter used by list views. Email/queryChanges must be
+  // called with exactly the same filter, so both go through this helper.
+  private buildEmailListFilter(mailboxId?: string, search?: EmailQueryFilter): EmailQueryFilter {
+    const inMailbox: EmailQueryFilter = mailboxId && mailboxId !== '' ? { inMailbox: mailboxId } : {};
+    if (!search) {
+      return inMailbox;
+    }
+    return mailboxId ? { operator: "AND", conditions: [inMailbox, search] } : search;
+  }
+
+  /**
+   * Compute what changed in an email list since it was fetched, using
+   * Email/changes (keyword and mailbox flips) and Email/queryChanges
+   * (positions added/removed) in a single round trip.
+   * Returns null when the server cannot calculate the delta; callers should
+   * then fall back to a full refetch.
+   */
+  async getEmailListChanges(
+    sinceState: string,
+    sinceQueryState: string,
+    options: { mailboxId?: string; search?: EmailQueryFilter; accountId?: string; upToId?: string } = {}
+  ): Promise<EmailListChanges | null> {
+    const targetAccountId = options.accountId || this.accountId;
+
+    const response = await this.request([
+      ["Email/changes", {
+        accountId: targetAccountId,
+        sinceState,
+        maxChanges: 500,
+      }, "0"],
+      ["Email/queryChanges", {
+        accountId: targetAccountId,
+        filter: this.buildEmailListFilter(options.mailboxId, options.search),
+        sort: [{ property: "receivedAt", isAscending: false }],
+        sinceQueryState,
+        ...(options.upToId && { upToId: options.upToId }),
+        calculateTotal: true,
+      }, "1"],
+      ["Email/get", {
+        accountId: targetAccountId,
+        "#ids": {
+          resultOf: "1",
+          name: "Email/queryChanges",
+          path: "/added/*/id",
+        },
+        properties: EMAIL_LIST_PROPERTIES,
+      }, "2"],
+      ["Email/get", {
+        accountId: targetAccountId,
+        "#ids": {
+          resultOf: "0",
+          name: "Email/changes",
+          path: "/updated",
+        },
+        properties: ["id", "mailboxIds", "keywords"],
+      }, "3"],
+    ]);
+
+    const [changesName, changes] = response.methodResponses?.[0] || [];
+    const [queryChangesName, queryChanges] = response.methodResponses?.[1] || [];
+
+    // cannotCalculateChanges (or any other error) arrives as an "error" response
+    if (changesName !== "Email/changes" || queryChangesName !== "Email/queryChanges") {
+      const errorType = changes?.type || queryChanges?.type;
+      if (errorType !== 'cannotCalculateChanges') {
+        console.error('Failed to get email changes:', changes, queryChanges);
+      }
+      return null;
+    }
+
+    // Too many changes to apply incrementally - a full refetch is cheaper
+    if (changes.hasMoreChanges) {
+      return null;
+    }
+
+    const addedEmails = (response.methodResponses?.[2]?.[1]?.list || []) as Email[];
+    const updated = (response.methodResponses?.[3]?.[1]?.list || []) as Email[];
+    this.namespaceMailboxIds(addedEmails, options.accountId);
+    this.namespaceMailboxIds(updated, options.accountId);
+    this.recordState(targetAccountId, 'Email', changes.newState);
+
+    return {
+      newState: changes.newState,
+      newQueryState: queryChanges.newQueryState,
+      total: queryChanges.total,
+      removed: queryChanges.removed || [],
+      added: ((queryChanges.added || []) as Array<{ id: string; index: number }>)
+        .slice()
+        .sort((a, b) => a.index - b.index),
+      addedEmails,
+      updated: updated.map(({ id, mailboxIds, keywords }) => ({ id, mailboxIds, keywords })),
+      created: changes.created || [],
+      destroyed: changes.destroyed || [],
+    };
+  }
+
+  /**
+   * Fetch created/updated/destroyed mailboxes since a Mailbox state.
+   * Returns null when the server cannot calculate the delta.
+   */
+  async getMailboxChanges(sinceState: string, accountId?: string): Promise<MailboxChanges | null> {
+    const targetAccountId = accountId || this.accountId;
+
+    const response = await this.request([
+      ["Mailbox/changes", {
+        accountId: targetAccountId,
+        sinceState,
+      }, "0"],
+      ["Mailbox/get", {
+        accountId: targetAccountId,
+        "#ids": {
+          resultOf: "0",
+          name: "Mailbox/changes",
+          path: "/created",
+        },
+      }, "1"],
+      ["Mailbox/get", {
+        accountId: targetAccountId,
+        "#ids": {
+          resultOf: "0",
+          name: "Mailbox/changes",
+          path: "/updated",
+        },
+      }, "2"],
+    ]);
+
+    const [changesName, changes] = response.methodResponses?.[0] || [];
+    if (changesName !== "Mailbox/changes" || changes.hasMoreChanges) {
+      return null;
+    }
+
+    const rawMailboxes = [
+      ...(response.methodResponses?.[1]?.[1]?.list || []),
+      ...(response.methodResponses?.[2]?.[1]?.list || []),
+    ] as JMAPMailbox[];
+    this.recordState(targetAccountId, 'Mailbox', changes.newState);
+
+    return {
+      newState: changes.newState,
+      changed: rawMailboxes.map((mb) => this.mapJMAPMailbox(mb, targetAccountId)),
+      destroyed: changes.destroyed || [],
+    };
+  }
+
+  /**
+   * Fetch IDs of threads that changed since a Thread state.
+   * Returns null when the server cannot calculate the delta.
+   */
+  async getThreadChanges(sinceState: string, accountId?: string): Promise<ThreadChanges | null> {
+    const targetAccountId = accountId || this.accountId;
 
-      // Stalwart doesn't always return 'total', so we use a different strategy:
-      // If we got exactly 'limit' emails, there might be more
-      // If we got fewer, we've reached the end
-      const total = queryResponse?.total || 0;
-      const hasMore = total > 0
-        ? (position + emails.length) < total  // Use total if available
-        : emails.length === limit;             // Otherwise, check if we got a full page
+    const response = await this.request([
+      ["Thread/changes", {
+        accountId: targetAccountId,
+        sinceState,
+      }, "0"],
+    ]);
 
-      return { emails, hasMore, total };
-    } catch (error) {
-      console.error('Search failed:', error);
-      return { emails: [], hasMore: false, total: 0 };
+    const [changesName, changes] = response.methodResponses?.[0] || [];
+    if (changesName !== "Thread/changes" || changes.hasMoreChanges) {
+      return null;
     }
+
+    this.recordState(targetAccountId, 'Thread', changes.newState);
+
+    return {
+      newState: changes.newState,
+      changed: [...(changes.created || []), ...(changes.updated || [])],
+      destroyed: changes.destroyed || [],
+    };
   }
 
   // Thread methods for conversation view
@@ -1013,6 +1851,7 @@ export class JMAPClient {
 
       if (response.methodResponses?.[0]?.[0] === "Thread/get") {
         const threads = response.methodResponses[0][1].list || [];
+        this.recordState(targetAccountId, 'Thread', response.methodResponses[0][1].state);
         return threads[0] || null;
       }
 
@@ -1033,53 +1872,45 @@ export class JMAPClient {
         return [];
       }
 
-      // Fetch all emails in the thread
-      const response = await this.request([
-        ["Email/get", {
-          accountId: targetAccountId,
-          ids: thread.emailIds,
-          properties: [
-            "id",
-            "threadId",
-            "mailboxIds",
-            "keywords",
-            "size",
-            "receivedAt",
-            "from",
-            "to",
-            "cc",
-            "subject",
-            "preview",
-            "hasAttachment",
-            "blobId",
-          ],
-        }, "0"],
-      ]);
-
-      if (response.methodResponses?.[0]?.[0] === "Email/get") {
-        const emails = response.methodResponses[0][1].list || [];
-
-        // If fetching from a shared account, namespace the mailboxIds
-        const isSharedAccount = accountId && accountId !== this.accountId;
-        if (isSharedAccount) {
-          emails.forEach((email: Email) => {
-            if (email.mailboxIds) {
-              const namespacedMailboxIds: Record<string, boolean> = {};
-              Object.keys(email.mailboxIds).forEach(mbId => {
-                namespacedMailboxIds[`${accountId}:${mbId}`] = email.mailboxIds[mbId];
-              });
-              email.mailboxIds = namespacedMailboxIds;
-            }
-          });
-        }
-
-        // Sort by receivedAt descending (newest first)
-        return emails.sort((a: Email, b: Email) =>
-          new Date(b.receivedAt).getTime() - new Date(a.receivedAt).getTime()
-        );
+      // Fetch all emails in the thread, long threads in several calls
+      const { list } = await this.getInChunks("Email/get", {
+        accountId: targetAccountId,
+        properties: [
+          "id",
+          "threadId",
+          "mailboxIds",
+          "keywords",
+          "size",
+          "receivedAt",
+          "from",
+          "to",
+          "cc",
+          "subject",
+          "preview",
+          "hasAttachment",
+          "blobId",
+        ],
+      }, thread.emailIds);
+      const emails = list as Email[];
+
+      // If fetching from a shared account, namespace the mailboxIds
+      const isSharedAccount = accountId && accountId !== this.accountId;
+      if (isSharedAccount) {
+        emails.forEach((email: Email) => {
+          if (email.mailboxIds) {
+            const namespacedMailboxIds: Record<string, boolean> = {};
+            Object.keys(email.mailboxIds).forEach(mbId => {
+              namespacedMailboxIds[`${accountId}:${mbId}`] = email.mailboxIds[mbId];
+            });
+            email.mailboxIds = namespacedMailboxIds;
+          }
+        });
       }
 
-      return [];
+      // Sort by receivedAt descending (newest first)
+      return emails.sort((a: Email, b: Email) =>
+        new Date(b.receivedAt).getTime() - new Date(a.receivedAt).getTime()
+      );
     } catch (error) {
       console.error('Failed to get thread emails:', error);
       return [];
@@ -1106,6 +1937,88 @@ export class JMAPClient {
     }
   }
 
+  // Build the JMAP Email object used both for drafts and for sent messages, so the
+  // message that gets submitted carries exactly what the composer saved
+  private buildEmailObject(message: {
+    from: { email: string; name?: string };
+    to: string[];
+    cc?: string[];
+    bcc?: string[];
+    subject: string;
+    body: string;
+    mailboxId: string;
+    keywords: Record<string, boolean>;
+    options?: EmailSendOptions;
+    autocrypt?: string;
+  }): Record<string, unknown> {
+    const { options } = message;
+
+    const emailData: Record<string, unknown> = {
+      from: [message.from],
+      to: message.to.map(email => ({ email })),
+      cc: message.cc?.map(email => ({ email })),
+      bcc: message.bcc?.map(email => ({ email })),
+      subject: message.subject,
+      keywords: message.keywords,
+      mailboxIds: { [message.mailboxId]: true },
+      bodyValues: {
+        "text": {
+          value: message.body,
+        },
+      },
+      textBody: [
+        {
+          partId: "text",
+          type: "text/plain",
+        },
+      ],
+    };
+
+    // With both textBody and htmlBody set the server builds multipart/alternative
+    if (options?.htmlBody) {
+      (emailData.bodyValues as Record<string, { value: string }>)["html"] = {
+        value: options.htmlBody,
+      };
+      emailData.htmlBody = [
+        {
+          partId: "html",
+          type: "text/html",
+        },
+      ];
+    }
+
+    // Attachments and cid: inline parts reference already uploaded blobs
+    if (options?.attachments && options.attachments.length > 0) {
+      emailData.attachments = options.attachments.map(att => ({
+        blobId: att.blobId,
+        type: att.type,
+        name: att.name,
+        disposition: att.disposition || (att.cid ? "inline" : "attachment"),
+        ...(att.cid && { cid: att.cid }),
+      }));
+    }
+
+    // Threading headers so replies group correctly in the recipients' clients
+    if (options?.inReplyTo && options.inReplyTo.length > 0) {
+      emailData.inReplyTo = options.inReplyTo;
+    }
+    if (options?.references && options.references.length > 0) {
+      emailData.references = options.references;
+    }
+
+    // Read receipt request (RFC 8098); receipts come back to the sender
+    if (options?.requestReadReceipt) {
+      emailData["header:Disposition-Notification-To:asAddresses"] = [message.from];
+    }
+
+    // Already folded, so it is set raw (with the leading space a raw value starts with)
+    if (message.autocrypt) {
+      emailData["header:Autocrypt:asRaw"] = ` ${message.autocrypt}`;
+    }
+
+    return emailData;
+  }
+
   async createDraft(
     to: string[],
     subject: string,
@@ -1113,8 +2026,9 @@ export class JMAPClient {
     cc?: string[],
     bcc?: string[],
     draftId?: string,
-    attachments?: Array<{ blobId: string; name: string; type: string; size: number }>,
-    fromEmail?: string
+    attachments?: EmailSendOptions['attachments'],
+    fromEmail?: string,
+    options?: Omit<EmailSendOptions, 'attachments'>
   ): Promise<string> {
     // Find the drafts mailbox
     const mailboxes = await this.getMailboxes();
@@ -1126,48 +2040,17 @@ export class JMAPClient {
 
     const emailId = `draft-${Date.now()}`;
 
-    // Build email object with attachments if provided
-    interface EmailDraft {
-      from: { email: string }[];
-      to: { email: string }[];
-      cc?: { email: string }[];
-      bcc?: { email: string }[];
-      subject: string;
-      keywords: Record<string, boolean>;
-      mailboxIds: Record<string, boolean>;
-      bodyValues: Record<string, { value: string }>;
-      textBody: { partId: string }[];
-      attachments?: { blobId: string; type: string; name: string; disposition: string }[];
-    }
-    const emailData: EmailDraft = {
-      from: [{ email: fromEmail || this.username }],
-      to: to.map(email => ({ email })),
-      cc: cc?.map(email => ({ email })),
-      bcc: bcc?.map(email => ({ email })),
-      subject: subject,
+    const emailData = this.buildEmailObject({
+      from: { email: fromEmail || this.username },
+      to,
+      cc,
+      bcc,
+      subject,
+      body,
+      mailboxId: draftsMailbox.id,
       keywords: { "$draft": true },
-      mailboxIds: { [draftsMailbox.id]: true },
-      bodyValues: {
-        "1": {
-          value: body,
-        },
-      },
-      textBody: [
-        {
-          partId: "1",
-        },
-      ],
-    };
-
-    // Add attachments if provided
-    if (attachments && attachments.length > 0) {
-      emailData.attachments = attachments.map(att => ({
-        blobId: att.blobId,
-        type: att.type,
-        name: att.name,
-        disposition: "attachment",
-      }));
-    }
+      options: { ...options, attachments },
+    });
 
     // If updating an existing draft, destroy it first then create new one
     // This is simpler than trying to update individual fields
@@ -1234,10 +2117,9 @@ export class JMAPClient {
     bcc?: string[],
     draftId?: string,
     fromEmail?: string,
-    selectedIdentityId?: string
-  ): Promise<void> {
-    const emailId = draftId || `draft-${Date.now()}`;
-
+    selectedIdentityId?: string,
+    options?: EmailSendOptions
+  ): Promise<SentEmail> {
     // Find the Sent mailbox
     const mailboxes = await this.getMailboxes();
     const sentMailbox = mailboxes.find(mb => mb.role === 'sent');
@@ -1284,95 +2166,104 @@ export class JMAPClient {
       throw new Error('Unable to determine a valid identity for sending email');
     }
 
-    const methodCalls: JMAPMethodCall[] = [];
-
     // Prepare the 'from' field with name and email
     const fromAddress = {
       email: fromEmail || this.username,
       ...(selectedIdentity?.name && { name: selectedIdentity.name })
     };
 
-    // If we have a draftId, we need to create a new email (not update the draft)
-    // because the 'from' field is immutable in JMAP
-    if (draftId) {
-      // Create a new email with the correct 'from' field and content
-      const newEmailId = `sent-${Date.now()}`;
-      methodCalls.push(["Email/set", {
-        accountId: this.accountId,
-        create: {
-          [newEmailId]: {
-            from: [fromAddress],
-            to: to.map(email => ({ email })),
-            cc: cc?.map(email => ({ email })),
-            bcc: bcc?.map(email => ({ email })),
-            subject: subject,
-            keywords: { "$seen": true },
-            mailboxIds: { [sentMailbox.id]: true },
-            bodyValues: {
-              "1": {
-                value: body,
-              },
+    // Scheduled messages wait in the Scheduled folder until the server releases them
+    const sendAt = options?.sendAt;
+    const mailboxId = sendAt ? await this.getScheduledMailboxId(mailboxes) : sentMailbox.id;
+    const hold = sendAt || options?.holdFor;
+
+    // Failing to build the Autocrypt header must not stop the message from being sent
+    const autocrypt = await options?.autocryptHeader?.(fromAddress.email).catch(() => undefined);
+
+    // Always create a new email rather than submitting the draft itself, because
+    // the 'from' field is immutable in JMAP and the draft may carry a stale one.
+    // The body structure (attachments, inline parts, threading headers) is the same
+    // one the draft was saved with.
+    const newEmailId = `sent-${Date.now()}`;
+    const recipients = [...to, ...(cc || []), ...(bcc || [])];
+    let methodCalls: JMAPMethodCall[];
+
+    if (options?.mimeBody) {
+      // Bodies the server can't build (PGP/MIME) are uploaded as a complete message and
+      // imported. Bcc is left out of the headers, so the envelope lists every recipient
+      const raw = this.buildRawMessage(fromAddress, to, cc, subject, await options.mimeBody(), options, autocrypt);
+      const { blobId } = await this.uploadBlob(new File([raw], 'message.eml', { type: 'message/rfc822' }));
+
+      methodCalls = [
+        ["Email/import", {
+          accountId: this.accountId,
+          emails: {
+            [newEmailId]: {
+              blobId,
+              mailboxIds: { [mailboxId]: true },
+              keywords: { "$seen": true },
             },
-            textBody: [
-              {
-                partId: "1",
-              },
-            ],
           },
-        },
-        destroy: [draftId], // Delete the old draft
-      }, "0"]);
-      methodCalls.push(["EmailSubmission/set", {
-        accountId: this.accountId,
-        create: {
-          "1": {
-            emailId: `#${newEmailId}`,
-            identityId: identityId,
+        }, "0"],
+        ["EmailSubmission/set", {
+          accountId: this.accountId,
+          create: {
+            "1": {
+              emailId: `#${newEmailId}`,
+              identityId: identityId,
+              envelope: hold
+                ? this.buildHoldEnvelope(fromAddress.email, recipients, hold)
+                : { mailFrom: { email: fromAddress.email }, rcptTo: Array.from(new Set(recipients)).map(email => ({ email })) },
+            },
           },
-        },
-      }, "1"]);
+        }, "1"],
+        ...(draftId ? [["Email/set", {
+          accountId: this.accountId,
+          destroy: [draftId],
+        }, "2"] as JMAPMethodCall] : []),
+      ];
     } else {
-      methodCalls.push(["Email/set", {
-        accountId: this.accountId,
-        create: {
-          [emailId]: {
-            from: [fromAddress],
-            to: to.map(email => ({ email })),
-            cc: cc?.map(email => ({ email })),
-            bcc: bcc?.map(email => ({ email })),
-            subject: subject,
-            keywords: { "$seen": true },
-            mailboxIds: { [sentMailbox.id]: true },
-            bodyValues: {
-              "1": {
-                value: body,
-              },
-            },
-            textBody: [
-              {
-                partId: "1",
-              },
-            ],
+      const emailData = this.buildEmailObject({
+        from: fromAddress,
+        to,
+        cc,
+        bcc,
+        subject,
+        body,
+        mailboxId,
+        keywords: { "$seen": true },
+        options,
+        autocrypt,
+      });
+
+      methodCalls = [
+        ["Email/set", {
+          accountId: this.accountId,
+          create: {
+            [newEmailId]: emailData,
           },
-        },
-      }, "0"]);
-      methodCalls.push(["EmailSubmission/set", {
-        accountId: this.accountId,
-        create: {
-          "1": {
-            emailId: `#${emailId}`,
-            identityId: identityId,
+          ...(draftId && { destroy: [draftId] }), // Delete the old draft
+        }, "0"],
+        ["EmailSubmission/set", {
+          accountId: this.accountId,
+          create: {
+            "1": {
+              emailId: `#${newEmailId}`,
+              identityId: identityId,
+              ...(hold && { envelope: this.buildHoldEnvelope(fromAddress.email, recipients, hold) }),
+            },
           },
-        },
-      }, "1"]);
+        }, "1"],
+      ];
     }
 
+    await options?.onSubmit?.();
     const response = await this.request(methodCalls);
 
     // Check for errors in the response
     if (response.methodResponses) {
       for (const [methodName, result] of response.methodResponses) {
-        if (methodName.endsWith('/error')) {
+        if (methodName.endsWith('/error') || methodName === 'error') {
           console.error('JMAP method error:', result);
           throw new Error(result.description || `Failed to send email: ${result.type}`);
         }
@@ -1403,6 +2294,49 @@ export class JMAPClient {
       // Don't throw error if auto-collection fails - it's not critical
       console.error('Failed to auto-collect contacts:', error);
     }
+
+    return {
+      emailId: response.methodResponses?.[0]?.[1]?.created?.[newEmailId]?.id,
+      submissionId: response.methodResponses?.[1]?.[1]?.created?.["1"]?.id,
+    };
+  }
+
+  // RFC 5322 message around a prebuilt MIME body, with the headers buildEmailObject would set
+  private buildRawMessage(
+    from: { email: string; name?: string },
+    to: string[],
+    cc: string[] | undefined,
+    subject: string,
+    mimeBody: string,
+    options: EmailSendOptions,
+    autocrypt?: string
+  ): string {
+    // Encoded words can't go inside a quoted string (RFC 2047 section 5), plain names are quoted when they need it
+    const formatName = (name: string) => {
+      const encoded = encodeHeaderWord(name);
+      if (encoded !== name) return encoded;
+      return /^[\w!#$%&'*+\-/=?^`{|}~ ]+$/.test(name) && !name.includes('=?') ? name : `"${name.replace(/[\\"]/g, '\\$&')}"`;
+    };
+    const formatAddress = (address: { email: string; name?: string }) =>
+      address.name ? `${formatName(address.name)} <${address.email}>` : `<${address.email}>`;
+    const domain = from.email.split('@')[1] || 'localhost';
+    const random = Array.from(crypto.getRandomValues(new Uint8Array(12)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+    const headers = [
+      `From: ${formatAddress(from)}`,
+      `To: ${to.map(email => formatAddress({ email })).join(', ')}`,
+      ...(cc && cc.length > 0 ? [`Cc: ${cc.map(email => formatAddress({ email })).join(', ')}`] : []),
+      `Subject: ${encodeHeaderWord(subject)}`,
+      `Date: ${new Date().toUTCString().replace(/GMT$/, '+0000')}`,
+      `Message-ID: <${random}@${domain}>`,
+      ...(options.inReplyTo && options.inReplyTo.length > 0 ? [`In-Reply-To: ${options.inReplyTo.map(id => `<${id}>`).join(' ')}`] : []),
+      ...(options.references && options.references.length > 0 ? [`References: ${options.references.map(id => `<${id}>`).join(' ')}`] : []),
+      ...(options.requestReadReceipt ? [`Disposition-Notification-To: ${formatAddress(from)}`] : []),
+      ...(autocrypt ? [`Autocrypt: ${autocrypt}`] : []),
+      'MIME-Version: 1.0',
+    ];
+
+    return `${headers.join('\r\n')}\r\n${toCRLF(mimeBody)}`;
   }
 
   private async addAutoCollectedContacts(recipients: Array<{ email: string; name: string }>) {
@@ -1548,10 +2482,9 @@ export class JMAPClient {
     console.log('Uploading file to:', finalUploadUrl);
     console.log('File info:', { name: file.name, size: file.size, type: file.type });
 
-    const response = await fetch(finalUploadUrl, {
+    const response = await this.authorizedFetch(finalUploadUrl, {
       method: 'POST',
       headers: {
-        'Authorization': this.authHeader,
         'Content-Type': file.type || 'application/octet-stream',
       },
       body: file, // Send the file directly as binary
@@ -1648,6 +2581,16 @@ export class JMAPClient {
     return coreCapability?.maxCallsInRequest || 50;
   }
 
+  getMaxObjectsInGet(): number {
+    const coreCapability = this.capabilities["urn:ietf:params:jmap:core"] as { maxObjectsInGet?: number } | undefined;
+    return coreCapability?.maxObjectsInGet || DEFAULT_MAX_OBJECTS;
+  }
+
+  getMaxObjectsInSet(): number {
+    const coreCapability = this.capabilities["urn:ietf:params:jmap:core"] as { maxObjectsInSet?: number } | undefined;
+    return coreCapability?.maxObjectsInSet || DEFAULT_MAX_OBJECTS;
+  }
+
   getEventSourceUrl(): string | null {
     const session = this.session;
     if (!session) {
@@ -1669,6 +2612,16 @@ export class JMAPClient {
     return this.accountId;
   }
 
+  getApiUrl(): string {
+    return this.apiUrl;
+  }
+
+  // Public key push messages are signed with, for PushManager.subscribe (RFC 9749)
+  getVapidKey(): string | null {
+    const capability = this.capabilities[VAPID_CAPABILITY] as { applicationServerKey?: string } | undefined;
+    return capability?.applicationServerKey || null;
+  }
+
   supportsEmailSubmission(): boolean {
     return this.hasCapability("urn:ietf:params:jmap:submission");
   }
@@ -1681,21 +2634,45 @@ export class JMAPClient {
     return this.hasCapability("urn:ietf:params:jmap:vacationresponse");
   }
 
-  async downloadBlob(blobId: string, name?: string, type?: string): Promise<void> {
+  supportsSieve(): boolean {
+    return this.hasCapability("urn:ietf:params:jmap:sieve");
+  }
+
+  supportsMDN(): boolean {
+    return this.hasCapability("urn:ietf:params:jmap:mdn");
+  }
+
+  getSieveCapability(): SieveCapability | null {
+    const capability = this.accounts[this.accountId]?.accountCapabilities?.["urn:ietf:params:jmap:sieve"] as SieveCapability | undefined;
+    return capability ? { ...capability, sieveExtensions: capability.sieveExtensions || [] } : null;
+  }
+
+  // Blob content as bytes, e.g. to put attachments inside an encrypted body
+  async getBlobBytes(blobId: string): Promise<Uint8Array> {
+    const response = await this.authorizedFetch(this.getBlobDownloadUrl(blobId));
+
+    if (!response.ok) {
+      throw new Error(`Failed to download blob: ${response.status}`);
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  async getBlob(blobId: string, name?: string, type?: string): Promise<Blob> {
     const url = this.getBlobDownloadUrl(blobId, name, type);
 
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': this.authHeader,
-      },
-    });
+    const response = await this.authorizedFetch(url);
 
     if (!response.ok) {
       throw new Error(`Failed to download attachment: ${response.status}`);
     }
 
-    // Get the blob from the response
-    const blob = await response.blob();
+    return response.blob();
+  }
+
+  async downloadBlob(blobId: string, name?: string, type?: string, cached?: Blob): Promise<void> {
+    // Get the blob from the response (or use one already at hand, e.g. from the offline cache)
+    const blob = cached || await this.getBlob(blobId, name, type);
 
     // Create a temporary URL for the blob
     const blobUrl = URL.createObjectURL(blob);
@@ -1716,7 +2693,96 @@ export class JMAPClient {
   private pollingInterval: NodeJS.Timeout | null = null;
   private pollingStates: { [key: string]: string } = {};
 
+  // Web push subscriptions (RFC 8620 section 7.2) belong to the user, not to an account
+  async getPushSubscriptions(): Promise<PushSubscription[]> {
+    try {
+      const response = await this.request([
+        ["PushSubscription/get", { ids: null }, "0"],
+      ]);
+
+      if (response.methodResponses?.[0]?.[0] === "PushSubscription/get") {
+        return (response.methodResponses[0][1].list || []) as PushSubscription[];
+      }
+      return [];
+    } catch (error) {
+      console.error('Failed to get push subscriptions:', error);
+      return [];
+    }
+  }
+
+  async createPushSubscription(subscription: Pick<PushSubscription, 'deviceClientId' | 'url' | 'keys' | 'types'>): Promise<PushSubscription> {
+    const response = await this.request([
+      ["PushSubscription/set", {
+        create: { push: subscription },
+      }, "0"],
+    ]);
+
+    const result = response.methodResponses?.[0]?.[1];
+    const created = result?.created?.push;
+    if (!created?.id) {
+      const error = result?.notCreated?.push;
+      throw new Error(error?.description || error?.type || 'Failed to create push subscription');
+    }
+    return { ...subscription, expires: null, ...created } as PushSubscription;
+  }
+
+  // The server only starts sending changes once the code it pushed comes back
+  async verifyPushSubscription(id: string, verificationCode: string): Promise<void> {
+    const response = await this.request([
+      ["PushSubscription/set", {
+        update: { [id]: { verificationCode } },
+      }, "0"],
+    ]);
+
+    const result = response.methodResponses?.[0]?.[1];
+    if (!result?.updated || !(id in result.updated)) {
+      const error = result?.notUpdated?.[id];
+      throw new Error(error?.description || error?.type || 'Failed to verify push subscription');
+    }
+  }
+
+  async destroyPushSubscription(id: string): Promise<void> {
+    const response = await this.request([
+      ["PushSubscription/set", { destroy: [id] }, "0"],
+    ]);
+
+    const result = response.methodResponses?.[0]?.[1];
+    if (result?.notDestroyed?.[id] && result.notDestroyed[id].type !== 'notFound') {
+      throw new Error(result.notDestroyed[id].description || 'Failed to remove push subscription');
+    }
+  }
+
   setupPushNotifications(): boolean {
+    const webSocketCapability = this.capabilities[WEBSOCKET_CAPABILITY] as WebSocketCapability | undefined;
+    if (this.webSocket && webSocketCapability?.supportsPush) {
+      this.isWebSocketPush = true;
+      this.webSocket.enablePush((change) => this.stateChangeCallback?.(change));
+      if (!this.webSocket.isOpen()) {
+        this.startHttpPush();
+      }
+      return true;
+    }
+
+    this.startHttpPush();
+    return true;
+  }
+
+  // While the socket is down, changes are picked up over HTTP
+  private handleWebSocketChange(isOpen: boolean): void {
+    if (!this.isWebSocketPush) return;
+    if (isOpen) {
+      this.stopHttpPush();
+    } else if (!this.pollingInterval && !this.eventSource) {
+      this.startHttpPush();
+    }
+  }
+
+  private startHttpPush(): void {
+    // Through the proxy the session cookie goes along, so the server can push changes itself
+    if (this.auth.type === 'proxy' && this.setupEventSource()) {
+      return;
+    }
+
     // Use polling instead of EventSource due to Basic Auth limitations
     // EventSource can't send Authorization headers, and URL-embedded credentials
     // get decoded by browsers, breaking auth for usernames/passwords with special chars
@@ -1728,18 +2794,63 @@ export class JMAPClient {
     this.pollingInterval = setInterval(() => {
       this.checkForStateChanges();
     }, 15000); // Poll every 15 seconds
+  }
 
+  private stopHttpPush(): void {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = null;
+    }
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+    this.pollingStates = {};
+  }
+
+  private setupEventSource(): boolean {
+    const template = this.getEventSourceUrl();
+    if (!template || typeof EventSource === 'undefined') {
+      return false;
+    }
+
+    const url = template
+      .replace('{types}', encodeURIComponent('*'))
+      .replace('{closeafter}', 'no')
+      .replace('{ping}', '60');
+    const eventSource = new EventSource(url);
+
+    eventSource.addEventListener('state', (event) => {
+      try {
+        const change = JSON.parse((event as MessageEvent).data) as StateChange;
+        this.stateChangeCallback?.(change);
+      } catch (error) {
+        console.error('Failed to parse push event:', error);
+      }
+    });
+
+    // The browser reconnects by itself; once it gives up, fall back to polling
+    eventSource.onerror = () => {
+      if (eventSource.readyState === EventSource.CLOSED && this.eventSource === eventSource) {
+        this.eventSource = null;
+        this.fetchCurrentStates();
+        this.pollingInterval = setInterval(() => {
+          this.checkForStateChanges();
+        }, 15000);
+      }
+    };
+
+    this.eventSource = eventSource;
     return true;
   }
 
   private async fetchCurrentStates(): Promise<void> {
     try {
       // Get current states from server using JMAP query
-      const response = await fetch(this.apiUrl, {
+      const response = await this.authorizedFetch(this.apiUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': this.authHeader,
         },
         body: JSON.stringify({
           using: ['urn:ietf:params:jmap:core', 'urn:ietf:params:jmap:mail'],
@@ -1769,11 +2880,10 @@ export class JMAPClient {
 
   private async checkForStateChanges(): Promise<void> {
     try {
-      const response = await fetch(this.apiUrl, {
+      const response = await this.authorizedFetch(this.apiUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': this.authHeader,
         },
         body: JSON.stringify({
           using: ['urn:ietf:params:jmap:core', 'urn:ietf:params:jmap:mail'],
@@ -1820,17 +2930,11 @@ export class JMAPClient {
     }
   }
 
-  closePushNotifications(): void {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
-    }
-    if (this.eventSource) {
-      this.eventSource.close();
-      this.eventSource = null;
-    }
+  closePushNotifications(): void {
+    this.webSocket?.disablePush();
+    this.isWebSocketPush = false;
+    this.stopHttpPush();
     this.stateChangeCallback = null;
-    this.pollingStates = {};
   }
 
   onStateChange(callback: (change: StateChange) => void): void {
@@ -1845,6 +2949,12 @@ export class JMAPClient {
     this.lastStates = { ...states };
   }
 
+  // Remember the latest known state string for a data type, as returned by /get and /changes
+  private recordState(accountId: string, type: 'Email' | 'Mailbox' | 'Thread', state?: string): void {
+    if (!state) return;
+    this.lastStates[accountId] = { ...this.lastStates[accountId], [type]: state };
+  }
+
   // Contact management methods
   async getContacts(): Promise<Contact[]> {
     try {
@@ -3193,4 +4303,588 @@ export class JMAPClient {
   supportsCalendars(): boolean {
     return this.hasCapability("urn:ietf:params:jmap:calendars");
   }
+
+  // Calendar invitations (iMIP, RFC 6047)
+
+  async getCalendarData(blobId: string): Promise<string> {
+    const url = this.getBlobDownloadUrl(blobId, 'invite.ics', 'text/calendar');
+
+    const response = await this.authorizedFetch(url);
+
+    if (!response.ok) {
+      throw new Error(`Failed to download calendar data: ${response.status}`);
+    }
+
+    return response.text();
+  }
+
+  // The event an invitation refers to, if it is already in one of the user's calendars
+  async findCalendarEventByUid(uid: string): Promise<CalendarEvent | null> {
+    try {
+      const accountId = this.getAccountIdForCapability("urn:ietf:params:jmap:calendars") || this.accountId;
+      const response = await this.request([
+        ["CalendarEvent/query", {
+          accountId,
+          filter: { uid },
+        }, "0"],
+        ["CalendarEvent/get", {
+          accountId,
+          "#ids": { resultOf: "0", name: "CalendarEvent/query", path: "/ids" },
+        }, "1"],
+      ]);
+
+      const rawEvent = response.methodResponses?.[1]?.[0] === "CalendarEvent/get"
+        ? response.methodResponses[1][1].list?.[0]
+        : null;
+      return rawEvent ? this.mapJMAPEventToCalendarEvent(rawEvent) : null;
+    } catch (error) {
+      console.error('Failed to find calendar event by uid:', error);
+      return null;
+    }
+  }
+
+  // JSCalendar (RFC 8984) form of an invitation, with the user's answer as their participation status
+  private buildInviteEvent(invite: CalendarInvite, attendeeEmail: string, status: InviteStatus): Record<string, unknown> {
+    const participants: Record<string, unknown> = {};
+    if (invite.organizer.email) {
+      participants["organizer"] = {
+        "@type": "Participant",
+        ...(invite.organizer.name && { name: invite.organizer.name }),
+        email: invite.organizer.email,
+        sendTo: { imip: `mailto:${invite.organizer.email}` },
+        roles: { owner: true },
+      };
+    }
+    invite.attendees.forEach((attendee, index) => {
+      const isUser = attendee.email.toLowerCase() === attendeeEmail.toLowerCase();
+      participants[`attendee-${index}`] = {
+        "@type": "Participant",
+        ...(attendee.name && { name: attendee.name }),
+        email: attendee.email,
+        sendTo: { imip: `mailto:${attendee.email}` },
+        roles: attendee.role === "opt-participant" ? { attendee: true, optional: true } : { attendee: true },
+        participationStatus: isUser ? status : attendee.status,
+      };
+    });
+
+    const seconds = Math.max(0, Math.round((invite.endTime.getTime() - invite.startTime.getTime()) / 1000));
+    const days = Math.floor(seconds / 86400);
+    const time = seconds % 86400;
+    const duration = `P${days ? `${days}D` : ''}${time || !days
+      ? `T${Math.floor(time / 3600)}H${Math.floor((time % 3600) / 60)}M${time % 60}S`
+      : ''}`;
+
+    return {
+      title: invite.eventTitle,
+      ...(invite.eventDescription && { description: invite.eventDescription }),
+      ...(invite.location && { locations: { "location": { "@type": "Location", name: invite.location } } }),
+      start: invite.startTime.toISOString(),
+      duration,
+      ...(invite.isAllDay && { showWithoutTime: true }),
+      sequence: invite.sequence,
+      status: status === "declined" ? "cancelled" : status === "tentative" ? "tentative" : "confirmed",
+      ...(invite.organizer.email && { replyTo: { imip: `mailto:${invite.organizer.email}` } }),
+      participants,
+    };
+  }
+
+  // Adds or updates the invitation's event in the user's calendar, returning its id
+  async saveCalendarInvite(
+    invite: CalendarInvite,
+    calendarId: string,
+    attendeeEmail: string,
+    status: InviteStatus,
+    existingEventId?: string
+  ): Promise<string> {
+    const accountId = this.getAccountIdForCapability("urn:ietf:params:jmap:calendars") || this.accountId;
+    const eventData = this.buildInviteEvent(invite, attendeeEmail, status);
+
+    const response = await this.request([
+      ["CalendarEvent/set", {
+        accountId,
+        ...(existingEventId
+          ? { update: { [existingEventId]: eventData } }
+          : { create: { "invite": { "@type": "Event", uid: invite.uid, calendarIds: { [calendarId]: true }, ...eventData } } }),
+      }, "0"],
+    ]);
+
+    const [methodName, result] = response.methodResponses?.[0] || [];
+    if (methodName !== "CalendarEvent/set") {
+      throw new Error(result?.description || result?.type || 'Failed to save calendar event');
+    }
+
+    const setError = existingEventId ? result.notUpdated?.[existingEventId] : result.notCreated?.["invite"];
+    if (setError) {
+      throw new Error(setError.description || setError.type || 'Failed to save calendar event');
+    }
+
+    return existingEventId || result.created["invite"].id;
+  }
+
+  // Vacation Response (RFC 8621 Section 8)
+
+  async getVacationResponse(): Promise<VacationResponse | null> {
+    try {
+      const accountId = this.getAccountIdForCapability("urn:ietf:params:jmap:vacationresponse");
+      const response = await this.request([
+        ["VacationResponse/get", {
+          accountId,
+          ids: ["singleton"],
+        }, "0"],
+      ], ["urn:ietf:params:jmap:vacationresponse"]);
+
+      if (response.methodResponses?.[0]?.[0] === "VacationResponse/get") {
+        return response.methodResponses[0][1].list?.[0] || null;
+      }
+
+      return null;
+    } catch (error) {
+      console.error('Failed to get vacation response:', error);
+      return null;
+    }
+  }
+
+  async setVacationResponse(updates: Partial<Omit<VacationResponse, 'id'>>): Promise<void> {
+    const accountId = this.getAccountIdForCapability("urn:ietf:params:jmap:vacationresponse");
+    const response = await this.request([
+      ["VacationResponse/set", {
+        accountId,
+        update: {
+          singleton: updates,
+        },
+      }, "0"],
+    ], ["urn:ietf:params:jmap:vacationresponse"]);
+
+    const [methodName, result] = response.methodResponses?.[0] || [];
+    const setError = result?.notUpdated?.singleton;
+    if (methodName !== "VacationResponse/set" || setError) {
+      throw new Error(setError?.description || setError?.type || result?.description || 'Failed to update vacation response');
+    }
+  }
+
+  // Sieve Scripts (RFC 9661)
+  // Script contents are blobs: uploaded before SieveScript/set and
+  // SieveScript/validate, downloaded to read a script back
+
+  async getSieveScripts(): Promise<SieveScript[]> {
+    try {
+      const response = await this.request([
+        ["SieveScript/get", {
+          accountId: this.accountId,
+          ids: null,
+        }, "0"],
+      ], ["urn:ietf:params:jmap:sieve"]);
+
+      if (response.methodResponses?.[0]?.[0] === "SieveScript/get") {
+        return response.methodResponses[0][1].list || [];
+      }
+
+      return [];
+    } catch (error) {
+      console.error('Failed to get sieve scripts:', error);
+      return [];
+    }
+  }
+
+  async getSieveScriptContent(blobId: string): Promise<string> {
+    const url = this.getBlobDownloadUrl(blobId, 'script.sieve', 'application/sieve');
+
+    const response = await this.authorizedFetch(url);
+
+    if (!response.ok) {
+      throw new Error(`Failed to download sieve script: ${response.status}`);
+    }
+
+    return response.text();
+  }
+
+  private async uploadSieveContent(content: string): Promise<string> {
+    const file = new File([content], 'script.sieve', { type: 'application/sieve' });
+    const { blobId } = await this.uploadBlob(file);
+    return blobId;
+  }
+
+  // Returns the server's error description, or null if the script is valid
+  async validateSieveScript(content: string): Promise<string | null> {
+    const blobId = await this.uploadSieveContent(content);
+
+    const response = await this.request([
+      ["SieveScript/validate", {
+        accountId: this.accountId,
+        blobId,
+      }, "0"],
+    ], ["urn:ietf:params:jmap:sieve"]);
+
+    const [methodName, result] = response.methodResponses?.[0] || [];
+    if (methodName !== "SieveScript/validate") {
+      throw new Error(result?.description || result?.type || 'Failed to validate sieve script');
+    }
+
+    return result.error ? (result.error.description || result.error.type || 'Invalid script') : null;
+  }
+
+  // Creates the script (or replaces the content of scriptId) and optionally
+  // makes it the active one, which deactivates any other active script
+  async saveSieveScript(
+    name: string,
+    content: string,
+    options: { scriptId?: string; activate?: boolean } = {}
+  ): Promise<SieveScript> {
+    const blobId = await this.uploadSieveContent(content);
+    const { scriptId, activate } = options;
+
+    const args: Record<string, unknown> = {
+      accountId: this.accountId,
+    };
+    if (scriptId) {
+      args.update = { [scriptId]: { blobId } };
+    } else {
+      args.create = { "script": { name, blobId } };
+    }
+    if (activate) {
+      args.onSuccessActivateScript = scriptId || "#script";
+    }
+
+    const response = await this.request([
+      ["SieveScript/set", args, "0"],
+    ], ["urn:ietf:params:jmap:sieve"]);
+
+    const [methodName, result] = response.methodResponses?.[0] || [];
+    if (methodName !== "SieveScript/set") {
+      throw new Error(result?.description || result?.type || 'Failed to save sieve script');
+    }
+
+    const setError = scriptId ? result.notUpdated?.[scriptId] : result.notCreated?.["script"];
+    if (setError) {
+      throw new Error(setError.description || setError.type || 'Failed to save sieve script');
+    }
+
+    return {
+      id: scriptId || result.created["script"].id,
+      name,
+      blobId,
+      isActive: !!activate,
+    };
+  }
+
+  // Activates a script, or deactivates the active one when scriptId is null
+  async activateSieveScript(scriptId: string | null): Promise<void> {
+    const response = await this.request([
+      ["SieveScript/set", {
+        accountId: this.accountId,
+        ...(scriptId
+          ? { onSuccessActivateScript: scriptId }
+          : { onSuccessDeactivateScript: true }),
+      }, "0"],
+    ], ["urn:ietf:params:jmap:sieve"]);
+
+    const [methodName, result] = response.methodResponses?.[0] || [];
+    if (methodName !== "SieveScript/set") {
+      throw new Error(result?.description || result?.type || 'Failed to activate sieve script');
+    }
+  }
+
+  async deleteSieveScript(scriptId: string): Promise<void> {
+    const response = await this.request([
+      ["SieveScript/set", {
+        accountId: this.accountId,
+        destroy: [scriptId],
+      }, "0"],
+    ], ["urn:ietf:params:jmap:sieve"]);
+
+    const [methodName, result] = response.methodResponses?.[0] || [];
+    const setError = result?.notDestroyed?.[scriptId];
+    if (methodName !== "SieveScript/set" || setError) {
+      throw new Error(setError?.description || result?.description || 'Failed to delete sieve script');
+    }
+  }
+
+  // Scheduled send (EmailSubmission held with FUTURERELEASE, RFC 4865)
+
+  // Longest hold in seconds the server accepts, 0 when delayed send is unsupported
+  getMaxDelayedSend(): number {
+    const submission = this.accounts[this.accountId]?.accountCapabilities?.["urn:ietf:params:jmap:submission"] as
+      { maxDelayedSend?: number } | undefined;
+    return submission?.maxDelayedSend ?? 0;
+  }
+
+  // Hold until a date (HOLDUNTIL) or for a number of seconds (HOLDFOR). Setting an
+  // envelope replaces the one derived from the headers, so it lists every recipient
+  private buildHoldEnvelope(from: string, recipients: string[], hold: Date | number): SubmissionEnvelope {
+    return {
+      mailFrom: {
+        email: from,
+        parameters: hold instanceof Date
+          ? { HOLDUNTIL: hold.toISOString().replace(/\.\d{3}Z$/, 'Z') }
+          : { HOLDFOR: String(Math.round(hold)) },
+      },
+      rcptTo: Array.from(new Set(recipients)).map(email => ({ email })),
+    };
+  }
+
+  private findScheduledMailbox(mailboxes: Mailbox[]): Mailbox | undefined {
+    return mailboxes.find(mb => mb.role === 'scheduled') || mailboxes.find(isScheduledMailbox);
+  }
+
+  private async getScheduledMailboxId(mailboxes: Mailbox[]): Promise<string> {
+    const existing = this.findScheduledMailbox(mailboxes);
+    if (existing) return existing.id;
+
+    try {
+      return await this.createMailbox('Scheduled', null, undefined, 'scheduled');
+    } catch (error) {
+      // Not every server knows the "scheduled" role
+      console.warn('Failed to create Scheduled mailbox with its role, retrying without:', error);
+      return this.createMailbox('Scheduled');
+    }
+  }
+
+  private async setEmailSubmissions(args: Record<string, unknown>): Promise<JMAPSetResponse> {
+    const response = await this.request([
+      ["EmailSubmission/set", {
+        accountId: this.accountId,
+        ...args,
+      }, "0"],
+    ], ["urn:ietf:params:jmap:submission"]);
+
+    const [methodName, result] = response.methodResponses?.[0] || [];
+    if (methodName !== "EmailSubmission/set") {
+      throw new Error(result?.description || result?.type || 'Failed to update email submission');
+    }
+
+    const setError = [result.notCreated, result.notUpdated]
+      .flatMap((errors) => Object.values(errors || {}))[0] as { type?: string; description?: string } | undefined;
+    if (setError) {
+      throw new Error(setError.description || setError.type || 'Failed to update email submission');
+    }
+
+    return result as JMAPSetResponse;
+  }
+
+  async getScheduledEmails(): Promise<ScheduledEmail[]> {
+    try {
+      const response = await this.request([
+        ["EmailSubmission/query", {
+          accountId: this.accountId,
+          filter: { undoStatus: "pending" },
+        }, "0"],
+        ["EmailSubmission/get", {
+          accountId: this.accountId,
+          "#ids": { resultOf: "0", name: "EmailSubmission/query", path: "/ids" },
+        }, "1"],
+        ["Email/get", {
+          accountId: this.accountId,
+          "#ids": { resultOf: "1", name: "EmailSubmission/get", path: "/list/*/emailId" },
+          properties: ["subject", "to", "cc", "bcc", "preview"],
+        }, "2"],
+      ], ["urn:ietf:params:jmap:submission"]);
+
+      const submissions = (response.methodResponses?.[1]?.[1]?.list || []) as EmailSchedule[];
+      const emails = (response.methodResponses?.[2]?.[1]?.list || []) as Email[];
+      const emailsById = new Map(emails.map(email => [email.id, email]));
+      const addresses = (list?: { email?: string }[]) =>
+        (list || []).map(addr => addr.email).filter((email): email is string => !!email);
+
+      return submissions
+        .map((submission) => {
+          const email = emailsById.get(submission.emailId);
+          return {
+            schedule: {
+              id: submission.id,
+              emailId: submission.emailId,
+              identityId: submission.identityId,
+              sendAt: submission.sendAt,
+              undoStatus: submission.undoStatus,
+              envelope: submission.envelope || null,
+            },
+            subject: email?.subject || '',
+            to: addresses(email?.to),
+            cc: addresses(email?.cc),
+            bcc: addresses(email?.bcc),
+            preview: email?.preview || '',
+          };
+        })
+        .sort((a, b) => new Date(a.schedule.sendAt).getTime() - new Date(b.schedule.sendAt).getTime());
+    } catch (error) {
+      console.error('Failed to get scheduled emails:', error);
+      return [];
+    }
+  }
+
+  // Released messages stay in the Scheduled folder; file them under Sent like any other sent message
+  async fileReleasedScheduledEmails(): Promise<void> {
+    try {
+      const mailboxes = await this.getMailboxes();
+      const scheduledMailbox = this.findScheduledMailbox(mailboxes);
+      const sentMailbox = mailboxes.find(mb => mb.role === 'sent');
+      if (!scheduledMailbox || !sentMailbox) return;
+
+      const queryResponse = await this.request([
+        ["Email/query", {
+          accountId: this.accountId,
+          filter: { inMailbox: scheduledMailbox.id },
+        }, "0"],
+      ]);
+      const emailIds = (queryResponse.methodResponses?.[0]?.[1]?.ids || []) as string[];
+      if (emailIds.length === 0) return;
+
+      const submissionResponse = await this.request([
+        ["EmailSubmission/query", {
+          accountId: this.accountId,
+          filter: { emailIds, undoStatus: "final" },
+        }, "0"],
+        ["EmailSubmission/get", {
+          accountId: this.accountId,
+          "#ids": { resultOf: "0", name: "EmailSubmission/query", path: "/ids" },
+          properties: ["emailId"],
+        }, "1"],
+      ], ["urn:ietf:params:jmap:submission"]);
+      const released = ((submissionResponse.methodResponses?.[1]?.[1]?.list || []) as { emailId: string }[])
+        .map(submission => submission.emailId);
+      if (released.length === 0) return;
+
+      await this.request([
+        ["Email/set", {
+          accountId: this.accountId,
+          update: Object.fromEntries(released.map(emailId => [
+            emailId,
+            { mailboxIds: { [sentMailbox.id]: true } },
+          ])),
+        }, "0"],
+      ]);
+    } catch (error) {
+      console.error('Failed to file released scheduled emails:', error);
+    }
+  }
+
+  // Cancels a held submission and puts the message back in Drafts
+  async cancelEmailSubmission(submissionId: string): Promise<void> {
+    const mailboxes = await this.getMailboxes();
+    const draftsMailbox = mailboxes.find(mb => mb.role === 'drafts');
+    if (!draftsMailbox) {
+      throw new Error('No drafts mailbox found');
+    }
+
+    await this.setEmailSubmissions({
+      update: {
+        [submissionId]: { undoStatus: "canceled" },
+      },
+      onSuccessUpdateEmail: {
+        [submissionId]: {
+          mailboxIds: { [draftsMailbox.id]: true },
+          "keywords/$draft": true,
+        },
+      },
+    });
+  }
+
+  // Submissions can't be edited, so a new held submission replaces the old one
+  async rescheduleEmail(scheduled: ScheduledEmail, sendAt: Date): Promise<void> {
+    const { schedule } = scheduled;
+    const recipients = schedule.envelope?.rcptTo.map(addr => addr.email)
+      || [...scheduled.to, ...scheduled.cc, ...scheduled.bcc];
+
+    const { created } = await this.setEmailSubmissions({
+      create: {
+        "rescheduled": {
+          emailId: schedule.emailId,
+          identityId: schedule.identityId,
+          envelope: this.buildHoldEnvelope(schedule.envelope?.mailFrom.email || this.username, recipients, sendAt),
+        },
+      },
+    });
+    const rescheduled = created?.["rescheduled"];
+    if (!rescheduled) {
+      throw new Error('Failed to reschedule email');
+    }
+
+    try {
+      await this.setEmailSubmissions({
+        update: { [schedule.id]: { undoStatus: "canceled" } },
+      });
+    } catch (error) {
+      // The original was released meanwhile; don't send the message twice
+      await this.setEmailSubmissions({
+        update: { [rescheduled.id]: { undoStatus: "canceled" } },
+      });
+      throw error;
+    }
+  }
+
+  // Delivery status (DSN) and read receipts (MDN, RFC 9007)
+
+  // Submissions of a sent message, with the per-recipient deliveryStatus the server tracks
+  async getEmailSubmissions(emailId: string): Promise<EmailSubmission[]> {
+    try {
+      const response = await this.request([
+        ["EmailSubmission/query", {
+          accountId: this.accountId,
+          filter: { emailIds: [emailId] },
+        }, "0"],
+        ["EmailSubmission/get", {
+          accountId: this.accountId,
+          "#ids": { resultOf: "0", name: "EmailSubmission/query", path: "/ids" },
+        }, "1"],
+      ], ["urn:ietf:params:jmap:submission"]);
+
+      if (response.methodResponses?.[1]?.[0] === "EmailSubmission/get") {
+        return (response.methodResponses[1][1].list || []) as EmailSubmission[];
+      }
+
+      return [];
+    } catch (error) {
+      console.error('Failed to get email submissions:', error);
+      return [];
+    }
+  }
+
+  // Answers a read receipt request; $mdnsent is set so no other client asks again
+  async sendMDN(emailId: string, identityId: string, disposition: MDNDisposition): Promise<void> {
+    const response = await this.request([
+      ["MDN/send", {
+        accountId: this.accountId,
+        identityId,
+        send: {
+          "mdn": {
+            forEmailId: emailId,
+            disposition,
+          },
+        },
+        onSuccessUpdateEmail: {
+          "#mdn": { "keywords/$mdnsent": true },
+        },
+      }, "0"],
+    ], ["urn:ietf:params:jmap:mdn"]);
+
+    const [methodName, result] = response.methodResponses?.[0] || [];
+    if (methodName !== "MDN/send") {
+      throw new Error(result?.description || result?.type || 'Failed to send read receipt');
+    }
+
+    const setError = result.notSent?.["mdn"];
+    if (setError) {
+      throw new Error(setError.description || setError.type || 'Failed to send read receipt');
+    }
+  }
+
+  // Reads the message/disposition-notification parts of received receipts
+  async parseMDNs(blobIds: string[]): Promise<Record<string, MDN>> {
+    try {
+      const response = await this.request([
+        ["MDN/parse", {
+          accountId: this.accountId,
+          blobIds,
+        }, "0"],
+      ], ["urn:ietf:params:jmap:mdn"]);
+
+      if (response.methodResponses?.[0]?.[0] === "MDN/parse") {
+        return (response.methodResponses[0][1].parsed || {}) as Record<string, MDN>;
+      }
+
+      return {};
+    } catch (error) {
+      console.error('Failed to parse read receipts:', error);
+      return {};
+    }
+  }
 }
\ No newline at end of file
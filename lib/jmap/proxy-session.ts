@@ -0,0 +1,177 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import type { OAuthTokens } from '@/lib/oauth-types';
+import { refreshOAuthTokens } from '@/lib/oauth-utils';
+
+/**
+ * Server-side JMAP proxy sessions
+ *
+ * The credentials of a proxied account live in an AES-GCM sealed, httpOnly
+ * cookie that only the /api/jmap routes can read. Only used on the server.
+ */
+
+export type ProxyAuth =
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'oauth'; clientId: string; tokenEndpoint: string; tokens: OAuthTokens };
+
+export interface ProxySession {
+  serverUrl: string;
+  auth: ProxyAuth;
+  // The server's real endpoints, learned from its session object
+  apiUrl?: string;
+  downloadUrl?: string;
+  uploadUrl?: string;
+  eventSourceUrl?: string;
+}
+
+const COOKIE_PREFIX = 'jmap_session_';
+export const PROXY_COOKIE_PATH = '/api/jmap';
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+export const proxyCookieName = (sessionId: string) => `${COOKIE_PREFIX}${sessionId}`;
+
+export const isValidSessionId = (sessionId: string) => SESSION_ID_PATTERN.test(sessionId);
+
+export const createSessionId = () => randomBytes(18).toString('base64url');
+
+const getKey = (): Buffer | null => {
+  const secret = process.env.SESSION_SECRET;
+  return secret ? createHash('sha256').update(secret).digest() : null;
+};
+
+export function isProxyEnabled(): boolean {
+  return process.env.JMAP_PROXY === 'true' && !!process.env.SESSION_SECRET;
+}
+
+export function isBasicAuthAllowed(): boolean {
+  return (process.env.ALLOW_BASIC_AUTH || process.env.NEXT_PUBLIC_ALLOW_BASIC_AUTH) === 'true';
+}
+
+// Only the configured server, plus any listed in JMAP_PROXY_SERVERS, can be reached through the proxy
+export function isAllowedServer(serverUrl: string): boolean {
+  const configured = [
+    process.env.JMAP_SERVER_URL || process.env.NEXT_PUBLIC_JMAP_SERVER_URL || '',
+    ...(process.env.JMAP_PROXY_SERVERS || '').split(','),
+  ];
+
+  try {
+    const origin = new URL(serverUrl).origin;
+    return configured.some((url) => {
+      try {
+        return url.trim() !== '' && new URL(url.trim()).origin === origin;
+      } catch {
+        return false;
+      }
+    });
+  } catch {
+    return false;
+  }
+}
+
+// iv (12 bytes) + auth tag (16 bytes) + ciphertext, base64url encoded
+export function sealSession(session: ProxySession): string {
+  const key = getKey();
+  if (!key) {
+    throw new Error('SESSION_SECRET is not set');
+  }
+
+  // The ID token isn't needed to call the server and would only grow the cookie
+  const stored: ProxySession = session.auth.type === 'oauth'
+    ? { ...session, auth: { ...session.auth, tokens: { ...session.auth.tokens, idToken: undefined } } }
+    : session;
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(stored), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+export function unsealSession(value: string | undefined): ProxySession | null {
+  const key = getKey();
+  if (!key || !value) return null;
+
+  try {
+    const data = Buffer.from(value, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const plaintext = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8'));
+  } catch {
+    // Tampered with, or sealed with a previous secret
+    return null;
+  }
+}
+
+// Refreshes in flight or just done, by the refresh token they used. Requests sent together
+// carry the same cookie, and with rotating refresh tokens only the first to refresh would
+// succeed; the others share its tokens, and so do requests still sent with the old cookie
+const SHARED_REFRESH_TTL = 5 * 60 * 1000; // 5 minutes
+const sharedRefreshes = new Map<string, { tokens: Promise<OAuthTokens>; startedAt: number }>();
+
+function refreshOnce(tokenEndpoint: string, clientId: string, refreshToken: string): Promise<OAuthTokens> {
+  const now = Date.now();
+  sharedRefreshes.forEach((refresh, key) => {
+    if (now - refresh.startedAt > SHARED_REFRESH_TTL) sharedRefreshes.delete(key);
+  });
+
+  const key = createHash('sha256').update(`${tokenEndpoint}|${clientId}|${refreshToken}`).digest('base64url');
+  let refresh = sharedRefreshes.get(key);
+  if (!refresh) {
+    refresh = { tokens: refreshOAuthTokens(tokenEndpoint, clientId, refreshToken), startedAt: now };
+    sharedRefreshes.set(key, refresh);
+    // A failed refresh may be tried again by the next request
+    refresh.tokens.catch(() => sharedRefreshes.delete(key));
+  }
+  return refresh.tokens;
+}
+
+// Renews the access token in place; returns whether the session changed and has to be saved again
+export async function refreshSessionTokens(session: ProxySession): Promise<boolean> {
+  const { auth } = session;
+  if (auth.type !== 'oauth' || !auth.tokens.refreshToken) return false;
+
+  try {
+    auth.tokens = await refreshOnce(auth.tokenEndpoint, auth.clientId, auth.tokens.refreshToken);
+    return true;
+  } catch (error) {
+    // The server's 401 is passed on, the browser then signs in again
+    console.error('Failed to refresh proxy session tokens:', error);
+    return false;
+  }
+}
+
+export function getAuthorizationHeader(session: ProxySession): string {
+  const { auth } = session;
+  return auth.type === 'basic'
+    ? `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`
+    : `Bearer ${auth.tokens.accessToken}`;
+}
+
+// fetch on behalf of a session; an access token the server rejects is renewed and the request sent once more.
+// Tokens are only renewed after a 401, so parallel requests don't each rotate them.
+// refreshed tells whether the session has to be saved again
+export async function fetchWithSession(
+  session: ProxySession,
+  url: string,
+  init: { method?: string; headers?: Record<string, string>; body?: string | ArrayBuffer; signal?: AbortSignal } = {}
+): Promise<{ response: Response; refreshed: boolean }> {
+  let refreshed = false;
+  const send = () => fetch(url, {
+    ...init,
+    headers: { ...init.headers, 'Authorization': getAuthorizationHeader(session) },
+  });
+
+  let response = await send();
+  if (response.status === 401 && await refreshSessionTokens(session)) {
+    refreshed = true;
+    response = await send();
+  }
+  return { response, refreshed };
+}
+
+export const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path: PROXY_COOKIE_PATH,
+};
@@ -24,7 +24,7 @@ export interface Email {
   attachments?: Attachment[];
   hasAttachment: boolean;
   // Extended header information
-  messageId?: string;
+  messageId?: string[];
   inReplyTo?: string[];
   references?: string[];
   headers?: Record<string, string | string[]>;
@@ -36,6 +36,8 @@ export interface Email {
     verdict: string;
     explanation: string;
   };
+  // Set on emails listed in a unified view, which mixes accounts
+  accountId?: string;
 }
 
 export interface AuthenticationResults {
@@ -96,6 +98,47 @@ export interface Attachment {
   disposition?: string;
 }
 
+// Attachment of an outgoing message, referencing an uploaded (or existing) blob
+export interface OutgoingAttachment {
+  blobId: string;
+  name: string;
+  type: string;
+  size: number;
+  cid?: string; // Set for inline parts referenced as cid: from the HTML body
+  disposition?: 'attachment' | 'inline';
+}
+
+// Everything about an outgoing message besides recipients, subject and text body
+export interface EmailSendOptions {
+  attachments?: OutgoingAttachment[];
+  htmlBody?: string;     // Sent as multipart/alternative alongside the text body
+  inReplyTo?: string[];  // Message-IDs of the message being replied to
+  references?: string[]; // Full References chain, including the parent
+  sendAt?: Date;         // Hold the submission on the server until then (FUTURERELEASE)
+  holdFor?: number;      // Seconds the server holds the submission, so the send can be undone
+  requestReadReceipt?: boolean; // Adds Disposition-Notification-To with the sender's address
+  // Builds the whole body as one MIME entity (e.g. PGP/MIME) that the server can't build
+  // itself. The message is then uploaded as is, and htmlBody/attachments are not used
+  mimeBody?: () => Promise<string>;
+  // Value of our Autocrypt header for the address the message is sent from, if any
+  autocryptHeader?: (fromEmail: string) => Promise<string | undefined>;
+  // Called right before the message is handed to the server, from then on it may have been sent
+  onSubmit?: () => Promise<void>;
+}
+
+// Mailboxes and keywords of an email as the server has them, using the server's own IDs
+export interface EmailSyncState {
+  id: string;
+  mailboxIds: Record<string, boolean>;
+  keywords: Record<string, boolean>;
+}
+
+// IDs of a sent message and its submission, e.g. to cancel a held send
+export interface SentEmail {
+  emailId: string;
+  submissionId: string;
+}
+
 export interface Mailbox {
   id: string;
   originalId?: string; // Original JMAP ID (for shared mailboxes)
@@ -125,6 +168,15 @@ export interface Mailbox {
   isShared?: boolean;
 }
 
+// Writable Mailbox properties for Mailbox/set, using the server's own IDs
+export interface MailboxUpdate {
+  name?: string;
+  parentId?: string | null;
+  role?: string | null;
+  sortOrder?: number;
+  isSubscribed?: boolean;
+}
+
 export interface Thread {
   id: string;
   emailIds: string[];
@@ -175,6 +227,60 @@ export interface DeliveryStatus {
   displayed: "unknown" | "yes";
 }
 
+// JMAP MDN (RFC 9007), a read receipt as sent with MDN/send or read with MDN/parse
+export interface MDNDisposition {
+  actionMode: "manual-action" | "automatic-action";
+  sendingMode: "mdn-sent-manually" | "mdn-sent-automatically";
+  type: "deleted" | "dispatched" | "displayed" | "processed";
+}
+
+export interface MDN {
+  forEmailId: string | null;
+  subject: string | null;
+  textBody: string | null;
+  includeOriginalMessage?: boolean;
+  reportingUA: string | null;
+  disposition: MDNDisposition;
+  mdnGateway: string | null;
+  originalRecipient: string | null;
+  finalRecipient: string | null;
+  originalMessageId: string | null;
+  error: string[] | null;
+  extensionFields: Record<string, string> | null;
+}
+
+// JMAP VacationResponse (RFC 8621 Section 8), a per-account singleton
+export interface VacationResponse {
+  id: string; // Always "singleton"
+  isEnabled: boolean;
+  fromDate: string | null; // UTCDate, replies are only sent after this
+  toDate: string | null;   // UTCDate, replies are only sent before this
+  subject: string | null;
+  textBody: string | null;
+  htmlBody: string | null;
+}
+
+// JMAP Sieve Types (RFC 9661)
+
+export interface SieveScript {
+  id: string;
+  name: string | null;
+  blobId: string;
+  isActive: boolean;
+}
+
+// Account capability "urn:ietf:params:jmap:sieve"
+export interface SieveCapability {
+  maxSizeScriptName?: number;
+  maxSizeScript?: number | null;
+  maxNumberScripts?: number | null;
+  maxNumberRedirects?: number | null;
+  sieveExtensions: string[];
+  notificationMethods?: string[] | null;
+  externalLists?: string[] | null;
+  implementation?: string;
+}
+
 // JMAP Push Notification Types (RFC 8620 Section 7)
 
 export interface StateChange {
@@ -199,10 +305,28 @@ export interface PushSubscription {
     p256dh: string;
     auth: string;
   } | null;
+  verificationCode?: string | null;
   expires: string | null;
   types: string[] | null;
 }
 
+// Why the server refused to create, update or destroy an object (RFC 8620 section 5.3)
+export interface SetError {
+  type: string;
+  description?: string;
+  properties?: string[];
+}
+
+// Outcome of a /set, per object, however many requests it took
+export interface SetResult {
+  created: Record<string, { id: string } & Record<string, unknown>>;
+  updated: string[];
+  destroyed: string[];
+  notCreated: Record<string, SetError>;
+  notUpdated: Record<string, SetError>;
+  notDestroyed: Record<string, SetError>;
+}
+
 // For tracking last known states
 export interface AccountStates {
   [accountId: string]: {
@@ -212,6 +336,87 @@ export interface AccountStates {
   };
 }
 
+// Incremental sync types (RFC 8620 Section 5.2 and 5.6)
+
+// A page of Email/query results along with the states needed to resync it later
+export interface EmailListPage {
+  emails: Email[];
+  hasMore: boolean;
+  total: number;
+  state?: string;      // Email state the page was fetched at
+  queryState?: string; // Only set when the server can calculate changes for the query
+  snippets?: Record<string, SearchSnippet>; // Highlighted matches of a search, by email id
+}
+
+// SearchSnippet/get result (RFC 8621 Section 5): HTML-escaped text with <mark> around matched terms
+export interface SearchSnippet {
+  emailId: string;
+  subject: string | null; // Null when the subject didn't match
+  preview: string | null; // Null when no body text matched
+}
+
+// Email/query filters (RFC 8621 Section 4.4.1, nested with RFC 8620 FilterOperators)
+export interface EmailFilterCondition {
+  inMailbox?: string;
+  inMailboxOtherThan?: string[];
+  before?: string; // UTCDate, receivedAt < before
+  after?: string;  // UTCDate, receivedAt >= after
+  minSize?: number;
+  maxSize?: number;
+  hasKeyword?: string;
+  notKeyword?: string;
+  hasAttachment?: boolean;
+  text?: string;
+  from?: string;
+  to?: string;
+  cc?: string;
+  bcc?: string;
+  subject?: string;
+  body?: string;
+  header?: [string] | [string, string]; // Header name, and optionally text its value contains
+}
+
+export interface FilterOperator<T> {
+  operator: "AND" | "OR" | "NOT";
+  conditions: Array<T | FilterOperator<T>>;
+}
+
+export type EmailQueryFilter = EmailFilterCondition | FilterOperator<EmailFilterCondition>;
+
+// One account's part of a unified view
+export interface UnifiedEmailQuery {
+  accountId: string;
+  filter: EmailQueryFilter;
+}
+
+export interface UnifiedEmailPage extends EmailListPage {
+  positions: Record<string, number>; // How far into each account's results the merged list goes
+}
+
+export interface EmailListChanges {
+  newState: string;
+  newQueryState: string;
+  total?: number;
+  removed: string[];                         // IDs no longer in the results (or moved)
+  added: Array<{ id: string; index: number }>; // New positions, sorted by index
+  addedEmails: Email[];                      // List properties for every added ID
+  updated: Array<Pick<Email, 'id' | 'mailboxIds' | 'keywords'>>; // Keyword/mailbox flips
+  created: string[];                         // Emails that did not exist before (new mail)
+  destroyed: string[];
+}
+
+export interface MailboxChanges {
+  newState: string;
+  changed: Mailbox[]; // Created or updated mailboxes, fully mapped
+  destroyed: string[];
+}
+
+export interface ThreadChanges {
+  newState: string;
+  changed: string[]; // Created or updated thread IDs
+  destroyed: string[];
+}
+
 // Contact types (RFC 6350 vCard)
 export interface ContactAddress {
   type?: 'home' | 'work' | 'other';
@@ -305,6 +510,7 @@ export interface CalendarEventAttachment {
 export interface CalendarEvent {
   id: string;
   calendarId: string;
+  uid?: string; // iCalendar UID, shared with invitations for the same event
   title: string;
   description?: string;
   location?: string;
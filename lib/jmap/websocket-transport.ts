@@ -0,0 +1,244 @@
+import type { StateChange } from "./types";
+
+/**
+ * JMAP over WebSocket (RFC 8887)
+ *
+ * Multiplexes JMAP requests over one socket, matched to their responses by
+ * request id, and receives push StateChange messages on the same socket.
+ * Reconnects by itself after the connection drops; callers fall back to HTTP
+ * whenever the socket isn't open, and for requests the drop interrupted that
+ * are safe to send again.
+ */
+
+export const WEBSOCKET_CAPABILITY = "urn:ietf:params:jmap:websocket";
+
+export interface WebSocketCapability {
+  url: string;
+  supportsPush: boolean;
+}
+
+interface JMAPRequestBody {
+  using: string[];
+  methodCalls: Array<[string, Record<string, unknown>, string]>;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MethodResponses = Array<[string, Record<string, any>, string]>;
+
+interface PendingRequest {
+  resolve: (methodResponses: MethodResponses) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+const NOT_OPEN = "WebSocket is not open";
+const CONNECTION_CLOSED = "WebSocket connection closed";
+const REQUEST_TIMED_OUT = "WebSocket request timed out";
+
+// The request never left, it can go over HTTP as it is
+export const isNotSent = (error: unknown) => error instanceof Error && error.message === NOT_OPEN;
+
+// The request went out but no answer came back, so whether the server acted on it is unknown
+export const isInterrupted = (error: unknown) =>
+  error instanceof Error && (error.message === CONNECTION_CLOSED || error.message === REQUEST_TIMED_OUT);
+
+const OPEN_TIMEOUT = 5000; // 5 seconds
+const REQUEST_TIMEOUT = 60000; // 1 minute
+const MAX_RECONNECT_DELAY = 30000; // 30 seconds
+
+export class JMAPWebSocketTransport {
+  private url: string;
+  private socket: WebSocket | null = null;
+  private pending = new Map<string, PendingRequest>();
+  private nextRequestId = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private isClosed = false;
+  private pushCallback: ((change: StateChange) => void) | null = null;
+  private pushState: string | null = null;
+  private onConnectionChange: (isOpen: boolean) => void;
+
+  // onConnectionChange hears about drops and reconnections after the first connect
+  constructor(url: string, onConnectionChange: (isOpen: boolean) => void = () => {}) {
+    this.url = url;
+    this.onConnectionChange = onConnectionChange;
+  }
+
+  isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  // Resolves once the socket is open; rejects when the server refuses it
+  connect(): Promise<void> {
+    this.isClosed = false;
+
+    return new Promise((resolve, reject) => {
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(this.url, "jmap");
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error("WebSocket connection failed"));
+        return;
+      }
+
+      const openTimeout = setTimeout(() => {
+        socket.close();
+        reject(new Error("WebSocket connection timed out"));
+      }, OPEN_TIMEOUT);
+
+      socket.onopen = () => {
+        clearTimeout(openTimeout);
+        if (this.isClosed) {
+          socket.close();
+          reject(new Error("WebSocket transport was closed"));
+          return;
+        }
+        // The server must agree to speak JMAP
+        if (socket.protocol !== "jmap") {
+          socket.close();
+          reject(new Error("Server did not accept the jmap subprotocol"));
+          return;
+        }
+        this.socket = socket;
+        if (this.reconnectAttempts > 0) {
+          this.onConnectionChange(true);
+        }
+        this.reconnectAttempts = 0;
+        // Pick push up where it stopped, the server sends what changed meanwhile
+        if (this.pushCallback) {
+          this.sendPushEnable();
+        }
+        resolve();
+      };
+
+      socket.onmessage = (event) => this.handleMessage(event.data);
+
+      socket.onclose = () => {
+        clearTimeout(openTimeout);
+        if (this.socket !== socket) {
+          // Never opened
+          reject(new Error("WebSocket connection failed"));
+          return;
+        }
+        this.socket = null;
+        this.failPending(new Error(CONNECTION_CLOSED));
+        this.onConnectionChange(false);
+        this.scheduleReconnect();
+      };
+    });
+  }
+
+  request(body: JMAPRequestBody): Promise<MethodResponses> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error(NOT_OPEN));
+    }
+
+    const id = `r${++this.nextRequestId}`;
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(REQUEST_TIMED_OUT));
+      }, REQUEST_TIMEOUT);
+
+      this.pending.set(id, { resolve, reject, timeout });
+      socket.send(JSON.stringify({ "@type": "Request", id, ...body }));
+    });
+  }
+
+  enablePush(callback: (change: StateChange) => void): void {
+    this.pushCallback = callback;
+    if (this.isOpen()) {
+      this.sendPushEnable();
+    }
+  }
+
+  disablePush(): void {
+    this.pushCallback = null;
+    this.pushState = null;
+    if (this.isOpen()) {
+      this.socket!.send(JSON.stringify({ "@type": "WebSocketPushDisable" }));
+    }
+  }
+
+  close(): void {
+    this.isClosed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    this.pushCallback = null;
+    this.failPending(new Error(CONNECTION_CLOSED));
+    socket?.close();
+  }
+
+  private sendPushEnable(): void {
+    this.socket?.send(JSON.stringify({
+      "@type": "WebSocketPushEnable",
+      dataTypes: null,
+      ...(this.pushState ? { pushState: this.pushState } : {}),
+    }));
+  }
+
+  private handleMessage(data: unknown): void {
+    let message;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      console.error("Invalid WebSocket message:", data);
+      return;
+    }
+
+    switch (message["@type"]) {
+      case "Response": {
+        const request = this.pending.get(message.requestId);
+        if (!request) return;
+        this.pending.delete(message.requestId);
+        clearTimeout(request.timeout);
+        request.resolve(message.methodResponses || []);
+        break;
+      }
+      case "RequestError": {
+        // Problem details (RFC 7807); without a request id it concerns a message we can't match
+        const error = new Error(`Request failed: ${message.status || 400} - ${message.detail || message.type}`);
+        if (message.requestId && this.pending.has(message.requestId)) {
+          const request = this.pending.get(message.requestId)!;
+          this.pending.delete(message.requestId);
+          clearTimeout(request.timeout);
+          request.reject(error);
+        } else {
+          console.error("WebSocket request error:", message);
+        }
+        break;
+      }
+      case "StateChange":
+        if (message.pushState) {
+          this.pushState = message.pushState;
+        }
+        this.pushCallback?.(message as StateChange);
+        break;
+    }
+  }
+
+  private failPending(error: Error): void {
+    this.pending.forEach((request) => {
+      clearTimeout(request.timeout);
+      request.reject(error);
+    });
+    this.pending.clear();
+  }
+
+  // Back off 1s, 2s, 4s... up to 30s between attempts
+  private scheduleReconnect(): void {
+    if (this.isClosed || this.reconnectTimer) return;
+
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(() => this.scheduleReconnect());
+    }, delay);
+  }
+}
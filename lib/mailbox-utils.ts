@@ -0,0 +1,130 @@
+import type { Email, EmailFilterCondition, EmailQueryFilter, Mailbox, UnifiedEmailQuery } from "@/lib/jmap/types";
+import { compileSearchQuery } from "@/lib/search-query-utils";
+
+// Special-use roles the user can hand to any folder from the sidebar
+export const ASSIGNABLE_MAILBOX_ROLES = ["archive", "junk", "templates"] as const;
+
+// Role mailboxes the webmail relies on, created with these names when missing
+export const REQUIRED_ROLE_MAILBOXES: { role: string; name: string }[] = [
+  { role: "drafts", name: "Drafts" },
+  { role: "sent", name: "Sent" },
+  { role: "trash", name: "Trash" },
+  { role: "archive", name: "Archive" },
+  { role: "junk", name: "Junk" },
+];
+
+// Role mailbox of the primary account (shared accounts have their own)
+export function findRoleMailbox(mailboxes: Mailbox[], role: string): Mailbox | undefined {
+  return mailboxes.find((mb) => mb.role === role && !mb.isShared);
+}
+
+// True when mailboxId is ancestorId itself or one of its descendants
+export function isMailboxWithin(mailboxes: Mailbox[], mailboxId: string, ancestorId: string): boolean {
+  const byId = new Map(mailboxes.map((mb) => [mb.id, mb]));
+  const seen = new Set<string>();
+  let current: Mailbox | undefined = byId.get(mailboxId);
+
+  while (current && !seen.has(current.id)) {
+    if (current.id === ancestorId) return true;
+    seen.add(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return false;
+}
+
+// Can the folder being dragged become a child of target (null = top level)?
+export function canReparentMailbox(mailboxes: Mailbox[], mailbox: Mailbox, target: Mailbox | null): boolean {
+  if (!mailbox.myRights.mayRename) return false;
+  if (!target) return !mailbox.isShared && !!mailbox.parentId;
+  if (target.id === mailbox.parentId) return false;
+  if (!target.myRights.mayCreateChild) return false;
+  if ((target.accountId || null) !== (mailbox.accountId || null)) return false;
+  return !isMailboxWithin(mailboxes, target.id, mailbox.id);
+}
+
+// Virtual views that list mail from every account, selected like a mailbox id
+export const UNIFIED_VIEWS = ["unified:inbox", "unified:unread", "unified:flagged"] as const;
+export type UnifiedView = (typeof UNIFIED_VIEWS)[number];
+
+export function isUnifiedView(mailboxId: string): mailboxId is UnifiedView {
+  return (UNIFIED_VIEWS as readonly string[]).includes(mailboxId);
+}
+
+// Saved searches open like mailboxes, selected as "search:<id>"
+const SAVED_SEARCH_PREFIX = "search:";
+
+export const toSavedSearchView = (searchId: string) => `${SAVED_SEARCH_PREFIX}${searchId}`;
+
+export function getSavedSearchId(mailboxId: string): string | null {
+  return mailboxId.startsWith(SAVED_SEARCH_PREFIX) ? mailboxId.slice(SAVED_SEARCH_PREFIX.length) : null;
+}
+
+// Views listing mail of every account; their emails carry their accountId
+export function isCrossAccountView(mailboxId: string): boolean {
+  return isUnifiedView(mailboxId) || getSavedSearchId(mailboxId) !== null;
+}
+
+const getAccountIds = (mailboxes: Mailbox[]) =>
+  [...new Set(mailboxes.map((mb) => mb.accountId).filter((id): id is string => !!id))];
+
+const serverId = (mb: Mailbox) => mb.originalId || mb.id;
+
+// Server ids of an account's role mailboxes, for inMailboxOtherThan
+const getRoleMailboxIds = (own: Mailbox[], roles: string[]) =>
+  roles
+    .map((role) => own.find((mb) => mb.role === role))
+    .filter((mb): mb is Mailbox => !!mb)
+    .map(serverId);
+
+// One Email/query filter per account, using the server's own mailbox ids; a search
+// query is compiled for each account, skipping those where it can't apply (e.g. in:<name>)
+export function buildUnifiedQueries(view: UnifiedView, mailboxes: Mailbox[], query?: string): UnifiedEmailQuery[] {
+  return getAccountIds(mailboxes).flatMap((accountId): UnifiedEmailQuery[] => {
+    const own = mailboxes.filter((mb) => mb.accountId === accountId);
+    const byRole = (role: string) => own.find((mb) => mb.role === role);
+    const filter: EmailFilterCondition = {};
+    const search = query ? compileSearchQuery(query, mailboxes, accountId) : null;
+    if (search && !search.filter) return [];
+
+    if (view === "unified:inbox") {
+      const inbox = byRole("inbox");
+      if (!inbox) return [];
+      // A search naming its own folder looks beyond the inbox
+      if (!search?.hasMailboxScope) filter.inMailbox = serverId(inbox);
+    } else {
+      const excluded = getRoleMailboxIds(own, view === "unified:unread" ? ["trash", "junk"] : ["trash"]);
+      if (view === "unified:unread") filter.notKeyword = "$seen";
+      else filter.hasKeyword = "$flagged";
+      if (excluded.length > 0) filter.inMailboxOtherThan = excluded;
+    }
+
+    if (!search?.filter) return [{ accountId, filter }];
+    return [{ accountId, filter: { operator: "AND", conditions: [filter, search.filter] } }];
+  });
+}
+
+// A saved search over every account, refined by what's typed in the search bar. Like
+// Gmail, trash and junk are left out unless the query picks its folder with in:<name>
+export function buildSavedSearchQueries(query: string, mailboxes: Mailbox[], refinement?: string): UnifiedEmailQuery[] {
+  return getAccountIds(mailboxes).flatMap((accountId): UnifiedEmailQuery[] => {
+    const search = compileSearchQuery(query, mailboxes, accountId);
+    const refined = refinement ? compileSearchQuery(refinement, mailboxes, accountId) : null;
+    if (!search.filter || (refined && !refined.filter)) return [];
+
+    const conditions: EmailQueryFilter[] = [search.filter];
+    if (!search.hasMailboxScope) {
+      const excluded = getRoleMailboxIds(mailboxes.filter((mb) => mb.accountId === accountId), ["trash", "junk"]);
+      if (excluded.length > 0) conditions.push({ inMailboxOtherThan: excluded });
+    }
+    if (refined?.filter) conditions.push(refined.filter);
+    return [{ accountId, filter: conditions.length === 1 ? conditions[0] : { operator: "AND", conditions } }];
+  });
+}
+
+// Account an email lives in: its own tag in unified views, else the open mailbox's
+// account (undefined means the primary account)
+export function getEmailAccountId(email: Pick<Email, "accountId">, mailboxes: Mailbox[], selectedMailbox: string): string | undefined {
+  if (email.accountId) return email.accountId;
+  const mailbox = mailboxes.find((mb) => mb.id === selectedMailbox);
+  return mailbox?.isShared ? mailbox.accountId : undefined;
+}
@@ -0,0 +1,320 @@
+/**
+ * MIME (RFC 2045/2046) helpers for the message bodies the server can't build or
+ * parse for us, i.e. the content protected by PGP/MIME
+ */
+
+export interface MimeEntity {
+  headers: Record<string, string>; // Lower-cased names, unfolded values
+  contentType: string; // Lower-cased media type, e.g. "text/plain"
+  params: Record<string, string>; // Content-Type parameters, lower-cased names
+  raw: string; // The whole entity as it appeared (CRLF line endings), headers included
+  body: string; // Still transfer-encoded
+  parts: MimeEntity[]; // Children of multipart entities
+}
+
+export interface MimeAttachment {
+  name: string;
+  type: string;
+  size: number;
+  data: Uint8Array;
+  cid?: string;
+  disposition: 'attachment' | 'inline';
+}
+
+export interface MimeContent {
+  text?: string;
+  html?: string;
+  attachments: MimeAttachment[];
+}
+
+/**
+ * Normalize line endings to CRLF, the canonical form signatures are computed over
+ */
+export function toCRLF(text: string): string {
+  return text.replace(/\r?\n/g, '\r\n');
+}
+
+/**
+ * Split a structured header value into its main value and parameters,
+ * decoding RFC 2231 extended parameters (name*=charset''value)
+ */
+export function parseHeaderValue(header: string): { value: string; params: Record<string, string> } {
+  const [value = '', ...rawParams] = header.match(/(?:[^;"]|"(?:\\.|[^"\\])*")+/g) || [];
+  const params: Record<string, string> = {};
+
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq <= 0) continue;
+    const name = param.slice(0, eq).trim().toLowerCase();
+    let paramValue = param.slice(eq + 1).trim();
+    if (paramValue.startsWith('"')) {
+      paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+
+    if (name.endsWith('*')) {
+      const extended = paramValue.match(/^([^']*)'[^']*'(.*)$/);
+      try {
+        params[name.slice(0, -1)] = decodeURIComponent(extended ? extended[2] : paramValue);
+      } catch {
+        params[name.slice(0, -1)] = paramValue;
+      }
+    } else {
+      params[name] = paramValue;
+    }
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function parseHeaderBlock(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of block.replace(/\r\n[ \t]+/g, ' ').split('\r\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // The first occurrence wins, like most clients do
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+/**
+ * Every value of a header that may occur more than once; headers only keeps the first
+ */
+export function getHeaderValues(entity: MimeEntity, name: string): string[] {
+  const separator = entity.raw.indexOf('\r\n\r\n');
+  const block = separator === -1 ? entity.raw : entity.raw.slice(0, separator);
+  const prefix = `${name.toLowerCase()}:`;
+  return block
+    .replace(/\r\n[ \t]+/g, ' ')
+    .split('\r\n')
+    .filter((line) => line.toLowerCase().startsWith(prefix))
+    .map((line) => line.slice(prefix.length).trim());
+}
+
+// Bodies between the boundary delimiters; the CRLF before a delimiter belongs to it
+function splitMultipart(body: string, boundary: string): string[] {
+  const text = '\r\n' + body;
+  const delimiter = '\r\n--' + boundary;
+  const parts: string[] = [];
+
+  let index = text.indexOf(delimiter);
+  while (index !== -1) {
+    const afterDelimiter = index + delimiter.length;
+    if (text.startsWith('--', afterDelimiter)) break; // Close delimiter
+    const lineEnd = text.indexOf('\r\n', afterDelimiter);
+    if (lineEnd === -1) break;
+
+    const next = text.indexOf(delimiter, lineEnd);
+    parts.push(next === -1 ? text.slice(lineEnd + 2) : text.slice(lineEnd + 2, Math.max(lineEnd + 2, next)));
+    index = next;
+  }
+
+  return parts;
+}
+
+/**
+ * Parse a MIME entity (a whole message or one of its parts) into a tree
+ */
+export function parseMimeEntity(source: string): MimeEntity {
+  const raw = toCRLF(source);
+  const separator = raw.startsWith('\r\n') ? 0 : raw.indexOf('\r\n\r\n');
+  const headerBlock = separator === -1 ? raw : raw.slice(0, separator);
+  const body = separator === -1 ? '' : raw.slice(separator + (separator === 0 ? 2 : 4));
+
+  const headers = parseHeaderBlock(headerBlock);
+  const { value, params } = parseHeaderValue(headers['content-type'] || 'text/plain; charset=us-ascii');
+  const parts = value.startsWith('multipart/') && params.boundary
+    ? splitMultipart(body, params.boundary).map(parseMimeEntity)
+    : [];
+
+  return { headers, contentType: value, params, raw, body, parts };
+}
+
+/**
+ * Decode base64, ignoring line breaks and other whitespace
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/[^A-Za-z0-9+/=]/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function quotedPrintableToBytes(text: string): Uint8Array {
+  const unfolded = text.replace(/=\r\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < unfolded.length; i++) {
+    const hex = unfolded[i] === '=' && unfolded.slice(i + 1, i + 3);
+    if (hex && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      // Raw 8-bit characters were already decoded as UTF-8 when the message was read
+      bytes.push(...new TextEncoder().encode(unfolded[i]));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Undo the Content-Transfer-Encoding of a leaf entity
+ */
+export function decodeEntityBody(entity: MimeEntity): Uint8Array {
+  const encoding = entity.headers['content-transfer-encoding']?.toLowerCase();
+  if (encoding === 'base64') return base64ToBytes(entity.body);
+  if (encoding === 'quoted-printable') return quotedPrintableToBytes(entity.body);
+  return new TextEncoder().encode(entity.body);
+}
+
+function decodeText(bytes: Uint8Array, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?charset?B|Q?text?=) in a header value
+ */
+export function decodeHeaderWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? base64ToBytes(text)
+        : quotedPrintableToBytes(text.replace(/_/g, ' '));
+      return decodeText(bytes, charset);
+    });
+}
+
+/**
+ * Pick the text, HTML and attachments out of a parsed entity tree
+ */
+export function extractMimeContent(entity: MimeEntity): MimeContent {
+  const content: MimeContent = { attachments: [] };
+
+  const walk = (part: MimeEntity) => {
+    if (part.contentType.startsWith('multipart/')) {
+      part.parts.forEach(walk);
+      return;
+    }
+
+    const disposition = parseHeaderValue(part.headers['content-disposition'] || '');
+    const name = decodeHeaderWords(disposition.params.filename || part.params.name || '');
+    const isAttachment = disposition.value === 'attachment' || !!name;
+    const charset = part.params.charset;
+
+    if (!isAttachment && part.contentType === 'text/plain' && content.text === undefined) {
+      content.text = decodeText(decodeEntityBody(part), charset);
+    } else if (!isAttachment && part.contentType === 'text/html' && content.html === undefined) {
+      content.html = decodeText(decodeEntityBody(part), charset);
+    } else {
+      const data = decodeEntityBody(part);
+      const cid = part.headers['content-id']?.replace(/^<|>$/g, '');
+      content.attachments.push({
+        name: name || 'attachment',
+        type: part.contentType,
+        size: data.length,
+        data,
+        ...(cid && { cid }),
+        disposition: disposition.value === 'inline' ? 'inline' : 'attachment',
+      });
+    }
+  };
+
+  walk(entity);
+  return content;
+}
+
+/**
+ * Base64 encode bytes, wrapped at 76 characters per line
+ */
+export function encodeBase64Lines(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return (btoa(binary).match(/.{1,76}/g) || []).join('\r\n');
+}
+
+/**
+ * Encode a header value as RFC 2047 encoded words when it isn't plain ASCII
+ */
+export function encodeHeaderWord(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${encodeBase64Lines(new TextEncoder().encode(value)).replace(/\r\n/g, '')}?=`;
+}
+
+/**
+ * A random multipart boundary
+ */
+export function generateBoundary(): string {
+  const random = new Uint8Array(12);
+  crypto.getRandomValues(random);
+  return `----=_Part_${Array.from(random, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Build a MIME entity from its headers and (already encoded) body
+ */
+export function buildMimeEntity(headers: Record<string, string>, body: string): string {
+  const headerLines = Object.entries(headers).map(([name, value]) => `${name}: ${value}`);
+  return `${headerLines.join('\r\n')}\r\n\r\n${toCRLF(body)}`;
+}
+
+/**
+ * Build a multipart entity from already built child entities
+ */
+export function buildMultipart(subtype: string, parts: string[], params: Record<string, string> = {}): string {
+  const boundary = generateBoundary();
+  const extraParams = Object.entries(params).map(([name, value]) => `; ${name}="${value}"`).join('');
+  const body = parts.map((part) => `--${boundary}\r\n${part}\r\n`).join('') + `--${boundary}--\r\n`;
+  return buildMimeEntity({ 'Content-Type': `multipart/${subtype}; boundary="${boundary}"${extraParams}` }, body);
+}
+
+/**
+ * A base64 encoded text part
+ */
+export function buildTextPart(subtype: 'plain' | 'html', text: string): string {
+  return buildMimeEntity(
+    {
+      'Content-Type': `text/${subtype}; charset=utf-8`,
+      'Content-Transfer-Encoding': 'base64',
+    },
+    encodeBase64Lines(new TextEncoder().encode(text))
+  );
+}
+
+/**
+ * A base64 encoded attachment or inline (cid:) part
+ */
+export function buildAttachmentPart(attachment: Omit<MimeAttachment, 'size'>): string {
+  const name = encodeHeaderWord(attachment.name).replace(/"/g, '');
+  return buildMimeEntity(
+    {
+      'Content-Type': `${attachment.type || 'application/octet-stream'}; name="${name}"`,
+      'Content-Transfer-Encoding': 'base64',
+      'Content-Disposition': `${attachment.disposition}; filename="${name}"`,
+      ...(attachment.cid && { 'Content-ID': `<${attachment.cid}>` }),
+    },
+    encodeBase64Lines(attachment.data)
+  );
+}
+
+/**
+ * The content of an outgoing message as one entity: text, HTML alternative and attachments
+ */
+export function buildContentEntity(
+  body: string,
+  htmlBody: string | undefined,
+  attachments: Omit<MimeAttachment, 'size'>[]
+): string {
+  const text = htmlBody
+    ? buildMultipart('alternative', [buildTextPart('plain', body), buildTextPart('html', htmlBody)])
+    : buildTextPart('plain', body);
+  return attachments.length > 0 ? buildMultipart('mixed', [text, ...attachments.map(buildAttachmentPart)]) : text;
+}
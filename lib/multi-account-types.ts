@@ -6,11 +6,14 @@
 export interface AccountCredentials {
   id: string;
   email: string;
+  username: string; // Login name, which isn't always the email address
   displayName?: string;
   jmapServer: string;
-  accessToken: string;
+  accessToken?: string;
   refreshToken?: string;
   expiresAt?: Date;
+  authMethod?: 'basic' | 'oauth' | 'proxy'; // Accounts added before OAuth sign-in used Basic auth; proxy keeps credentials on the server
+  rememberMe: boolean; // The tokens (or Basic auth password) are kept in sessionStorage to reconnect after a reload
   isPrimary: boolean;
   isActive: boolean;
   createdAt: Date;
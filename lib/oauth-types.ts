@@ -0,0 +1,49 @@
+/**
+ * OAuth Types
+ * Types for signing in through the mail server's OAuth 2.0 / OpenID Connect provider
+ */
+
+// The parts of the provider metadata (RFC 8414 / OpenID Connect Discovery) we use
+export interface OAuthServerMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  revocation_endpoint?: string;
+  code_challenge_methods_supported?: string[];
+}
+
+// Token endpoint response (RFC 6749 section 5.1)
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+  scope?: string;
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: number | null; // Epoch milliseconds, null when the provider didn't say
+  idToken?: string;
+}
+
+// What a JMAP client needs to keep its access token fresh
+export interface OAuthSession {
+  clientId: string;
+  tokenEndpoint: string;
+  tokens: OAuthTokens;
+}
+
+// A sign-in started in this tab, waiting for the provider to redirect back
+export interface PendingOAuthLogin {
+  state: string;
+  codeVerifier: string;
+  serverUrl: string;
+  clientId: string;
+  tokenEndpoint: string;
+  redirectUri: string;
+  rememberMe: boolean;
+  useProxy: boolean;
+}
@@ -0,0 +1,119 @@
+import type { OAuthServerMetadata, OAuthTokenResponse, OAuthTokens } from './oauth-types';
+
+// offline_access asks for a refresh token so the session outlives the access token
+export const OAUTH_SCOPE = 'openid email profile offline_access';
+
+// Access tokens are renewed this long before they run out
+const EXPIRY_MARGIN = 60 * 1000; // 1 minute
+
+const base64UrlEncode = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export function randomToken(byteLength = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+// PKCE pair (RFC 7636), always S256
+export async function createPkcePair(): Promise<{ codeVerifier: string; codeChallenge: string }> {
+  const codeVerifier = randomToken(32);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return { codeVerifier, codeChallenge: base64UrlEncode(new Uint8Array(digest)) };
+}
+
+// Look up the provider's endpoints, trying OAuth metadata (RFC 8414) before OpenID Connect discovery
+export async function discoverOAuthServer(issuerUrl: string): Promise<OAuthServerMetadata> {
+  const base = issuerUrl.replace(/\/$/, '');
+
+  for (const path of ['/.well-known/oauth-authorization-server', '/.well-known/openid-configuration']) {
+    try {
+      const response = await fetch(`${base}${path}`, { headers: { Accept: 'application/json' } });
+      if (!response.ok) continue;
+      const metadata = (await response.json()) as OAuthServerMetadata;
+      if (metadata.authorization_endpoint && metadata.token_endpoint) {
+        return metadata;
+      }
+    } catch (error) {
+      console.error(`Failed to fetch ${path}:`, error);
+    }
+  }
+
+  throw new Error('The server does not support OAuth sign-in');
+}
+
+export function buildAuthorizationUrl(
+  metadata: OAuthServerMetadata,
+  params: { clientId: string; redirectUri: string; state: string; codeChallenge: string; loginHint?: string }
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', params.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', OAUTH_SCOPE);
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('code_challenge', params.codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (params.loginHint) {
+    url.searchParams.set('login_hint', params.loginHint);
+  }
+  return url.toString();
+}
+
+// Providers may rotate the refresh token on every use; without a new one the old one stays valid
+export function toOAuthTokens(response: OAuthTokenResponse, previousRefreshToken: string | null = null): OAuthTokens {
+  return {
+    accessToken: response.access_token,
+    refreshToken: response.refresh_token || previousRefreshToken,
+    expiresAt: response.expires_in ? Date.now() + response.expires_in * 1000 : null,
+    idToken: response.id_token,
+  };
+}
+
+async function requestTokens(tokenEndpoint: string, params: Record<string, string>): Promise<OAuthTokenResponse> {
+  const response = await fetch(tokenEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: new URLSearchParams(params).toString(),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.access_token) {
+    // RFC 6749 section 5.2 error response
+    const reason = data?.error_description || data?.error || `status ${response.status}`;
+    throw new Error(`Token request failed: ${reason}`);
+  }
+  return data as OAuthTokenResponse;
+}
+
+export async function exchangeAuthorizationCode(
+  tokenEndpoint: string,
+  params: { clientId: string; code: string; codeVerifier: string; redirectUri: string }
+): Promise<OAuthTokens> {
+  const response = await requestTokens(tokenEndpoint, {
+    grant_type: 'authorization_code',
+    client_id: params.clientId,
+    code: params.code,
+    code_verifier: params.codeVerifier,
+    redirect_uri: params.redirectUri,
+  });
+  return toOAuthTokens(response);
+}
+
+export async function refreshOAuthTokens(tokenEndpoint: string, clientId: string, refreshToken: string): Promise<OAuthTokens> {
+  const response = await requestTokens(tokenEndpoint, {
+    grant_type: 'refresh_token',
+    client_id: clientId,
+    refresh_token: refreshToken,
+  });
+  return toOAuthTokens(response, refreshToken);
+}
+
+export function isTokenExpiring(tokens: OAuthTokens): boolean {
+  return tokens.expiresAt !== null && tokens.expiresAt - EXPIRY_MARGIN <= Date.now();
+}
+
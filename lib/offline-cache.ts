@@ -0,0 +1,274 @@
+/**
+ * Offline cache in IndexedDB: mailboxes, recent email lists and bodies, attachments,
+ * the JMAP session and the outbox. Everything is keyed by the primary JMAP account
+ * of the signed-in user, so accounts never see each other's mail.
+ */
+
+import type { Email, EmailListPage, Identity, Mailbox } from "@/lib/jmap/types";
+import type {
+  CachedBlob,
+  CachedEmail,
+  CachedEmailList,
+  CachedMailboxes,
+  CachedSession,
+  OutboxEntry,
+} from "@/lib/offline-types";
+
+const DB_NAME = "jmap-webmail-offline";
+const DB_VERSION = 1;
+
+const MAX_CACHED_EMAILS = 2000; // Per account, oldest dropped first
+const MAX_CACHED_BLOBS = 100;
+const MAX_CACHED_BLOB_SIZE = 10 * 1024 * 1024;
+
+type StoreName = "mailboxes" | "lists" | "emails" | "blobs" | "sessions" | "outbox";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore("mailboxes", { keyPath: "accountId" });
+      db.createObjectStore("lists", { keyPath: "key" }).createIndex("accountId", "accountId");
+      db.createObjectStore("emails", { keyPath: "key" }).createIndex("accountId", "accountId");
+      db.createObjectStore("blobs", { keyPath: "key" }).createIndex("accountId", "accountId");
+      db.createObjectStore("sessions", { keyPath: "key" });
+      db.createObjectStore("outbox", { keyPath: "id" }).createIndex("accountId", "accountId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Let a later call try again (e.g. after the user allowed storage)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run fn in one transaction and resolve once it's committed
+async function transaction<T>(
+  names: StoreName | StoreName[],
+  mode: "readonly" | "readwrite",
+  fn: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const db = await openDB();
+  const tx = db.transaction(names, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await fn(tx);
+  await done;
+  return result;
+}
+
+const getAllForAccount = <T>(tx: IDBTransaction, name: StoreName, accountId: string): Promise<T[]> =>
+  toPromise(tx.objectStore(name).index("accountId").getAll(accountId) as IDBRequest<T[]>);
+
+// Drop the least recently cached records of an account beyond max
+async function trim(name: "emails" | "blobs", accountId: string, max: number): Promise<void> {
+  await transaction(name, "readwrite", async (tx) => {
+    const records = await getAllForAccount<{ key: string; cachedAt: number }>(tx, name, accountId);
+    if (records.length <= max) return;
+    const store = tx.objectStore(name);
+    records
+      .sort((a, b) => a.cachedAt - b.cachedAt)
+      .slice(0, records.length - max)
+      .forEach((record) => store.delete(record.key));
+  });
+}
+
+// Cache writes are best effort: a full disk or private mode shouldn't break the app
+async function write(description: string, fn: () => Promise<void>): Promise<void> {
+  try {
+    await fn();
+  } catch (error) {
+    console.error(`Failed to cache ${description}:`, error);
+  }
+}
+
+async function read<T>(description: string, fn: () => Promise<T>, fallback: T): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    console.error(`Failed to read cached ${description}:`, error);
+    return fallback;
+  }
+}
+
+// Mailboxes
+
+export function cacheMailboxes(accountId: string, state: string | null, mailboxes: Mailbox[]): Promise<void> {
+  const record: CachedMailboxes = { accountId, state, mailboxes, cachedAt: Date.now() };
+  return write("mailboxes", () => transaction("mailboxes", "readwrite", (tx) => {
+    tx.objectStore("mailboxes").put(record);
+  }));
+}
+
+export function getCachedMailboxes(accountId: string): Promise<CachedMailboxes | null> {
+  return read("mailboxes", () => transaction("mailboxes", "readonly", async (tx) =>
+    (await toPromise(tx.objectStore("mailboxes").get(accountId)) as CachedMailboxes | undefined) || null
+  ), null);
+}
+
+// Email lists and emails
+
+const emailKey = (accountId: string, emailId: string) => `${accountId}:${emailId}`;
+
+// Store list properties without dropping a body cached earlier
+function putEmails(tx: IDBTransaction, accountId: string, emails: Email[]): Promise<void> {
+  const store = tx.objectStore("emails");
+  const now = Date.now();
+  return Promise.all(emails.map(async (email) => {
+    const key = emailKey(accountId, email.id);
+    const existing = await toPromise(store.get(key)) as CachedEmail | undefined;
+    const record: CachedEmail = existing?.hasBody
+      ? { ...existing, email: { ...existing.email, ...email }, cachedAt: now }
+      : { key, accountId, email, hasBody: false, cachedAt: now };
+    store.put(record);
+  })).then(() => undefined);
+}
+
+export async function cacheEmailList(accountId: string, listId: string, page: EmailListPage): Promise<void> {
+  const record: CachedEmailList = {
+    key: `${accountId}:${listId}`,
+    accountId,
+    emailIds: page.emails.map((email) => email.id),
+    total: page.total,
+    hasMore: page.hasMore,
+    state: page.state || null,
+    queryState: page.queryState || null,
+    cachedAt: Date.now(),
+  };
+
+  await write("email list", async () => {
+    await transaction(["lists", "emails"], "readwrite", async (tx) => {
+      tx.objectStore("lists").put(record);
+      await putEmails(tx, accountId, page.emails);
+    });
+    await trim("emails", accountId, MAX_CACHED_EMAILS);
+  });
+}
+
+export function getCachedEmailList(accountId: string, listId: string): Promise<(EmailListPage & { cachedAt: number }) | null> {
+  return read("email list", () => transaction(["lists", "emails"], "readonly", async (tx) => {
+    const list = await toPromise(tx.objectStore("lists").get(`${accountId}:${listId}`)) as CachedEmailList | undefined;
+    if (!list) return null;
+
+    const store = tx.objectStore("emails");
+    const records = await Promise.all(
+      list.emailIds.map((id) => toPromise(store.get(emailKey(accountId, id))) as Promise<CachedEmail | undefined>)
+    );
+    return {
+      emails: records.filter((record): record is CachedEmail => !!record).map((record) => record.email),
+      total: list.total,
+      hasMore: false, // Nothing past the cached page is available offline
+      state: list.state || undefined,
+      queryState: list.queryState || undefined,
+      cachedAt: list.cachedAt,
+    };
+  }), null);
+}
+
+export function cacheEmail(accountId: string, email: Email): Promise<void> {
+  const record: CachedEmail = { key: emailKey(accountId, email.id), accountId, email, hasBody: true, cachedAt: Date.now() };
+  return write("email", () => transaction("emails", "readwrite", (tx) => {
+    tx.objectStore("emails").put(record);
+  }));
+}
+
+// Only emails whose body was fetched while online can be opened offline
+export function getCachedEmail(accountId: string, emailId: string): Promise<Email | null> {
+  return read("email", () => transaction("emails", "readonly", async (tx) => {
+    const record = await toPromise(tx.objectStore("emails").get(emailKey(accountId, emailId))) as CachedEmail | undefined;
+    return record?.hasBody ? record.email : null;
+  }), null);
+}
+
+// Attachments
+
+export async function cacheBlob(accountId: string, blobId: string, blob: Blob): Promise<void> {
+  if (blob.size > MAX_CACHED_BLOB_SIZE) return;
+  const record: CachedBlob = { key: `${accountId}:${blobId}`, accountId, blob, cachedAt: Date.now() };
+  await write("attachment", async () => {
+    await transaction("blobs", "readwrite", (tx) => {
+      tx.objectStore("blobs").put(record);
+    });
+    await trim("blobs", accountId, MAX_CACHED_BLOBS);
+  });
+}
+
+export function getCachedBlob(accountId: string, blobId: string): Promise<Blob | null> {
+  return read("attachment", () => transaction("blobs", "readonly", async (tx) =>
+    (await toPromise(tx.objectStore("blobs").get(`${accountId}:${blobId}`)) as CachedBlob | undefined)?.blob || null
+  ), null);
+}
+
+// Sessions
+
+const sessionKey = (serverUrl: string, username: string) => `${serverUrl}|${username}`;
+
+export function cacheSession(serverUrl: string, username: string, session: unknown, identities: Identity[]): Promise<void> {
+  const record: CachedSession = { key: sessionKey(serverUrl, username), session, identities, cachedAt: Date.now() };
+  return write("session", () => transaction("sessions", "readwrite", (tx) => {
+    tx.objectStore("sessions").put(record);
+  }));
+}
+
+export function getCachedSession(serverUrl: string, username: string): Promise<CachedSession | null> {
+  return read("session", () => transaction("sessions", "readonly", async (tx) =>
+    (await toPromise(tx.objectStore("sessions").get(sessionKey(serverUrl, username))) as CachedSession | undefined) || null
+  ), null);
+}
+
+// Outbox - unlike the cache, losing a queued change must not go unnoticed, so writes throw
+
+export function getOutboxEntries(accountId: string): Promise<OutboxEntry[]> {
+  return read("outbox", () => transaction("outbox", "readonly", async (tx) =>
+    (await getAllForAccount<OutboxEntry>(tx, "outbox", accountId)).sort((a, b) => a.createdAt - b.createdAt)
+  ), []);
+}
+
+export function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  return transaction("outbox", "readwrite", (tx) => {
+    tx.objectStore("outbox").put(entry);
+  });
+}
+
+export function deleteOutboxEntry(id: string): Promise<void> {
+  return transaction("outbox", "readwrite", (tx) => {
+    tx.objectStore("outbox").delete(id);
+  });
+}
+
+// Forget an account's cached mail on sign out (its unsent outbox goes too)
+export function clearOfflineCache(accountId: string, serverUrl?: string, username?: string): Promise<void> {
+  return write("cleanup", () => transaction(["mailboxes", "lists", "emails", "blobs", "sessions", "outbox"], "readwrite", async (tx) => {
+    tx.objectStore("mailboxes").delete(accountId);
+    for (const name of ["lists", "emails", "blobs", "outbox"] as const) {
+      const store = tx.objectStore(name);
+      const keys = await toPromise(store.index("accountId").getAllKeys(accountId));
+      keys.forEach((key) => store.delete(key));
+    }
+    if (serverUrl && username) {
+      tx.objectStore("sessions").delete(sessionKey(serverUrl, username));
+    }
+  }));
+}
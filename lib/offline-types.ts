@@ -0,0 +1,99 @@
+/**
+ * Offline Types
+ * Mail read while online is cached in IndexedDB so it stays readable offline,
+ * and changes made offline wait in an outbox until the server is reachable again
+ */
+
+import type { Email, EmailSendOptions, Identity, Mailbox } from "@/lib/jmap/types";
+
+// Mailbox list of an account, with the Mailbox state it was fetched at
+export interface CachedMailboxes {
+  accountId: string;
+  state: string | null;
+  mailboxes: Mailbox[];
+  cachedAt: number;
+}
+
+// First page of a mailbox (or unified view), with the states it was fetched at so
+// Email/changes and Email/queryChanges can catch up once back online
+export interface CachedEmailList {
+  key: string; // `${accountId}:${listId}`
+  accountId: string;
+  emailIds: string[];
+  total: number;
+  hasMore: boolean;
+  state: string | null;
+  queryState: string | null;
+  cachedAt: number;
+}
+
+// An email with whatever was fetched of it: list properties, or the full body once opened
+export interface CachedEmail {
+  key: string; // `${accountId}:${emailId}`
+  accountId: string;
+  email: Email;
+  hasBody: boolean;
+  cachedAt: number;
+}
+
+export interface CachedBlob {
+  key: string; // `${accountId}:${blobId}`
+  accountId: string;
+  blob: Blob;
+  cachedAt: number;
+}
+
+// What a signed-in account needs to start without the network
+export interface CachedSession {
+  key: string; // `${serverUrl}|${username}`
+  session: unknown;
+  identities: Identity[];
+  cachedAt: number;
+}
+
+// Everything sendEmail needs, minus the callbacks that can't be stored
+export interface OutboxMessage {
+  to: string[];
+  subject: string;
+  body: string;
+  cc?: string[];
+  bcc?: string[];
+  draftId?: string;
+  fromEmail?: string;
+  identityId?: string;
+  options?: Omit<EmailSendOptions, "mimeBody" | "autocryptHeader" | "onSubmit">;
+}
+
+export type OutboxAction =
+  | { type: "keywords"; emailId: string; keywords: Record<string, boolean> }
+  | { type: "move"; emailId: string; fromMailboxIds: string[]; toMailboxId: string }
+  | { type: "delete"; emailId: string; trashMailboxId?: string }
+  | { type: "send"; message: OutboxMessage };
+
+// pending: waiting for the network; conflict: the server copy changed since it was queued;
+// failed: the server refused it
+export type OutboxStatus = "pending" | "conflict" | "failed";
+
+// deleted: the email is gone from the server; moved: it was moved elsewhere meanwhile;
+// interrupted: a send lost its connection after reaching the server, it may have gone out
+export type OutboxConflict = "deleted" | "moved" | "interrupted";
+
+export interface OutboxEntry {
+  id: string;
+  accountId: string; // Primary JMAP account of the client that queued it
+  targetAccountId?: string; // Shared account the email lives in, if any
+  action: OutboxAction;
+  status: OutboxStatus;
+  conflict?: OutboxConflict;
+  error?: string; // Server error of a failed entry
+  submittedAt?: number; // When a send was handed to the server
+  createdAt: number;
+}
+
+export const isOffline = (): boolean => typeof navigator !== "undefined" && !navigator.onLine;
+
+// fetch() rejects with a TypeError when the server can't be reached at all, worded by each browser
+const FETCH_FAILED = /failed to fetch|networkerror|load failed|fetch failed|network request failed/i;
+
+export const isNetworkError = (error: unknown): boolean =>
+  isOffline() || (error instanceof TypeError && FETCH_FAILED.test(error.message));
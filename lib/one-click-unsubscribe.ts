@@ -0,0 +1,145 @@
+import { lookup, type LookupAddress, type LookupOptions } from 'node:dns';
+import { request } from 'node:https';
+import { isIP } from 'node:net';
+
+/**
+ * One-click unsubscribe (RFC 8058), server side
+ *
+ * Posts "List-Unsubscribe=One-Click" to a sender's HTTPS List-Unsubscribe URL.
+ * The URL comes from a received message, so it is never allowed to reach
+ * hosts only the server itself can: names are checked when they resolve,
+ * right before connecting, and redirects are not followed.
+ */
+
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+const BODY = 'List-Unsubscribe=One-Click';
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+}
+
+// The eight 16-bit groups of an IPv6 address, a dotted IPv4 tail included
+function getIPv6Groups(address: string): number[] {
+  const dotted = address.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  const host = dotted
+    ? `${address.slice(0, dotted.index)}${((+dotted[1] << 8) | +dotted[2]).toString(16)}:${((+dotted[3] << 8) | +dotted[4]).toString(16)}`
+    : address;
+  const [head, tail] = host.split('::');
+  const parse = (part: string) => (part ? part.split(':').map((group) => parseInt(group, 16)) : []);
+  if (tail === undefined) return parse(head);
+  const start = parse(head);
+  const end = parse(tail);
+  return [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+// IPv4 address carried in an IPv6 one: mapped or compatible (::ffff:7f00:1), NAT64 (64:ff9b::/96), 6to4 (2002::/16)
+function getEmbeddedIPv4(groups: number[]): string | null {
+  const toIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+  if (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return toIPv4(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return toIPv4(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x2002) {
+    return toIPv4(groups[1], groups[2]);
+  }
+  return null;
+}
+
+function isPrivateAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '').toLowerCase();
+  if (isIP(host) === 4) {
+    return isPrivateIPv4(host);
+  }
+  if (isIP(host) === 6) {
+    const groups = getIPv6Groups(host);
+    const embedded = getEmbeddedIPv4(groups);
+    if (embedded) return isPrivateIPv4(embedded);
+    // Unique local, link-local, multicast and the local-use NAT64 prefix (64:ff9b:1::/48)
+    return (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xff00) === 0xff00 ||
+      (groups[0] === 0x64 && groups[1] === 0xff9b && groups[2] === 1);
+  }
+  return false;
+}
+
+function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  return host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal') ||
+    isPrivateAddress(host);
+}
+
+// dns.lookup, refusing names that resolve to a private address
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new Error(`${hostname} does not resolve to a public address`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+// One-click unsubscribe is only defined for HTTPS URIs; IP literals skip the lookup, so they are checked here
+function parseUnsubscribeUrl(url: unknown): URL | null {
+  try {
+    const target = new URL(String(url));
+    return target.protocol === 'https:' && !isPrivateHostname(target.hostname) ? target : null;
+  } catch {
+    return null;
+  }
+}
+
+// Resolves with the sender's status code
+function postOneClickUnsubscribe(target: URL): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const outgoing = request(target, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Content-Length': Buffer.byteLength(BODY),
+      },
+      lookup: publicLookup,
+      timeout: REQUEST_TIMEOUT,
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+    outgoing.on('timeout', () => outgoing.destroy(new Error('Unsubscribe request timed out')));
+    outgoing.on('error', reject);
+    outgoing.end(BODY);
+  });
+}
+
+export type UnsubscribeResult = { ok: true } | { error: string; status: number };
+
+export async function oneClickUnsubscribe(url: unknown): Promise<UnsubscribeResult> {
+  const target = parseUnsubscribeUrl(url);
+  if (!target) {
+    return { error: 'Unsupported unsubscribe URL', status: 400 };
+  }
+
+  try {
+    const status = await postOneClickUnsubscribe(target);
+    // A redirect could lead anywhere; the sender got the request anyway
+    if (status >= 400) {
+      return { error: `The sender answered with status ${status}`, status: 502 };
+    }
+    return { ok: true };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Unsubscribe request failed', status: 502 };
+  }
+}
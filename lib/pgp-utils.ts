@@ -0,0 +1,265 @@
+import type { Key, PrivateKey } from 'openpgp';
+import type { PGPKey, SignatureCheck } from './email-encryption-types';
+import { buildMimeEntity, buildMultipart, toCRLF } from './mime-utils';
+
+// openpgp.js is large, only load it once encryption is actually used
+const loadOpenPGP = () => import('openpgp');
+
+/**
+ * Describe a parsed key for the keyring. Private keys must already be passphrase-protected
+ */
+export async function describeKey(key: Key): Promise<PGPKey> {
+  const primaryUser = await key.getPrimaryUser().catch(() => null);
+  const userId = primaryUser?.user.userID;
+  const expiration = await key.getExpirationTime().catch(() => null);
+  const { algorithm, bits, curve } = key.getAlgorithmInfo();
+  const fingerprint = key.getFingerprint().toUpperCase();
+
+  return {
+    id: fingerprint,
+    keyId: key.getKeyID().toHex().toUpperCase(),
+    fingerprint,
+    type: key.isPrivate() ? 'private' : 'public',
+    algorithm: curve ? `${algorithm} (${curve})` : algorithm,
+    keySize: bits,
+    email: userId?.email || '',
+    name: userId?.name || undefined,
+    userIds: key.getUserIDs(),
+    createdAt: key.getCreationTime().toISOString(),
+    ...(expiration instanceof Date && { expiresAt: expiration.toISOString() }),
+    isDefault: false,
+    publicKeyArmored: key.toPublic().armor(),
+    ...(key.isPrivate() && { encryptedPrivateKeyArmored: key.armor() }),
+  };
+}
+
+/**
+ * Generate a new key pair, protected with the given passphrase
+ */
+export async function generateKeyPair(name: string, email: string, passphrase: string): Promise<PGPKey> {
+  const openpgp = await loadOpenPGP();
+  const { privateKey } = await openpgp.generateKey({
+    type: 'ecc',
+    userIDs: [{ name, email }],
+    passphrase,
+    format: 'object',
+  });
+  return describeKey(privateKey);
+}
+
+/**
+ * Read one or more armored keys. Unprotected private keys are locked with the
+ * passphrase before they are returned, so they are never stored in the clear
+ */
+export async function readArmoredKeys(armored: string, passphrase?: string): Promise<PGPKey[]> {
+  const openpgp = await loadOpenPGP();
+  const keys = await openpgp.readKeys({ armoredKeys: armored.trim() });
+
+  return Promise.all(keys.map(async (key) => {
+    if (key.isPrivate() && key.isDecrypted()) {
+      if (!passphrase) {
+        throw new Error('A passphrase is required to protect an unencrypted private key');
+      }
+      return describeKey(await openpgp.encryptKey({ privateKey: key, passphrase }));
+    }
+    return describeKey(key);
+  }));
+}
+
+/**
+ * Unlock a private key for this session; throws when the passphrase is wrong
+ */
+export async function unlockPrivateKey(key: PGPKey, passphrase: string): Promise<PrivateKey> {
+  if (!key.encryptedPrivateKeyArmored) {
+    throw new Error('Not a private key');
+  }
+  const openpgp = await loadOpenPGP();
+  const privateKey = await openpgp.readPrivateKey({ armoredKey: key.encryptedPrivateKeyArmored });
+  return openpgp.decryptKey({ privateKey, passphrase });
+}
+
+/**
+ * All key IDs of an armored key, subkeys included, upper-case hex
+ */
+export async function getKeyIds(armoredKey: string): Promise<string[]> {
+  const openpgp = await loadOpenPGP();
+  const key = await openpgp.readKey({ armoredKey });
+  return key.getKeyIDs().map((keyId) => keyId.toHex().toUpperCase());
+}
+
+/**
+ * Key IDs an armored message is encrypted to
+ */
+export async function getMessageKeyIds(armoredMessage: string): Promise<string[]> {
+  const openpgp = await loadOpenPGP();
+  const message = await openpgp.readMessage({ armoredMessage });
+  return message.getEncryptionKeyIDs().map((keyId) => keyId.toHex().toUpperCase());
+}
+
+/**
+ * Binary transferable public key, e.g. for the keydata of an Autocrypt header
+ */
+export async function exportBinaryPublicKey(armoredKey: string): Promise<Uint8Array> {
+  const openpgp = await loadOpenPGP();
+  const key = await openpgp.readKey({ armoredKey });
+  return key.toPublic().write();
+}
+
+/**
+ * Read a binary public key; throws unless it can be used to encrypt to
+ */
+export async function readBinaryPublicKey(binaryKey: Uint8Array): Promise<PGPKey> {
+  const openpgp = await loadOpenPGP();
+  const key = await openpgp.readKey({ binaryKey });
+  await key.getEncryptionKey();
+  return describeKey(key.toPublic());
+}
+
+async function readPublicKeys(armoredKeys: string[]) {
+  const openpgp = await loadOpenPGP();
+  return Promise.all(armoredKeys.map((armoredKey) => openpgp.readKey({ armoredKey })));
+}
+
+/**
+ * Encrypt (and optionally sign) text to the given public keys, ASCII armored
+ */
+export async function encryptText(text: string, publicKeysArmored: string[], signingKey?: PrivateKey): Promise<string> {
+  const openpgp = await loadOpenPGP();
+  return openpgp.encrypt({
+    message: await openpgp.createMessage({ binary: new TextEncoder().encode(text) }),
+    encryptionKeys: await readPublicKeys(publicKeysArmored),
+    ...(signingKey && { signingKeys: signingKey }),
+  });
+}
+
+/**
+ * Detached, armored signature over the canonical (CRLF) form of the text
+ */
+export async function signDetached(text: string, signingKey: PrivateKey): Promise<string> {
+  const openpgp = await loadOpenPGP();
+  return openpgp.sign({
+    message: await openpgp.createMessage({ binary: new TextEncoder().encode(toCRLF(text)) }),
+    signingKeys: signingKey,
+    detached: true,
+  });
+}
+
+// The hash algorithm of a signature, as the micalg parameter of multipart/signed
+export async function getMicalg(armoredSignature: string): Promise<string> {
+  const openpgp = await loadOpenPGP();
+  const signature = await openpgp.readSignature({ armoredSignature });
+  const hashAlgorithm = signature.packets[0]?.hashAlgorithm;
+  const name = Object.entries(openpgp.enums.hash).find(([, value]) => value === hashAlgorithm)?.[0] || 'sha256';
+  return `pgp-${name.toLowerCase()}`;
+}
+
+type VerificationResults = { keyID: { toHex(): string }; verified: Promise<unknown> }[];
+
+// Resolve the first signature of a message against the keyring
+async function checkSignatures(
+  signatures: VerificationResults,
+  keyring: PGPKey[],
+  senderEmail?: string
+): Promise<SignatureCheck | null> {
+  const [first] = signatures;
+  if (!first) return null;
+
+  const keyId = first.keyID.toHex().toUpperCase();
+  const keyIdsByKey = await Promise.all(keyring.map(async (key) => ({
+    key,
+    keyIds: await getKeyIds(key.publicKeyArmored).catch(() => [] as string[]),
+  })));
+  const signer = keyIdsByKey.find(({ keyIds }) => keyIds.includes(keyId))?.key;
+
+  if (!signer) return { state: 'unknown-key', keyId };
+
+  try {
+    await first.verified;
+  } catch {
+    return { state: 'invalid', keyId, signer };
+  }
+
+  const sender = senderEmail?.toLowerCase();
+  const matchesSender = !!sender && (
+    signer.email.toLowerCase() === sender ||
+    signer.userIds.some((userId) => userId.toLowerCase().includes(`<${sender}>`))
+  );
+  return { state: matchesSender ? 'valid' : 'mismatch', keyId, signer };
+}
+
+/**
+ * Decrypt an armored message and check the signature it may carry
+ */
+export async function decryptText(
+  armoredMessage: string,
+  decryptionKeys: PrivateKey[],
+  keyring: PGPKey[],
+  senderEmail?: string
+): Promise<{ data: string; signature: SignatureCheck | null }> {
+  const openpgp = await loadOpenPGP();
+  const { data, signatures } = await openpgp.decrypt({
+    message: await openpgp.readMessage({ armoredMessage }),
+    decryptionKeys,
+    verificationKeys: await readPublicKeys(keyring.map((key) => key.publicKeyArmored)),
+    format: 'binary',
+  });
+  return {
+    data: new TextDecoder().decode(data),
+    signature: await checkSignatures(signatures, keyring, senderEmail),
+  };
+}
+
+/**
+ * Check a detached signature over the canonical (CRLF) form of the signed text
+ */
+export async function verifyDetached(
+  signedText: string,
+  armoredSignature: string,
+  keyring: PGPKey[],
+  senderEmail?: string
+): Promise<SignatureCheck | null> {
+  const openpgp = await loadOpenPGP();
+  const { signatures } = await openpgp.verify({
+    message: await openpgp.createMessage({ binary: new TextEncoder().encode(toCRLF(signedText)) }),
+    signature: await openpgp.readSignature({ armoredSignature }),
+    verificationKeys: await readPublicKeys(keyring.map((key) => key.publicKeyArmored)),
+  });
+  return checkSignatures(signatures, keyring, senderEmail);
+}
+
+/**
+ * Check an inline cleartext signed message (-----BEGIN PGP SIGNED MESSAGE-----)
+ */
+export async function verifyCleartext(
+  cleartextMessage: string,
+  keyring: PGPKey[],
+  senderEmail?: string
+): Promise<{ text: string; signature: SignatureCheck | null }> {
+  const openpgp = await loadOpenPGP();
+  const message = await openpgp.readCleartextMessage({ cleartextMessage });
+  const { data, signatures } = await openpgp.verify({
+    message,
+    verificationKeys: await readPublicKeys(keyring.map((key) => key.publicKeyArmored)),
+  });
+  return { text: data, signature: await checkSignatures(signatures, keyring, senderEmail) };
+}
+
+/**
+ * multipart/encrypted body (RFC 3156 Section 4) around an armored message
+ */
+export function buildEncryptedEntity(armoredMessage: string): string {
+  return buildMultipart('encrypted', [
+    buildMimeEntity({ 'Content-Type': 'application/pgp-encrypted', 'Content-Description': 'PGP/MIME version identification' }, 'Version: 1'),
+    buildMimeEntity({ 'Content-Type': 'application/octet-stream; name="encrypted.asc"', 'Content-Description': 'OpenPGP encrypted message', 'Content-Disposition': 'inline; filename="encrypted.asc"' }, armoredMessage),
+  ], { protocol: 'application/pgp-encrypted' });
+}
+
+/**
+ * multipart/signed body (RFC 3156 Section 5) around the signed entity
+ */
+export function buildSignedEntity(signedEntity: string, armoredSignature: string, micalg: string): string {
+  return buildMultipart('signed', [
+    toCRLF(signedEntity),
+    buildMimeEntity({ 'Content-Type': 'application/pgp-signature; name="signature.asc"', 'Content-Description': 'OpenPGP digital signature', 'Content-Disposition': 'attachment; filename="signature.asc"' }, armoredSignature),
+  ], { micalg, protocol: 'application/pgp-signature' });
+}
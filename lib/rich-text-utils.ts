@@ -0,0 +1,200 @@
+import DOMPurify from "dompurify";
+
+/**
+ * Helpers for the rich-text composer: sanitizing editor HTML, deriving the
+ * text/plain alternative and building HTML quotes for replies and forwards.
+ */
+
+// Tags the composer is allowed to emit (and to keep from quoted messages)
+const COMPOSER_SANITIZE_CONFIG = {
+  ALLOWED_TAGS: [
+    'a', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'sub', 'sup', 'br', 'p', 'div', 'span',
+    'ul', 'ol', 'li', 'blockquote', 'pre', 'code', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'caption', 'colgroup', 'col',
+    'img', 'font', 'center',
+  ],
+  ALLOWED_ATTR: [
+    'href', 'target', 'rel', 'title', 'src', 'alt', 'width', 'height', 'style', 'align', 'valign',
+    'colspan', 'rowspan', 'border', 'cellpadding', 'cellspacing', 'bgcolor', 'color', 'face', 'size',
+    'type', 'cite', 'dir',
+  ],
+  ALLOW_DATA_ATTR: false,
+  FORBID_TAGS: ['script', 'style', 'iframe', 'object', 'embed', 'form', 'input', 'button'],
+};
+
+/**
+ * Sanitize HTML produced by the editor or quoted from another message
+ */
+export function sanitizeComposerHtml(html: string): string {
+  return DOMPurify.sanitize(html, COMPOSER_SANITIZE_CONFIG) as string;
+}
+
+/**
+ * Escape plain text for inclusion in HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert plain text to simple HTML, keeping line breaks
+ */
+export function plainTextToHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n/g, '<br>');
+}
+
+/**
+ * Check whether editor HTML has any visible content
+ */
+export function isHtmlEmpty(html: string): boolean {
+  if (/<img\b/i.test(html)) return false;
+  return htmlToPlainText(html).trim().length === 0;
+}
+
+/**
+ * Generate the text/plain alternative for an HTML body.
+ * Lists become "- " / "1. " items, links keep their URL, quotes get "> "
+ * prefixes and table cells are separated by tabs.
+ */
+export function htmlToPlainText(html: string): string {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+
+  const text = nodeToText(container)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n');
+
+  return text.replace(/^\n+/, '').replace(/\s+$/, '');
+}
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'TABLE', 'PRE', 'CENTER', 'HR',
+]);
+
+function nodeToText(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent || '').replace(/\s+/g, ' ');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as HTMLElement;
+  const children = () => Array.from(element.childNodes).map(nodeToText).join('');
+
+  switch (element.tagName) {
+    case 'BR':
+      return '\n';
+    case 'HR':
+      return '\n----------\n';
+    case 'IMG': {
+      const alt = element.getAttribute('alt');
+      return alt ? `[${alt}]` : '';
+    }
+    case 'A': {
+      const label = children();
+      const href = element.getAttribute('href') || '';
+      if (!href || href.startsWith('cid:') || label.trim() === href || `mailto:${label.trim()}` === href) {
+        return label;
+      }
+      return `${label} (${href})`;
+    }
+    case 'B':
+    case 'STRONG':
+      return `*${children()}*`;
+    case 'I':
+    case 'EM':
+      return `_${children()}_`;
+    case 'LI': {
+      const parent = element.parentElement;
+      if (parent?.tagName === 'OL') {
+        const index = Array.from(parent.children).indexOf(element) + 1;
+        return `\n${index}. ${children().trim()}`;
+      }
+      return `\n- ${children().trim()}`;
+    }
+    case 'BLOCKQUOTE': {
+      const quoted = children().replace(/^\n+/, '').replace(/\s+$/, '');
+      return `\n${quoted.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')}\n`;
+    }
+    case 'PRE':
+      return `\n${element.textContent || ''}\n`;
+    case 'TR':
+      return `\n${Array.from(element.children).map(cell => nodeToText(cell).trim()).join('\t')}`;
+    case 'TD':
+    case 'TH':
+      return children();
+    default:
+      return BLOCK_TAGS.has(element.tagName) ? `\n${children()}\n` : children();
+  }
+}
+
+/**
+ * Build the HTML quote block used when replying to a message
+ */
+export function buildHtmlReplyQuote(header: string, originalHtml: string): string {
+  return `<br><br><div>${escapeHtml(header)}</div>` +
+    `<blockquote type="cite" style="margin:0 0 0 0.8ex;border-left:1px solid #ccc;padding-left:1ex">` +
+    `${sanitizeComposerHtml(originalHtml)}</blockquote>`;
+}
+
+/**
+ * Build the HTML block used when forwarding a message
+ */
+export function buildHtmlForwardQuote(headerLines: string[], originalHtml: string): string {
+  return `<br><br><div>${headerLines.map(escapeHtml).join('<br>')}</div><br>` +
+    `<div>${sanitizeComposerHtml(originalHtml)}</div>`;
+}
+
+/**
+ * Format an HTML signature with the configured separator
+ */
+export function formatHtmlSignatureWithSeparator(
+  signatureHtml: string,
+  separatorStyle: 'none' | 'dashes' | 'line'
+): string {
+  const signature = sanitizeComposerHtml(signatureHtml);
+
+  if (separatorStyle === 'none') {
+    return `<br><div>${signature}</div>`;
+  }
+
+  const separator = separatorStyle === 'dashes' ? '-- ' : '_______________';
+  return `<br><br><div>${escapeHtml(separator)}<br>${signature}</div>`;
+}
+
+/**
+ * Replace editor-only image sources (data: previews of pasted images) with
+ * their cid: references and return the list of cids still in use
+ */
+export function resolveInlineImages(html: string): { html: string; cids: string[] } {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+
+  const cids: string[] = [];
+  container.querySelectorAll('img[data-cid]').forEach((img) => {
+    const cid = img.getAttribute('data-cid');
+    if (cid) {
+      img.setAttribute('src', `cid:${cid}`);
+      img.removeAttribute('data-cid');
+    }
+  });
+  container.querySelectorAll('img[src^="cid:"]').forEach((img) => {
+    cids.push(img.getAttribute('src')!.slice(4));
+  });
+
+  return { html: container.innerHTML, cids };
+}
+
+/**
+ * Generate a Content-ID for an inline image
+ */
+export function generateContentId(): string {
+  return `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}@jmap-webmail`;
+}
@@ -0,0 +1,539 @@
+/**
+ * Gmail-style search queries ("from:alice has:attachment -in:trash") parsed into a
+ * small syntax tree and compiled to nested JMAP Email/query filters.
+ */
+
+import type { Contact, EmailFilterCondition, EmailQueryFilter, Mailbox } from "@/lib/jmap/types";
+import type {
+  AdvancedSearchQuery,
+  SearchFilter,
+  SearchQueryError,
+  SearchQueryNode,
+  SearchQueryOperator,
+  SearchQueryTerm,
+  SearchSnippetPart,
+  SearchSuggestion,
+} from "@/lib/advanced-search-types";
+
+export const SEARCH_OPERATORS: SearchQueryOperator[] = [
+  'from', 'to', 'cc', 'bcc', 'subject', 'body', 'has', 'is', 'in', 'before', 'after', 'larger', 'smaller',
+];
+
+const HAS_VALUES: Record<string, EmailFilterCondition> = {
+  attachment: { hasAttachment: true },
+};
+
+const IS_VALUES: Record<string, EmailFilterCondition> = {
+  unread: { notKeyword: '$seen' },
+  read: { hasKeyword: '$seen' },
+  starred: { hasKeyword: '$flagged' },
+  flagged: { hasKeyword: '$flagged' },
+  answered: { hasKeyword: '$answered' },
+  draft: { hasKeyword: '$draft' },
+};
+
+// Names in:<name> accepts for role mailboxes, whatever the folder is called
+const ROLE_ALIASES: Record<string, string> = {
+  inbox: 'inbox',
+  sent: 'sent',
+  drafts: 'drafts',
+  trash: 'trash',
+  junk: 'junk',
+  spam: 'junk',
+  archive: 'archive',
+};
+
+const ADDRESS_OPERATORS: SearchQueryOperator[] = ['from', 'to', 'cc', 'bcc'];
+
+const isOperator = (name: string): name is SearchQueryOperator =>
+  (SEARCH_OPERATORS as string[]).includes(name);
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'or' | 'not'; start: number; end: number }
+  | SearchQueryTerm;
+
+// Read a quoted phrase starting at the opening quote
+function readQuoted(query: string, start: number, errors: SearchQueryError[]): { value: string; end: number } {
+  const close = query.indexOf('"', start + 1);
+  if (close === -1) {
+    errors.push({ code: 'unterminated_quote', start, end: query.length });
+    return { value: query.slice(start + 1), end: query.length };
+  }
+  return { value: query.slice(start + 1, close), end: close + 1 };
+}
+
+function readWord(query: string, start: number): number {
+  let end = start;
+  while (end < query.length && !/[\s()]/.test(query[end])) end++;
+  return end;
+}
+
+function tokenize(query: string, errors: SearchQueryError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const c = query[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === '(' || c === ')') {
+      tokens.push({ type: c === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+    } else if (c === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ type: 'not', start: i, end: i + 1 });
+      i++;
+    } else if (c === '"') {
+      const { value, end } = readQuoted(query, i, errors);
+      if (value.trim()) tokens.push({ type: 'term', value, start: i, end });
+      i = end;
+    } else {
+      const wordEnd = readWord(query, i);
+      const word = query.slice(i, wordEnd);
+      const colon = word.indexOf(':');
+      const name = colon > 0 ? word.slice(0, colon).toLowerCase() : '';
+
+      if (word === 'OR' || word === '|') {
+        tokens.push({ type: 'or', start: i, end: wordEnd });
+        i = wordEnd;
+      } else if (word === 'AND') {
+        i = wordEnd;
+      } else if (isOperator(name)) {
+        // The value may be quoted: subject:"quarterly report"
+        const valueStart = i + colon + 1;
+        let value = word.slice(colon + 1);
+        let end = wordEnd;
+        if (query[valueStart] === '"') {
+          ({ value, end } = readQuoted(query, valueStart, errors));
+        }
+        tokens.push({ type: 'term', operator: name, value, start: i, end });
+        i = end;
+      } else {
+        // Unknown prefixes (e.g. in URLs) are searched as plain text
+        tokens.push({ type: 'term', value: word, start: i, end: wordEnd });
+        i = wordEnd;
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// Local midnight of a YYYY-MM-DD (or YYYY/MM/DD) date
+export function parseSearchDate(value: string): Date | null {
+  const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+// Bytes of "500", "500K", "2.5MB"...
+export function parseSearchSize(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/i.exec(value.trim());
+  if (!match) return null;
+  const exponent = ['', 'k', 'm', 'g'].indexOf(match[2].toLowerCase());
+  return Math.round(parseFloat(match[1]) * Math.pow(1024, exponent));
+}
+
+// JMAP UTCDate has no fractional seconds
+const toUTCDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+function validateTerm(term: SearchQueryTerm): SearchQueryError | null {
+  const { operator, start, end } = term;
+  const value = term.value.trim();
+  if (!operator) return null;
+  if (!value) return { code: 'missing_value', value: `${operator}:`, start, end };
+
+  switch (operator) {
+    case 'before':
+    case 'after':
+      return parseSearchDate(value) ? null : { code: 'invalid_date', value, start, end };
+    case 'larger':
+    case 'smaller':
+      return parseSearchSize(value) !== null ? null : { code: 'invalid_size', value, start, end };
+    case 'has':
+      return HAS_VALUES[value.toLowerCase()] ? null : { code: 'invalid_value', value: `has:${value}`, start, end };
+    case 'is':
+      return IS_VALUES[value.toLowerCase()] ? null : { code: 'invalid_value', value: `is:${value}`, start, end };
+    default:
+      return null;
+  }
+}
+
+function combine(type: 'and' | 'or', nodes: SearchQueryNode[]): SearchQueryNode | null {
+  const children = nodes.flatMap((node) => (node.type === type ? node.children : [node]));
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type, children };
+}
+
+/**
+ * Parse a search query. Errors don't stop parsing: the tree holds what could be
+ * understood, so the caller decides whether to search anyway.
+ */
+export function parseSearchQuery(query: string): { node: SearchQueryNode | null; errors: SearchQueryError[] } {
+  const errors: SearchQueryError[] = [];
+  const tokens = tokenize(query, errors);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  // unary := "-" unary | "(" and ")" | term
+  const parseUnary = (): SearchQueryNode | null => {
+    const token = peek();
+    if (!token) return null;
+
+    if (token.type === 'not') {
+      pos++;
+      const child = parseUnary();
+      if (!child) {
+        errors.push({ code: 'missing_operand', value: '-', start: token.start, end: token.end });
+        return null;
+      }
+      return { type: 'not', child };
+    }
+    if (token.type === 'lparen') {
+      pos++;
+      const inner = parseAnd();
+      if (peek()?.type === 'rparen') {
+        pos++;
+      } else {
+        errors.push({ code: 'unbalanced_parenthesis', value: '(', start: token.start, end: token.end });
+      }
+      return inner;
+    }
+    if (token.type === 'term') {
+      pos++;
+      const error = validateTerm(token);
+      if (error) errors.push(error);
+      return token;
+    }
+    return null;
+  };
+
+  // or := unary ("OR" unary)*
+  const parseOr = (): SearchQueryNode | null => {
+    const first = parseUnary();
+    if (!first) return null;
+    const children = [first];
+    while (peek()?.type === 'or') {
+      const or = tokens[pos++];
+      const next = parseUnary();
+      if (next) {
+        children.push(next);
+      } else {
+        errors.push({ code: 'missing_operand', value: 'OR', start: or.start, end: or.end });
+      }
+    }
+    return combine('or', children);
+  };
+
+  // and := or+
+  const parseAnd = (): SearchQueryNode | null => {
+    const children: SearchQueryNode[] = [];
+    while (peek() && peek().type !== 'rparen') {
+      const token = peek();
+      if (token.type === 'or') {
+        errors.push({ code: 'missing_operand', value: 'OR', start: token.start, end: token.end });
+        pos++;
+        continue;
+      }
+      const node = parseOr();
+      if (node) children.push(node);
+    }
+    return combine('and', children);
+  };
+
+  const parts: SearchQueryNode[] = [];
+  while (pos < tokens.length) {
+    const node = parseAnd();
+    if (node) parts.push(node);
+    const stray = peek();
+    if (stray?.type === 'rparen') {
+      errors.push({ code: 'unbalanced_parenthesis', value: ')', start: stray.start, end: stray.end });
+      pos++;
+    }
+  }
+
+  return { node: combine('and', parts), errors };
+}
+
+// Mailbox an in:<name> term points to: a role alias, then the folder name or path
+export function findSearchMailbox(name: string, mailboxes: Mailbox[]): Mailbox | undefined {
+  const wanted = name.trim().toLowerCase();
+  const role = ROLE_ALIASES[wanted];
+  const getPath = (mailbox: Mailbox): string => {
+    const parent = mailbox.parentId ? mailboxes.find((mb) => mb.id === mailbox.parentId) : undefined;
+    return parent ? `${getPath(parent)}/${mailbox.name}` : mailbox.name;
+  };
+
+  return (role && mailboxes.find((mb) => mb.role === role))
+    || mailboxes.find((mb) => mb.name.toLowerCase() === wanted)
+    || mailboxes.find((mb) => getPath(mb).toLowerCase() === wanted);
+}
+
+const containsMailboxTerm = (node: SearchQueryNode): boolean => {
+  if (node.type === 'term') return node.operator === 'in';
+  if (node.type === 'not') return containsMailboxTerm(node.child);
+  return node.children.some(containsMailboxTerm);
+};
+
+function compileTerm(term: SearchQueryTerm, mailboxes: Mailbox[], errors: SearchQueryError[]): EmailQueryFilter {
+  const value = term.value.trim();
+
+  switch (term.operator) {
+    case undefined:
+      return { text: value };
+    case 'from':
+    case 'to':
+    case 'cc':
+    case 'bcc':
+    case 'subject':
+    case 'body':
+      return { [term.operator]: value };
+    // Invalid values were reported by the parser, they match anything here
+    case 'has':
+      return HAS_VALUES[value.toLowerCase()] || {};
+    case 'is':
+      return IS_VALUES[value.toLowerCase()] || {};
+    case 'in': {
+      const mailbox = findSearchMailbox(value, mailboxes);
+      if (!mailbox) {
+        errors.push({ code: 'unknown_mailbox', value, start: term.start, end: term.end });
+        return {};
+      }
+      return { inMailbox: mailbox.originalId || mailbox.id };
+    }
+    case 'before':
+    case 'after': {
+      const date = parseSearchDate(value);
+      return date ? { [term.operator]: toUTCDate(date) } : {};
+    }
+    case 'larger':
+    case 'smaller': {
+      const size = parseSearchSize(value);
+      if (size === null) return {};
+      return term.operator === 'larger' ? { minSize: size } : { maxSize: size };
+    }
+  }
+}
+
+/**
+ * Compile a parsed query to an Email/query filter. in:<name> resolves against the
+ * given mailboxes, which should all belong to the account being queried.
+ */
+export function compileSearchNode(node: SearchQueryNode, mailboxes: Mailbox[]): { filter: EmailQueryFilter; errors: SearchQueryError[] } {
+  const errors: SearchQueryError[] = [];
+
+  const compile = (n: SearchQueryNode): EmailQueryFilter => {
+    if (n.type === 'term') return compileTerm(n, mailboxes, errors);
+    if (n.type === 'not') return { operator: 'NOT', conditions: [compile(n.child)] };
+    return { operator: n.type === 'and' ? 'AND' : 'OR', conditions: n.children.map(compile) };
+  };
+
+  return { filter: compile(node), errors };
+}
+
+export interface CompiledSearchQuery {
+  filter: EmailQueryFilter | null; // Null for an empty or invalid query
+  errors: SearchQueryError[];
+  hasMailboxScope: boolean; // The query picks its own mailbox with in:
+}
+
+/**
+ * Parse and compile a query for one account. Without accountId, in:<name> may match
+ * a mailbox of any account (enough to validate what the user typed).
+ */
+export function compileSearchQuery(query: string, mailboxes: Mailbox[], accountId?: string): CompiledSearchQuery {
+  const { node, errors } = parseSearchQuery(query);
+  if (!node) return { filter: null, errors, hasMailboxScope: false };
+
+  const own = accountId ? mailboxes.filter((mb) => mb.accountId === accountId) : mailboxes;
+  const compiled = compileSearchNode(node, own);
+  const allErrors = [...errors, ...compiled.errors];
+  return {
+    filter: allErrors.length > 0 ? null : compiled.filter,
+    errors: allErrors,
+    hasMailboxScope: containsMailboxTerm(node),
+  };
+}
+
+const quoteValue = (value: string) => (/[\s()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+// Query text of a tree, e.g. to show AdvancedSearch filters in the search bar
+export function formatSearchQuery(node: SearchQueryNode): string {
+  switch (node.type) {
+    case 'term':
+      return node.operator ? `${node.operator}:${quoteValue(node.value)}` : quoteValue(node.value);
+    case 'not':
+      return node.child.type === 'term' ? `-${formatSearchQuery(node.child)}` : `-(${formatSearchQuery(node.child)})`;
+    case 'or':
+      return node.children
+        .map((child) => (child.type === 'and' ? `(${formatSearchQuery(child)})` : formatSearchQuery(child)))
+        .join(' OR ');
+    case 'and':
+      return node.children.map(formatSearchQuery).join(' ');
+  }
+}
+
+const term = (operator: SearchQueryOperator, value: string): SearchQueryTerm =>
+  ({ type: 'term', operator, value, start: 0, end: 0 });
+
+const toDateValue = (value: string | number) => {
+  if (typeof value === 'string') return value.trim();
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Bounds of a between value: a tuple, a list or "from..to"
+function getRange(value: SearchFilter['value']): [string | number, string | number] | null {
+  if (Array.isArray(value) && value.length === 2) return [value[0], value[1]];
+  if (typeof value === 'string' && value.includes('..')) {
+    const [from, to] = value.split('..');
+    return [from, to];
+  }
+  return null;
+}
+
+const isFalse = (value: SearchFilter['value']) => String(value).trim().toLowerCase() === 'false';
+
+// JMAP only matches substrings, so equals/starts_with/ends_with search like contains
+function filterToNode(filter: SearchFilter): SearchQueryNode | null {
+  const { field, operator, value } = filter;
+
+  switch (field) {
+    case 'from':
+    case 'to':
+    case 'subject':
+    case 'body': {
+      const text = String(value).trim();
+      return text ? term(field, text) : null;
+    }
+    case 'label': {
+      const name = String(value).trim();
+      return name ? term('in', name) : null;
+    }
+    case 'has_attachment':
+      return isFalse(value) ? { type: 'not', child: term('has', 'attachment') } : term('has', 'attachment');
+    case 'is_read':
+      return term('is', isFalse(value) ? 'unread' : 'read');
+    case 'is_starred':
+      return isFalse(value) ? { type: 'not', child: term('is', 'starred') } : term('is', 'starred');
+    case 'date':
+    case 'size': {
+      const format = field === 'date' ? toDateValue : (v: string | number) => String(v).trim();
+      const [lower, upper] = field === 'date' ? ['after', 'before'] as const : ['larger', 'smaller'] as const;
+      if (operator === 'between') {
+        const range = getRange(value);
+        return range ? { type: 'and', children: [term(lower, format(range[0])), term(upper, format(range[1]))] } : null;
+      }
+      if (Array.isArray(value)) return null;
+      return term(operator === 'less_than' ? upper : lower, format(value));
+    }
+  }
+}
+
+// Tree of an AdvancedSearch query, so its filters compile like the search bar's
+export function advancedSearchToNode(query: AdvancedSearchQuery): SearchQueryNode | null {
+  const nodes = query.filters.map(filterToNode).filter((node): node is SearchQueryNode => !!node);
+  return combine(query.matchAll ? 'and' : 'or', nodes);
+}
+
+/**
+ * Completions for the word at the caret: operator names, is:/has: values,
+ * mailbox names after in: and contacts after from:/to:/cc:/bcc:.
+ */
+export function getSearchSuggestions(
+  query: string,
+  caret: number,
+  options: { mailboxes: Mailbox[]; contacts: Contact[]; limit?: number }
+): SearchSuggestion[] {
+  const limit = options.limit ?? 8;
+  let start = caret;
+  while (start > 0 && !/[\s(]/.test(query[start - 1])) start--;
+  const end = readWord(query, caret);
+  if (query[start] === '-') start++;
+
+  const word = query.slice(start, caret);
+  if (!word) return [];
+
+  const colon = word.indexOf(':');
+  if (colon === -1) {
+    const prefix = word.toLowerCase();
+    return SEARCH_OPERATORS
+      .filter((op) => op.startsWith(prefix) && op !== prefix)
+      .slice(0, limit)
+      .map((op) => ({ kind: 'operator', label: `${op}:`, text: `${op}:`, start, end }));
+  }
+
+  const name = word.slice(0, colon).toLowerCase();
+  const typed = word.slice(colon + 1).replace(/^"/, '').toLowerCase();
+  const complete = (kind: SearchSuggestion['kind'], label: string, value: string, detail?: string): SearchSuggestion =>
+    ({ kind, label, detail, text: `${name}:${quoteValue(value)} `, start, end });
+
+  if (name === 'is' || name === 'has') {
+    return Object.keys(name === 'is' ? IS_VALUES : HAS_VALUES)
+      .filter((value) => value.startsWith(typed))
+      .slice(0, limit)
+      .map((value) => complete('value', `${name}:${value}`, value));
+  }
+
+  if (name === 'in') {
+    const seen = new Set<string>();
+    return options.mailboxes
+      .filter((mb) => mb.name.toLowerCase().includes(typed))
+      .filter((mb) => !seen.has(mb.name) && !!seen.add(mb.name))
+      .slice(0, limit)
+      .map((mb) => complete('mailbox', mb.name, mb.name, mb.isShared ? mb.accountName : undefined));
+  }
+
+  if ((ADDRESS_OPERATORS as string[]).includes(name) && typed) {
+    return options.contacts
+      .flatMap((contact) => contact.emails.map((e) => ({ name: contact.name, email: e.email })))
+      .filter(({ name: contactName, email }) =>
+        email.toLowerCase().includes(typed) || (contactName || '').toLowerCase().includes(typed))
+      .slice(0, limit)
+      .map(({ name: contactName, email }) => complete('contact', contactName || email, email, contactName ? email : undefined));
+  }
+
+  return [];
+}
+
+// Operators whose values are looked up in the message text, so worth highlighting there
+const TEXT_OPERATORS: Array<SearchQueryOperator | undefined> = [undefined, 'subject', 'body'];
+
+// Words and phrases of a query to highlight in a result; excluded (-word) terms never match
+export function getSearchHighlightTerms(query: string): string[] {
+  const { node } = parseSearchQuery(query);
+  const terms = new Set<string>();
+  const collect = (n: SearchQueryNode) => {
+    if (n.type === 'term') {
+      const value = n.value.trim();
+      if (value && TEXT_OPERATORS.includes(n.operator)) terms.add(value.toLowerCase());
+    } else if (n.type !== 'not') {
+      n.children.forEach(collect);
+    }
+  };
+  if (node) collect(node);
+  // Longest first, so a phrase wins over a word inside it
+  return [...terms].sort((a, b) => b.length - a.length);
+}
+
+const SNIPPET_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", '#39': "'", '#x27': "'" };
+
+const decodeSnippet = (html: string) =>
+  html.replace(/&(amp|lt|gt|quot|apos|#39|#x27);/g, (_, entity: string) => SNIPPET_ENTITIES[entity]);
+
+// Split a SearchSnippet subject or preview into plain and matched runs, without rendering its HTML
+export function parseSearchSnippet(snippet: string): SearchSnippetPart[] {
+  const parts: SearchSnippetPart[] = [];
+  const pattern = /<mark>([\s\S]*?)<\/mark>/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(snippet)) !== null) {
+    if (match.index > last) parts.push({ text: decodeSnippet(snippet.slice(last, match.index)), isMatch: false });
+    parts.push({ text: decodeSnippet(match[1]), isMatch: true });
+    last = pattern.lastIndex;
+  }
+  if (last < snippet.length) parts.push({ text: decodeSnippet(snippet.slice(last)), isMatch: false });
+  return parts;
+}
@@ -0,0 +1,294 @@
+/**
+ * Sieve (RFC 5228) support for server-side mail rules.
+ * Compiles EmailFilter rules to a Sieve script and reads back scripts
+ * generated by the webmail.
+ */
+
+import type { Mailbox } from "@/lib/jmap/types";
+import type { EmailFilter, FilterCondition, FilterAction } from "@/lib/filter-types";
+
+// Name of the script managed by the rule editor
+export const SIEVE_SCRIPT_NAME = "jmap-webmail";
+
+// First line of every generated script, used to tell our scripts from others
+export const SIEVE_GENERATED_MARKER = "# Generated by JMAP Webmail";
+
+// Per-rule metadata comment carrying the rule as JSON so it can be read back
+const RULE_METADATA_PREFIX = "# @rule ";
+
+export interface SieveCompileOptions {
+  mailboxes: Mailbox[];
+  extensions?: string[]; // sieveExtensions advertised by the server
+}
+
+export interface SieveValidationError {
+  message: string;
+  line?: number; // 1-based line the server reported, if any
+}
+
+/**
+ * Quote a value as a Sieve string
+ */
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Escape wildcards for :matches patterns
+ */
+function escapeMatchPattern(value: string): string {
+  return value.replace(/[\\*?]/g, c => `\\${c}`);
+}
+
+/**
+ * Full path of a mailbox as used by fileinto ("Parent/Child")
+ */
+function getMailboxPath(mailbox: Mailbox, mailboxes: Mailbox[]): string {
+  const parts = [mailbox.name];
+  let parentId = mailbox.parentId;
+  while (parentId) {
+    const parent = mailboxes.find(m => m.id === parentId);
+    if (!parent) break;
+    parts.unshift(parent.name);
+    parentId = parent.parentId;
+  }
+  return parts.join('/');
+}
+
+/**
+ * Convert a label to a valid IMAP flag / JMAP keyword
+ */
+function toKeyword(label: string): string {
+  return label.trim().replace(/[\s(){\]%*"\\]/g, '_');
+}
+
+function compileCondition(condition: FilterCondition, requires: Set<string>): string {
+  if (condition.type === 'hasAttachment') {
+    // No standard attachment test without the mime extension; multipart/mixed
+    // is what clients use for messages with attachments
+    const test = 'header :contains "Content-Type" "multipart/mixed"';
+    return condition.value === 'false' ? `not ${test}` : test;
+  }
+
+  let match: string;
+  let value = condition.value;
+  switch (condition.operator) {
+    case 'equals':
+    case 'is':
+      match = ':is';
+      break;
+    case 'startsWith':
+      match = ':matches';
+      value = `${escapeMatchPattern(value)}*`;
+      break;
+    case 'endsWith':
+      match = ':matches';
+      value = `*${escapeMatchPattern(value)}`;
+      break;
+    default:
+      match = ':contains';
+  }
+
+  switch (condition.type) {
+    case 'from':
+      return `address ${match} "from" ${quote(value)}`;
+    case 'to':
+      return `address ${match} "to" ${quote(value)}`;
+    case 'subject':
+      return `header ${match} "subject" ${quote(value)}`;
+    case 'body':
+      requires.add('body');
+      return `body :text ${match} ${quote(value)}`;
+    default:
+      return 'false';
+  }
+}
+
+function compileFileInto(
+  mailbox: Mailbox,
+  options: SieveCompileOptions,
+  requires: Set<string>
+): string {
+  requires.add('fileinto');
+  const path = quote(getMailboxPath(mailbox, options.mailboxes));
+
+  // Prefer the stable mailbox ID so renamed folders keep working (RFC 9042)
+  if (options.extensions?.includes('mailboxid')) {
+    requires.add('mailboxid');
+    return `fileinto :mailboxid ${quote(mailbox.originalId || mailbox.id)} ${path};`;
+  }
+  return `fileinto ${path};`;
+}
+
+function compileActions(
+  actions: FilterAction[],
+  options: SieveCompileOptions,
+  requires: Set<string>
+): string[] {
+  const lines: string[] = [];
+  const flags: string[] = [];
+  let fileInto: string | null = null;
+  let stop = false;
+
+  const findByRole = (role: string) => options.mailboxes.find(m => m.role === role && !m.isShared);
+
+  for (const action of actions) {
+    switch (action.type) {
+      case 'markAsRead':
+        flags.push('\\Seen');
+        break;
+      case 'markAsImportant':
+        flags.push('\\Flagged');
+        break;
+      case 'addLabel':
+        if (action.value?.trim()) {
+          flags.push(toKeyword(action.value));
+        }
+        break;
+      case 'moveToMailbox': {
+        const mailbox = options.mailboxes.find(m => m.id === action.value);
+        if (mailbox) {
+          fileInto = compileFileInto(mailbox, options, requires);
+        }
+        break;
+      }
+      case 'markAsSpam': {
+        const junk = findByRole('junk');
+        if (junk) {
+          fileInto = compileFileInto(junk, options, requires);
+          stop = true;
+        }
+        break;
+      }
+      case 'delete': {
+        const trash = findByRole('trash');
+        fileInto = trash ? compileFileInto(trash, options, requires) : 'discard;';
+        stop = true;
+        break;
+      }
+    }
+  }
+
+  // Flags must be set before fileinto/keep to apply to the delivered message
+  if (flags.length > 0) {
+    requires.add('imap4flags');
+    lines.push(`addflag [${flags.map(quote).join(', ')}];`);
+  }
+  if (fileInto) {
+    lines.push(fileInto);
+  }
+  if (stop) {
+    lines.push('stop;');
+  }
+
+  return lines;
+}
+
+/**
+ * Compile filter rules to a Sieve script. Every rule is preceded by a metadata
+ * comment so the script can be turned back into rules; disabled rules and rules
+ * without conditions are kept as metadata only.
+ */
+export function compileFiltersToSieve(filters: EmailFilter[], options: SieveCompileOptions): string {
+  const requires = new Set<string>();
+  const body: string[] = [];
+
+  const sorted = [...filters].sort((a, b) => a.priority - b.priority);
+  for (const filter of sorted) {
+    body.push('');
+    body.push(RULE_METADATA_PREFIX + JSON.stringify(filter));
+
+    if (!filter.enabled || filter.conditions.length === 0) {
+      continue;
+    }
+
+    const actions = compileActions(filter.actions, options, requires);
+    if (actions.length === 0) {
+      continue;
+    }
+
+    const tests = filter.conditions.map(condition => compileCondition(condition, requires));
+    const test = tests.length === 1
+      ? tests[0]
+      : `${filter.conditionMatch === 'any' ? 'anyof' : 'allof'} (${tests.join(', ')})`;
+
+    body.push(`if ${test} {`);
+    body.push(...actions.map(line => `  ${line}`));
+    body.push('}');
+  }
+
+  const lines: string[] = [];
+  if (requires.size > 0) {
+    lines.push(`require [${Array.from(requires).sort().map(quote).join(', ')}];`);
+  }
+  lines.push(...body);
+
+  const script = lines.join('\n') + '\n';
+  return `${SIEVE_GENERATED_MARKER} (checksum ${checksum(script)}) - edit the rules in webmail settings\n${script}`;
+}
+
+/**
+ * FNV-1a hash of the generated part of a script, to detect edits made by hand
+ */
+function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Whether a script was generated by the webmail
+ */
+export function isGeneratedSieveScript(content: string): boolean {
+  return content.startsWith(SIEVE_GENERATED_MARKER);
+}
+
+/**
+ * Read the rules back from a generated script.
+ * Returns null when the script was not generated by the webmail.
+ */
+export function parseGeneratedSieve(content: string): EmailFilter[] | null {
+  if (!isGeneratedSieveScript(content)) {
+    return null;
+  }
+
+  const filters: EmailFilter[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.startsWith(RULE_METADATA_PREFIX)) continue;
+    try {
+      const filter = JSON.parse(line.slice(RULE_METADATA_PREFIX.length)) as EmailFilter;
+      if (filter.id && Array.isArray(filter.conditions) && Array.isArray(filter.actions)) {
+        filters.push(filter);
+      }
+    } catch {
+      return null;
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * Whether a generated script is unchanged since it was generated,
+ * i.e. it was not edited by hand or by another client
+ */
+export function isUnmodifiedGeneratedSieve(content: string): boolean {
+  const match = content.match(/^# Generated by JMAP Webmail \(checksum ([0-9a-f]{8})\)[^\n]*\n/);
+  if (!match) return false;
+  return checksum(content.slice(match[0].length)) === match[1];
+}
+
+/**
+ * Turn a server validation error into a message and, when the server reports
+ * one, the line it applies to
+ */
+export function parseSieveError(description: string): SieveValidationError {
+  const match = description.match(/line[:\s]+(\d+)/i) || description.match(/^(\d+):/);
+  return {
+    message: description,
+    line: match ? parseInt(match[1], 10) : undefined,
+  };
+}
@@ -0,0 +1,358 @@
+import type { asn1, md, pkcs7, pki } from 'node-forge';
+import type { SMIMECertificate, SMIMESignatureCheck } from './email-encryption-types';
+import { buildMimeEntity, buildMultipart, encodeBase64Lines, toCRLF } from './mime-utils';
+
+// node-forge is large, only load it once S/MIME is actually used
+const loadForge = async () => (await import('node-forge')).default;
+
+type Forge = Awaited<ReturnType<typeof loadForge>>;
+
+export type SMIMEPrivateKey = pki.rsa.PrivateKey;
+
+// forge works on "binary strings", one character per byte
+const bytesToBinary = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return binary;
+};
+
+const binaryToBytes = (binary: string) => Uint8Array.from(binary, (char) => char.charCodeAt(0));
+
+const derToBytes = (forge: Forge, node: asn1.Asn1) => binaryToBytes(forge.asn1.toDer(node).getBytes());
+
+// Only RSA is supported by node-forge
+const rsaOnly = (error: unknown) =>
+  error instanceof Error && /OID is not RSA/i.test(error.message)
+    ? new Error('Only RSA certificates are supported')
+    : error;
+
+/**
+ * Describe a parsed certificate for the certificate store
+ */
+function describeCertificate(forge: Forge, cert: pki.Certificate, type: SMIMECertificate['type'] = 'public'): SMIMECertificate {
+  const der = forge.asn1.toDer(forge.pki.certificateToAsn1(cert)).getBytes();
+  const fingerprint = forge.md.sha256.create().update(der).digest().toHex().toUpperCase();
+  const formatName = (name: pki.Certificate['subject']) =>
+    name.getField('CN')?.value || name.attributes.map((attr) => `${attr.shortName || attr.name}=${attr.value}`).join(', ');
+
+  // Addresses from the subjectAltName extension, then the legacy emailAddress attribute
+  const altNames = (cert.getExtension('subjectAltName') as { altNames?: { type: number; value: string }[] } | null)?.altNames || [];
+  const emails = [
+    ...altNames.filter((name) => name.type === 1).map((name) => name.value),
+    ...cert.subject.attributes.filter((attr) => attr.name === 'emailAddress').map((attr) => String(attr.value)),
+  ].map((email) => email.toLowerCase());
+  const basicConstraints = cert.getExtension('basicConstraints') as { cA?: boolean } | null;
+
+  return {
+    id: fingerprint,
+    fingerprint,
+    type,
+    subject: formatName(cert.subject),
+    email: emails[0] || '',
+    emails: Array.from(new Set(emails)),
+    issuer: formatName(cert.issuer),
+    serialNumber: cert.serialNumber.toUpperCase(),
+    notBefore: cert.validity.notBefore.toISOString(),
+    notAfter: cert.validity.notAfter.toISOString(),
+    isCA: !!basicConstraints?.cA,
+    isDefault: false,
+    certificatePem: forge.pki.certificateToPem(cert),
+  };
+}
+
+/**
+ * Read the certificate and private key of a PKCS#12 (.p12/.pfx) file. The key is
+ * kept encrypted with the same password; other certificates become the chain
+ */
+export async function readPKCS12(data: Uint8Array, password: string): Promise<SMIMECertificate> {
+  const forge = await loadForge();
+  try {
+    const p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(bytesToBinary(data)), password);
+    const keyBags = [
+      ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || []),
+      ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || []),
+    ];
+    const certificates = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [])
+      .map((bag) => bag.cert)
+      .filter((cert): cert is pki.Certificate => !!cert);
+
+    const privateKey = keyBags[0]?.key as SMIMEPrivateKey | undefined;
+    if (!privateKey) throw new Error('The file contains no private key');
+
+    const own = certificates.find((cert) => (cert.publicKey as pki.rsa.PublicKey).n.equals(privateKey.n));
+    if (!own) throw new Error('The file contains no certificate for its private key');
+
+    const encryptedKey = forge.pki.encryptPrivateKeyInfo(
+      forge.pki.wrapRsaPrivateKey(forge.pki.privateKeyToAsn1(privateKey)),
+      password,
+      { algorithm: 'aes256' }
+    );
+    return {
+      ...describeCertificate(forge, own, 'private'),
+      chainPem: certificates.filter((cert) => cert !== own).map((cert) => forge.pki.certificateToPem(cert)),
+      encryptedPrivateKeyPem: forge.pki.encryptedPrivateKeyToPem(encryptedKey),
+    };
+  } catch (error) {
+    throw rsaOnly(error);
+  }
+}
+
+/**
+ * Read one or more certificates, PEM or DER encoded
+ */
+export async function readCertificates(data: Uint8Array): Promise<SMIMECertificate[]> {
+  const forge = await loadForge();
+  const text = new TextDecoder().decode(data);
+  try {
+    if (text.includes('-----BEGIN CERTIFICATE-----')) {
+      const blocks = text.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [];
+      return blocks.map((pem) => describeCertificate(forge, forge.pki.certificateFromPem(pem)));
+    }
+    return [describeCertificate(forge, forge.pki.certificateFromAsn1(forge.asn1.fromDer(bytesToBinary(data))))];
+  } catch (error) {
+    throw rsaOnly(error);
+  }
+}
+
+/**
+ * Unlock the private key of an own certificate; throws when the password is wrong
+ */
+export async function unlockPrivateKey(certificate: SMIMECertificate, password: string): Promise<SMIMEPrivateKey> {
+  if (!certificate.encryptedPrivateKeyPem) {
+    throw new Error('Not an own certificate');
+  }
+  const forge = await loadForge();
+  const privateKey = forge.pki.decryptRsaPrivateKey(certificate.encryptedPrivateKeyPem, password);
+  if (!privateKey) throw new Error('Wrong password');
+  return privateKey;
+}
+
+/**
+ * Detached CMS signature (DER) over the canonical (CRLF) form of the content
+ */
+export async function signDetached(
+  content: string,
+  certificate: SMIMECertificate,
+  privateKey: SMIMEPrivateKey
+): Promise<Uint8Array> {
+  const forge = await loadForge();
+  const cert = forge.pki.certificateFromPem(certificate.certificatePem);
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(bytesToBinary(new TextEncoder().encode(toCRLF(content))));
+  p7.addCertificate(cert);
+  for (const pem of certificate.chainPem || []) {
+    p7.addCertificate(pem);
+  }
+  p7.addSigner({
+    key: privateKey,
+    certificate: cert,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      { type: forge.pki.oids.signingTime },
+    ],
+  });
+  p7.sign({ detached: true });
+  return derToBytes(forge, p7.toAsn1());
+}
+
+/**
+ * CMS EnvelopedData (DER) of the content, encrypted with AES-256 to every certificate
+ */
+export async function encryptEnveloped(content: string, certificates: SMIMECertificate[]): Promise<Uint8Array> {
+  const forge = await loadForge();
+  const p7 = forge.pkcs7.createEnvelopedData();
+  for (const certificate of certificates) {
+    p7.addRecipient(forge.pki.certificateFromPem(certificate.certificatePem));
+  }
+  p7.content = forge.util.createBuffer(bytesToBinary(new TextEncoder().encode(toCRLF(content))));
+  p7.encrypt(undefined, forge.pki.oids['aes256-CBC']);
+  return derToBytes(forge, p7.toAsn1());
+}
+
+/**
+ * Whether a CMS structure is EnvelopedData (encrypted) rather than SignedData
+ */
+export async function isEnvelopedData(der: Uint8Array): Promise<boolean> {
+  const forge = await loadForge();
+  const contentInfo = forge.asn1.fromDer(bytesToBinary(der));
+  const contentType = (contentInfo.value as asn1.Asn1[])[0];
+  return forge.asn1.derToOid(contentType.value as string) === forge.pki.oids.envelopedData;
+}
+
+/**
+ * Serial numbers of the certificates an EnvelopedData structure is encrypted to
+ */
+export async function getEnvelopeRecipients(der: Uint8Array): Promise<string[]> {
+  const forge = await loadForge();
+  const p7 = forge.pkcs7.messageFromAsn1(forge.asn1.fromDer(bytesToBinary(der))) as pkcs7.PkcsEnvelopedData;
+  return p7.recipients.map((recipient) => recipient.serialNumber.toUpperCase());
+}
+
+/**
+ * Decrypt EnvelopedData with the private key of one of its recipients
+ */
+export async function decryptEnveloped(
+  der: Uint8Array,
+  certificate: SMIMECertificate,
+  privateKey: SMIMEPrivateKey
+): Promise<string> {
+  const forge = await loadForge();
+  const p7 = forge.pkcs7.messageFromAsn1(forge.asn1.fromDer(bytesToBinary(der))) as pkcs7.PkcsEnvelopedData;
+  const recipient = p7.findRecipient(forge.pki.certificateFromPem(certificate.certificatePem));
+  if (!recipient) throw new Error('The message isn\'t encrypted to this certificate');
+  p7.decrypt(recipient, privateKey);
+  return new TextDecoder().decode(binaryToBytes((p7.content as { getBytes(): string }).getBytes()));
+}
+
+// The bytes of an OCTET STRING, which BER may split into chunks
+const octetString = (node: asn1.Asn1): string =>
+  Array.isArray(node.value) ? node.value.map(octetString).join('') : node.value;
+
+/**
+ * Verify CMS SignedData (DER): the signature over the content (detached, or the
+ * one the structure encapsulates), and the signer's chain against the trust anchors
+ */
+export async function verifySignedData(
+  der: Uint8Array,
+  detachedContent: string | undefined,
+  trustAnchors: SMIMECertificate[],
+  knownCertificates: SMIMECertificate[],
+  senderEmail?: string
+): Promise<{ content: string; signature: SMIMESignatureCheck }> {
+  const forge = await loadForge();
+  const p7 = forge.pkcs7.messageFromAsn1(forge.asn1.fromDer(bytesToBinary(der))) as pkcs7.Captured<pkcs7.PkcsSignedData> & {
+    rawCapture: { content?: asn1.Asn1; signerInfos?: asn1.Asn1[] };
+  };
+
+  // Detached signatures are computed over the canonical form, opaque ones over the exact bytes
+  const contentBytes = detachedContent !== undefined
+    ? bytesToBinary(new TextEncoder().encode(toCRLF(detachedContent)))
+    : p7.rawCapture.content ? octetString((p7.rawCapture.content.value as asn1.Asn1[])[0]) : '';
+  const content = detachedContent ?? new TextDecoder().decode(binaryToBytes(contentBytes));
+
+  const [signerInfo] = p7.rawCapture.signerInfos || [];
+  if (!signerInfo) throw new Error('The message has no signature');
+
+  const fields = [...(signerInfo.value as asn1.Asn1[])];
+  const [, sid, digestAlgorithm] = fields;
+  const rest = fields.slice(3);
+  const signedAttributes = rest[0]?.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && rest[0].type === 0
+    ? rest.shift()
+    : undefined;
+  const signatureValue = rest[1]?.value as string;
+
+  // Signers are identified by issuer and serial number; forge keeps a SHA-1 of each issuer's DER name
+  const [sidIssuer, sidSerial] = sid.value as asn1.Asn1[];
+  const serial = forge.util.bytesToHex(sidSerial?.value as string).toUpperCase();
+  const issuerHash = sidIssuer && forge.md.sha1.create().update(forge.asn1.toDer(sidIssuer).getBytes()).digest().toHex();
+  const pool = [
+    ...p7.certificates,
+    ...[...knownCertificates, ...trustAnchors].flatMap((cert) => [cert.certificatePem, ...(cert.chainPem || [])])
+      .map((pem) => forge.pki.certificateFromPem(pem)),
+  ];
+  const signerCert = pool.find((cert) => cert.issuer.hash === issuerHash &&
+    (cert.serialNumber.toUpperCase() === serial.replace(/^(00)+/, '') || cert.serialNumber.toUpperCase() === serial));
+  if (!signerCert) return { content, signature: { state: 'unknown-key', chain: [] } };
+
+  const digestName = forge.pki.oids[forge.asn1.derToOid((digestAlgorithm.value as asn1.Asn1[])[0].value as string)];
+  const createDigest = () => {
+    const md = (forge.md as unknown as Record<string, { create(): md.MessageDigest } | undefined>)[digestName];
+    if (!md) throw new Error(`Unsupported digest algorithm ${digestName}`);
+    return md.create();
+  };
+
+  let isValid: boolean;
+  try {
+    let signed = contentBytes;
+    if (signedAttributes) {
+      // The attributes are signed instead, and carry the digest of the content
+      const attributes = signedAttributes.value as asn1.Asn1[];
+      const messageDigest = attributes.find((attr) =>
+        forge.asn1.derToOid((attr.value as asn1.Asn1[])[0].value as string) === forge.pki.oids.messageDigest
+      );
+      const expected = messageDigest && ((messageDigest.value as asn1.Asn1[])[1].value as asn1.Asn1[])[0].value;
+      if (expected !== createDigest().update(contentBytes).digest().getBytes()) {
+        throw new Error('Content digest mismatch');
+      }
+      signed = forge.asn1.toDer(
+        forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.SET, true, attributes)
+      ).getBytes();
+    }
+    const digest = createDigest().update(signed).digest().getBytes();
+    isValid = (signerCert.publicKey as pki.rsa.PublicKey).verify(digest, signatureValue);
+  } catch {
+    isValid = false;
+  }
+
+  // Chain from the signer up to a self-signed certificate or the last issuer we have
+  const chain = [signerCert];
+  for (let current = signerCert; chain.length < 10 && !current.isIssuer(current);) {
+    const issuer = pool.find((cert) => !chain.includes(cert) && current.isIssuer(cert));
+    if (!issuer) break;
+    chain.push(issuer);
+    current = issuer;
+  }
+  const described = chain.map((cert) => describeCertificate(forge, cert));
+  const signer = described[0];
+
+  if (!isValid) return { content, signature: { state: 'invalid', signer, chain: described } };
+
+  let error: string | undefined;
+  try {
+    const toDer = (cert: pki.Certificate) => forge.asn1.toDer(forge.pki.certificateToAsn1(cert)).getBytes();
+    const anchors = new Set(trustAnchors.map((anchor) => toDer(forge.pki.certificateFromPem(anchor.certificatePem))));
+    const trustedAt = chain.findIndex((cert) => anchors.has(toDer(cert)));
+
+    if (trustedAt === 0) {
+      // Trusted as it is, only its validity is left to check
+      const now = new Date();
+      if (now < signerCert.validity.notBefore || now > signerCert.validity.notAfter) {
+        throw new Error('Certificate is not valid at this time');
+      }
+    } else {
+      // The trust anchor itself is looked up in the store, not taken from the message
+      const untrusted = trustedAt > 0 ? chain.slice(0, trustedAt) : chain.filter((cert) => !cert.isIssuer(cert));
+      if (untrusted.length === 0) {
+        throw new Error('The certificate is self-signed and not trusted');
+      }
+      forge.pki.verifyCertificateChain(forge.pki.createCaStore(trustAnchors.map((anchor) => anchor.certificatePem)), untrusted);
+    }
+  } catch (chainError) {
+    error = (chainError as { message?: string }).message || 'Certificate chain verification failed';
+  }
+
+  const sender = senderEmail?.toLowerCase();
+  const state = error ? 'untrusted' : sender && signer.emails.includes(sender) ? 'valid' : 'mismatch';
+  return { content, signature: { state, signer, chain: described, ...(error && { error }) } };
+}
+
+/**
+ * multipart/signed body (RFC 8551 Section 3.5.3) around the signed entity
+ */
+export function buildSignedEntity(signedEntity: string, signature: Uint8Array): string {
+  return buildMultipart('signed', [
+    toCRLF(signedEntity),
+    buildMimeEntity({
+      'Content-Type': 'application/pkcs7-signature; name="smime.p7s"',
+      'Content-Transfer-Encoding': 'base64',
+      'Content-Disposition': 'attachment; filename="smime.p7s"',
+      'Content-Description': 'S/MIME Cryptographic Signature',
+    }, encodeBase64Lines(signature)),
+  ], { micalg: 'sha-256', protocol: 'application/pkcs7-signature' });
+}
+
+/**
+ * application/pkcs7-mime body (RFC 8551 Section 3.3) around EnvelopedData
+ */
+export function buildEnvelopedEntity(envelopedData: Uint8Array): string {
+  return buildMimeEntity({
+    'Content-Type': 'application/pkcs7-mime; smime-type=enveloped-data; name="smime.p7m"',
+    'Content-Transfer-Encoding': 'base64',
+    'Content-Disposition': 'attachment; filename="smime.p7m"',
+    'Content-Description': 'S/MIME Encrypted Message',
+  }, encodeBase64Lines(envelopedData));
+}
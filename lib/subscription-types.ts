@@ -0,0 +1,40 @@
+/**
+ * Subscription Types
+ * Mailing lists found in the mailbox through their List-Id header, and how to leave
+ * them using List-Unsubscribe (RFC 2369) and one-click unsubscribe (RFC 8058).
+ */
+
+import type { EmailAddress } from '@/lib/jmap/types';
+
+export type UnsubscribeMethod =
+  | { type: 'one-click'; url: string } // HTTPS POST, sent through /api/unsubscribe
+  | { type: 'mailto'; to: string; subject: string; body: string }
+  | { type: 'link'; url: string }; // A page where the user confirms by themselves
+
+// What is needed to leave a list, from the list overview or a single message
+export interface UnsubscribeTarget {
+  listId: string;
+  method: UnsubscribeMethod;
+  recipients: string[]; // Addresses the list writes to, to send a mailto: request from the right identity
+}
+
+export interface Subscription {
+  listId: string;
+  name: string; // List-Id phrase, or the sender when the list has none
+  senderEmail: string;
+  emailCount: number; // Among the messages scanned
+  lastReceivedAt: string;
+  unsubscribe: UnsubscribeMethod | null; // Null when the list offers no List-Unsubscribe
+  recipients: string[];
+}
+
+// The parts of a message needed to build the subscription overview
+export interface MailingListEmail {
+  id: string;
+  from: EmailAddress[] | null;
+  to: EmailAddress[] | null;
+  receivedAt: string;
+  listId: string | null;
+  listUnsubscribe: string[] | null;
+  listUnsubscribePost: string | null;
+}
@@ -1,4 +1,4 @@
-import type { Email, ThreadGroup } from "./jmap/types";
+import type { Email, EmailSendOptions, ThreadGroup } from "./jmap/types";
 
 /**
  * Groups emails by their threadId and creates ThreadGroup objects for UI display.
@@ -161,3 +161,25 @@ export function getThreadColorTag(emails: Email[]): string | null {
   }
   return null;
 }
+
+/**
+ * Builds In-Reply-To and References for a reply (RFC 5322 Section 3.6.4).
+ * References is the parent's References followed by the parent's Message-ID.
+ */
+export function getReplyThreadingHeaders(
+  parent: Pick<Email, 'messageId' | 'references'>
+): Pick<EmailSendOptions, 'inReplyTo' | 'references'> {
+  const parentIds = parent.messageId || [];
+  if (parentIds.length === 0) {
+    return {};
+  }
+
+  const references = [...(parent.references || [])];
+  for (const id of parentIds) {
+    if (!references.includes(id)) {
+      references.push(id);
+    }
+  }
+
+  return { inReplyTo: parentIds, references };
+}
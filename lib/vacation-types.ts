@@ -1,11 +1,13 @@
+import type { VacationResponse } from "@/lib/jmap/types";
+
 export interface VacationResponder {
   id: string;
   identityId: string;
   isEnabled: boolean;
   subject: string;
   message: string;
-  startDate: number; // timestamp
-  endDate: number; // timestamp
+  startDate: number | null; // timestamp, null = no start limit
+  endDate: number | null; // timestamp, null = until turned off
   respondToAll: boolean; // respond to all senders or only known contacts
   respondOncePerSender: boolean; // only send one response per sender
   createdAt: number;
@@ -17,6 +19,16 @@ export interface VacationResponderSettings {
   notifyOnResponses: boolean; // notify user when vacation response is sent
 }
 
+/**
+ * Whether the server's vacation response is currently sending replies
+ */
+export function isVacationResponseActive(response: VacationResponse | null, now: number = Date.now()): boolean {
+  if (!response?.isEnabled) return false;
+  if (response.fromDate && new Date(response.fromDate).getTime() > now) return false;
+  if (response.toDate && new Date(response.toDate).getTime() < now) return false;
+  return true;
+}
+
 export function generateVacationId(): string {
   return `vacation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
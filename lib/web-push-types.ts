@@ -0,0 +1,36 @@
+/**
+ * Web Push Types
+ * New mail notifications delivered through the browser's push service (RFC 8620 section 7.2)
+ */
+
+// Servers that sign their push messages (RFC 9749) advertise their VAPID key here
+export const VAPID_CAPABILITY = 'urn:ietf:params:jmap:webpush-vapid';
+
+// First message on a new subscription, proving the push URL reaches this browser
+export interface PushVerification {
+  '@type': 'PushVerification';
+  pushSubscriptionId: string;
+  verificationCode: string;
+}
+
+// What the service worker needs to announce an account's new mail, keyed by JMAP account id
+export interface PushAccountConfig {
+  accountId: string;
+  label: string; // The account's address, shown when the worker can't look up the message
+  // Same-origin API URL of the proxied account, the proxy cookie authenticates the worker
+  apiUrl: string;
+  inboxId: string | null;
+  archiveId: string | null;
+  // The worker has no translations of its own
+  strings: {
+    newMail: string;
+    markRead: string;
+    archive: string;
+  };
+}
+
+// Messages between the app and the service worker
+export type PushWorkerMessage =
+  | { type: 'PUSH_ACCOUNT'; config: PushAccountConfig }
+  | { type: 'PUSH_ACCOUNT_REMOVED'; accountId: string }
+  | { type: 'PUSH_VERIFICATION'; verification: PushVerification };
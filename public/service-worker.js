@@ -55,6 +55,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // Proxied JMAP traffic is private mail, or a push stream that never ends - never cache it
+  if (url.pathname.startsWith('/api/jmap/')) {
+    return;
+  }
+
   // API requests - network first
   if (url.pathname.startsWith('/api/')) {
     event.respondWith(
@@ -157,11 +162,164 @@ async function syncDrafts() {
   }
 }
 
-// Push notifications
+// Web push - the JMAP server announces changes (RFC 8620 section 7.2).
+// Accounts are registered by the app (see stores/web-push-store.ts) and kept in
+// IndexedDB, the worker may be started for a push while no page is open.
+const PUSH_DB = 'webmail-push';
+const PUSH_ACCOUNTS = 'accounts';
+const JMAP_USING = ['urn:ietf:params:jmap:core', 'urn:ietf:params:jmap:mail'];
+const MAX_NOTIFICATIONS = 5;
+
+// JMAP UTCDate, which has no milliseconds
+const toUTCDate = (time) => new Date(time).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+function openPushDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(PUSH_DB, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(PUSH_ACCOUNTS, { keyPath: 'accountId' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withPushAccounts(mode, run) {
+  const db = await openPushDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PUSH_ACCOUNTS, mode);
+    const request = run(transaction.objectStore(PUSH_ACCOUNTS));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+const getPushAccount = (accountId) => withPushAccounts('readonly', (store) => store.get(accountId));
+const savePushAccount = (account) => withPushAccounts('readwrite', (store) => store.put(account));
+const removePushAccount = (accountId) => withPushAccounts('readwrite', (store) => store.delete(accountId));
+
+async function jmapRequest(account, methodCalls) {
+  // The proxy cookie authenticates the request
+  const response = await fetch(account.apiUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ using: JMAP_USING, methodCalls }),
+  });
+  if (!response.ok) {
+    throw new Error(`JMAP request failed: ${response.status}`);
+  }
+  return (await response.json()).methodResponses || [];
+}
+
+// Unread inbox mail received since the last notification, newest first
+async function fetchNewMail(account) {
+  const filter = { notKeyword: '$seen', after: account.notifiedSince };
+  if (account.inboxId) filter.inMailbox = account.inboxId;
+
+  const responses = await jmapRequest(account, [
+    ['Email/query', {
+      accountId: account.accountId,
+      filter,
+      sort: [{ property: 'receivedAt', isAscending: false }],
+      limit: MAX_NOTIFICATIONS,
+    }, '0'],
+    ['Email/get', {
+      accountId: account.accountId,
+      '#ids': { resultOf: '0', name: 'Email/query', path: '/ids' },
+      properties: ['id', 'from', 'subject', 'preview', 'receivedAt'],
+    }, '1'],
+  ]);
+  const emailGet = responses.find(([name]) => name === 'Email/get');
+  return emailGet ? emailGet[1].list : [];
+}
+
+function showGenericNotification(account) {
+  return self.registration.showNotification(account.strings.newMail, {
+    body: account.label,
+    icon: '/favicon.ico',
+    badge: '/favicon.ico',
+    tag: `new-mail-${account.accountId}`,
+    data: { url: '/' },
+  });
+}
+
+function showEmailNotification(account, email) {
+  const sender = email.from && email.from[0];
+  const actions = [{ action: 'mark-read', title: account.strings.markRead }];
+  if (account.inboxId && account.archiveId) {
+    actions.push({ action: 'archive', title: account.strings.archive });
+  }
+
+  return self.registration.showNotification(sender ? sender.name || sender.email : account.label, {
+    body: [email.subject, email.preview].filter(Boolean).join('\n'),
+    icon: '/favicon.ico',
+    badge: '/favicon.ico',
+    // Shown again for the same message, it replaces the old one
+    tag: `email-${email.id}`,
+    timestamp: Date.parse(email.receivedAt),
+    actions,
+    data: { url: '/', accountId: account.accountId, emailId: email.id },
+  });
+}
+
+async function announceNewMail(stateChange) {
+  for (const [accountId, changes] of Object.entries(stateChange.changed || {})) {
+    const account = await getPushAccount(accountId);
+    if (!account || !changes.EmailDelivery) continue;
+
+    let emails;
+    try {
+      emails = await fetchNewMail(account);
+    } catch (error) {
+      console.error('Failed to fetch new mail:', error);
+      await showGenericNotification(account);
+      continue;
+    }
+    if (emails.length === 0) continue;
+
+    await Promise.all(emails.map((email) => showEmailNotification(account, email)));
+    // "after" includes its own date, skip the newest message next time
+    const newest = Math.max(...emails.map((email) => Date.parse(email.receivedAt)));
+    await savePushAccount({ ...account, notifiedSince: toUTCDate(newest + 1000) });
+  }
+}
+
+async function runEmailAction(action, data) {
+  const account = await getPushAccount(data.accountId);
+  if (!account) return;
+
+  const update = action === 'archive'
+    ? { [`mailboxIds/${account.inboxId}`]: null, [`mailboxIds/${account.archiveId}`]: true }
+    : { 'keywords/$seen': true };
+  await jmapRequest(account, [
+    ['Email/set', { accountId: account.accountId, update: { [data.emailId]: update } }, '0'],
+  ]);
+}
+
+async function postToClients(message) {
+  const clientList = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clientList.forEach((client) => client.postMessage(message));
+}
+
 self.addEventListener('push', (event) => {
   if (!event.data) return;
 
-  const data = event.data.json();
+  let data;
+  try {
+    data = event.data.json();
+  } catch {
+    return;
+  }
+
+  // The app is waiting for this to confirm the subscription
+  if (data['@type'] === 'PushVerification') {
+    event.waitUntil(postToClients({ type: 'PUSH_VERIFICATION', verification: data }));
+    return;
+  }
+
+  if (data['@type'] === 'StateChange') {
+    event.waitUntil(announceNewMail(data));
+    return;
+  }
+
   const options = {
     body: data.body || 'New email',
     icon: '/favicon.ico',
@@ -182,18 +340,29 @@ self.addEventListener('push', (event) => {
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
 
+  const data = event.notification.data || {};
+  if ((event.action === 'mark-read' || event.action === 'archive') && data.emailId) {
+    event.waitUntil(
+      runEmailAction(event.action, data).catch((error) => {
+        console.error('Failed to update email from notification:', error);
+      })
+    );
+    return;
+  }
+
+  const url = data.url || '/';
   event.waitUntil(
     clients.matchAll({ type: 'window' }).then((clientList) => {
       // Check if there's already a window open
       for (let i = 0; i < clientList.length; i++) {
         const client = clientList[i];
-        if (client.url === event.notification.data.url && 'focus' in client) {
+        if (client.url === new URL(url, self.location.origin).href && 'focus' in client) {
           return client.focus();
         }
       }
       // If not, open a new window
       if (clients.openWindow) {
-        return clients.openWindow(event.notification.data.url);
+        return clients.openWindow(url);
       }
     })
   );
@@ -203,5 +372,10 @@ self.addEventListener('notificationclick', (event) => {
 self.addEventListener('message', (event) => {
   if (event.data && event.data.type === 'SKIP_WAITING') {
     self.skipWaiting();
+  } else if (event.data && event.data.type === 'PUSH_ACCOUNT') {
+    // Only mail received from now on is announced
+    event.waitUntil(savePushAccount({ ...event.data.config, notifiedSince: toUTCDate(Date.now()) }));
+  } else if (event.data && event.data.type === 'PUSH_ACCOUNT_REMOVED') {
+    event.waitUntil(removePushAccount(event.data.accountId));
   }
 });
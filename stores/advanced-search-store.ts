@@ -1,6 +1,9 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { AdvancedSearchQuery, SavedSearch, SearchFilter } from '@/lib/advanced-search-types';
+import type { EmailQueryFilter, Mailbox } from '@/lib/jmap/types';
+import { JMAPClient } from '@/lib/jmap/client';
+import { buildSavedSearchQueries } from '@/lib/mailbox-utils';
 
 interface AdvancedSearchState {
   // Current search query
@@ -26,6 +29,9 @@ interface AdvancedSearchState {
   deleteSavedSearch: (searchId: string) => void;
   updateSavedSearch: (searchId: string, search: Partial<SavedSearch>) => void;
   getSavedSearch: (searchId: string) => SavedSearch | undefined;
+  moveSavedSearch: (searchId: string, toIndex: number) => void;
+  // Recount total and unread results of every saved search
+  refreshSavedSearchCounts: (client: JMAPClient, mailboxes: Mailbox[]) => Promise<void>;
   
   // Search execution
   setSearchResults: (results: string[]) => void;
@@ -136,6 +142,58 @@ export const useAdvancedSearchStore = create<AdvancedSearchState>()(
         return state.savedSearches.find((s) => s.id === searchId);
       },
 
+      moveSavedSearch: (searchId, toIndex) =>
+        set((state) => {
+          const search = state.savedSearches.find((s) => s.id === searchId);
+          if (!search) return state;
+          const savedSearches = state.savedSearches.filter((s) => s.id !== searchId);
+          savedSearches.splice(Math.max(0, Math.min(toIndex, savedSearches.length)), 0, search);
+          return { savedSearches };
+        }),
+
+      refreshSavedSearchCounts: async (client, mailboxes) => {
+        const { savedSearches } = get();
+        if (savedSearches.length === 0) return;
+
+        // Two counts per search and account (all, unread), one request per account
+        const byAccount = new Map<string, { searchId: string; unread: boolean; filter: EmailQueryFilter }[]>();
+        for (const search of savedSearches) {
+          for (const { accountId, filter } of buildSavedSearchQueries(search.query, mailboxes)) {
+            const counts = byAccount.get(accountId) || [];
+            counts.push(
+              { searchId: search.id, unread: false, filter },
+              { searchId: search.id, unread: true, filter: { operator: 'AND', conditions: [filter, { notKeyword: '$seen' }] } }
+            );
+            byAccount.set(accountId, counts);
+          }
+        }
+
+        const totals = new Map<string, { resultCount: number; unreadCount: number }>();
+        const results = await Promise.all([...byAccount].map(async ([accountId, counts]) => {
+          const values = await client.getEmailQueryTotals(counts.map((c) => c.filter), accountId);
+          return values && counts.map((count, index) => ({ ...count, value: values[index] }));
+        }));
+        // Keep the previous counts rather than show partial ones
+        const counted = results.filter((result): result is NonNullable<typeof result> => !!result);
+        if (counted.length < results.length) return;
+
+        for (const { searchId, unread, value } of counted.flat()) {
+          const total = totals.get(searchId) || { resultCount: 0, unreadCount: 0 };
+          if (unread) total.unreadCount += value;
+          else total.resultCount += value;
+          totals.set(searchId, total);
+        }
+
+        const lastExecuted = Date.now();
+        set((state) => ({
+          savedSearches: state.savedSearches.map((s) => ({
+            ...s,
+            ...(totals.get(s.id) || { resultCount: 0, unreadCount: 0 }),
+            lastExecuted,
+          })),
+        }));
+      },
+
       setSearchResults: (results) => set({ searchResults: results }),
 
       setIsSearching: (isSearching) => set({ isSearching }),
@@ -144,7 +202,9 @@ export const useAdvancedSearchStore = create<AdvancedSearchState>()(
     }),
     {
       name: 'advanced-search-store',
-      version: 1,
+      version: 2,
+      // Version 1 saved searches held filter lists instead of query text
+      migrate: (persisted) => ({ ...(persisted as object), savedSearches: [] }),
     }
   )
 );
@@ -1,8 +1,40 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { JMAPClient } from '@/lib/jmap/client';
+import { JMAPClient, type JMAPAuth, type JMAPSession } from '@/lib/jmap/client';
+import { cacheSession, clearOfflineCache, getCachedSession } from '@/lib/offline-cache';
+import { isNetworkError } from '@/lib/offline-types';
 import { useEmailStore } from './email-store';
+import { useEmailSchedulingStore } from './email-scheduling-store';
+import { useMultiAccountStore } from './multi-account-store';
+import { useAdvancedSearchStore } from './advanced-search-store';
+import { useAliasStore } from './alias-store';
+import { useAutocryptStore } from './autocrypt-store';
+import { useCalendarInviteStore } from './calendar-invite-store';
+import { useCalendarStore } from './calendar-store';
+import { useContactsStore } from './contacts-store';
+import { useEmailEncryptionStore } from './email-encryption-store';
+import { useEmailForwardingStore } from './email-forwarding-store';
+import { useEmailTrackingStore } from './email-tracking-store';
+import { useFilterStore } from './filter-store';
+import { useSettingsStore } from './settings-store';
+import { useSignatureStore } from './signature-store';
+import { useSMIMEStore } from './smime-store';
+import { useTemplateStore } from './template-store';
+import { useVacationStore } from './vacation-store';
+import { useOutboxStore } from './outbox-store';
+import { useWebPushStore } from './web-push-store';
 import type { Identity } from '@/lib/jmap/types';
+import type { OAuthSession, PendingOAuthLogin } from '@/lib/oauth-types';
+import { buildAuthorizationUrl, createPkcePair, discoverOAuthServer, exchangeAuthorizationCode, randomToken } from '@/lib/oauth-utils';
+
+// A signed-in account, kept alive in the background while another one is shown
+export interface AccountConnection {
+  client: JMAPClient;
+  identities: Identity[];
+  primaryIdentity: Identity | null;
+  unreadCount: number; // Inbox unread count, kept up to date by the account's own push connection
+  isPushConnected: boolean;
+}
 
 interface AuthState {
   isAuthenticated: boolean;
@@ -15,185 +47,582 @@ interface AuthState {
   primaryIdentity: Identity | null;
   rememberMe: boolean;
 
-  login: (serverUrl: string, username: string, password: string, rememberMe?: boolean) => Promise<boolean>;
-  logout: () => void;
+  // Every signed-in account by id (never persisted), the active one is mirrored above
+  activeAccountId: string | null;
+  connections: Record<string, AccountConnection>;
+
+  // Password sign-in, only offered where the deployment allows Basic auth.
+  // useProxy hands the credentials to the webmail server (/api/jmap) instead of keeping them here
+  login: (serverUrl: string, username: string, password: string, rememberMe?: boolean, useProxy?: boolean) => Promise<boolean>;
+  // Sends the browser to the OAuth provider; completeOAuthLogin finishes on the way back
+  startOAuthLogin: (options: OAuthLoginOptions) => Promise<void>;
+  completeOAuthLogin: (code: string, state: string) => Promise<boolean>;
+  logout: (accountId?: string) => void;
+  switchAccount: (accountId: string) => Promise<boolean>;
+  refreshUnreadCount: (accountId: string) => Promise<void>;
   checkAuth: () => Promise<void>;
   clearError: () => void;
 }
 
+interface OAuthLoginOptions {
+  serverUrl: string;
+  issuerUrl?: string; // Defaults to the JMAP server
+  clientId: string;
+  rememberMe: boolean;
+  useProxy?: boolean;
+  loginHint?: string;
+}
+
+// Stores whose persisted data belongs to one account (settings, keys, signatures, ...)
+const ACCOUNT_SCOPED_STORES: AccountScopedStore[] = [
+  useAdvancedSearchStore,
+  useAliasStore,
+  useAutocryptStore,
+  useCalendarInviteStore,
+  useCalendarStore,
+  useContactsStore,
+  useEmailEncryptionStore,
+  useEmailForwardingStore,
+  useEmailTrackingStore,
+  useFilterStore,
+  useSettingsStore,
+  useSignatureStore,
+  useSMIMEStore,
+  useTemplateStore,
+  useVacationStore,
+];
+
+interface AccountScopedStore {
+  getInitialState(): unknown;
+  setState(state: unknown, replace: true): void;
+  persist: {
+    getOptions: () => { name?: string };
+    setOptions: (options: { name: string }) => void;
+    rehydrate: () => Promise<void> | void;
+  };
+}
+
+const passwordKey = (accountId: string) => `auth-pwd:${accountId}`;
+
+const getStoredPassword = (accountId: string): string | null => {
+  try {
+    const stored = sessionStorage.getItem(passwordKey(accountId));
+    return stored ? atob(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Remembered OAuth accounts keep their tokens, never a password
+const oauthKey = (accountId: string) => `auth-oauth:${accountId}`;
+const PENDING_OAUTH_KEY = 'auth-oauth-pending';
+
+const getStoredOAuthSession = (accountId: string): OAuthSession | null => {
+  try {
+    const stored = sessionStorage.getItem(oauthKey(accountId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Proxied accounts only keep the id of their server-side session
+const proxyKey = (accountId: string) => `auth-proxy:${accountId}`;
+
+const getStoredAuth = (accountId: string): JMAPAuth | null => {
+  const sessionId = sessionStorage.getItem(proxyKey(accountId));
+  if (sessionId) return { type: 'proxy', sessionId };
+  const session = getStoredOAuthSession(accountId);
+  if (session) return { type: 'oauth', session };
+  const password = getStoredPassword(accountId);
+  return password !== null ? { type: 'basic', password } : null;
+};
+
+// The webmail server keeps the credentials in an httpOnly cookie and hands back the session id
+async function createProxySession(body: Record<string, unknown>): Promise<string> {
+  const response = await fetch('/api/jmap/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.sessionId) {
+    throw new Error(data?.error || `Request failed: ${response.status}`);
+  }
+  return data.sessionId;
+}
+
+async function endProxySession(sessionId: string): Promise<void> {
+  try {
+    await fetch('/api/jmap/session', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId }),
+    });
+  } catch (error) {
+    console.error('Failed to end proxy session:', error);
+  }
+}
+
+// Map common errors to translation keys
+const toLoginErrorKey = (error: unknown): string => {
+  if (error instanceof Error) {
+    if (error.message.includes('Invalid username or password') ||
+        error.message.includes('401') ||
+        error.message.includes('Unauthorized')) {
+      return 'invalid_credentials';
+    }
+    if (error.message.includes('network') ||
+        error.message.includes('Failed to fetch')) {
+      return 'connection_failed';
+    }
+    if (error.message.includes('OAuth') || error.message.includes('Token request failed')) {
+      return 'oauth_failed';
+    }
+  }
+  return 'generic';
+};
+
+// Point a persisted store at the storage key of an account and load that account's data
+async function scopeStore(store: AccountScopedStore, accountId: string): Promise<void> {
+  const currentName = store.persist.getOptions().name || '';
+  const baseName = currentName.replace(/:.*$/, '');
+  const name = `${baseName}:${accountId}`;
+  if (currentName === name) return;
+
+  // Data saved before multiple accounts existed moves to the first account that signs in
+  if (localStorage.getItem(name) === null && localStorage.getItem(baseName) !== null) {
+    localStorage.setItem(name, localStorage.getItem(baseName)!);
+    localStorage.removeItem(baseName);
+  }
+
+  // Resetting writes the defaults under the new name, so keep what was saved there
+  const saved = localStorage.getItem(name);
+  store.persist.setOptions({ name });
+  store.setState(store.getInitialState(), true);
+  if (saved !== null) {
+    localStorage.setItem(name, saved);
+  }
+  await store.persist.rehydrate();
+}
+
+// Forget everything shown for the previous account
+function resetMailState(): void {
+  useEmailStore.setState({
+    emails: [],
+    mailboxes: [],
+    selectedEmail: null,
+    selectedMailbox: "",
+    isLoading: false,
+    error: null,
+    searchQuery: "",
+    quota: null,
+    emailListState: null,
+    mailboxState: null,
+    isPushConnected: false,
+  });
+  useEmailSchedulingStore.setState(useEmailSchedulingStore.getInitialState(), true);
+}
+
+// allowOffline starts from the session saved last time when the server can't be reached;
+// only for accounts restored on startup, a fresh sign-in always checks the credentials
+async function openConnection(serverUrl: string, username: string, auth: JMAPAuth, allowOffline = false) {
+  // Create JMAP client
+  const client = new JMAPClient(serverUrl, username, auth);
+
+  // Try to connect
+  try {
+    await client.connect();
+  } catch (error) {
+    const cached = allowOffline && isNetworkError(error) ? await getCachedSession(serverUrl, username) : null;
+    if (!cached) throw error;
+    client.restoreSession(cached.session as JMAPSession);
+    return { client, username, identities: cached.identities, primaryIdentity: cached.identities[0] || null };
+  }
+
+  // Fetch identities from the server
+  const identities = await client.getIdentities();
+  const primaryIdentity = identities.length > 0 ? identities[0] : null;
+
+  // OAuth sign-ins learn the login name from the session
+  const sessionUsername = client.getUsername();
+  void cacheSession(serverUrl, sessionUsername, client.getSession(), identities);
+  return { client, username: sessionUsername, identities, primaryIdentity };
+}
+
 export const useAuthStore = create<AuthState>()(
   persist(
-    (set, get) => ({
-      isAuthenticated: false,
-      isLoading: false,
-      error: null,
-      serverUrl: null,
-      username: null,
-      client: null,
-      identities: [],
-      primaryIdentity: null,
-      rememberMe: false,
-
-      login: async (serverUrl, username, password, rememberMe = false) => {
-        set({ isLoading: true, error: null });
+    (set, get) => {
+      const updateConnection = (accountId: string, updates: Partial<AccountConnection>) => {
+        const connection = get().connections[accountId];
+        if (!connection) return;
+        set((state) => ({
+          connections: { ...state.connections, [accountId]: { ...connection, ...updates } },
+        }));
+      };
 
+      // One push connection per account: the shown account updates the mail view, others their badge
+      const startPush = (accountId: string, client: JMAPClient) => {
         try {
-          // Create JMAP client
-          const client = new JMAPClient(serverUrl, username, password);
+          client.onStateChange((change) => {
+            if (get().activeAccountId === accountId) {
+              useEmailStore.getState().handleStateChange(change, client);
+            } else {
+              get().refreshUnreadCount(accountId);
+            }
+          });
+          const pushEnabled = client.setupPushNotifications();
+          updateConnection(accountId, { isPushConnected: pushEnabled });
+          if (pushEnabled && get().activeAccountId === accountId) {
+            useEmailStore.getState().setPushConnected(true);
+          }
+        } catch (error) {
+          // Push notifications are optional - don't break the app if they fail
+          console.warn('Failed to setup push notifications:', error);
+        }
+      };
 
-          // Try to connect
-          await client.connect();
+      // Sign in to an account without showing it, returns its id
+      const connectAccount = async (serverUrl: string, loginName: string, auth: JMAPAuth, rememberMe: boolean, allowOffline = false) => {
+        const { client, username, identities, primaryIdentity } = await openConnection(serverUrl, loginName, auth, allowOffline);
 
-          // Fetch identities from the server
-          const identities = await client.getIdentities();
-          const primaryIdentity = identities.length > 0 ? identities[0] : null;
+        const accounts = useMultiAccountStore.getState();
+        const existing = accounts.accounts.find((a) => a.jmapServer === serverUrl && a.username === username);
+        const accountId = existing?.id || `account-${Date.now()}`;
+        const details = {
+          email: primaryIdentity?.email || username,
+          displayName: primaryIdentity?.name || undefined,
+          authMethod: auth.type,
+          rememberMe,
+          isActive: true,
+        };
+
+        if (existing) {
+          accounts.updateAccount(accountId, details);
+        } else {
+          accounts.addAccount({
+            id: accountId,
+            username,
+            jmapServer: serverUrl,
+            isPrimary: accounts.accounts.length === 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            ...details,
+          });
+        }
 
-          // If remember me is enabled, store password in sessionStorage
+        // If remember me is enabled, store the tokens (or the Basic auth password) in sessionStorage
+        try {
+          sessionStorage.removeItem(passwordKey(accountId));
+          sessionStorage.removeItem(oauthKey(accountId));
+          sessionStorage.removeItem(proxyKey(accountId));
           if (rememberMe) {
+            if (auth.type === 'proxy') {
+              sessionStorage.setItem(proxyKey(accountId), auth.sessionId);
+            } else if (auth.type === 'oauth') {
+              sessionStorage.setItem(oauthKey(accountId), JSON.stringify(auth.session));
+            } else {
+              sessionStorage.setItem(passwordKey(accountId), btoa(auth.password));
+            }
+          }
+        } catch (e) {
+          console.warn('Failed to store remember me credentials:', e);
+        }
+
+        // Refresh tokens may be single use, the stored one must follow every rotation
+        if (rememberMe && auth.type === 'oauth') {
+          client.onTokensRefreshed(() => {
             try {
-              sessionStorage.setItem('auth-pwd', btoa(password));
+              sessionStorage.setItem(oauthKey(accountId), JSON.stringify(auth.session));
             } catch (e) {
-              console.warn('Failed to store remember me credentials:', e);
+              console.warn('Failed to store refreshed tokens:', e);
             }
+          });
+        }
+
+        // Signing in again replaces the previous session of the same account
+        get().connections[accountId]?.client.disconnect();
+        set((state) => ({
+          connections: {
+            ...state.connections,
+            [accountId]: { client, identities, primaryIdentity, unreadCount: 0, isPushConnected: false },
+          },
+        }));
+        startPush(accountId, client);
+        get().refreshUnreadCount(accountId);
+
+        return accountId;
+      };
+
+      return {
+        isAuthenticated: false,
+        isLoading: false,
+        error: null,
+        serverUrl: null,
+        username: null,
+        client: null,
+        identities: [],
+        primaryIdentity: null,
+        rememberMe: false,
+        activeAccountId: null,
+        connections: {},
+
+        login: async (serverUrl, username, password, rememberMe = false, useProxy = false) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const auth: JMAPAuth = useProxy
+              ? { type: 'proxy', sessionId: await createProxySession({ serverUrl, username, password }) }
+              : { type: 'basic', password };
+            const accountId = await connectAccount(serverUrl, username, auth, rememberMe);
+            await get().switchAccount(accountId);
+            set({ isLoading: false, error: null });
+            return true;
+          } catch (error) {
+            console.error('Login error:', error);
+            // A failed attempt to add an account leaves the current one signed in
+            set({ isLoading: false, error: toLoginErrorKey(error) });
+            return false;
+          }
+        },
+
+        startOAuthLogin: async ({ serverUrl, issuerUrl, clientId, rememberMe, useProxy = false, loginHint }) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const metadata = await discoverOAuthServer(issuerUrl || serverUrl);
+            const { codeVerifier, codeChallenge } = await createPkcePair();
+            const pending: PendingOAuthLogin = {
+              state: randomToken(16),
+              codeVerifier,
+              serverUrl,
+              clientId,
+              tokenEndpoint: metadata.token_endpoint,
+              redirectUri: `${window.location.origin}/auth/callback`,
+              rememberMe,
+              useProxy,
+            };
+            sessionStorage.setItem(PENDING_OAUTH_KEY, JSON.stringify(pending));
+
+            window.location.assign(buildAuthorizationUrl(metadata, {
+              clientId,
+              redirectUri: pending.redirectUri,
+              state: pending.state,
+              codeChallenge,
+              loginHint,
+            }));
+          } catch (error) {
+            console.error('OAuth sign-in error:', error);
+            set({ isLoading: false, error: toLoginErrorKey(error) });
+          }
+        },
+
+        completeOAuthLogin: async (code, state) => {
+          set({ isLoading: true, error: null });
+
+          let pending: PendingOAuthLogin | null = null;
+          try {
+            pending = JSON.parse(sessionStorage.getItem(PENDING_OAUTH_KEY) || 'null');
+          } catch {
+            pending = null;
+          }
+          sessionStorage.removeItem(PENDING_OAUTH_KEY);
+
+          // A state we didn't hand out means the redirect wasn't started from this tab
+          if (!pending || pending.state !== state) {
+            set({ isLoading: false, error: 'oauth_failed' });
+            return false;
+          }
+
+          try {
+            const tokens = await exchangeAuthorizationCode(pending.tokenEndpoint, {
+              clientId: pending.clientId,
+              code,
+              codeVerifier: pending.codeVerifier,
+              redirectUri: pending.redirectUri,
+            });
+            const session: OAuthSession = { clientId: pending.clientId, tokenEndpoint: pending.tokenEndpoint, tokens };
+            // Through the proxy the tokens only pass through this page on their way to the server
+            const auth: JMAPAuth = pending.useProxy
+              ? { type: 'proxy', sessionId: await createProxySession({ serverUrl: pending.serverUrl, tokens }) }
+              : { type: 'oauth', session };
+            const accountId = await connectAccount(pending.serverUrl, '', auth, pending.rememberMe);
+            await get().switchAccount(accountId);
+            set({ isLoading: false, error: null });
+            return true;
+          } catch (error) {
+            console.error('OAuth sign-in error:', error);
+            set({ isLoading: false, error: toLoginErrorKey(error) });
+            return false;
           }
+        },
+
+        switchAccount: async (accountId) => {
+          const connection = get().connections[accountId];
+          const account = useMultiAccountStore.getState().getAccount(accountId);
+          if (!connection || !account) return false;
 
-          // Success - save state
+          const previousAccountId = get().activeAccountId;
+          await Promise.all(ACCOUNT_SCOPED_STORES.map((store) => scopeStore(store, accountId)));
+
+          useMultiAccountStore.getState().setCurrentAccount(accountId);
+          void useOutboxStore.getState().load(connection.client.getAccountId());
           set({
             isAuthenticated: true,
-            isLoading: false,
-            serverUrl,
-            username,
-            client,
-            identities,
-            primaryIdentity,
-            rememberMe,
-            error: null,
+            activeAccountId: accountId,
+            serverUrl: account.jmapServer,
+            username: account.username,
+            client: connection.client,
+            identities: connection.identities,
+            primaryIdentity: connection.primaryIdentity,
+            rememberMe: account.rememberMe,
           });
 
+          // Cleared only once the new client is in place, so the mail view reloads from the right account
+          if (previousAccountId !== accountId) {
+            resetMailState();
+            if (previousAccountId) {
+              // Its badge is no longer fed by the mail view
+              get().refreshUnreadCount(previousAccountId);
+            }
+          }
+          useEmailStore.getState().setPushConnected(connection.isPushConnected);
           return true;
-        } catch (error) {
-          console.error('Login error:', error);
-          let errorKey = 'generic';
-
-          // Map common errors to translation keys
-          if (error instanceof Error) {
-            if (error.message.includes('Invalid username or password') ||
-                error.message.includes('401') ||
-                error.message.includes('Unauthorized')) {
-              errorKey = 'invalid_credentials';
-            } else if (error.message.includes('network') ||
-                       error.message.includes('Failed to fetch')) {
-              errorKey = 'connection_failed';
+        },
+
+        refreshUnreadCount: async (accountId) => {
+          const connection = get().connections[accountId];
+          if (!connection) return;
+          try {
+            const mailboxes = await connection.client.getMailboxes();
+            const inbox = mailboxes.find((mb) => mb.role === 'inbox' && !mb.isShared);
+            updateConnection(accountId, { unreadCount: inbox?.unreadEmails || 0 });
+          } catch (error) {
+            console.error('Failed to refresh unread count:', error);
+          }
+        },
+
+        logout: (accountId) => {
+          const state = get();
+          const signedOutId = accountId || state.activeAccountId;
+          const connection = signedOutId ? state.connections[signedOutId] : undefined;
+
+          // Disconnect the JMAP client if it exists, forgetting the mail cached for it
+          if (connection) {
+            const account = useMultiAccountStore.getState().getAccount(signedOutId!);
+            void clearOfflineCache(connection.client.getAccountId(), account?.jmapServer, account?.username);
+            // Sent before the client goes away below
+            void useWebPushStore.getState().disable(signedOutId!, connection.client);
+            const proxySessionId = connection.client.getProxySessionId();
+            if (proxySessionId) {
+              void endProxySession(proxySessionId);
             }
+            connection.client.disconnect();
+          } else if (!signedOutId && state.client) {
+            state.client.disconnect();
+          }
+
+          const connections = { ...state.connections };
+          if (signedOutId) {
+            delete connections[signedOutId];
+            sessionStorage.removeItem(passwordKey(signedOutId));
+            sessionStorage.removeItem(oauthKey(signedOutId));
+            sessionStorage.removeItem(proxyKey(signedOutId));
+            useMultiAccountStore.getState().deleteAccount(signedOutId);
+          }
+          set({ connections });
+
+          // Signing out of a background account leaves the shown one alone
+          if (signedOutId && signedOutId !== state.activeAccountId) return;
+
+          // Show the next signed-in account, if any
+          const nextAccountId = Object.keys(connections)[0];
+          if (nextAccountId) {
+            get().switchAccount(nextAccountId);
+            return;
           }
 
           set({
-            isLoading: false,
-            error: errorKey,
             isAuthenticated: false,
+            serverUrl: null,
+            username: null,
             client: null,
+            identities: [],
+            primaryIdentity: null,
+            rememberMe: false,
+            activeAccountId: null,
+            error: null,
           });
-          return false;
-        }
-      },
 
-      logout: () => {
-        const state = get();
+          // Clear persisted storage
+          localStorage.removeItem('auth-storage');
+          sessionStorage.removeItem('auth-pwd');
 
-        // Disconnect the JMAP client if it exists
-        if (state.client) {
-          state.client.disconnect();
-        }
+          // Clear email store state
+          resetMailState();
+          useOutboxStore.setState({ accountId: null, entries: [] });
+        },
 
-        set({
-          isAuthenticated: false,
-          serverUrl: null,
-          username: null,
-          client: null,
-          identities: [],
-          primaryIdentity: null,
-          rememberMe: false,
-          error: null,
-        });
-
-        // Clear persisted storage
-        localStorage.removeItem('auth-storage');
-        sessionStorage.removeItem('auth-pwd');
-
-        // Clear email store state
-        useEmailStore.setState({
-          emails: [],
-          mailboxes: [],
-          selectedEmail: null,
-          selectedMailbox: "",
-          isLoading: false,
-          error: null,
-          searchQuery: "",
-          quota: null,
-        });
-      },
-
-      checkAuth: async () => {
-        const state = get();
-
-        // If not authenticated, check if we can restore from remember me
-        if (!state.isAuthenticated && state.rememberMe && state.serverUrl && state.username) {
-          try {
-            const storedPassword = sessionStorage.getItem('auth-pwd');
-            if (storedPassword) {
-              const password = atob(storedPassword);
-              // Try to restore the session
-              const success = await get().login(state.serverUrl, state.username, password, true);
-              if (success) {
+        checkAuth: async () => {
+          const state = get();
+          if (state.client) {
+            set({ isLoading: false });
+            return;
+          }
+
+          // Session remembered before multiple accounts existed
+          const legacyPassword = sessionStorage.getItem('auth-pwd');
+          if (legacyPassword && state.rememberMe && state.serverUrl && state.username) {
+            sessionStorage.removeItem('auth-pwd');
+            await get().login(state.serverUrl, state.username, atob(legacyPassword), true);
+          }
+
+          // Reconnect every remembered account, starting with the one shown last
+          const { accounts, currentAccountId } = useMultiAccountStore.getState();
+          const remembered = accounts
+            .filter((a) => a.rememberMe && !get().connections[a.id] && getStoredAuth(a.id) !== null)
+            .sort((a, b) => Number(b.id === currentAccountId) - Number(a.id === currentAccountId));
+
+          for (const account of remembered) {
+            const auth = getStoredAuth(account.id)!;
+            try {
+              // Offline, the account starts from its cached session and mail
+              const accountId = await connectAccount(account.jmapServer, account.username, auth, true, true);
+              if (!get().client) {
+                await get().switchAccount(accountId);
                 console.log('Session restored from remember me');
-                return;
               }
+            } catch (error) {
+              console.error('Failed to restore session from remember me:', error);
             }
-          } catch (error) {
-            console.error('Failed to restore session from remember me:', error);
-            // Clear invalid credentials
-            sessionStorage.removeItem('auth-pwd');
-            set({ rememberMe: false });
           }
-        }
 
-        // If authenticated but no client (e.g., after page refresh), try to restore
-        if (state.isAuthenticated && !state.client && state.rememberMe && state.serverUrl && state.username) {
-          try {
-            const storedPassword = sessionStorage.getItem('auth-pwd');
-            if (storedPassword) {
-              const password = atob(storedPassword);
-              // Try to restore the session
-              const success = await get().login(state.serverUrl, state.username, password, true);
-              if (success) {
-                console.log('Session restored after page refresh');
-                return;
-              }
+          // Accounts we couldn't reconnect stay listed, signed out
+          for (const account of accounts) {
+            if (!get().connections[account.id] && account.isActive) {
+              useMultiAccountStore.getState().updateAccount(account.id, { isActive: false });
             }
-          } catch (error) {
-            console.error('Failed to restore session after refresh:', error);
-            sessionStorage.removeItem('auth-pwd');
           }
-        }
 
-        // If we can't restore, reset auth state
-        if (state.isAuthenticated && !state.client) {
-          set({
-            isAuthenticated: false,
-            isLoading: false,
-            client: null,
-            serverUrl: null,
-            username: null,
-            rememberMe: false,
-          });
-        }
+          // If we can't restore, reset auth state
+          if (!get().client) {
+            set({
+              isAuthenticated: false,
+              client: null,
+              serverUrl: null,
+              username: null,
+              rememberMe: false,
+              activeAccountId: null,
+            });
+          }
 
-        // Mark loading as complete
-        set({ isLoading: false });
-      },
+          // Mark loading as complete
+          set({ isLoading: false });
+        },
 
-      clearError: () => set({ error: null }),
-    }),
+        clearError: () => set({ error: null }),
+      };
+    },
     {
       name: 'auth-storage',
       partialize: (state) => ({
@@ -204,4 +633,4 @@ export const useAuthStore = create<AuthState>()(
       }),
     }
   )
-);
\ No newline at end of file
+);
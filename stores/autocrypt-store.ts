@@ -0,0 +1,149 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AutocryptPeer, AutocryptRecommendation, AutocryptSettings } from '@/lib/autocrypt-types';
+import {
+  combineRecommendations,
+  getEffectiveDate,
+  getPeerRecommendation,
+  parseAutocryptHeader,
+} from '@/lib/autocrypt-utils';
+import { JMAPClient } from '@/lib/jmap/client';
+import type { Email } from '@/lib/jmap/types';
+import { readBinaryPublicKey } from '@/lib/pgp-utils';
+
+interface AutocryptState {
+  // Peer table, keyed by lower-cased address
+  peers: Record<string, AutocryptPeer>;
+
+  // Settings
+  settings: AutocryptSettings;
+
+  // Harvesting
+  processEmail: (client: JMAPClient, email: Email) => Promise<void>;
+  processGossip: (email: Email, gossipHeaders: string[]) => Promise<void>;
+
+  // Peers
+  getRecommendation: (recipients: string[]) => AutocryptRecommendation;
+  forgetPeer: (addr: string) => void;
+
+  // Settings
+  updateSettings: (settings: Partial<AutocryptSettings>) => void;
+}
+
+const DEFAULT_SETTINGS: AutocryptSettings = {
+  enabled: true,
+  preferEncrypt: 'nopreference',
+};
+
+// Emails whose headers were already processed this session
+const processedEmailIds = new Set<string>();
+
+const getHeaderValues = (headers: Record<string, string | string[]>, name: string) =>
+  Object.entries(headers)
+    .filter(([headerName]) => headerName.toLowerCase() === name)
+    .flatMap(([, value]) => (Array.isArray(value) ? value : [value]));
+
+export const useAutocryptStore = create<AutocryptState>()(
+  persist(
+    (set, get) => ({
+      peers: {},
+      settings: DEFAULT_SETTINGS,
+
+      // Update the sender's peer state from a received message (Level 1, section 2.3)
+      processEmail: async (client, email) => {
+        if (!get().settings.enabled || processedEmailIds.has(email.id)) return;
+        processedEmailIds.add(email.id);
+
+        const senders = email.from || [];
+        if (senders.length !== 1 || !senders[0].email || email.keywords?.$junk) return;
+
+        try {
+          const addr = senders[0].email.toLowerCase();
+          const headers = email.headers || await client.getEmailHeaders(email.id);
+          // Only exactly one header for the sender's own address counts
+          const valid = getHeaderValues(headers, 'autocrypt')
+            .map(parseAutocryptHeader)
+            .filter((header) => header?.addr === addr);
+          const header = valid.length === 1 ? valid[0] : null;
+          const key = header && await readBinaryPublicKey(header.keydata).catch(() => null);
+
+          const date = getEffectiveDate(email.sentAt, email.receivedAt);
+          const peer = get().peers[addr];
+          if (!peer && !key) return;
+          if (peer?.autocryptTimestamp && date < peer.autocryptTimestamp) return;
+
+          const updated: AutocryptPeer = {
+            ...(peer || { addr, preferEncrypt: 'nopreference' }),
+            lastSeen: !peer?.lastSeen || date > peer.lastSeen ? date : peer.lastSeen,
+            ...(header && key && {
+              autocryptTimestamp: date,
+              key,
+              preferEncrypt: header.preferEncrypt,
+            }),
+          };
+          set((state) => ({ peers: { ...state.peers, [addr]: updated } }));
+        } catch (error) {
+          console.error('Failed to process Autocrypt headers:', error);
+        }
+      },
+
+      // Keys of the other recipients, from the headers inside an encrypted message
+      processGossip: async (email, gossipHeaders) => {
+        if (!get().settings.enabled || gossipHeaders.length === 0) return;
+
+        const recipients = [...(email.to || []), ...(email.cc || [])].map((r) => r.email.toLowerCase());
+        const date = getEffectiveDate(email.sentAt, email.receivedAt);
+
+        for (const value of gossipHeaders) {
+          const header = parseAutocryptHeader(value);
+          if (!header || !recipients.includes(header.addr)) continue;
+
+          const peer = get().peers[header.addr];
+          if (peer?.gossipTimestamp && date <= peer.gossipTimestamp) continue;
+
+          const gossipKey = await readBinaryPublicKey(header.keydata).catch(() => null);
+          if (!gossipKey) continue;
+
+          set((state) => ({
+            peers: {
+              ...state.peers,
+              [header.addr]: {
+                ...(state.peers[header.addr] || { addr: header.addr, preferEncrypt: 'nopreference' }),
+                gossipTimestamp: date,
+                gossipKey,
+              },
+            },
+          }));
+        }
+      },
+
+      getRecommendation: (recipients) => {
+        const { peers, settings } = get();
+        if (!settings.enabled) return 'disable';
+        return combineRecommendations(
+          recipients.map((email) => getPeerRecommendation(peers[email.toLowerCase()], settings.preferEncrypt))
+        );
+      },
+
+      forgetPeer: (addr) =>
+        set((state) => {
+          const peers = { ...state.peers };
+          delete peers[addr.toLowerCase()];
+          return { peers };
+        }),
+
+      updateSettings: (updates) =>
+        set((state) => ({
+          settings: { ...state.settings, ...updates },
+        })),
+    }),
+    {
+      name: 'autocrypt-store',
+      version: 1,
+      partialize: (state) => ({
+        peers: state.peers,
+        settings: state.settings,
+      }),
+    }
+  )
+);
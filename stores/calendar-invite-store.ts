@@ -2,168 +2,164 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import {
   CalendarInvite,
-  InviteResponse,
-  InviteNotification,
   CalendarInviteSettings,
-  InviteStatus,
+  InviteAnswer,
+  InviteResponse,
+  findAttendee,
 } from '@/lib/calendar-invite-types';
+import { buildInviteReply, parseCalendarInvite } from '@/lib/ical-utils';
+import { JMAPClient } from '@/lib/jmap/client';
+import type { CalendarEvent, Email, Identity } from '@/lib/jmap/types';
+import { useCalendarStore } from '@/stores/calendar-store';
 
 interface CalendarInviteState {
-  // Invites
-  invites: CalendarInvite[];
-  
-  // Responses
-  responses: InviteResponse[];
-  
-  // Notifications
-  notifications: InviteNotification[];
-  
+  // Invitations parsed from emails, keyed by email id
+  invites: Record<string, CalendarInvite>;
+
+  // The user's answers, keyed by event UID
+  responses: Record<string, InviteResponse>;
+
   // Settings
   settings: CalendarInviteSettings;
-  
+
   // UI state
-  selectedInviteId: string | null;
-  
+  isResponding: boolean;
+
   // Invite Actions
-  addInvite: (invite: CalendarInvite) => void;
-  updateInvite: (id: string, updates: Partial<CalendarInvite>) => void;
-  deleteInvite: (id: string) => void;
-  getInvite: (id: string) => CalendarInvite | undefined;
-  getInvitesByEmail: (email: string) => CalendarInvite[];
-  getPendingInvites: () => CalendarInvite[];
-  getUpcomingInvites: (days?: number) => CalendarInvite[];
-  
-  // Response Actions
-  respondToInvite: (inviteId: string, response: InviteResponse) => void;
-  getResponse: (inviteId: string) => InviteResponse | undefined;
-  
-  // Notification Actions
-  addNotification: (notification: InviteNotification) => void;
-  markNotificationAsRead: (notificationId: string) => void;
-  deleteNotification: (notificationId: string) => void;
-  getUnreadNotifications: () => InviteNotification[];
-  
+  loadInvite: (client: JMAPClient, emailId: string, blobId: string) => Promise<CalendarInvite | null>;
+  findExistingEvent: (client: JMAPClient, invite: CalendarInvite) => Promise<CalendarEvent | null>;
+  respondToInvite: (
+    client: JMAPClient,
+    invite: CalendarInvite,
+    status: InviteAnswer,
+    identities: Identity[],
+    email: Email,
+    replyText: { subject: string; body: string }
+  ) => Promise<void>;
+  removeCanceledEvent: (client: JMAPClient, invite: CalendarInvite) => Promise<void>;
+  getResponse: (invite: CalendarInvite) => InviteResponse | undefined;
+
   // Settings
   updateSettings: (settings: Partial<CalendarInviteSettings>) => void;
-  getSettings: () => CalendarInviteSettings;
-  
-  // Utilities
-  getInvitesByStatus: (status: InviteStatus) => CalendarInvite[];
-  getInvitesByOrganizer: (organizerEmail: string) => CalendarInvite[];
-  
-  // UI
-  setSelectedInviteId: (id: string | null) => void;
 }
 
 const DEFAULT_SETTINGS: CalendarInviteSettings = {
-  autoAcceptFromTrustedSenders: false,
-  trustedSenders: [],
-  sendResponseNotifications: true,
-  showInvitesInCalendar: true,
-  defaultResponse: 'tentative',
-  reminderMinutes: [15, 60, 1440], // 15 min, 1 hour, 1 day
+  sendReplies: true,
+  calendarId: null,
+};
+
+// Answer as the identity the invitation was addressed to
+const findInvitedIdentity = (invite: CalendarInvite, identities: Identity[], email: Email) => {
+  const attendee = findAttendee(invite, identities.map((identity) => identity.email));
+  const recipients = [...(email.to || []), ...(email.cc || [])].map((addr) => addr.email.toLowerCase());
+  return (attendee && identities.find((identity) => identity.email.toLowerCase() === attendee.email.toLowerCase()))
+    || identities.find((identity) => recipients.includes(identity.email.toLowerCase()))
+    || identities[0];
 };
 
 export const useCalendarInviteStore = create<CalendarInviteState>()(
   persist(
     (set, get) => ({
-      invites: [],
-      responses: [],
-      notifications: [],
+      invites: {},
+      responses: {},
       settings: DEFAULT_SETTINGS,
-      selectedInviteId: null,
+      isResponding: false,
 
       // Invite Actions
-      addInvite: (invite) =>
-        set((state) => ({
-          invites: [...state.invites, invite],
-        })),
-
-      updateInvite: (id, updates) =>
-        set((state) => ({
-          invites: state.invites.map((i) =>
-            i.id === id ? { ...i, ...updates, updatedAt: new Date() } : i
-          ),
-        })),
-
-      deleteInvite: (id) =>
-        set((state) => ({
-          invites: state.invites.filter((i) => i.id !== id),
-        })),
-
-      getInvite: (id) => {
-        const state = get();
-        return state.invites.find((i) => i.id === id);
+      loadInvite: async (client, emailId, blobId) => {
+        const cached = get().invites[emailId];
+        if (cached) return cached;
+
+        try {
+          const icalData = await client.getCalendarData(blobId);
+          const invite = parseCalendarInvite(emailId, icalData);
+          if (invite) {
+            set((state) => ({
+              invites: { ...state.invites, [emailId]: invite },
+            }));
+          }
+          return invite;
+        } catch (error) {
+          console.error('Failed to load calendar invitation:', error);
+          return null;
+        }
       },
 
-      getInvitesByEmail: (email) => {
-        const state = get();
-        return state.invites.filter(
-          (i) =>
-            i.organizer.email === email ||
-            i.attendees.some((a) => a.email === email)
-        );
+      findExistingEvent: async (client, invite) => {
+        if (!client.supportsCalendars()) return null;
+        return client.findCalendarEventByUid(invite.uid);
       },
 
-      getPendingInvites: () => {
-        const state = get();
-        return state.invites.filter((i) => i.status === 'pending');
+      respondToInvite: async (client, invite, status, identities, email, replyText) => {
+        const identity = findInvitedIdentity(invite, identities, email);
+        if (!identity) {
+          throw new Error('No identity available to answer the invitation from');
+        }
+
+        set({ isResponding: true });
+        try {
+          if (client.supportsCalendars()) {
+            const calendarStore = useCalendarStore.getState();
+            const existing = await client.findCalendarEventByUid(invite.uid);
+            const calendarId = existing?.calendarId || get().settings.calendarId || calendarStore.calendars[0]?.id;
+            if (calendarId) {
+              await client.saveCalendarInvite(invite, calendarId, identity.email, status, existing?.id);
+              await calendarStore.syncCalendars(client);
+            }
+          }
+
+          if (get().settings.sendReplies && invite.organizer.email) {
+            const attendee = findAttendee(invite, [identity.email]);
+            const reply = buildInviteReply(invite, { name: attendee?.name || identity.name, email: identity.email }, status);
+            const { blobId, size } = await client.uploadBlob(
+              new File([reply], 'reply.ics', { type: 'text/calendar' })
+            );
+            await client.sendEmail(
+              [invite.organizer.email],
+              replyText.subject,
+              replyText.body,
+              undefined,
+              undefined,
+              undefined,
+              identity.email,
+              identity.id,
+              { attachments: [{ blobId, size, name: 'reply.ics', type: 'text/calendar' }] }
+            );
+          }
+
+          set((state) => ({
+            responses: {
+              ...state.responses,
+              [invite.uid]: {
+                uid: invite.uid,
+                sequence: invite.sequence,
+                status,
+                respondedAt: new Date().toISOString(),
+              },
+            },
+          }));
+        } finally {
+          set({ isResponding: false });
+        }
       },
 
-      getUpcomingInvites: (days = 7) => {
-        const state = get();
-        const now = new Date();
-        const futureDate = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
-
-        return state.invites.filter(
-          (i) => i.startTime >= now && i.startTime <= futureDate
-        );
+      removeCanceledEvent: async (client, invite) => {
+        set({ isResponding: true });
+        try {
+          const existing = await client.findCalendarEventByUid(invite.uid);
+          if (existing) {
+            await client.deleteCalendarEvent(existing.id);
+            await useCalendarStore.getState().syncCalendars(client);
+          }
+        } finally {
+          set({ isResponding: false });
+        }
       },
 
-      // Response Actions
-      respondToInvite: (inviteId, response) =>
-        set((state) => {
-          const existing = state.responses.find((r) => r.inviteId === inviteId);
-          const newResponses = existing
-            ? state.responses.map((r) =>
-                r.inviteId === inviteId ? { ...response, id: r.id } : r
-              )
-            : [...state.responses, response];
-
-          return {
-            responses: newResponses,
-            invites: state.invites.map((i) =>
-              i.id === inviteId ? { ...i, status: response.status } : i
-            ),
-          };
-        }),
-
-      getResponse: (inviteId) => {
-        const state = get();
-        return state.responses.find((r) => r.inviteId === inviteId);
-      },
-
-      // Notification Actions
-      addNotification: (notification) =>
-        set((state) => ({
-          notifications: [...state.notifications, notification],
-        })),
-
-      markNotificationAsRead: (notificationId) =>
-        set((state) => ({
-          notifications: state.notifications.map((n) =>
-            n.id === notificationId ? { ...n, read: true } : n
-          ),
-        })),
-
-      deleteNotification: (notificationId) =>
-        set((state) => ({
-          notifications: state.notifications.filter((n) => n.id !== notificationId),
-        })),
-
-      getUnreadNotifications: () => {
-        const state = get();
-        return state.notifications.filter((n) => !n.read);
+      // An answer only counts for the revision it was given to
+      getResponse: (invite) => {
+        const response = get().responses[invite.uid];
+        return response && response.sequence >= invite.sequence ? response : undefined;
       },
 
       // Settings
@@ -171,29 +167,16 @@ export const useCalendarInviteStore = create<CalendarInviteState>()(
         set((state) => ({
           settings: { ...state.settings, ...updates },
         })),
-
-      getSettings: () => {
-        const state = get();
-        return state.settings;
-      },
-
-      // Utilities
-      getInvitesByStatus: (status) => {
-        const state = get();
-        return state.invites.filter((i) => i.status === status);
-      },
-
-      getInvitesByOrganizer: (organizerEmail) => {
-        const state = get();
-        return state.invites.filter((i) => i.organizer.email === organizerEmail);
-      },
-
-      // UI
-      setSelectedInviteId: (id) => set({ selectedInviteId: id }),
     }),
     {
       name: 'calendar-invite-store',
-      version: 1,
+      version: 2,
+      partialize: (state) => ({
+        responses: state.responses,
+        settings: state.settings,
+      }),
+      // Version 1 kept local invite copies in a different shape
+      migrate: () => ({ responses: {}, settings: DEFAULT_SETTINGS }),
     }
   )
 );
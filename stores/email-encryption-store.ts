@@ -1,203 +1,395 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { PrivateKey } from 'openpgp';
+import { buildAutocryptHeader, buildGossipHeader, getPeerKey } from '@/lib/autocrypt-utils';
 import {
-  PGPKey,
-  EncryptedEmail,
+  DecryptionResult,
   EncryptionSettings,
-  EncryptionMethod,
+  OpenPGPSendMode,
+  OutgoingProtectedMessage,
+  PGPKey,
+  PGP_ARMORED_MESSAGE,
+  PGP_SIGNED_MESSAGE,
+  getTextBody,
+  hasPGPMimeParts,
 } from '@/lib/email-encryption-types';
+import { JMAPClient } from '@/lib/jmap/client';
+import type { Email } from '@/lib/jmap/types';
+import {
+  buildContentEntity,
+  decodeEntityBody,
+  extractMimeContent,
+  getHeaderValues,
+  parseMimeEntity,
+} from '@/lib/mime-utils';
+import {
+  buildEncryptedEntity,
+  buildSignedEntity,
+  decryptText,
+  encryptText,
+  generateKeyPair,
+  getKeyIds,
+  getMessageKeyIds,
+  getMicalg,
+  readArmoredKeys,
+  signDetached,
+  unlockPrivateKey,
+  verifyCleartext,
+  verifyDetached,
+} from '@/lib/pgp-utils';
+import { useAutocryptStore } from '@/stores/autocrypt-store';
 
 interface EmailEncryptionState {
-  // Keys
+  // Keyring; private keys are stored passphrase-protected only
   keys: PGPKey[];
-  
-  // Encrypted emails
-  encryptedEmails: EncryptedEmail[];
-  
+
   // Settings
   settings: EncryptionSettings;
-  
-  // UI state
-  selectedKeyId: string | null;
-  
+
+  // Private keys unlocked for this session (never persisted)
+  unlockedKeyIds: string[];
+
+  // Opened messages, keyed by email id (never persisted)
+  openedMessages: Record<string, DecryptionResult>;
+
   // Key Actions
-  addKey: (key: PGPKey) => void;
-  updateKey: (id: string, updates: Partial<PGPKey>) => void;
+  generateKey: (name: string, email: string, passphrase: string) => Promise<PGPKey>;
+  importKeys: (armored: string, passphrase?: string) => Promise<PGPKey[]>;
   deleteKey: (id: string) => void;
-  getKey: (id: string) => PGPKey | undefined;
   getKeysByEmail: (email: string) => PGPKey[];
-  getPublicKeys: () => PGPKey[];
   getPrivateKeys: () => PGPKey[];
-  getDefaultPrivateKey: () => PGPKey | undefined;
-  setDefaultPrivateKey: (keyId: string) => void;
-  
-  // Encrypted Email Actions
-  addEncryptedEmail: (email: EncryptedEmail) => void;
-  getEncryptedEmail: (emailId: string) => EncryptedEmail | undefined;
-  updateEncryptedEmail: (emailId: string, updates: Partial<EncryptedEmail>) => void;
-  deleteEncryptedEmail: (emailId: string) => void;
-  
+  getDefaultPrivateKey: (fromEmail?: string) => PGPKey | undefined;
+  setDefaultPrivateKey: (id: string) => void;
+  findRecipientKeys: (emails: string[]) => { found: PGPKey[]; missing: string[] };
+  getAutocryptHeader: (fromEmail: string) => Promise<string | undefined>;
+
+  // Session Actions
+  unlockKey: (id: string, passphrase: string) => Promise<void>;
+  lockKeys: () => void;
+  isUnlocked: (id: string) => boolean;
+
+  // Message Actions
+  buildMimeBody: (client: JMAPClient, message: OutgoingProtectedMessage, mode: OpenPGPSendMode) => Promise<string>;
+  openMessage: (client: JMAPClient, email: Email) => Promise<DecryptionResult>;
+  forgetOpenedMessages: () => void;
+
   // Settings
   updateSettings: (settings: Partial<EncryptionSettings>) => void;
-  getSettings: () => EncryptionSettings;
-  
-  // Trusted Recipients
-  addTrustedRecipient: (email: string) => void;
-  removeTrustedRecipient: (email: string) => void;
-  isTrustedRecipient: (email: string) => boolean;
-  
-  // UI
-  setSelectedKeyId: (keyId: string | null) => void;
 }
 
 const DEFAULT_SETTINGS: EncryptionSettings = {
-  enableEncryption: false,
-  encryptionMethod: 'pgp',
-  autoEncryptToTrustedRecipients: false,
+  encryptByDefault: false,
   autoSignEmails: false,
-  trustedRecipients: [],
+};
+
+const unlockedKeys = new Map<string, PrivateKey>();
+
+const PLAIN_RESULT: DecryptionResult = {
+  status: 'plain',
+  isEncrypted: false,
+  signature: null,
+  attachments: [],
+};
+
+// Merge newly read keys into the keyring; a private key replaces the public-only copy
+const mergeKeys = (keys: PGPKey[], added: PGPKey[]) => {
+  const merged = [...keys];
+  for (const key of added) {
+    const index = merged.findIndex((existing) => existing.id === key.id);
+    if (index === -1) {
+      merged.push(key);
+    } else if (key.type === 'private' || merged[index].type === 'public') {
+      merged[index] = { ...key, isDefault: merged[index].isDefault };
+    }
+  }
+  return merged;
 };
 
 export const useEmailEncryptionStore = create<EmailEncryptionState>()(
   persist(
-    (set, get) => ({
-      keys: [],
-      encryptedEmails: [],
-      settings: DEFAULT_SETTINGS,
-      selectedKeyId: null,
-
-      // Key Actions
-      addKey: (key) =>
-        set((state) => ({
-          keys: [...state.keys, key],
-        })),
-
-      updateKey: (id, updates) =>
-        set((state) => ({
-          keys: state.keys.map((k) =>
-            k.id === id ? { ...k, ...updates } : k
-          ),
-        })),
-
-      deleteKey: (id) =>
-        set((state) => ({
-          keys: state.keys.filter((k) => k.id !== id),
-        })),
-
-      getKey: (id) => {
-        const state = get();
-        return state.keys.find((k) => k.id === id);
-      },
-
-      getKeysByEmail: (email) => {
-        const state = get();
-        return state.keys.filter((k) => k.email === email);
-      },
-
-      getPublicKeys: () => {
-        const state = get();
-        return state.keys.filter((k) => k.type === 'public');
-      },
-
-      getPrivateKeys: () => {
-        const state = get();
-        return state.keys.filter((k) => k.type === 'private');
-      },
-
-      getDefaultPrivateKey: () => {
-        const state = get();
-        const defaultKeyId = state.settings.defaultPrivateKeyId;
-        if (defaultKeyId) {
-          return state.keys.find((k) => k.id === defaultKeyId && k.type === 'private');
+    (set, get) => {
+      const requireUnlocked = (key: PGPKey | undefined) => {
+        const privateKey = key && unlockedKeys.get(key.id);
+        if (!key) throw new Error('No private key available');
+        if (!privateKey) throw new Error(`The key for ${key.email} is locked`);
+        return privateKey;
+      };
+
+      // Decrypt with whichever unlocked key the message is encrypted to
+      const decryptArmored = async (armored: string, senderEmail?: string): Promise<DecryptionResult | { data: string; signature: DecryptionResult['signature'] }> => {
+        const neededKeyIds = await getMessageKeyIds(armored);
+        const candidates = await Promise.all(get().getPrivateKeys().map(async (key) => ({
+          key,
+          matches: (await getKeyIds(key.publicKeyArmored)).some((keyId) => neededKeyIds.includes(keyId)),
+        })));
+        const matching = candidates.filter(({ matches }) => matches).map(({ key }) => key);
+        const decryptionKeys = matching
+          .map((key) => unlockedKeys.get(key.id))
+          .filter((key): key is PrivateKey => !!key);
+
+        if (decryptionKeys.length === 0) {
+          return {
+            ...PLAIN_RESULT,
+            status: matching.length > 0 ? 'locked' : 'no-key',
+            isEncrypted: true,
+            neededKeyIds,
+          };
         }
-        return state.keys.find((k) => k.type === 'private' && k.isDefault);
-      },
-
-      setDefaultPrivateKey: (keyId) =>
-        set((state) => {
-          const key = state.keys.find((k) => k.id === keyId);
-          if (key && key.type === 'private') {
-            return {
-              keys: state.keys.map((k) => ({
-                ...k,
-                isDefault: k.id === keyId,
-              })),
-              settings: {
-                ...state.settings,
-                defaultPrivateKeyId: keyId,
-              },
-            };
+        return decryptText(armored, decryptionKeys, get().keys, senderEmail);
+      };
+
+      return {
+        keys: [],
+        settings: DEFAULT_SETTINGS,
+        unlockedKeyIds: [],
+        openedMessages: {},
+
+        // Key Actions
+        generateKey: async (name, email, passphrase) => {
+          const key = await generateKeyPair(name, email, passphrase);
+          set((state) => ({ keys: mergeKeys(state.keys, [key]) }));
+          if (!get().settings.defaultPrivateKeyId) {
+            get().setDefaultPrivateKey(key.id);
+          }
+          return key;
+        },
+
+        importKeys: async (armored, passphrase) => {
+          const imported = await readArmoredKeys(armored, passphrase);
+          if (imported.length === 0) {
+            throw new Error('No OpenPGP key found');
+          }
+          set((state) => ({ keys: mergeKeys(state.keys, imported), openedMessages: {} }));
+          const firstPrivate = imported.find((key) => key.type === 'private');
+          if (firstPrivate && !get().settings.defaultPrivateKeyId) {
+            get().setDefaultPrivateKey(firstPrivate.id);
           }
-          return state;
-        }),
-
-      // Encrypted Email Actions
-      addEncryptedEmail: (email) =>
-        set((state) => ({
-          encryptedEmails: [...state.encryptedEmails, email],
-        })),
-
-      getEncryptedEmail: (emailId) => {
-        const state = get();
-        return state.encryptedEmails.find((e) => e.emailId === emailId);
-      },
-
-      updateEncryptedEmail: (emailId, updates) =>
-        set((state) => ({
-          encryptedEmails: state.encryptedEmails.map((e) =>
-            e.emailId === emailId ? { ...e, ...updates } : e
-          ),
-        })),
-
-      deleteEncryptedEmail: (emailId) =>
-        set((state) => ({
-          encryptedEmails: state.encryptedEmails.filter((e) => e.emailId !== emailId),
-        })),
-
-      // Settings
-      updateSettings: (updates) =>
-        set((state) => ({
-          settings: { ...state.settings, ...updates },
-        })),
-
-      getSettings: () => {
-        const state = get();
-        return state.settings;
-      },
-
-      // Trusted Recipients
-      addTrustedRecipient: (email) =>
-        set((state) => {
-          if (!state.settings.trustedRecipients.includes(email)) {
-            return {
-              settings: {
-                ...state.settings,
-                trustedRecipients: [...state.settings.trustedRecipients, email],
-              },
+          return imported;
+        },
+
+        deleteKey: (id) => {
+          unlockedKeys.delete(id);
+          set((state) => ({
+            keys: state.keys.filter((k) => k.id !== id),
+            unlockedKeyIds: state.unlockedKeyIds.filter((keyId) => keyId !== id),
+            openedMessages: {},
+            settings: state.settings.defaultPrivateKeyId === id
+              ? { ...state.settings, defaultPrivateKeyId: undefined }
+              : state.settings,
+          }));
+        },
+
+        getKeysByEmail: (email) => {
+          const address = email.toLowerCase();
+          return get().keys.filter((k) =>
+            k.email.toLowerCase() === address ||
+            k.userIds.some((userId) => userId.toLowerCase().includes(`<${address}>`))
+          );
+        },
+
+        getPrivateKeys: () => get().keys.filter((k) => k.type === 'private'),
+
+        // The key for the sending address, otherwise the default one
+        getDefaultPrivateKey: (fromEmail) => {
+          const state = get();
+          const privateKeys = state.getPrivateKeys();
+          const forAddress = fromEmail
+            ? state.getKeysByEmail(fromEmail).filter((k) => k.type === 'private')
+            : [];
+          return forAddress.find((k) => k.isDefault) || forAddress[0]
+            || privateKeys.find((k) => k.id === state.settings.defaultPrivateKeyId)
+            || privateKeys[0];
+        },
+
+        setDefaultPrivateKey: (id) =>
+          set((state) => {
+            const key = state.keys.find((k) => k.id === id);
+            if (key && key.type === 'private') {
+              return {
+                keys: state.keys.map((k) => ({
+                  ...k,
+                  isDefault: k.id === id,
+                })),
+                settings: {
+                  ...state.settings,
+                  defaultPrivateKeyId: id,
+                },
+              };
+            }
+            return state;
+          }),
+
+        // Keys from the keyring first, then the ones learned through Autocrypt
+        findRecipientKeys: (emails) => {
+          const { peers, settings: autocrypt } = useAutocryptStore.getState();
+          const found: PGPKey[] = [];
+          const missing: string[] = [];
+          for (const email of emails) {
+            const key = get().getKeysByEmail(email)[0]
+              || (autocrypt.enabled ? getPeerKey(peers[email.toLowerCase()]) : undefined);
+            if (key) {
+              found.push(key);
+            } else {
+              missing.push(email);
+            }
+          }
+          return { found, missing };
+        },
+
+        // Only a key made for the sending address is announced
+        getAutocryptHeader: async (fromEmail) => {
+          const { settings: autocrypt } = useAutocryptStore.getState();
+          const key = get().getKeysByEmail(fromEmail).find((k) => k.type === 'private');
+          if (!autocrypt.enabled || !key) return undefined;
+          return buildAutocryptHeader(fromEmail, key.publicKeyArmored, autocrypt.preferEncrypt);
+        },
+
+        // Session Actions
+        unlockKey: async (id, passphrase) => {
+          const key = get().keys.find((k) => k.id === id);
+          if (!key) throw new Error('Key not found');
+          unlockedKeys.set(id, await unlockPrivateKey(key, passphrase));
+          set((state) => ({
+            unlockedKeyIds: [...state.unlockedKeyIds.filter((keyId) => keyId !== id), id],
+            // Messages that were locked can be opened now
+            openedMessages: Object.fromEntries(
+              Object.entries(state.openedMessages).filter(([, result]) => result.status !== 'locked')
+            ),
+          }));
+        },
+
+        lockKeys: () => {
+          unlockedKeys.clear();
+          set({ unlockedKeyIds: [], openedMessages: {} });
+        },
+
+        isUnlocked: (id) => get().unlockedKeyIds.includes(id),
+
+        // Message Actions
+        buildMimeBody: async (client, message, mode) => {
+          const attachments = await Promise.all((message.attachments || []).map(async (att) => ({
+            name: att.name,
+            type: att.type,
+            data: await client.getBlobBytes(att.blobId),
+            cid: att.cid,
+            disposition: att.disposition || (att.cid ? 'inline' as const : 'attachment' as const),
+          })));
+          let content = buildContentEntity(message.body, message.htmlBody, attachments);
+
+          const senderKey = get().getDefaultPrivateKey(message.from);
+          const signingKey = mode.sign ? requireUnlocked(senderKey) : undefined;
+
+          if (mode.encrypt) {
+            const { found, missing } = get().findRecipientKeys(message.recipients);
+            if (missing.length > 0) {
+              throw new Error(`No public key for ${missing.join(', ')}`);
+            }
+            // Let every recipient learn the others' keys, inside the encrypted part
+            if (found.length > 1 && useAutocryptStore.getState().settings.enabled) {
+              const gossip = await Promise.all(message.recipients.map((addr, i) => buildGossipHeader(addr, found[i].publicKeyArmored)));
+              content = gossip.map((value) => `Autocrypt-Gossip: ${value}\r\n`).join('') + content;
+            }
+            // Also encrypted to the sender, so the copy in Sent stays readable
+            const publicKeys = [...found, ...(senderKey ? [senderKey] : [])].map((key) => key.publicKeyArmored);
+            return buildEncryptedEntity(await encryptText(content, publicKeys, signingKey));
+          }
+
+          if (signingKey) {
+            const signature = await signDetached(content, signingKey);
+            return buildSignedEntity(content, signature, await getMicalg(signature));
+          }
+
+          return content;
+        },
+
+        openMessage: async (client, email) => {
+          const cached = get().openedMessages[email.id];
+          if (cached) return cached;
+
+          const senderEmail = email.from?.[0]?.email;
+          const textBody = getTextBody(email);
+          let result: DecryptionResult = PLAIN_RESULT;
+
+          try {
+            if (hasPGPMimeParts(email)) {
+              const message = parseMimeEntity(await client.getRawEmail(email.id, email.accountId));
+
+              if (message.contentType === 'multipart/encrypted' && message.parts[1]) {
+                const armored = new TextDecoder().decode(decodeEntityBody(message.parts[1]));
+                const decrypted = await decryptArmored(armored, senderEmail);
+                if ('status' in decrypted) {
+                  result = decrypted;
+                } else {
+                  // Signed and then encrypted as two layers (RFC 3156 Section 6.1)
+                  const inner = parseMimeEntity(decrypted.data);
+                  const gossipHeaders = [inner, ...(inner.contentType === 'multipart/signed' ? inner.parts.slice(0, 1) : [])]
+                    .flatMap((entity) => getHeaderValues(entity, 'autocrypt-gossip'));
+                  void useAutocryptStore.getState().processGossip(email, gossipHeaders);
+                  if (inner.contentType === 'multipart/signed' && inner.parts.length === 2) {
+                    const signature = await verifyDetached(
+                      inner.parts[0].raw,
+                      new TextDecoder().decode(decodeEntityBody(inner.parts[1])),
+                      get().keys,
+                      senderEmail
+                    );
+                    result = { ...PLAIN_RESULT, status: 'ok', isEncrypted: true, signature, ...extractMimeContent(inner.parts[0]) };
+                  } else {
+                    result = { ...PLAIN_RESULT, status: 'ok', isEncrypted: true, signature: decrypted.signature, ...extractMimeContent(inner) };
+                  }
+                }
+              } else if (message.contentType === 'multipart/signed' && message.parts.length === 2) {
+                const signature = await verifyDetached(
+                  message.parts[0].raw,
+                  new TextDecoder().decode(decodeEntityBody(message.parts[1])),
+                  get().keys,
+                  senderEmail
+                );
+                result = { ...PLAIN_RESULT, status: 'ok', signature, ...extractMimeContent(message.parts[0]) };
+              }
+            } else if (PGP_ARMORED_MESSAGE.test(textBody)) {
+              // Inline PGP: the body is a plain armored message
+              const decrypted = await decryptArmored(textBody.match(PGP_ARMORED_MESSAGE)![0], senderEmail);
+              result = 'status' in decrypted
+                ? decrypted
+                : { ...PLAIN_RESULT, status: 'ok', isEncrypted: true, signature: decrypted.signature, text: decrypted.data };
+            } else if (PGP_SIGNED_MESSAGE.test(textBody)) {
+              const verified = await verifyCleartext(textBody.match(PGP_SIGNED_MESSAGE)![0], get().keys, senderEmail);
+              result = { ...PLAIN_RESULT, status: 'ok', signature: verified.signature, text: verified.text };
+            }
+          } catch (error) {
+            console.error('Failed to open OpenPGP message:', error);
+            result = {
+              ...PLAIN_RESULT,
+              status: 'failed',
+              isEncrypted: hasPGPMimeParts(email) || PGP_ARMORED_MESSAGE.test(textBody),
+              error: error instanceof Error ? error.message : String(error),
             };
           }
-          return state;
-        }),
-
-      removeTrustedRecipient: (email) =>
-        set((state) => ({
-          settings: {
-            ...state.settings,
-            trustedRecipients: state.settings.trustedRecipients.filter((e) => e !== email),
-          },
-        })),
-
-      isTrustedRecipient: (email) => {
-        const state = get();
-        return state.settings.trustedRecipients.includes(email);
-      },
-
-      // UI
-      setSelectedKeyId: (keyId) => set({ selectedKeyId: keyId }),
-    }),
+
+          set((state) => ({
+            openedMessages: { ...state.openedMessages, [email.id]: result },
+          }));
+          return result;
+        },
+
+        forgetOpenedMessages: () => set({ openedMessages: {} }),
+
+        // Settings
+        updateSettings: (updates) =>
+          set((state) => ({
+            settings: { ...state.settings, ...updates },
+          })),
+      };
+    },
     {
       name: 'email-encryption-store',
-      version: 1,
+      version: 2,
+      partialize: (state) => ({
+        keys: state.keys,
+        settings: state.settings,
+      }),
+      // Version 1 could hold unprotected private keys; they are dropped rather than migrated
+      migrate: () => ({ keys: [], settings: DEFAULT_SETTINGS }),
     }
   )
 );
@@ -1,129 +1,83 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import { ScheduledEmail, EmailSchedule, ScheduleReminder } from '@/lib/email-scheduling-types';
+import { ScheduledEmail } from '@/lib/email-scheduling-types';
+import { JMAPClient } from '@/lib/jmap/client';
 
+// Scheduled emails are pending EmailSubmissions, so the server is the source of truth
 interface EmailSchedulingState {
-  // Scheduled emails
   scheduledEmails: ScheduledEmail[];
-  
-  // Reminders
-  reminders: ScheduleReminder[];
-  
+
   // UI state
+  isLoading: boolean;
   isScheduling: boolean;
-  selectedScheduleId: string | null;
-  
+  error: string | null;
+
   // Actions
-  scheduleEmail: (email: ScheduledEmail) => void;
-  updateSchedule: (scheduleId: string, updates: Partial<EmailSchedule>) => void;
-  cancelSchedule: (scheduleId: string) => void;
-  getScheduledEmail: (scheduleId: string) => ScheduledEmail | undefined;
-  getScheduledEmails: () => ScheduledEmail[];
+  fetchScheduledEmails: (client: JMAPClient) => Promise<void>;
+  rescheduleEmail: (client: JMAPClient, submissionId: string, sendAt: Date) => Promise<void>;
+  cancelSchedule: (client: JMAPClient, submissionId: string) => Promise<void>;
+  getScheduledEmail: (submissionId: string) => ScheduledEmail | undefined;
   getUpcomingSchedules: (hours?: number) => ScheduledEmail[];
-  
-  // Reminders
-  addReminder: (reminder: ScheduleReminder) => void;
-  markReminderNotified: (reminderId: string) => void;
-  getPendingReminders: () => ScheduleReminder[];
-  
-  // UI
-  setIsScheduling: (isScheduling: boolean) => void;
-  setSelectedScheduleId: (scheduleId: string | null) => void;
 }
 
-export const useEmailSchedulingStore = create<EmailSchedulingState>()(
-  persist(
-    (set, get) => ({
-      scheduledEmails: [],
-      reminders: [],
-      isScheduling: false,
-      selectedScheduleId: null,
-
-      scheduleEmail: (email) =>
-        set((state) => ({
-          scheduledEmails: [...state.scheduledEmails, email],
-        })),
-
-      updateSchedule: (scheduleId, updates) =>
-        set((state) => ({
-          scheduledEmails: state.scheduledEmails.map((email) =>
-            email.schedule.id === scheduleId
-              ? {
-                  ...email,
-                  schedule: {
-                    ...email.schedule,
-                    ...updates,
-                    updatedAt: new Date(),
-                  },
-                }
-              : email
-          ),
-        })),
-
-      cancelSchedule: (scheduleId) =>
-        set((state) => ({
-          scheduledEmails: state.scheduledEmails.map((email) =>
-            email.schedule.id === scheduleId
-              ? {
-                  ...email,
-                  schedule: {
-                    ...email.schedule,
-                    status: 'cancelled' as const,
-                    updatedAt: new Date(),
-                  },
-                }
-              : email
-          ),
-        })),
+export const useEmailSchedulingStore = create<EmailSchedulingState>()((set, get) => ({
+  scheduledEmails: [],
+  isLoading: false,
+  isScheduling: false,
+  error: null,
 
-      getScheduledEmail: (scheduleId) => {
-        const state = get();
-        return state.scheduledEmails.find((e) => e.schedule.id === scheduleId);
-      },
+  fetchScheduledEmails: async (client) => {
+    set({ isLoading: true, error: null });
+    // Move messages the server has released since the last look over to Sent
+    await client.fileReleasedScheduledEmails();
+    const scheduledEmails = await client.getScheduledEmails();
+    set({ scheduledEmails, isLoading: false });
+  },
 
-      getScheduledEmails: () => {
-        const state = get();
-        return state.scheduledEmails.filter((e) => e.schedule.status === 'scheduled');
-      },
+  rescheduleEmail: async (client, submissionId, sendAt) => {
+    const scheduled = get().getScheduledEmail(submissionId);
+    if (!scheduled) return;
 
-      getUpcomingSchedules: (hours = 24) => {
-        const state = get();
-        const now = new Date();
-        const futureTime = new Date(now.getTime() + hours * 60 * 60 * 1000);
-
-        return state.scheduledEmails.filter(
-          (e) =>
-            e.schedule.status === 'scheduled' &&
-            e.schedule.scheduledTime >= now &&
-            e.schedule.scheduledTime <= futureTime
-        );
-      },
+    set({ isScheduling: true, error: null });
+    try {
+      await client.rescheduleEmail(scheduled, sendAt);
+      await get().fetchScheduledEmails(client);
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to reschedule email' });
+      throw error;
+    } finally {
+      set({ isScheduling: false });
+    }
+  },
 
-      addReminder: (reminder) =>
-        set((state) => ({
-          reminders: [...state.reminders, reminder],
-        })),
+  cancelSchedule: async (client, submissionId) => {
+    const scheduled = get().getScheduledEmail(submissionId);
+    if (!scheduled) return;
 
-      markReminderNotified: (reminderId) =>
-        set((state) => ({
-          reminders: state.reminders.map((r) =>
-            r.id === reminderId ? { ...r, notified: true } : r
-          ),
-        })),
+    set({ isScheduling: true, error: null });
+    try {
+      await client.cancelEmailSubmission(scheduled.schedule.id);
+      set((state) => ({
+        scheduledEmails: state.scheduledEmails.filter((e) => e.schedule.id !== submissionId),
+      }));
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to cancel scheduled email' });
+      throw error;
+    } finally {
+      set({ isScheduling: false });
+    }
+  },
 
-      getPendingReminders: () => {
-        const state = get();
-        const now = new Date();
-        return state.reminders.filter((r) => !r.notified && r.reminderTime <= now);
-      },
+  getScheduledEmail: (submissionId) => {
+    return get().scheduledEmails.find((e) => e.schedule.id === submissionId);
+  },
 
-      setIsScheduling: (isScheduling) => set({ isScheduling }),
+  getUpcomingSchedules: (hours = 24) => {
+    const now = Date.now();
+    const futureTime = now + hours * 60 * 60 * 1000;
 
-      setSelectedScheduleId: (scheduleId) => set({ selectedScheduleId: scheduleId }),
-    }),
-    {
-      name: 'email-scheduling-store',
-      version: 1,
-    }
-  )
-);
+    return get().scheduledEmails.filter((e) => {
+      const sendAt = new Date(e.schedule.sendAt).getTime();
+      return sendAt >= now && sendAt <= futureTime;
+    });
+  },
+}));
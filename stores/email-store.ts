@@ -1,7 +1,23 @@
 import { create } from "zustand";
-import { Email, Mailbox, StateChange } from "@/lib/jmap/types";
+import { Email, EmailListChanges, EmailListPage, EmailSendOptions, Mailbox, SearchSnippet, SentEmail, SetError, StateChange, UnifiedEmailQuery } from "@/lib/jmap/types";
 import { JMAPClient } from "@/lib/jmap/client";
 import { useSettingsStore } from "@/stores/settings-store";
+import { useEmailEncryptionStore } from "@/stores/email-encryption-store";
+import { cacheEmail, cacheEmailList, cacheMailboxes, getCachedEmail, getCachedEmailList, getCachedMailboxes } from "@/lib/offline-cache";
+import { isOffline, type OutboxAction } from "@/lib/offline-types";
+import { useOutboxStore } from "@/stores/outbox-store";
+import { useAdvancedSearchStore } from "@/stores/advanced-search-store";
+import {
+  REQUIRED_ROLE_MAILBOXES,
+  buildSavedSearchQueries,
+  buildUnifiedQueries,
+  findRoleMailbox,
+  getEmailAccountId,
+  getSavedSearchId,
+  isCrossAccountView,
+  isUnifiedView,
+} from "@/lib/mailbox-utils";
+import { compileSearchQuery } from "@/lib/search-query-utils";
 
 interface EmailStore {
   emails: Email[];
@@ -21,6 +37,10 @@ interface EmailStore {
   isPushConnected: boolean; // Track if push notifications are connected
   lastPushUpdate: number | null; // Timestamp of last push update
   newEmailNotification: Email | null; // New email notification for toast
+  emailListState: { state: string; queryState: string } | null; // States the current list was fetched at (for incremental sync)
+  mailboxState: string | null; // Mailbox state the mailbox list was fetched at
+  unifiedPositions: Record<string, number>; // Per-account query positions of a unified view
+  searchSnippets: Record<string, SearchSnippet>; // Highlighted matches of the listed search results, by email id
 
   // Thread expansion state
   expandedThreadIds: Set<string>; // Which threads are expanded in the list
@@ -44,9 +64,9 @@ interface EmailStore {
   fetchMailboxes: (client: JMAPClient) => Promise<void>;
   fetchEmails: (client: JMAPClient, mailboxId?: string) => Promise<void>;
   loadMoreEmails: (client: JMAPClient) => Promise<void>;
-  fetchEmailContent: (client: JMAPClient, emailId: string) => Promise<Email | null>;
+  fetchEmailContent: (client: JMAPClient, emailId: string, accountId?: string) => Promise<Email | null>;
   fetchQuota: (client: JMAPClient) => Promise<void>;
-  sendEmail: (client: JMAPClient, to: string[], subject: string, body: string, cc?: string[], bcc?: string[], draftId?: string, fromEmail?: string, identityId?: string) => Promise<void>;
+  sendEmail: (client: JMAPClient, to: string[], subject: string, body: string, cc?: string[], bcc?: string[], draftId?: string, fromEmail?: string, identityId?: string, options?: EmailSendOptions) => Promise<SentEmail>;
   deleteEmail: (client: JMAPClient, emailId: string) => Promise<void>;
   markAsRead: (client: JMAPClient, emailId: string, read: boolean) => Promise<void>;
   moveToMailbox: (client: JMAPClient, emailId: string, mailboxId: string) => Promise<void>;
@@ -62,6 +82,9 @@ interface EmailStore {
   setPushConnected: (connected: boolean) => void;
   handleStateChange: (change: StateChange, client: JMAPClient) => Promise<void>;
   refreshCurrentMailbox: (client: JMAPClient) => Promise<void>;
+  syncCurrentMailbox: (client: JMAPClient) => Promise<void>;
+  syncMailboxes: (client: JMAPClient) => Promise<void>;
+  syncThreads: (client: JMAPClient) => Promise<void>;
   handleNewEmailNotification: (email: Email) => void;
   clearNewEmailNotification: () => void;
 
@@ -71,10 +94,137 @@ interface EmailStore {
   collapseAllThreads: () => void;
   updateThreadCache: (threadId: string, emails: Email[]) => void;
 
+  // Mailbox management (errors are thrown for the caller to report)
+  createMailbox: (client: JMAPClient, name: string, parentId?: string) => Promise<void>;
+  renameMailbox: (client: JMAPClient, mailboxId: string, name: string) => Promise<void>;
+  moveMailbox: (client: JMAPClient, mailboxId: string, parentId: string | null) => Promise<void>;
+  deleteMailbox: (client: JMAPClient, mailboxId: string, removeEmails: boolean) => Promise<void>;
+  setMailboxSubscribed: (client: JMAPClient, mailboxId: string, subscribed: boolean) => Promise<void>;
+  setMailboxRole: (client: JMAPClient, mailboxId: string, role: string | null) => Promise<void>;
+  ensureRoleMailboxes: (client: JMAPClient) => Promise<void>;
+
   // Mock data for demo
   loadMockData: () => void;
 }
 
+// Only keep the list state when the server can calculate changes for the query
+const toListState = (page: EmailListPage): EmailStore['emailListState'] =>
+  page.state && page.queryState ? { state: page.state, queryState: page.queryState } : null;
+
+// Apply an Email/changes + Email/queryChanges delta to the loaded list, keeping
+// already loaded pages (and therefore scroll position) intact
+const applyEmailListChanges = (emails: Email[], changes: EmailListChanges): Email[] => {
+  const removed = new Set([...changes.removed, ...changes.destroyed]);
+  const updatedById = new Map(changes.updated.map(u => [u.id, u]));
+  const addedById = new Map(changes.addedEmails.map(e => [e.id, e]));
+
+  const result = emails
+    .filter(e => !removed.has(e.id))
+    .map(e => {
+      const update = updatedById.get(e.id);
+      return update ? { ...e, mailboxIds: update.mailboxIds, keywords: update.keywords } : e;
+    });
+
+  // Added entries are sorted by index, so earlier inserts never shift later ones
+  for (const { id, index } of changes.added) {
+    const email = addedById.get(id) || emails.find(e => e.id === id);
+    if (!email) continue;
+
+    const existingIndex = result.findIndex(e => e.id === id);
+    if (existingIndex !== -1) {
+      result.splice(existingIndex, 1);
+    }
+    // Positions past the loaded pages will be picked up by infinite scroll
+    if (index <= result.length) {
+      result.splice(index, 0, email);
+    }
+  }
+
+  return result;
+};
+
+// Split emails by the account they live in, for batch calls (undefined = primary account)
+const groupIdsByAccount = (emails: Email[], mailboxes: Mailbox[], selectedMailbox: string): Map<string | undefined, string[]> => {
+  const groups = new Map<string | undefined, string[]>();
+  emails.forEach(email => {
+    const accountId = getEmailAccountId(email, mailboxes, selectedMailbox);
+    groups.set(accountId, [...(groups.get(accountId) || []), email.id]);
+  });
+  return groups;
+};
+
+// Resolve a destination mailbox for emails of one account, by store id or server id
+const resolveDestination = (client: JMAPClient, mailboxes: Mailbox[], mailboxId: string, accountId: string | undefined): string => {
+  const destination = mailboxes.find(mb => mb.id === mailboxId)
+    || mailboxes.find(mb => mb.originalId === mailboxId && (mb.accountId || client.getAccountId()) === (accountId || client.getAccountId()));
+  if (!destination) return mailboxId;
+  if ((destination.accountId || client.getAccountId()) !== (accountId || client.getAccountId())) {
+    throw new Error("Emails can't be moved to a folder of another account");
+  }
+  return destination.originalId || destination.id;
+};
+
+// Run a change against the server, or queue it in the outbox while offline
+async function runOrQueue(
+  client: JMAPClient,
+  targetAccountId: string | undefined,
+  actions: OutboxAction[],
+  run: () => Promise<unknown>
+): Promise<void> {
+  if (!isOffline()) {
+    await run();
+    return;
+  }
+  for (const action of actions) {
+    await useOutboxStore.getState().enqueue(client.getAccountId(), action, targetAccountId);
+  }
+}
+
+// Note the ids a batch call couldn't change
+const collectFailures = (failedIds: Set<string>, failures: Record<string, SetError>) => {
+  Object.keys(failures).forEach(id => failedIds.add(id));
+};
+
+// Server ID of a mailbox (shared mailboxes are namespaced in the store)
+const toServerMailboxId = (mailboxes: Mailbox[], mailboxId: string) =>
+  mailboxes.find(mb => mb.id === mailboxId)?.originalId || mailboxId;
+
+// Queries of a view spanning accounts (unified views and saved searches), refined by
+// a typed search; null for a plain mailbox
+function getCrossAccountQueries(view: string, mailboxes: Mailbox[], searchQuery?: string): UnifiedEmailQuery[] | null {
+  if (isUnifiedView(view)) {
+    return buildUnifiedQueries(view, mailboxes, searchQuery);
+  }
+  const savedSearchId = getSavedSearchId(view);
+  if (savedSearchId === null) {
+    return null;
+  }
+  const savedSearch = useAdvancedSearchStore.getState().getSavedSearch(savedSearchId);
+  return savedSearch ? buildSavedSearchQueries(savedSearch.query, mailboxes, searchQuery) : [];
+}
+
+// Lists of search results come with highlighted snippets
+const isSearchView = (view: string, searchQuery?: string) => !!searchQuery || getSavedSearchId(view) !== null;
+
+// Filter of a search in the open mailbox; a query naming its own folder with in:<name>
+// searches the whole account instead
+function compileMailboxSearch(query: string, mailboxes: Mailbox[], mailbox: Mailbox | undefined, jmapMailboxId: string) {
+  const search = compileSearchQuery(query, mailboxes, mailbox?.accountId);
+  if (!search.filter) {
+    throw new Error("Invalid search query");
+  }
+  return { search: search.filter, mailboxId: search.hasMailboxScope ? undefined : jmapMailboxId };
+}
+
+// Primary account changes arrive through Mailbox/changes, shared ones need a full reload
+async function refreshMailboxes(client: JMAPClient, get: () => EmailStore, isShared: boolean): Promise<void> {
+  if (isShared) {
+    await get().fetchMailboxes(client);
+  } else {
+    await get().syncMailboxes(client);
+  }
+}
+
 export const useEmailStore = create<EmailStore>((set, get) => ({
   emails: [],
   mailboxes: [],
@@ -93,6 +243,10 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
   isPushConnected: false,
   lastPushUpdate: null,
   newEmailNotification: null,
+  emailListState: null,
+  mailboxState: null,
+  unifiedPositions: {},
+  searchSnippets: {},
 
   // Thread expansion state
   expandedThreadIds: new Set(),
@@ -105,6 +259,9 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
   selectMailbox: (mailboxId) => set({
     selectedMailbox: mailboxId,
     selectedEmail: null,
+    emailListState: null,
+    unifiedPositions: {},
+    searchSnippets: {},
     selectedEmailIds: new Set(),
     expandedThreadIds: new Set(),
     threadEmailsCache: new Map(),
@@ -141,7 +298,19 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
   fetchMailboxes: async (client) => {
     set({ isLoading: true, error: null });
     try {
-      const mailboxes = await client.getAllMailboxes();
+      let mailboxes: Mailbox[];
+      let mailboxState: string | null;
+
+      // Offline, show the folders as they were last seen
+      const cached = isOffline() ? await getCachedMailboxes(client.getAccountId()) : null;
+      if (cached) {
+        mailboxes = cached.mailboxes;
+        mailboxState = cached.state;
+      } else {
+        mailboxes = await client.getAllMailboxes();
+        mailboxState = client.getLastStates()[client.getAccountId()]?.Mailbox || null;
+        void cacheMailboxes(client.getAccountId(), mailboxState, mailboxes);
+      }
 
       // Auto-select inbox if no mailbox is currently selected
       const currentSelectedMailbox = get().selectedMailbox;
@@ -149,12 +318,12 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
         // Find inbox from PRIMARY account (not shared accounts)
         const inboxMailbox = mailboxes.find(m => m.role === 'inbox' && !m.isShared);
         if (inboxMailbox) {
-          set({ mailboxes, selectedMailbox: inboxMailbox.id, isLoading: false });
+          set({ mailboxes, mailboxState, selectedMailbox: inboxMailbox.id, isLoading: false });
         } else {
-          set({ mailboxes, isLoading: false });
+          set({ mailboxes, mailboxState, isLoading: false });
         }
       } else {
-        set({ mailboxes, isLoading: false });
+        set({ mailboxes, mailboxState, isLoading: false });
       }
     } catch (error) {
       set({
@@ -168,6 +337,39 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
     set({ isLoading: true, error: null }); // Keep previous emails visible during transition
     try {
       const targetMailboxId = mailboxId || get().selectedMailbox;
+      const emailsPerPage = useSettingsStore.getState().emailsPerPage;
+
+      // Offline, show the page cached last time; its states let the list catch up once back online
+      if (isOffline()) {
+        const cached = await getCachedEmailList(client.getAccountId(), targetMailboxId);
+        set({
+          emails: cached?.emails || [],
+          hasMoreEmails: false,
+          totalEmails: cached?.total || 0,
+          emailListState: cached ? toListState(cached) : null,
+          unifiedPositions: {},
+          searchSnippets: {},
+          isLoading: false
+        });
+        return;
+      }
+
+      // Unified views and saved searches query every account; they have no single list state to sync from
+      const crossAccountQueries = getCrossAccountQueries(targetMailboxId, get().mailboxes);
+      if (crossAccountQueries) {
+        const result = await client.getUnifiedEmails(crossAccountQueries, {}, emailsPerPage, isSearchView(targetMailboxId));
+        void cacheEmailList(client.getAccountId(), targetMailboxId, result);
+        set({
+          emails: result.emails,
+          hasMoreEmails: result.hasMore,
+          totalEmails: result.total,
+          emailListState: null,
+          unifiedPositions: result.positions,
+          searchSnippets: result.snippets || {},
+          isLoading: false
+        });
+        return;
+      }
 
       // Find the mailbox to get its accountId (for shared folder support)
       const mailboxes = get().mailboxes;
@@ -177,14 +379,14 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
       // Use originalId for JMAP queries (shared mailboxes use namespaced IDs in the store)
       const jmapMailboxId = mailbox?.originalId || targetMailboxId;
 
-      // Get emails per page from settings
-      const emailsPerPage = useSettingsStore.getState().emailsPerPage;
-
       const result = await client.getEmails(jmapMailboxId, accountId, emailsPerPage, 0);
+      void cacheEmailList(client.getAccountId(), targetMailboxId, result);
       set({
         emails: result.emails,
         hasMoreEmails: result.hasMore,
         totalEmails: result.total,
+        emailListState: toListState(result),
+        searchSnippets: {},
         isLoading: false
       });
     } catch (error) {
@@ -194,13 +396,14 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
         isLoading: false,
         emails: [],
         hasMoreEmails: false,
-        totalEmails: 0
+        totalEmails: 0,
+        emailListState: null
       });
     }
   },
 
   loadMoreEmails: async (client) => {
-    const { isLoadingMore, hasMoreEmails, emails, selectedMailbox, searchQuery } = get();
+    const { isLoadingMore, hasMoreEmails, emails, selectedMailbox, searchQuery, unifiedPositions } = get();
 
     // Don't load if already loading or no more emails
     if (isLoadingMore || !hasMoreEmails) return;
@@ -212,15 +415,22 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
 
       let result;
 
-      // Check if we're in search mode
-      if (searchQuery) {
+      const crossAccountQueries = getCrossAccountQueries(selectedMailbox, get().mailboxes, searchQuery || undefined);
+      if (crossAccountQueries) {
+        const page = await client.getUnifiedEmails(
+          crossAccountQueries, unifiedPositions, emailsPerPage, isSearchView(selectedMailbox, searchQuery)
+        );
+        set({ unifiedPositions: page.positions });
+        result = page;
+      } else if (searchQuery) {
         // Load more search results (scoped to current mailbox)
         const mailboxes = get().mailboxes;
         const mailbox = mailboxes.find(mb => mb.id === selectedMailbox);
         const jmapMailboxId = mailbox?.originalId || selectedMailbox;
         // Only pass accountId for shared mailboxes
         const accountId = mailbox?.isShared ? mailbox.accountId : undefined;
-        result = await client.searchEmails(searchQuery, jmapMailboxId, accountId, emailsPerPage, emails.length);
+        const { search, mailboxId } = compileMailboxSearch(searchQuery, mailboxes, mailbox, jmapMailboxId);
+        result = await client.searchEmails(search, mailboxId, accountId, emailsPerPage, emails.length);
       } else {
         // Load more from mailbox
         // Find the mailbox to get its accountId (for shared folder support)
@@ -234,10 +444,13 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
         result = await client.getEmails(jmapMailboxId, accountId, emailsPerPage, emails.length);
       }
 
+      // A push sync may already have inserted some of these emails
+      const loadedIds = new Set(emails.map(e => e.id));
       set({
-        emails: [...emails, ...result.emails],
+        emails: [...emails, ...result.emails.filter(e => !loadedIds.has(e.id))],
         hasMoreEmails: result.hasMore,
         totalEmails: result.total,
+        searchSnippets: { ...get().searchSnippets, ...result.snippets },
         isLoadingMore: false
       });
     } catch (error) {
@@ -249,19 +462,23 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
     }
   },
 
-  fetchEmailContent: async (client, emailId) => {
+  fetchEmailContent: async (client, emailId, emailAccountId) => {
     try {
-      // Find the selected mailbox to determine accountId (for shared folders)
-      const selectedMailboxId = get().selectedMailbox;
-      const mailboxes = get().mailboxes;
-      const mailbox = mailboxes.find(mb => mb.id === selectedMailboxId);
-
-      // Only pass accountId for shared mailboxes
-      const accountId = mailbox?.isShared ? mailbox.accountId : undefined;
+      // Emails of unified views carry their account, otherwise use the open folder's
+      const { emails, mailboxes, selectedMailbox } = get();
+      const listed = emails.find(e => e.id === emailId);
+      const taggedAccountId = emailAccountId || listed?.accountId;
+      const accountId = getEmailAccountId({ accountId: taggedAccountId }, mailboxes, selectedMailbox);
 
-      const email = await client.getEmail(emailId, accountId);
+      // Offline, only emails opened before can be shown
+      const email = isOffline()
+        ? await getCachedEmail(client.getAccountId(), emailId)
+        : await client.getEmail(emailId, accountId);
 
       if (email) {
+        // Keep the account tag so actions on the open email reach the right account
+        if (taggedAccountId) email.accountId = taggedAccountId;
+        if (!isOffline()) void cacheEmail(client.getAccountId(), email);
         set({ selectedEmail: email });
       }
       return email;
@@ -282,13 +499,18 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
     }
   },
 
-  sendEmail: async (client, to, subject, body, cc, bcc, draftId, fromEmail, identityId) => {
+  sendEmail: async (client, to, subject, body, cc, bcc, draftId, fromEmail, identityId, options) => {
     set({ isLoading: true, error: null });
     try {
-      await client.sendEmail(to, subject, body, cc, bcc, draftId, fromEmail, identityId);
+      // Every message carries our Autocrypt header, so correspondents learn our key
+      const sent = await client.sendEmail(to, subject, body, cc, bcc, draftId, fromEmail, identityId, {
+        autocryptHeader: (from) => useEmailEncryptionStore.getState().getAutocryptHeader(from),
+        ...options,
+      });
       // Refresh emails after sending
       await get().fetchEmails(client);
       set({ isLoading: false });
+      return sent;
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : "Failed to send email",
@@ -309,18 +531,16 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
       // Get delete action preference from settings
       const deleteAction = useSettingsStore.getState().deleteAction;
 
-      // Determine accountId for shared folders
-      const selectedMailboxId = get().selectedMailbox;
+      // Determine accountId for shared folders and unified views
       const mailboxes = get().mailboxes;
-      const currentMailbox = mailboxes.find(mb => mb.id === selectedMailboxId);
-      const accountId = currentMailbox?.isShared ? currentMailbox.accountId : undefined;
+      const accountId = getEmailAccountId(email, mailboxes, get().selectedMailbox);
 
       // If deleteAction is 'trash', try to move to trash mailbox
       if (deleteAction === 'trash') {
         // Find trash mailbox for the correct account
         const trashMailbox = mailboxes.find(mb => {
           if (accountId) {
-            // For shared folders, match by accountId
+            // For shared folders and tagged emails, match by accountId
             return mb.role === 'trash' && mb.accountId === accountId;
           }
           // For primary account, find trash that's not from a shared folder
@@ -330,7 +550,9 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
         if (trashMailbox) {
           // Use originalId for shared mailboxes if available
           const trashId = trashMailbox.originalId || trashMailbox.id;
-          await client.moveToTrash(emailId, trashId, accountId);
+          await runOrQueue(client, accountId, [{ type: "delete", emailId, trashMailboxId: trashId }], () =>
+            client.moveToTrash(emailId, trashId, accountId)
+          );
 
           // Remove from local state (email moved to trash, not in current view)
           set((state) => {
@@ -374,7 +596,7 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
       }
 
       // Permanent delete
-      await client.deleteEmail(emailId);
+      await runOrQueue(client, accountId, [{ type: "delete", emailId }], () => client.deleteEmail(emailId, accountId));
 
       // Remove from local state and update mailbox counters if needed
       set((state) => {
@@ -446,13 +668,12 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
         processingReadStatus: new Set([...state.processingReadStatus, processingKey])
       }));
 
-      // Determine accountId for shared folders
-      const selectedMailboxId = get().selectedMailbox;
-      const mailboxes = get().mailboxes;
-      const mailbox = mailboxes.find(mb => mb.id === selectedMailboxId);
-      const accountId = mailbox?.isShared ? mailbox.accountId : undefined;
+      // Determine accountId for shared folders and unified views
+      const accountId = getEmailAccountId(email, get().mailboxes, get().selectedMailbox);
 
-      await client.markAsRead(emailId, read, accountId);
+      await runOrQueue(client, accountId, [{ type: "keywords", emailId, keywords: { $seen: read } }], () =>
+        client.markAsRead(emailId, read, accountId)
+      );
 
       // Update local state including mailbox counters
       set((state) => {
@@ -517,7 +738,13 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
       const isUnread = !email.keywords?.$seen;
       const currentMailboxIds = email.mailboxIds ? Object.keys(email.mailboxIds) : [];
 
-      await client.moveEmail(emailId, destinationMailboxId);
+      const { mailboxes, selectedMailbox } = get();
+      const accountId = getEmailAccountId(email, mailboxes, selectedMailbox);
+      const destination = resolveDestination(client, mailboxes, destinationMailboxId, accountId);
+      const fromMailboxIds = currentMailboxIds.map(id => toServerMailboxId(mailboxes, id));
+      await runOrQueue(client, accountId, [{ type: "move", emailId, fromMailboxIds, toMailboxId: destination }], () =>
+        client.moveEmail(emailId, destination, accountId)
+      );
 
       // Update local state and mailbox counters
       set((state) => {
@@ -577,11 +804,26 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
   },
 
   searchEmails: async (client, query) => {
-    set({ isLoading: true, error: null, searchQuery: query, emails: [], hasMoreEmails: false, totalEmails: 0 }); // Clear emails for loading state
+    set({ isLoading: true, error: null, searchQuery: query, emails: [], hasMoreEmails: false, totalEmails: 0, emailListState: null, searchSnippets: {} }); // Clear emails for loading state
     try {
       // Get the current mailbox to scope the search
       const selectedMailbox = get().selectedMailbox;
       const mailboxes = get().mailboxes;
+
+      const crossAccountQueries = getCrossAccountQueries(selectedMailbox, mailboxes, query);
+      if (crossAccountQueries) {
+        const result = await client.getUnifiedEmails(crossAccountQueries, {}, useSettingsStore.getState().emailsPerPage, true);
+        set({
+          emails: result.emails,
+          hasMoreEmails: result.hasMore,
+          totalEmails: result.total,
+          unifiedPositions: result.positions,
+          searchSnippets: result.snippets || {},
+          isLoading: false
+        });
+        return;
+      }
+
       const mailbox = mailboxes.find(mb => mb.id === selectedMailbox);
       // Use originalId for shared mailboxes
       const jmapMailboxId = mailbox?.originalId || selectedMailbox;
@@ -590,11 +832,14 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
 
       // Get emails per page from settings
       const emailsPerPage = useSettingsStore.getState().emailsPerPage;
-      const result = await client.searchEmails(query, jmapMailboxId, accountId, emailsPerPage, 0);
+      const { search, mailboxId } = compileMailboxSearch(query, mailboxes, mailbox, jmapMailboxId);
+      const result = await client.searchEmails(search, mailboxId, accountId, emailsPerPage, 0);
       set({
         emails: result.emails,
         hasMoreEmails: result.hasMore,
         totalEmails: result.total,
+        emailListState: toListState(result),
+        searchSnippets: result.snippets || {},
         isLoading: false
       });
     } catch (error) {
@@ -614,7 +859,10 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
       if (!email) return;
 
       const isFlagged = email.keywords.$flagged || false;
-      await client.toggleStar(emailId, !isFlagged);
+      const accountId = getEmailAccountId(email, get().mailboxes, get().selectedMailbox);
+      await runOrQueue(client, accountId, [{ type: "keywords", emailId, keywords: { $flagged: !isFlagged } }], () =>
+        client.toggleStar(emailId, !isFlagged, accountId)
+      );
 
       // Update local state
       set((state) => ({
@@ -635,23 +883,28 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
 
   // Batch operations
   batchMarkAsRead: async (client, read) => {
-    const { selectedEmailIds, emails, mailboxes } = get();
+    const { selectedEmailIds, emails, mailboxes, selectedMailbox } = get();
     if (selectedEmailIds.size === 0) return;
 
     set({ isLoading: true, error: null });
     try {
-      const emailIdsArray = Array.from(selectedEmailIds);
-      await client.batchMarkAsRead(emailIdsArray, read);
+      const groups = groupIdsByAccount(emails.filter(e => selectedEmailIds.has(e.id)), mailboxes, selectedMailbox);
+      const failedIds = new Set<string>();
+      await Promise.all([...groups].map(([accountId, ids]) => runOrQueue(client, accountId,
+        ids.map(emailId => ({ type: "keywords", emailId, keywords: { $seen: read } })),
+        async () => collectFailures(failedIds, (await client.batchMarkAsRead(ids, read, accountId)).notUpdated)
+      )));
+      const changedIds = new Set([...selectedEmailIds].filter(id => !failedIds.has(id)));
 
       // Update local state
       const updatedEmails = emails.map(email =>
-        selectedEmailIds.has(email.id)
+        changedIds.has(email.id)
           ? { ...email, keywords: { ...email.keywords, $seen: read } }
           : email
       );
 
       // Update mailbox counters
-      const affectedEmails = emails.filter(e => selectedEmailIds.has(e.id));
+      const affectedEmails = emails.filter(e => changedIds.has(e.id));
       const updatedMailboxes = mailboxes.map(mailbox => {
         let deltaUnread = 0;
         affectedEmails.forEach(email => {
@@ -670,10 +923,12 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
         };
       });
 
+      // What failed stays selected, to try again
       set({
         emails: updatedEmails,
         mailboxes: updatedMailboxes,
-        selectedEmailIds: new Set(),
+        selectedEmailIds: failedIds,
+        error: failedIds.size > 0 ? `${failedIds.size} emails could not be updated` : null,
         isLoading: false
       });
     } catch (error) {
@@ -685,19 +940,24 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
   },
 
   batchDelete: async (client) => {
-    const { selectedEmailIds, emails, mailboxes } = get();
+    const { selectedEmailIds, emails, mailboxes, selectedMailbox } = get();
     if (selectedEmailIds.size === 0) return;
 
     set({ isLoading: true, error: null });
     try {
-      const emailIdsArray = Array.from(selectedEmailIds);
-      await client.batchDeleteEmails(emailIdsArray);
+      const groups = groupIdsByAccount(emails.filter(e => selectedEmailIds.has(e.id)), mailboxes, selectedMailbox);
+      const failedIds = new Set<string>();
+      await Promise.all([...groups].map(([accountId, ids]) => runOrQueue(client, accountId,
+        ids.map(emailId => ({ type: "delete", emailId })),
+        async () => collectFailures(failedIds, (await client.batchDeleteEmails(ids, accountId)).notDestroyed)
+      )));
+      const deletedIds = new Set([...selectedEmailIds].filter(id => !failedIds.has(id)));
 
       // Remove deleted emails from local state
-      const remainingEmails = emails.filter(e => !selectedEmailIds.has(e.id));
+      const remainingEmails = emails.filter(e => !deletedIds.has(e.id));
 
       // Update mailbox counters
-      const deletedEmails = emails.filter(e => selectedEmailIds.has(e.id));
+      const deletedEmails = emails.filter(e => deletedIds.has(e.id));
       const updatedMailboxes = mailboxes.map(mailbox => {
         let deltaTotalEmails = 0;
         let deltaUnreadEmails = 0;
@@ -723,8 +983,9 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
       set({
         emails: remainingEmails,
         mailboxes: updatedMailboxes,
-        selectedEmailIds: new Set(),
+        selectedEmailIds: failedIds,
         selectedEmail: null,
+        error: failedIds.size > 0 ? `${failedIds.size} emails could not be deleted` : null,
         isLoading: false
       });
     } catch (error) {
@@ -736,25 +997,42 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
   },
 
   batchMoveToMailbox: async (client, toMailboxId) => {
-    const { selectedEmailIds, emails } = get();
+    const { selectedEmailIds, emails, mailboxes, selectedMailbox } = get();
     if (selectedEmailIds.size === 0) return;
 
     set({ isLoading: true, error: null });
     try {
-      const emailIdsArray = Array.from(selectedEmailIds);
-      await client.batchMoveEmails(emailIdsArray, toMailboxId);
+      const groups = groupIdsByAccount(emails.filter(e => selectedEmailIds.has(e.id)), mailboxes, selectedMailbox);
+      // Resolve every group first so nothing moves when one account can't
+      const moves = [...groups].map(([accountId, ids]) => ({
+        accountId,
+        ids,
+        destination: resolveDestination(client, mailboxes, toMailboxId, accountId),
+      }));
+      const failedIds = new Set<string>();
+      await Promise.all(moves.map(({ accountId, ids, destination }) => runOrQueue(client, accountId,
+        ids.map(emailId => {
+          const email = emails.find(e => e.id === emailId);
+          const fromMailboxIds = Object.keys(email?.mailboxIds || {}).map(id => toServerMailboxId(mailboxes, id));
+          return { type: "move", emailId, fromMailboxIds, toMailboxId: destination };
+        }),
+        async () => collectFailures(failedIds, (await client.batchMoveEmails(ids, destination, accountId)).notUpdated)
+      )));
 
       // Update local state - remove from current view since they moved
-      const remainingEmails = emails.filter(e => !selectedEmailIds.has(e.id));
+      const remainingEmails = emails.filter(e => !selectedEmailIds.has(e.id) || failedIds.has(e.id));
 
       set({
         emails: remainingEmails,
-        selectedEmailIds: new Set(),
+        selectedEmailIds: failedIds,
+        error: failedIds.size > 0 ? `${failedIds.size} emails could not be moved` : null,
         isLoading: false
       });
 
-      // Refresh emails to get updated list
-      await get().fetchEmails(client, get().selectedMailbox);
+      // Refresh emails to get updated list (the offline cache still has them in place)
+      if (!isOffline()) {
+        await get().fetchEmails(client, get().selectedMailbox);
+      }
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : "Failed to move emails",
@@ -776,21 +1054,35 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
       // Get the current account ID from the client (assuming primary account)
       const accountId = client.getAccountId();
 
+      // Unified views and saved searches list mail of every account, so any Email change refreshes them
+      const hasEmailChanges = Object.values(change.changed).some(changes => changes.Email);
+      if (hasEmailChanges) {
+        void useAdvancedSearchStore.getState().refreshSavedSearchCounts(client, get().mailboxes);
+      }
+      if (isCrossAccountView(get().selectedMailbox) && hasEmailChanges) {
+        await get().syncCurrentMailbox(client);
+      }
+
       // Check if there are changes for this account
       const accountChanges = change.changed[accountId];
       if (!accountChanges) return;
 
-      // Handle Email state changes - refresh current mailbox
-      if (accountChanges.Email) {
-        await get().refreshCurrentMailbox(client);
+      // Handle Email state changes - apply the delta to the current list
+      if (accountChanges.Email && accountChanges.Email !== get().emailListState?.state && !isCrossAccountView(get().selectedMailbox)) {
+        await get().syncCurrentMailbox(client);
       }
 
-      // Handle Mailbox state changes - refresh mailbox list
-      if (accountChanges.Mailbox) {
-        await get().fetchMailboxes(client);
+      // Handle Mailbox state changes - apply the delta to the mailbox list
+      if (accountChanges.Mailbox && accountChanges.Mailbox !== get().mailboxState) {
+        await get().syncMailboxes(client);
+      }
+
+      // Handle Thread state changes - drop stale conversations from the cache
+      if (accountChanges.Thread) {
+        await get().syncThreads(client);
       }
 
-      // Could also handle Thread, EmailSubmission, Identity changes in the future
+      // Could also handle EmailSubmission, Identity changes in the future
     } catch (error) {
       console.error('Failed to handle state change:', error);
       set({
@@ -816,7 +1108,21 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
       // Get emails per page from settings
       const emailsPerPage = useSettingsStore.getState().emailsPerPage;
 
-      const result = await client.getEmails(jmapMailboxId, accountId, emailsPerPage, 0);
+      const { searchQuery } = get();
+      let result;
+      const crossAccountQueries = getCrossAccountQueries(selectedMailbox, mailboxes, searchQuery || undefined);
+      if (crossAccountQueries) {
+        const page = await client.getUnifiedEmails(
+          crossAccountQueries, {}, emailsPerPage, isSearchView(selectedMailbox, searchQuery)
+        );
+        set({ unifiedPositions: page.positions });
+        result = page;
+      } else if (searchQuery) {
+        const { search, mailboxId } = compileMailboxSearch(searchQuery, mailboxes, mailbox, jmapMailboxId);
+        result = await client.searchEmails(search, mailboxId, accountId, emailsPerPage, 0);
+      } else {
+        result = await client.getEmails(jmapMailboxId, accountId, emailsPerPage, 0);
+      }
 
       // Check if there are new emails by comparing the first email ID
       const currentFirstEmailId = get().emails[0]?.id;
@@ -830,7 +1136,9 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
       set({
         emails: result.emails,
         hasMoreEmails: result.hasMore,
-        totalEmails: result.total
+        totalEmails: result.total,
+        emailListState: toListState(result),
+        searchSnippets: result.snippets || {}
       });
     } catch (error) {
       console.error('Failed to refresh current mailbox:', error);
@@ -838,6 +1146,159 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
     }
   },
 
+  syncCurrentMailbox: async (client) => {
+    const { selectedMailbox, emailListState, searchQuery, emails } = get();
+
+    // Only sync if a mailbox is currently selected
+    if (!selectedMailbox) return;
+
+    // Without known states (or when the server can't track this query) we can only refetch
+    if (!emailListState) {
+      await get().refreshCurrentMailbox(client);
+      return;
+    }
+
+    try {
+      const mailboxes = get().mailboxes;
+      const mailbox = mailboxes.find(mb => mb.id === selectedMailbox);
+      const accountId = mailbox?.isShared ? mailbox.accountId : undefined;
+      const jmapMailboxId = mailbox?.originalId || selectedMailbox;
+      // Email/queryChanges needs the very filter the list was fetched with
+      const scope = searchQuery
+        ? compileMailboxSearch(searchQuery, mailboxes, mailbox, jmapMailboxId)
+        : { search: undefined, mailboxId: jmapMailboxId };
+
+      const changes = await client.getEmailListChanges(emailListState.state, emailListState.queryState, {
+        mailboxId: scope.mailboxId,
+        search: scope.search,
+        accountId,
+        upToId: emails[emails.length - 1]?.id,
+      });
+
+      // cannotCalculateChanges - fall back to a full refetch of the first page
+      if (!changes) {
+        await get().refreshCurrentMailbox(client);
+        return;
+      }
+
+      // The user switched view while the request was in flight
+      if (get().selectedMailbox !== selectedMailbox || get().searchQuery !== searchQuery) return;
+
+      set((state) => {
+        const updatedEmails = applyEmailListChanges(state.emails, changes);
+        const updatedById = new Map(changes.updated.map(u => [u.id, u]));
+        const destroyed = new Set(changes.destroyed);
+
+        // Keep the open email and cached conversations in sync with keyword flips
+        let selectedEmail = state.selectedEmail;
+        if (selectedEmail && destroyed.has(selectedEmail.id)) {
+          selectedEmail = null;
+        } else if (selectedEmail && updatedById.has(selectedEmail.id)) {
+          const update = updatedById.get(selectedEmail.id)!;
+          selectedEmail = { ...selectedEmail, mailboxIds: update.mailboxIds, keywords: update.keywords };
+        }
+
+        const threadEmailsCache = new Map(state.threadEmailsCache);
+        threadEmailsCache.forEach((threadEmails, threadId) => {
+          if (threadEmails.some(e => updatedById.has(e.id) || destroyed.has(e.id))) {
+            threadEmailsCache.set(threadId, threadEmails
+              .filter(e => !destroyed.has(e.id))
+              .map(e => {
+                const update = updatedById.get(e.id);
+                return update ? { ...e, mailboxIds: update.mailboxIds, keywords: update.keywords } : e;
+              }));
+          }
+        });
+
+        const totalEmails = changes.total ?? state.totalEmails;
+        return {
+          emails: updatedEmails,
+          selectedEmail,
+          threadEmailsCache,
+          totalEmails,
+          hasMoreEmails: changes.total !== undefined ? updatedEmails.length < changes.total : state.hasMoreEmails,
+          emailListState: { state: changes.newState, queryState: changes.newQueryState },
+        };
+      });
+
+      // Results that joined the search have no snippets yet
+      if (scope.search && changes.addedEmails.length > 0) {
+        const snippets = await client.getSearchSnippets(scope.search, changes.addedEmails.map(e => e.id), accountId);
+        if (get().selectedMailbox === selectedMailbox && get().searchQuery === searchQuery) {
+          set((state) => ({ searchSnippets: { ...state.searchSnippets, ...snippets } }));
+        }
+      }
+
+      // Notify about genuinely new, unread mail that landed in this view
+      const created = new Set(changes.created);
+      const newEmail = changes.addedEmails.find(e => created.has(e.id) && !e.keywords?.$seen);
+      if (newEmail) {
+        get().handleNewEmailNotification(newEmail);
+      }
+    } catch (error) {
+      console.error('Failed to sync current mailbox:', error);
+      // Don't set error state for background refreshes to avoid disrupting the UI
+    }
+  },
+
+  syncMailboxes: async (client) => {
+    const { mailboxState } = get();
+
+    if (!mailboxState) {
+      await get().fetchMailboxes(client);
+      return;
+    }
+
+    try {
+      const changes = await client.getMailboxChanges(mailboxState);
+
+      if (!changes) {
+        await get().fetchMailboxes(client);
+        return;
+      }
+
+      set((state) => {
+        const changedById = new Map(changes.changed.map(mb => [mb.id, mb]));
+        const destroyed = new Set(changes.destroyed);
+
+        const mailboxes = state.mailboxes
+          .filter(mb => mb.isShared || !destroyed.has(mb.id))
+          .map(mb => (!mb.isShared && changedById.get(mb.id)) || mb);
+        const existingIds = new Set(mailboxes.map(mb => mb.id));
+        mailboxes.push(...changes.changed.filter(mb => !existingIds.has(mb.id)));
+
+        return { mailboxes, mailboxState: changes.newState };
+      });
+    } catch (error) {
+      console.error('Failed to sync mailboxes:', error);
+    }
+  },
+
+  syncThreads: async (client) => {
+    const accountId = client.getAccountId();
+    const threadState = client.getLastStates()[accountId]?.Thread;
+
+    // Nothing cached yet, nothing to invalidate
+    if (get().threadEmailsCache.size === 0) return;
+
+    try {
+      const changes = threadState ? await client.getThreadChanges(threadState) : null;
+
+      set((state) => {
+        // Unknown delta - drop the whole cache so threads are refetched on expand
+        if (!changes) {
+          return { threadEmailsCache: new Map() };
+        }
+
+        const threadEmailsCache = new Map(state.threadEmailsCache);
+        [...changes.changed, ...changes.destroyed].forEach(threadId => threadEmailsCache.delete(threadId));
+        return { threadEmailsCache };
+      });
+    } catch (error) {
+      console.error('Failed to sync threads:', error);
+    }
+  },
+
   handleNewEmailNotification: (email) => {
     // Set the new email notification state
     // This can be consumed by a toast component
@@ -875,12 +1336,13 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
     set({ isLoadingThread: threadId });
 
     try {
-      // Determine accountId for shared folders
-      const mailbox = mailboxes.find(mb => mb.id === selectedMailbox);
-      const accountId = mailbox?.isShared ? mailbox.accountId : undefined;
+      // Determine accountId for shared folders and unified views
+      const listed = get().emails.find(e => e.threadId === threadId);
+      const accountId = getEmailAccountId(listed || {}, mailboxes, selectedMailbox);
 
       // Fetch all emails in the thread
       const emails = await client.getThreadEmails(threadId, accountId);
+      if (listed?.accountId) emails.forEach(e => { e.accountId = listed.accountId; });
 
       // Update cache
       const newCache = new Map(get().threadEmailsCache);
@@ -912,6 +1374,87 @@ export const useEmailStore = create<EmailStore>((set, get) => ({
     set({ threadEmailsCache: newCache });
   },
 
+  createMailbox: async (client, name, parentId) => {
+    const parent = parentId ? get().mailboxes.find(mb => mb.id === parentId) : undefined;
+    await client.createMailbox(name, parent ? (parent.originalId || parent.id) : null, parent?.accountId);
+    await refreshMailboxes(client, get, !!parent?.isShared);
+  },
+
+  renameMailbox: async (client, mailboxId, name) => {
+    const mailbox = get().mailboxes.find(mb => mb.id === mailboxId);
+    if (!mailbox) return;
+    await client.updateMailbox(mailbox.originalId || mailbox.id, { name }, mailbox.accountId);
+    await refreshMailboxes(client, get, !!mailbox.isShared);
+  },
+
+  moveMailbox: async (client, mailboxId, parentId) => {
+    const { mailboxes } = get();
+    const mailbox = mailboxes.find(mb => mb.id === mailboxId);
+    if (!mailbox) return;
+    const parent = parentId ? mailboxes.find(mb => mb.id === parentId) : undefined;
+    await client.updateMailbox(
+      mailbox.originalId || mailbox.id,
+      { parentId: parent ? (parent.originalId || parent.id) : null },
+      mailbox.accountId
+    );
+    await refreshMailboxes(client, get, !!mailbox.isShared);
+  },
+
+  deleteMailbox: async (client, mailboxId, removeEmails) => {
+    const mailbox = get().mailboxes.find(mb => mb.id === mailboxId);
+    if (!mailbox) return;
+    await client.destroyMailbox(mailbox.originalId || mailbox.id, removeEmails, mailbox.accountId);
+    await refreshMailboxes(client, get, !!mailbox.isShared);
+  },
+
+  setMailboxSubscribed: async (client, mailboxId, subscribed) => {
+    const mailbox = get().mailboxes.find(mb => mb.id === mailboxId);
+    if (!mailbox) return;
+    await client.updateMailbox(mailbox.originalId || mailbox.id, { isSubscribed: subscribed }, mailbox.accountId);
+    // Shared mailboxes are not covered by Mailbox/changes, so flip the flag locally
+    set((state) => ({
+      mailboxes: state.mailboxes.map(mb => mb.id === mailboxId ? { ...mb, isSubscribed: subscribed } : mb),
+    }));
+  },
+
+  setMailboxRole: async (client, mailboxId, role) => {
+    const { mailboxes } = get();
+    const mailbox = mailboxes.find(mb => mb.id === mailboxId);
+    if (!mailbox) return;
+    const previous = role
+      ? mailboxes.find(mb => mb.role === role && mb.accountId === mailbox.accountId)
+      : undefined;
+    await client.setMailboxRole(
+      mailbox.originalId || mailbox.id,
+      role,
+      previous ? (previous.originalId || previous.id) : undefined,
+      mailbox.accountId
+    );
+    await refreshMailboxes(client, get, !!mailbox.isShared);
+  },
+
+  ensureRoleMailboxes: async (client) => {
+    if (!client.canCreateTopLevelMailbox()) return;
+
+    const missing = REQUIRED_ROLE_MAILBOXES.filter(({ role }) => !findRoleMailbox(get().mailboxes, role));
+    if (missing.length === 0) return;
+
+    for (const { role, name } of missing) {
+      const sameName = get().mailboxes.find(mb => !mb.isShared && !mb.parentId && !mb.role && mb.name === name);
+      try {
+        // Adopt an existing folder with the expected name rather than creating a duplicate
+        if (sameName) {
+          await client.updateMailbox(sameName.id, { role });
+        } else {
+          await client.createMailbox(name, null, undefined, role);
+        }
+      } catch (error) {
+        console.error(`Failed to create ${role} mailbox:`, error);
+      }
+    }
+    await get().syncMailboxes(client);
+  },
+
   loadMockData: () => {
     const mockEmails: Email[] = [
       {
@@ -1,169 +1,109 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { EmailTrackingData, TrackingEvent, TrackingSettings } from '@/lib/email-tracking-types';
+import { EmailDeliveryStatus, TrackingSettings, toEmailDeliveryStatus } from '@/lib/email-tracking-types';
+import { JMAPClient } from '@/lib/jmap/client';
+import type { Email, Identity, MDN } from '@/lib/jmap/types';
 
 interface EmailTrackingState {
-  // Tracking data
-  trackingData: EmailTrackingData[];
-  
+  // Delivery status of sent messages, keyed by email id
+  deliveryStatus: Record<string, EmailDeliveryStatus[]>;
+
+  // Parsed read receipts, keyed by the id of the receipt email
+  readReceipts: Record<string, MDN>;
+
   // Settings
   settings: TrackingSettings;
-  
+
   // UI state
-  selectedTrackingId: string | null;
-  
+  isSendingReceipt: boolean;
+
   // Actions
-  addTrackingData: (data: EmailTrackingData) => void;
-  recordTrackingEvent: (emailId: string, event: TrackingEvent) => void;
-  getTrackingData: (emailId: string) => EmailTrackingData | undefined;
-  getTrackingDataByTrackingId: (trackingId: string) => EmailTrackingData | undefined;
-  getAllTrackingData: () => EmailTrackingData[];
-  
-  // Statistics
-  getOpenRate: (emailIds: string[]) => number;
-  getClickRate: (emailIds: string[]) => number;
-  getDeliveryRate: (emailIds: string[]) => number;
-  
+  fetchDeliveryStatus: (client: JMAPClient, emailId: string) => Promise<EmailDeliveryStatus[]>;
+  fetchReadReceipt: (client: JMAPClient, emailId: string, blobId: string) => Promise<MDN | null>;
+  sendReadReceipt: (client: JMAPClient, email: Email, identities: Identity[], automatic?: boolean) => Promise<void>;
+  declineReadReceipt: (client: JMAPClient, email: Email) => Promise<void>;
+
   // Settings
   updateSettings: (settings: Partial<TrackingSettings>) => void;
-  getSettings: () => TrackingSettings;
-  
-  // Cleanup
-  deleteTrackingData: (emailId: string) => void;
-  cleanupOldData: (retentionDays: number) => void;
-  
-  // UI
-  setSelectedTrackingId: (trackingId: string | null) => void;
 }
 
 const DEFAULT_SETTINGS: TrackingSettings = {
-  enableTracking: true,
-  trackOpens: true,
-  trackClicks: true,
-  trackDelivery: true,
-  notifyOnOpen: false,
-  notifyOnClick: false,
-  retentionDays: 90,
+  requestReadReceipts: false,
+  receiptResponse: 'ask',
+};
+
+// Answer from the identity the message was addressed to
+const findRecipientIdentity = (email: Email, identities: Identity[]) => {
+  const recipients = [...(email.to || []), ...(email.cc || [])].map((addr) => addr.email.toLowerCase());
+  return identities.find((identity) => recipients.includes(identity.email.toLowerCase())) || identities[0];
 };
 
 export const useEmailTrackingStore = create<EmailTrackingState>()(
   persist(
     (set, get) => ({
-      trackingData: [],
+      deliveryStatus: {},
+      readReceipts: {},
       settings: DEFAULT_SETTINGS,
-      selectedTrackingId: null,
-
-      addTrackingData: (data) =>
-        set((state) => ({
-          trackingData: [...state.trackingData, data],
-        })),
+      isSendingReceipt: false,
 
-      recordTrackingEvent: (emailId, event) =>
+      fetchDeliveryStatus: async (client, emailId) => {
+        const submissions = await client.getEmailSubmissions(emailId);
+        const statuses = submissions.map(toEmailDeliveryStatus);
         set((state) => ({
-          trackingData: state.trackingData.map((data) =>
-            data.emailId === emailId
-              ? {
-                  ...data,
-                  events: [...data.events, event],
-                  openCount:
-                    event.eventType === 'opened'
-                      ? data.openCount + 1
-                      : data.openCount,
-                  clickCount:
-                    event.eventType === 'clicked'
-                      ? data.clickCount + 1
-                      : data.clickCount,
-                  clickedLinks:
-                    event.eventType === 'clicked' && event.clickedLink
-                      ? [...new Set([...data.clickedLinks, event.clickedLink])]
-                      : data.clickedLinks,
-                  firstOpenedAt:
-                    event.eventType === 'opened' && !data.firstOpenedAt
-                      ? event.timestamp
-                      : data.firstOpenedAt,
-                  lastOpenedAt:
-                    event.eventType === 'opened'
-                      ? event.timestamp
-                      : data.lastOpenedAt,
-                  status: event.eventType as any,
-                }
-              : data
-          ),
-        })),
-
-      getTrackingData: (emailId) => {
-        const state = get();
-        return state.trackingData.find((d) => d.emailId === emailId);
+          deliveryStatus: { ...state.deliveryStatus, [emailId]: statuses },
+        }));
+        return statuses;
       },
 
-      getTrackingDataByTrackingId: (trackingId) => {
-        const state = get();
-        return state.trackingData.find((d) => d.trackingId === trackingId);
+      fetchReadReceipt: async (client, emailId, blobId) => {
+        const cached = get().readReceipts[emailId];
+        if (cached) return cached;
+
+        const parsed = await client.parseMDNs([blobId]);
+        const mdn = parsed[blobId] || null;
+        if (mdn) {
+          set((state) => ({
+            readReceipts: { ...state.readReceipts, [emailId]: mdn },
+          }));
+        }
+        return mdn;
       },
 
-      getAllTrackingData: () => {
-        const state = get();
-        return state.trackingData;
+      sendReadReceipt: async (client, email, identities, automatic = false) => {
+        const identity = findRecipientIdentity(email, identities);
+        if (!identity) {
+          throw new Error('No identity available to send the read receipt from');
+        }
+
+        set({ isSendingReceipt: true });
+        try {
+          // Displaying the message is always the user's action; only the sending may be automatic
+          await client.sendMDN(email.id, identity.id, {
+            actionMode: 'manual-action',
+            sendingMode: automatic ? 'mdn-sent-automatically' : 'mdn-sent-manually',
+            type: 'displayed',
+          });
+        } finally {
+          set({ isSendingReceipt: false });
+        }
       },
 
-      getOpenRate: (emailIds) => {
-        const state = get();
-        const data = state.trackingData.filter((d) => emailIds.includes(d.emailId));
-        if (data.length === 0) return 0;
-        const opened = data.filter((d) => d.openCount > 0).length;
-        return (opened / data.length) * 100;
-      },
-
-      getClickRate: (emailIds) => {
-        const state = get();
-        const data = state.trackingData.filter((d) => emailIds.includes(d.emailId));
-        if (data.length === 0) return 0;
-        const clicked = data.filter((d) => d.clickCount > 0).length;
-        return (clicked / data.length) * 100;
-      },
-
-      getDeliveryRate: (emailIds) => {
-        const state = get();
-        const data = state.trackingData.filter((d) => emailIds.includes(d.emailId));
-        if (data.length === 0) return 0;
-        const delivered = data.filter(
-          (d) => d.status === 'delivered' || d.status === 'opened'
-        ).length;
-        return (delivered / data.length) * 100;
+      declineReadReceipt: async (client, email) => {
+        // $mdnsent also marks a declined request, so no client asks again (RFC 9007)
+        await client.updateEmailKeywords(email.id, { ...email.keywords, $mdnsent: true });
       },
 
       updateSettings: (updates) =>
         set((state) => ({
           settings: { ...state.settings, ...updates },
         })),
-
-      getSettings: () => {
-        const state = get();
-        return state.settings;
-      },
-
-      deleteTrackingData: (emailId) =>
-        set((state) => ({
-          trackingData: state.trackingData.filter((d) => d.emailId !== emailId),
-        })),
-
-      cleanupOldData: (retentionDays) =>
-        set((state) => {
-          const cutoffDate = new Date();
-          cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
-
-          return {
-            trackingData: state.trackingData.filter(
-              (d) => new Date(d.sentAt) > cutoffDate
-            ),
-          };
-        }),
-
-      setSelectedTrackingId: (trackingId) => set({ selectedTrackingId: trackingId }),
     }),
     {
       name: 'email-tracking-store',
-      version: 1,
+      version: 2,
+      partialize: (state) => ({ settings: state.settings }),
+      // Version 1 held pixel tracking settings that no longer apply
+      migrate: () => ({ settings: DEFAULT_SETTINGS }),
     }
   )
 );
@@ -7,12 +7,28 @@ import {
   FilterCondition,
   FilterAction,
 } from "@/lib/filter-types";
+import {
+  SIEVE_SCRIPT_NAME,
+  compileFiltersToSieve,
+  isUnmodifiedGeneratedSieve,
+  parseGeneratedSieve,
+} from "@/lib/sieve-utils";
+import type { JMAPClient } from "@/lib/jmap/client";
+import type { Mailbox, SieveScript } from "@/lib/jmap/types";
 
 interface FilterStore {
   filters: EmailFilter[];
   stats: FilterStats;
   selectedFilterId: string | null;
 
+  // Server-side rules (JMAP Sieve)
+  sieveScripts: SieveScript[];       // All scripts on the server
+  sieveScriptId: string | null;      // The script managed by the rule editor
+  isScriptCustomized: boolean;       // Our script was edited outside the rule editor
+  syncedScript: string | null;       // Script content as last uploaded or loaded
+  isSyncing: boolean;
+  syncError: string | null;
+
   // CRUD operations
   createFilter: (
     name: string,
@@ -53,6 +69,18 @@ interface FilterStore {
   // Get helpers
   getFilterById: (id: string) => EmailFilter | undefined;
   getEnabledFilters: () => EmailFilter[];
+
+  // Server sync
+  loadServerRules: (client: JMAPClient) => Promise<void>;
+  syncServerRules: (
+    client: JMAPClient,
+    mailboxes: Mailbox[],
+    options?: { overwriteCustomized?: boolean; replaceActive?: boolean }
+  ) => Promise<boolean>;
+  saveRawScript: (client: JMAPClient, script: SieveScript | null, content: string, activate: boolean) => Promise<void>;
+  activateScript: (client: JMAPClient, scriptId: string | null) => Promise<void>;
+  deleteScript: (client: JMAPClient, scriptId: string) => Promise<void>;
+  getForeignActiveScript: () => SieveScript | null;
 }
 
 const generateConditionId = () => `cond_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -67,6 +95,12 @@ export const useFilterStore = create<FilterStore>()(
         enabledRules: 0,
       },
       selectedFilterId: null,
+      sieveScripts: [],
+      sieveScriptId: null,
+      isScriptCustomized: false,
+      syncedScript: null,
+      isSyncing: false,
+      syncError: null,
 
       createFilter: (name: string, description?: string) => {
         const newFilter: EmailFilter = {
@@ -316,10 +350,161 @@ export const useFilterStore = create<FilterStore>()(
       getEnabledFilters: () => {
         return get().filters.filter((f) => f.enabled);
       },
+
+      loadServerRules: async (client: JMAPClient) => {
+        if (!client.supportsSieve()) return;
+
+        set({ isSyncing: true, syncError: null });
+        try {
+          const scripts = await client.getSieveScripts();
+          const ours = scripts.find((s) => s.name === SIEVE_SCRIPT_NAME) || null;
+
+          if (!ours) {
+            set({ sieveScripts: scripts, sieveScriptId: null, isScriptCustomized: false, isSyncing: false });
+            return;
+          }
+
+          const content = await client.getSieveScriptContent(ours.blobId);
+          const serverFilters = isUnmodifiedGeneratedSieve(content) ? parseGeneratedSieve(content) : null;
+
+          if (serverFilters) {
+            // The server copy is authoritative, e.g. rules edited on another device
+            set({
+              filters: serverFilters,
+              stats: {
+                ...get().stats,
+                totalRules: serverFilters.length,
+                enabledRules: serverFilters.filter((f) => f.enabled).length,
+              },
+              sieveScripts: scripts,
+              sieveScriptId: ours.id,
+              isScriptCustomized: false,
+              syncedScript: content,
+              isSyncing: false,
+            });
+          } else {
+            set({
+              sieveScripts: scripts,
+              sieveScriptId: ours.id,
+              isScriptCustomized: true,
+              syncedScript: content,
+              isSyncing: false,
+            });
+          }
+        } catch (error) {
+          console.error("Failed to load server rules:", error);
+          set({
+            isSyncing: false,
+            syncError: error instanceof Error ? error.message : String(error),
+          });
+        }
+      },
+
+      syncServerRules: async (client, mailboxes, options = {}) => {
+        const state = get();
+
+        // Never replace a hand-edited script or another client's active script
+        // without the user's say-so
+        if (state.isScriptCustomized && !options.overwriteCustomized) {
+          return false;
+        }
+        const foreignActive = state.getForeignActiveScript();
+        if (foreignActive && !options.replaceActive) {
+          return false;
+        }
+
+        set({ isSyncing: true, syncError: null });
+        try {
+          const content = compileFiltersToSieve(state.filters, {
+            mailboxes,
+            extensions: client.getSieveCapability()?.sieveExtensions,
+          });
+
+          const validationError = await client.validateSieveScript(content);
+          if (validationError) {
+            throw new Error(validationError);
+          }
+
+          const saved = await client.saveSieveScript(SIEVE_SCRIPT_NAME, content, {
+            scriptId: state.sieveScriptId || undefined,
+            activate: true,
+          });
+
+          set({
+            sieveScripts: await client.getSieveScripts(),
+            sieveScriptId: saved.id,
+            isScriptCustomized: false,
+            syncedScript: content,
+            isSyncing: false,
+          });
+          return true;
+        } catch (error) {
+          console.error("Failed to sync server rules:", error);
+          set({
+            isSyncing: false,
+            syncError: error instanceof Error ? error.message : String(error),
+          });
+          return false;
+        }
+      },
+
+      saveRawScript: async (client, script, content, activate) => {
+        // Errors are surfaced by the raw editor, next to the offending line
+        const saved = await client.saveSieveScript(script?.name || SIEVE_SCRIPT_NAME, content, {
+          scriptId: script?.id,
+          activate,
+        });
+
+        const scripts = await client.getSieveScripts();
+        const isOurs = (script?.name || SIEVE_SCRIPT_NAME) === SIEVE_SCRIPT_NAME;
+        set({
+          sieveScripts: scripts,
+          ...(isOurs && {
+            sieveScriptId: saved.id,
+            isScriptCustomized: !isUnmodifiedGeneratedSieve(content),
+            syncedScript: content,
+          }),
+        });
+      },
+
+      activateScript: async (client, scriptId) => {
+        try {
+          await client.activateSieveScript(scriptId);
+          set({ sieveScripts: await client.getSieveScripts(), syncError: null });
+        } catch (error) {
+          console.error("Failed to activate sieve script:", error);
+          set({ syncError: error instanceof Error ? error.message : String(error) });
+        }
+      },
+
+      deleteScript: async (client, scriptId) => {
+        try {
+          await client.deleteSieveScript(scriptId);
+          const isOurs = get().sieveScriptId === scriptId;
+          set({
+            sieveScripts: await client.getSieveScripts(),
+            syncError: null,
+            ...(isOurs && { sieveScriptId: null, isScriptCustomized: false, syncedScript: null }),
+          });
+        } catch (error) {
+          console.error("Failed to delete sieve script:", error);
+          set({ syncError: error instanceof Error ? error.message : String(error) });
+        }
+      },
+
+      getForeignActiveScript: () => {
+        return get().sieveScripts.find((s) => s.isActive && s.name !== SIEVE_SCRIPT_NAME) || null;
+      },
     }),
     {
       name: "filter-store",
       version: 1,
+      partialize: (state) => ({
+        filters: state.filters,
+        stats: state.stats,
+        selectedFilterId: state.selectedFilterId,
+        syncedScript: state.syncedScript,
+      }),
     }
   )
 );
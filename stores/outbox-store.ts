@@ -0,0 +1,188 @@
+import { create } from "zustand";
+import { JMAPClient } from "@/lib/jmap/client";
+import type { EmailSyncState, SetResult } from "@/lib/jmap/types";
+import { deleteOutboxEntry, getOutboxEntries, putOutboxEntry } from "@/lib/offline-cache";
+import { isNetworkError, type OutboxAction, type OutboxConflict, type OutboxEntry } from "@/lib/offline-types";
+import { useEmailEncryptionStore } from "@/stores/email-encryption-store";
+
+interface OutboxState {
+  accountId: string | null; // Account whose outbox is loaded
+  entries: OutboxEntry[];
+  isReplaying: boolean;
+
+  load: (accountId: string) => Promise<void>;
+  enqueue: (accountId: string, action: OutboxAction, targetAccountId?: string) => Promise<void>;
+  // Replays pending entries in order, returns how many reached the server
+  replay: (client: JMAPClient) => Promise<number>;
+  // Replays a conflicting or failed entry again, overriding the conflict
+  retry: (client: JMAPClient, id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+}
+
+// The server's answer for the one email an entry is about: null once applied, the conflict
+// when the email is gone, and any other refusal is thrown so the entry shows as failed
+function checkSetResult(result: SetResult, emailId: string, goneIsDone = false): OutboxConflict | null {
+  const error = result.notUpdated[emailId] || result.notDestroyed[emailId];
+  if (!error) return null;
+  if (error.type === "notFound") return goneIsDone ? null : "deleted";
+  throw new Error(error.description || error.type);
+}
+
+// Apply one queued action against the current server state, returning the conflict that
+// kept it from being applied, if any; force skips the "moved" and "interrupted" checks
+async function applyAction(
+  client: JMAPClient,
+  entry: OutboxEntry,
+  force: boolean,
+  onSubmit: () => Promise<void>
+): Promise<OutboxConflict | null> {
+  const { action, targetAccountId } = entry;
+
+  if (action.type === "send") {
+    // The server may have sent it already, only the user can tell it to go again
+    if (entry.submittedAt && !force) return "interrupted";
+    const { to, subject, body, cc, bcc, draftId, fromEmail, identityId, options } = action.message;
+    await client.sendEmail(to, subject, body, cc, bcc, draftId, fromEmail, identityId, {
+      autocryptHeader: (from) => useEmailEncryptionStore.getState().getAutocryptHeader(from),
+      ...options,
+      onSubmit,
+    });
+    return null;
+  }
+
+  const [current]: (EmailSyncState | undefined)[] = await client.getEmailSyncStates([action.emailId], targetAccountId);
+
+  switch (action.type) {
+    case "keywords": {
+      if (!current) return "deleted";
+      // Merge into the server's keywords, so changes made elsewhere meanwhile are kept
+      const keywords: Record<string, boolean> = { ...current.keywords };
+      Object.entries(action.keywords).forEach(([keyword, value]) => {
+        if (value) keywords[keyword] = true;
+        else delete keywords[keyword];
+      });
+      return checkSetResult(await client.batchUpdateEmailKeywords({ [action.emailId]: keywords }, targetAccountId), action.emailId);
+    }
+    case "move": {
+      if (!current) return "deleted";
+      if (current.mailboxIds[action.toMailboxId] && Object.keys(current.mailboxIds).length === 1) return null;
+      if (!force && !action.fromMailboxIds.some((id) => current.mailboxIds[id])) return "moved";
+      return checkSetResult(await client.batchMoveEmails([action.emailId], action.toMailboxId, targetAccountId), action.emailId);
+    }
+    case "delete": {
+      // Already gone is what we wanted
+      if (!current) return null;
+      const result = action.trashMailboxId
+        ? await client.batchMoveEmails([action.emailId], action.trashMailboxId, targetAccountId)
+        : await client.batchDeleteEmails([action.emailId], targetAccountId);
+      return checkSetResult(result, action.emailId, true);
+    }
+  }
+}
+
+export const useOutboxStore = create<OutboxState>()((set, get) => {
+  const update = async (entry: OutboxEntry) => {
+    await putOutboxEntry(entry);
+    set((state) => ({ entries: state.entries.map((e) => (e.id === entry.id ? entry : e)) }));
+  };
+
+  const remove = async (id: string) => {
+    await deleteOutboxEntry(id);
+    set((state) => ({ entries: state.entries.filter((e) => e.id !== id) }));
+  };
+
+  // Returns false when the server is unreachable, so the rest waits for the next attempt
+  const run = async (client: JMAPClient, entry: OutboxEntry, force: boolean): Promise<boolean> => {
+    // Saved before a send goes out, so a lost answer or a closed tab can't send it twice
+    let current = entry;
+    const onSubmit = async () => {
+      current = { ...current, submittedAt: Date.now() };
+      await update(current);
+    };
+
+    try {
+      const conflict = await applyAction(client, current, force, onSubmit);
+      if (conflict) {
+        await update({ ...current, status: "conflict", conflict, error: undefined });
+      } else {
+        await remove(entry.id);
+      }
+      return true;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        if (current.submittedAt) {
+          await update({ ...current, status: "conflict", conflict: "interrupted", error: undefined });
+        }
+        return false;
+      }
+      console.error("Failed to replay outbox entry:", error);
+      await update({
+        ...current,
+        status: "failed",
+        conflict: undefined,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return true;
+    }
+  };
+
+  return {
+    accountId: null,
+    entries: [],
+    isReplaying: false,
+
+    load: async (accountId) => {
+      set({ accountId, entries: [] });
+      const entries = await getOutboxEntries(accountId);
+      // The user may have switched again meanwhile
+      if (get().accountId === accountId) {
+        set({ entries });
+      }
+    },
+
+    enqueue: async (accountId, action, targetAccountId) => {
+      const entry: OutboxEntry = {
+        id: `outbox-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        accountId,
+        ...(targetAccountId && { targetAccountId }),
+        action,
+        status: "pending",
+        createdAt: Date.now(),
+      };
+      await putOutboxEntry(entry);
+      if (get().accountId === accountId) {
+        set((state) => ({ entries: [...state.entries, entry] }));
+      }
+    },
+
+    replay: async (client) => {
+      if (get().isReplaying) return 0;
+      const accountId = client.getAccountId();
+      const pending = get().entries.filter((e) => e.status === "pending" && e.accountId === accountId);
+      if (pending.length === 0) return 0;
+
+      set({ isReplaying: true });
+      let replayed = 0;
+      try {
+        // In order: a flag set offline must land before a later move of the same email
+        for (const entry of pending) {
+          if (!(await run(client, entry, false))) break;
+          if (!get().entries.some((e) => e.id === entry.id)) replayed++;
+        }
+      } finally {
+        set({ isReplaying: false });
+      }
+      return replayed;
+    },
+
+    retry: async (client, id) => {
+      const entry = get().entries.find((e) => e.id === id);
+      if (!entry) return;
+      await run(client, { ...entry, status: "pending" }, true);
+    },
+
+    discard: async (id) => {
+      await remove(id);
+    },
+  };
+});
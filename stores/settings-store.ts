@@ -9,6 +9,7 @@ export type DateFormat = 'regional' | 'iso' | 'custom';
 export type TimeFormat = '12h' | '24h';
 export type FirstDayOfWeek = 0 | 1; // 0 = Sunday, 1 = Monday
 export type ExternalContentPolicy = 'ask' | 'block' | 'allow';
+export type ComposeFormat = 'plain' | 'html';
 
 interface SettingsState {
   // Appearance
@@ -31,7 +32,9 @@ interface SettingsState {
   // Composer
   autoSaveDraftInterval: number; // milliseconds
   sendConfirmation: boolean;
+  undoSendDelay: number; // seconds, 0 = send immediately
   defaultReplyMode: ReplyMode;
+  composeFormat: ComposeFormat;
 
   // Privacy & Security
   sessionTimeout: number; // minutes (0 = never)
@@ -76,7 +79,9 @@ const DEFAULT_SETTINGS = {
   // Composer
   autoSaveDraftInterval: 60000, // 1 minute
   sendConfirmation: false,
+  undoSendDelay: 10,
   defaultReplyMode: 'reply' as ReplyMode,
+  composeFormat: 'html' as ComposeFormat,
 
   // Privacy & Security
   sessionTimeout: 0, // Never
@@ -134,7 +139,9 @@ export const useSettingsStore = create<SettingsState>()(
           trustedSenders: state.trustedSenders,
           autoSaveDraftInterval: state.autoSaveDraftInterval,
           sendConfirmation: state.sendConfirmation,
+          undoSendDelay: state.undoSendDelay,
           defaultReplyMode: state.defaultReplyMode,
+          composeFormat: state.composeFormat,
           sessionTimeout: state.sessionTimeout,
           debugMode: state.debugMode,
         };
@@ -0,0 +1,365 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  DecryptionResult,
+  OutgoingProtectedMessage,
+  SMIMECertificate,
+  SMIMESendMode,
+  SMIMESignatureCheck,
+} from '@/lib/email-encryption-types';
+import { JMAPClient } from '@/lib/jmap/client';
+import type { Email } from '@/lib/jmap/types';
+import { MimeEntity, buildContentEntity, decodeEntityBody, extractMimeContent, parseMimeEntity } from '@/lib/mime-utils';
+import {
+  SMIMEPrivateKey,
+  buildEnvelopedEntity,
+  buildSignedEntity,
+  decryptEnveloped,
+  encryptEnveloped,
+  getEnvelopeRecipients,
+  isEnvelopedData,
+  readCertificates,
+  readPKCS12,
+  signDetached,
+  unlockPrivateKey,
+  verifySignedData,
+} from '@/lib/smime-utils';
+
+export type SMIMEResult = DecryptionResult<SMIMESignatureCheck>;
+
+interface SMIMESettings {
+  preferSMIME: boolean; // Use S/MIME rather than OpenPGP when both are set up for the sender
+}
+
+interface SMIMEState {
+  // Own certificates (with their protected keys) and correspondents' certificates
+  certificates: SMIMECertificate[];
+
+  // Locally managed trust store: the authorities signatures are checked against
+  trustAnchors: SMIMECertificate[];
+
+  // Settings
+  settings: SMIMESettings;
+
+  // Certificates whose private key is unlocked for this session (never persisted)
+  unlockedCertificateIds: string[];
+
+  // Opened messages, keyed by email id (never persisted)
+  openedMessages: Record<string, SMIMEResult>;
+
+  // Certificate Actions
+  importPKCS12: (data: Uint8Array, password: string) => Promise<SMIMECertificate>;
+  importCertificates: (data: Uint8Array) => Promise<SMIMECertificate[]>;
+  deleteCertificate: (id: string) => void;
+  getCertificatesByEmail: (email: string) => SMIMECertificate[];
+  getOwnCertificate: (fromEmail?: string) => SMIMECertificate | undefined;
+  setDefaultCertificate: (id: string) => void;
+  findRecipientCertificates: (emails: string[]) => { found: SMIMECertificate[]; missing: string[] };
+
+  // Trust Store Actions
+  importTrustAnchors: (data: Uint8Array) => Promise<SMIMECertificate[]>;
+  removeTrustAnchor: (id: string) => void;
+
+  // Session Actions
+  unlockCertificate: (id: string, password: string) => Promise<void>;
+  lockCertificates: () => void;
+  isUnlocked: (id: string) => boolean;
+
+  // Message Actions
+  buildMimeBody: (client: JMAPClient, message: OutgoingProtectedMessage, mode: SMIMESendMode) => Promise<string>;
+  openMessage: (client: JMAPClient, email: Email) => Promise<SMIMEResult>;
+
+  // Settings
+  updateSettings: (settings: Partial<SMIMESettings>) => void;
+}
+
+const DEFAULT_SETTINGS: SMIMESettings = {
+  preferSMIME: false,
+};
+
+const unlockedKeys = new Map<string, SMIMEPrivateKey>();
+
+const PLAIN_RESULT: SMIMEResult = {
+  status: 'plain',
+  isEncrypted: false,
+  signature: null,
+  attachments: [],
+};
+
+const SIGNATURE_TYPES = ['application/pkcs7-signature', 'application/x-pkcs7-signature'];
+const MIME_TYPES = ['application/pkcs7-mime', 'application/x-pkcs7-mime'];
+
+const isValidNow = (certificate: SMIMECertificate) =>
+  new Date(certificate.notBefore) <= new Date() && new Date(certificate.notAfter) > new Date();
+
+// Add certificates that aren't known yet; an own certificate replaces the public-only copy
+const mergeCertificates = (certificates: SMIMECertificate[], added: SMIMECertificate[]) => {
+  const merged = [...certificates];
+  for (const certificate of added) {
+    const index = merged.findIndex((existing) => existing.id === certificate.id);
+    if (index === -1) {
+      merged.push(certificate);
+    } else if (certificate.type === 'private' || merged[index].type === 'public') {
+      merged[index] = { ...certificate, isDefault: merged[index].isDefault };
+    }
+  }
+  return merged;
+};
+
+export const useSMIMEStore = create<SMIMEState>()(
+  persist(
+    (set, get) => {
+      const requireUnlocked = (certificate: SMIMECertificate | undefined) => {
+        const privateKey = certificate && unlockedKeys.get(certificate.id);
+        if (!certificate) throw new Error('No S/MIME certificate available');
+        if (!privateKey) throw new Error(`The certificate for ${certificate.email} is locked`);
+        return privateKey;
+      };
+
+      const verify = async (der: Uint8Array, detachedContent: string | undefined, senderEmail?: string) => {
+        const { trustAnchors, certificates } = get();
+        const verified = await verifySignedData(der, detachedContent, trustAnchors, certificates, senderEmail);
+        const { signer, chain, state } = verified.signature;
+
+        // Harvest the certificate of a good signature, so we can encrypt to the sender. Only a trusted
+        // one matching the sender: anyone can sign with a self-made certificate for someone else's address
+        if (signer && state === 'valid' && !signer.isCA && signer.emails.length > 0) {
+          set((current) => ({
+            certificates: mergeCertificates(current.certificates, [{
+              ...signer,
+              chainPem: chain.slice(1).map((cert) => cert.certificatePem),
+            }]),
+          }));
+        }
+        return verified;
+      };
+
+      return {
+        certificates: [],
+        trustAnchors: [],
+        settings: DEFAULT_SETTINGS,
+        unlockedCertificateIds: [],
+        openedMessages: {},
+
+        // Certificate Actions
+        importPKCS12: async (data, password) => {
+          const certificate = await readPKCS12(data, password);
+          set((state) => ({ certificates: mergeCertificates(state.certificates, [certificate]), openedMessages: {} }));
+          if (!get().certificates.some((c) => c.isDefault)) {
+            get().setDefaultCertificate(certificate.id);
+          }
+          return certificate;
+        },
+
+        importCertificates: async (data) => {
+          const imported = (await readCertificates(data)).filter((certificate) => !certificate.isCA);
+          if (imported.length === 0) {
+            throw new Error('No end-entity certificate found');
+          }
+          set((state) => ({ certificates: mergeCertificates(state.certificates, imported) }));
+          return imported;
+        },
+
+        deleteCertificate: (id) => {
+          unlockedKeys.delete(id);
+          set((state) => ({
+            certificates: state.certificates.filter((c) => c.id !== id),
+            unlockedCertificateIds: state.unlockedCertificateIds.filter((certificateId) => certificateId !== id),
+            openedMessages: {},
+          }));
+        },
+
+        getCertificatesByEmail: (email) => {
+          const address = email.toLowerCase();
+          return get().certificates.filter((c) => c.emails.includes(address));
+        },
+
+        // The certificate for the sending address, otherwise the default one
+        getOwnCertificate: (fromEmail) => {
+          const state = get();
+          const own = state.certificates.filter((c) => c.type === 'private' && isValidNow(c));
+          const forAddress = fromEmail ? own.filter((c) => c.emails.includes(fromEmail.toLowerCase())) : [];
+          return forAddress.find((c) => c.isDefault) || forAddress[0] || own.find((c) => c.isDefault) || own[0];
+        },
+
+        setDefaultCertificate: (id) =>
+          set((state) => ({
+            certificates: state.certificates.map((c) => ({
+              ...c,
+              isDefault: c.type === 'private' && c.id === id,
+            })),
+          })),
+
+        // The newest valid certificate of each recipient
+        findRecipientCertificates: (emails) => {
+          const found: SMIMECertificate[] = [];
+          const missing: string[] = [];
+          for (const email of emails) {
+            const [certificate] = get().getCertificatesByEmail(email)
+              .filter(isValidNow)
+              .sort((a, b) => b.notBefore.localeCompare(a.notBefore));
+            if (certificate) {
+              found.push(certificate);
+            } else {
+              missing.push(email);
+            }
+          }
+          return { found, missing };
+        },
+
+        // Trust Store Actions
+        importTrustAnchors: async (data) => {
+          const imported = await readCertificates(data);
+          set((state) => ({
+            trustAnchors: [
+              ...state.trustAnchors,
+              ...imported.filter((anchor) => !state.trustAnchors.some((existing) => existing.id === anchor.id)),
+            ],
+            openedMessages: {},
+          }));
+          return imported;
+        },
+
+        removeTrustAnchor: (id) =>
+          set((state) => ({
+            trustAnchors: state.trustAnchors.filter((anchor) => anchor.id !== id),
+            openedMessages: {},
+          })),
+
+        // Session Actions
+        unlockCertificate: async (id, password) => {
+          const certificate = get().certificates.find((c) => c.id === id);
+          if (!certificate) throw new Error('Certificate not found');
+          unlockedKeys.set(id, await unlockPrivateKey(certificate, password));
+          set((state) => ({
+            unlockedCertificateIds: [...state.unlockedCertificateIds.filter((certificateId) => certificateId !== id), id],
+            // Messages that were locked can be opened now
+            openedMessages: Object.fromEntries(
+              Object.entries(state.openedMessages).filter(([, result]) => result.status !== 'locked')
+            ),
+          }));
+        },
+
+        lockCertificates: () => {
+          unlockedKeys.clear();
+          set({ unlockedCertificateIds: [], openedMessages: {} });
+        },
+
+        isUnlocked: (id) => get().unlockedCertificateIds.includes(id),
+
+        // Message Actions
+        buildMimeBody: async (client, message, mode) => {
+          const attachments = await Promise.all((message.attachments || []).map(async (att) => ({
+            name: att.name,
+            type: att.type,
+            data: await client.getBlobBytes(att.blobId),
+            cid: att.cid,
+            disposition: att.disposition || (att.cid ? 'inline' as const : 'attachment' as const),
+          })));
+          let content = buildContentEntity(message.body, message.htmlBody, attachments);
+
+          const ownCertificate = get().getOwnCertificate(message.from);
+          if (mode.sign) {
+            const privateKey = requireUnlocked(ownCertificate);
+            content = buildSignedEntity(content, await signDetached(content, ownCertificate!, privateKey));
+          }
+
+          if (mode.encrypt) {
+            const { found, missing } = get().findRecipientCertificates(message.recipients);
+            if (missing.length > 0) {
+              throw new Error(`No S/MIME certificate for ${missing.join(', ')}`);
+            }
+            // Also encrypted to the sender, so the copy in Sent stays readable
+            const recipients = [...found, ...(ownCertificate ? [ownCertificate] : [])];
+            return buildEnvelopedEntity(await encryptEnveloped(content, recipients));
+          }
+
+          return content;
+        },
+
+        openMessage: async (client, email) => {
+          const cached = get().openedMessages[email.id];
+          if (cached) return cached;
+
+          const senderEmail = email.from?.[0]?.email;
+          let result: SMIMEResult = PLAIN_RESULT;
+          let isEncrypted = false;
+
+          try {
+            let entity: MimeEntity = parseMimeEntity(await client.getRawEmail(email.id, email.accountId));
+            let signature: SMIMESignatureCheck | null = null;
+            let isOpaque = false;
+
+            // Encrypted, then possibly signed inside (opaque or multipart/signed)
+            for (let depth = 0; depth < 3 && MIME_TYPES.includes(entity.contentType); depth++) {
+              isOpaque = true;
+              const der = decodeEntityBody(entity);
+              if (await isEnvelopedData(der)) {
+                isEncrypted = true;
+                const serials = await getEnvelopeRecipients(der);
+                const candidates = get().certificates.filter((c) => c.type === 'private' && serials.includes(c.serialNumber));
+                const certificate = candidates.find((c) => unlockedKeys.has(c.id));
+                if (!certificate) {
+                  result = {
+                    ...PLAIN_RESULT,
+                    status: candidates.length > 0 ? 'locked' : 'no-key',
+                    isEncrypted: true,
+                    neededKeyIds: serials,
+                  };
+                  break;
+                }
+                entity = parseMimeEntity(await decryptEnveloped(der, certificate, unlockedKeys.get(certificate.id)!));
+              } else {
+                const verified = await verify(der, undefined, senderEmail);
+                signature = verified.signature;
+                entity = parseMimeEntity(verified.content);
+              }
+            }
+
+            if (result.status === 'plain') {
+              if (entity.contentType === 'multipart/signed' && entity.parts.length === 2 &&
+                SIGNATURE_TYPES.includes(entity.parts[1].contentType)) {
+                const verified = await verify(decodeEntityBody(entity.parts[1]), entity.parts[0].raw, senderEmail);
+                signature = verified.signature;
+                entity = entity.parts[0];
+              }
+              if (isEncrypted || signature) {
+                const content = extractMimeContent(entity);
+                // Attachments of a plain multipart/signed message are regular blobs on the server
+                result = { ...PLAIN_RESULT, status: 'ok', isEncrypted, signature, ...content, attachments: isOpaque ? content.attachments : [] };
+              }
+            }
+          } catch (error) {
+            console.error('Failed to open S/MIME message:', error);
+            result = {
+              ...PLAIN_RESULT,
+              status: 'failed',
+              isEncrypted,
+              error: error instanceof Error ? error.message : String(error),
+            };
+          }
+
+          set((state) => ({
+            openedMessages: { ...state.openedMessages, [email.id]: result },
+          }));
+          return result;
+        },
+
+        // Settings
+        updateSettings: (updates) =>
+          set((state) => ({
+            settings: { ...state.settings, ...updates },
+          })),
+      };
+    },
+    {
+      name: 'smime-store',
+      version: 1,
+      partialize: (state) => ({
+        certificates: state.certificates,
+        trustAnchors: state.trustAnchors,
+        settings: state.settings,
+      }),
+    }
+  )
+);
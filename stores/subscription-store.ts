@@ -0,0 +1,132 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { JMAPClient } from '@/lib/jmap/client';
+import type { Identity, Mailbox } from '@/lib/jmap/types';
+import { getUnsubscribeMethod, parseListId } from '@/lib/email-headers';
+import type { MailingListEmail, Subscription, UnsubscribeTarget } from '@/lib/subscription-types';
+
+interface SubscriptionState {
+  subscriptions: Subscription[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Lists left from this browser, by List-Id, with when
+  unsubscribed: Record<string, number>;
+
+  fetchSubscriptions: (client: JMAPClient) => Promise<void>;
+  // Resolves to 'opened' when the sender's page has to be completed in a new tab
+  unsubscribe: (client: JMAPClient, target: UnsubscribeTarget, identities: Identity[]) => Promise<'done' | 'opened'>;
+  // Moves the list's messages to the archive, returns how many were moved
+  // Ids of the messages the server refused to move are in failed
+  archiveList: (client: JMAPClient, listId: string, mailboxes: Mailbox[]) => Promise<{ archived: number; failed: string[] }>;
+  clearError: () => void;
+}
+
+// Messages scanned to build the overview, newest first
+const SCAN_LIMIT = 500;
+
+// Group mailing list messages by List-Id; the newest message decides how to unsubscribe
+const toSubscriptions = (emails: MailingListEmail[]): Subscription[] => {
+  const byListId = new Map<string, Subscription>();
+
+  for (const email of emails) {
+    const list = email.listId ? parseListId(email.listId) : null;
+    if (!list) continue;
+
+    const sender = email.from?.[0];
+    const recipients = (email.to || []).map((addr) => addr.email.toLowerCase());
+    const existing = byListId.get(list.id);
+    if (existing) {
+      existing.emailCount++;
+      existing.recipients = Array.from(new Set([...existing.recipients, ...recipients]));
+      continue;
+    }
+
+    byListId.set(list.id, {
+      listId: list.id,
+      name: list.name || sender?.name || sender?.email || list.id,
+      senderEmail: sender?.email || '',
+      emailCount: 1,
+      lastReceivedAt: email.receivedAt,
+      unsubscribe: getUnsubscribeMethod(email.listUnsubscribe || [], email.listUnsubscribePost),
+      recipients,
+    });
+  }
+
+  return Array.from(byListId.values()).sort((a, b) => b.emailCount - a.emailCount);
+};
+
+export const useSubscriptionStore = create<SubscriptionState>()(
+  persist(
+    (set) => ({
+      subscriptions: [],
+      isLoading: false,
+      error: null,
+      unsubscribed: {},
+
+      fetchSubscriptions: async (client) => {
+        set({ isLoading: true, error: null });
+        try {
+          const emails = await client.getMailingListEmails(SCAN_LIMIT);
+          set({ subscriptions: toSubscriptions(emails), isLoading: false });
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to fetch subscriptions',
+            isLoading: false,
+          });
+        }
+      },
+
+      unsubscribe: async (client, target, identities) => {
+        const { method } = target;
+
+        if (method.type === 'link') {
+          window.open(method.url, '_blank', 'noopener,noreferrer');
+          return 'opened';
+        }
+
+        if (method.type === 'one-click') {
+          // Senders don't allow cross-origin requests, so the server posts for us
+          await client.unsubscribeOneClick(method.url);
+        } else {
+          // Send from the address that receives the list, or it may not be recognized
+          const identity = identities.find((id) => target.recipients.includes(id.email.toLowerCase()));
+          await client.sendEmail([method.to], method.subject, method.body, undefined, undefined, undefined, identity?.email, identity?.id);
+        }
+
+        set((state) => ({
+          unsubscribed: { ...state.unsubscribed, [target.listId]: Date.now() },
+        }));
+        return 'done';
+      },
+
+      archiveList: async (client, listId, mailboxes) => {
+        const own = mailboxes.filter((mb) => !mb.isShared);
+        const archive = own.find((mb) => mb.role === 'archive') || own.find((mb) => mb.name.toLowerCase() === 'archive');
+        if (!archive) {
+          throw new Error('No archive folder');
+        }
+
+        // Leave what is already archived, deleted or marked as spam where it is
+        const excluded = own
+          .filter((mb) => mb.id === archive.id || mb.role === 'trash' || mb.role === 'junk')
+          .map((mb) => mb.originalId || mb.id);
+        const emailIds = await client.queryEmailIds({
+          operator: 'AND',
+          conditions: [{ header: ['List-Id', listId] }, { inMailboxOtherThan: excluded }],
+        });
+
+        const { updated, notUpdated } = await client.batchMoveEmails(emailIds, archive.originalId || archive.id);
+        return { archived: updated.length, failed: Object.keys(notUpdated) };
+      },
+
+      clearError: () => set({ error: null }),
+    }),
+    {
+      name: 'subscription-store',
+      version: 1,
+      partialize: (state) => ({ unsubscribed: state.unsubscribed }),
+      migrate: () => ({ unsubscribed: {} }),
+    }
+  )
+);
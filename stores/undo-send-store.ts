@@ -0,0 +1,112 @@
+import { create } from "zustand";
+import { JMAPClient } from "@/lib/jmap/client";
+import type { EmailSendOptions } from "@/lib/jmap/types";
+import type { ComposerSnapshot } from "@/lib/composer-types";
+import { useEmailStore } from "@/stores/email-store";
+
+// Arguments of useEmailStore's sendEmail
+export interface OutgoingEmail {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  body: string;
+  draftId?: string;
+  fromEmail?: string;
+  identityId?: string;
+  options: EmailSendOptions;
+}
+
+// A send that can still be taken back: either held by the server (HOLDFOR) and
+// canceled through its submission, or held here until the timer fires
+interface PendingSend {
+  id: string;
+  snapshot: ComposerSnapshot;
+  submissionId: string | null;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface UndoSendState {
+  pendingSends: PendingSend[];
+
+  sendWithUndo: (
+    client: JMAPClient,
+    email: OutgoingEmail,
+    snapshot: ComposerSnapshot,
+    delaySeconds: number,
+    onError: (error: unknown) => void
+  ) => Promise<string>;
+  undoSend: (client: JMAPClient, pendingId: string) => Promise<ComposerSnapshot | null>;
+}
+
+const sendNow = (client: JMAPClient, email: OutgoingEmail) =>
+  useEmailStore.getState().sendEmail(
+    client,
+    email.to,
+    email.subject,
+    email.body,
+    email.cc,
+    email.bcc,
+    email.draftId,
+    email.fromEmail,
+    email.identityId,
+    email.options
+  );
+
+export const useUndoSendStore = create<UndoSendState>()((set, get) => ({
+  pendingSends: [],
+
+  sendWithUndo: async (client, email, snapshot, delaySeconds, onError) => {
+    const id = `send-${Date.now()}`;
+    const forget = () => set((state) => ({
+      pendingSends: state.pendingSends.filter((p) => p.id !== id),
+    }));
+
+    // Prefer the server hold: the message goes out even if this tab is closed
+    if (client.getMaxDelayedSend() >= delaySeconds) {
+      const sent = await sendNow(client, { ...email, options: { ...email.options, holdFor: delaySeconds } });
+      set((state) => ({
+        pendingSends: [...state.pendingSends, {
+          id,
+          snapshot: { ...snapshot, draftId: sent.emailId },
+          submissionId: sent.submissionId,
+          timer: setTimeout(forget, delaySeconds * 1000),
+        }],
+      }));
+      return id;
+    }
+
+    // Otherwise nothing is sent until the window closes; the draft stays in place until then
+    const timer = setTimeout(async () => {
+      forget();
+      try {
+        await sendNow(client, email);
+      } catch (error) {
+        onError(error);
+      }
+    }, delaySeconds * 1000);
+
+    set((state) => ({
+      pendingSends: [...state.pendingSends, { id, snapshot, submissionId: null, timer }],
+    }));
+    return id;
+  },
+
+  undoSend: async (client, pendingId) => {
+    const pending = get().pendingSends.find((p) => p.id === pendingId);
+    if (!pending) return null;
+
+    clearTimeout(pending.timer);
+    set((state) => ({
+      pendingSends: state.pendingSends.filter((p) => p.id !== pendingId),
+    }));
+
+    if (pending.submissionId) {
+      // Puts the message back in Drafts, where the reopened composer picks it up
+      await client.cancelEmailSubmission(pending.submissionId);
+      await useEmailStore.getState().fetchEmails(client);
+    }
+
+    return pending.snapshot;
+  },
+}));
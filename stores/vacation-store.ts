@@ -1,6 +1,8 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { VacationResponder, VacationResponderSettings, generateVacationId } from "@/lib/vacation-types";
+import type { JMAPClient } from "@/lib/jmap/client";
+import type { VacationResponse } from "@/lib/jmap/types";
 
 interface VacationStore {
   responders: VacationResponder[];
@@ -9,6 +11,10 @@ interface VacationStore {
   isLoading: boolean;
   error: string | null;
 
+  // The server's VacationResponse; local responders are a history of past messages
+  serverResponse: VacationResponse | null;
+  isSaving: boolean;
+
   // CRUD operations
   createResponder: (responder: Omit<VacationResponder, 'id' | 'createdAt' | 'updatedAt'>) => void;
   updateResponder: (id: string, updates: Partial<VacationResponder>) => void;
@@ -20,6 +26,11 @@ interface VacationStore {
   // Selection
   selectResponder: (id: string | null) => void;
 
+  // Server sync
+  fetchServerResponse: (client: JMAPClient) => Promise<void>;
+  saveServerResponse: (client: JMAPClient, response: Omit<VacationResponse, 'id'>) => Promise<boolean>;
+  disableServerResponse: (client: JMAPClient) => Promise<void>;
+
   // Settings
   updateSettings: (settings: Partial<VacationResponderSettings>) => void;
 
@@ -41,6 +52,8 @@ export const useVacationStore = create<VacationStore>()(
       selectedResponderId: null,
       isLoading: false,
       error: null,
+      serverResponse: null,
+      isSaving: false,
 
       createResponder: (responder) => {
         const newResponder: VacationResponder = {
@@ -84,10 +97,92 @@ export const useVacationStore = create<VacationStore>()(
       getActiveResponder: (identityId) => {
         const now = Date.now();
         return get().responders.find(
-          (r) => r.identityId === identityId && r.isEnabled && r.startDate <= now && r.endDate >= now
+          (r) =>
+            r.identityId === identityId &&
+            r.isEnabled &&
+            (r.startDate === null || r.startDate <= now) &&
+            (r.endDate === null || r.endDate >= now)
         );
       },
 
+      fetchServerResponse: async (client) => {
+        if (!client.supportsVacationResponse()) return;
+
+        set({ isLoading: true, error: null });
+        const response = await client.getVacationResponse();
+        set({ serverResponse: response, isLoading: false });
+
+        // Turn the responder off once its end date has passed
+        if (
+          response?.isEnabled &&
+          response.toDate &&
+          new Date(response.toDate).getTime() < Date.now() &&
+          get().settings.autoDisableOnReturn
+        ) {
+          await get().disableServerResponse(client);
+        }
+      },
+
+      saveServerResponse: async (client, response) => {
+        set({ isSaving: true, error: null });
+        try {
+          await client.setVacationResponse(response);
+          set({ serverResponse: { id: "singleton", ...response }, isSaving: false });
+
+          // Remember the message so it can be reused for the next absence
+          const startDate = response.fromDate ? new Date(response.fromDate).getTime() : null;
+          const endDate = response.toDate ? new Date(response.toDate).getTime() : null;
+          const subject = response.subject || "";
+          const message = response.textBody || "";
+          const existing = get().responders.find((r) => r.subject === subject && r.message === message);
+
+          set((state) => ({
+            responders: state.responders.map((r) => ({ ...r, isEnabled: false })),
+          }));
+          if (existing) {
+            get().updateResponder(existing.id, { isEnabled: response.isEnabled, startDate, endDate });
+          } else if (subject || message) {
+            get().createResponder({
+              identityId: "",
+              isEnabled: response.isEnabled,
+              subject,
+              message,
+              startDate,
+              endDate,
+              respondToAll: true,
+              respondOncePerSender: true,
+            });
+          }
+
+          return true;
+        } catch (error) {
+          console.error("Failed to save vacation response:", error);
+          set({
+            isSaving: false,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return false;
+        }
+      },
+
+      disableServerResponse: async (client) => {
+        set({ isSaving: true, error: null });
+        try {
+          await client.setVacationResponse({ isEnabled: false });
+          set((state) => ({
+            serverResponse: state.serverResponse ? { ...state.serverResponse, isEnabled: false } : null,
+            responders: state.responders.map((r) => ({ ...r, isEnabled: false })),
+            isSaving: false,
+          }));
+        } catch (error) {
+          console.error("Failed to disable vacation response:", error);
+          set({
+            isSaving: false,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      },
+
       selectResponder: (id) => {
         set({ selectedResponderId: id });
       },
@@ -109,6 +204,12 @@ export const useVacationStore = create<VacationStore>()(
     {
       name: "vacation-store",
       version: 1,
+      partialize: (state) => ({
+        responders: state.responders,
+        settings: state.settings,
+        selectedResponderId: state.selectedResponderId,
+        serverResponse: state.serverResponse,
+      }),
     }
   )
 );
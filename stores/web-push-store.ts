@@ -0,0 +1,221 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { JMAPClient } from '@/lib/jmap/client';
+import type { PushAccountConfig, PushWorkerMessage } from '@/lib/web-push-types';
+
+interface AccountPushSubscription {
+  id: string; // PushSubscription id on the server
+  jmapAccountId: string; // How the service worker knows the account
+}
+
+interface EnablePushOptions {
+  label: string;
+  strings: PushAccountConfig['strings'];
+}
+
+interface WebPushState {
+  // Identifies this browser to the servers, so a new subscription can replace the old one
+  deviceClientId: string;
+  // By app account id
+  subscriptions: Record<string, AccountPushSubscription>;
+  isUpdating: boolean;
+
+  isSupported: () => boolean;
+  enable: (accountId: string, client: JMAPClient, options: EnablePushOptions) => Promise<void>;
+  // Works without a client too, the server side then expires on its own
+  disable: (accountId: string, client: JMAPClient | null) => Promise<void>;
+}
+
+// How long the server gets to push the verification code
+const VERIFICATION_TIMEOUT = 30000; // 30 seconds
+
+const base64UrlToBytes = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const sameKey = (current: ArrayBuffer | null, key: string): boolean => {
+  if (!current) return false;
+  const a = new Uint8Array(current);
+  const b = base64UrlToBytes(key);
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+};
+
+const postToWorker = async (message: PushWorkerMessage): Promise<void> => {
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+};
+
+// Listens before the subscription is created, the code can arrive before its id is known
+const listenForVerifications = () => {
+  const codes = new Map<string, string>();
+  const waiting = new Map<string, (code: string) => void>();
+
+  const handleMessage = (event: MessageEvent) => {
+    const message = event.data as PushWorkerMessage | undefined;
+    if (message?.type !== 'PUSH_VERIFICATION') return;
+    const { pushSubscriptionId, verificationCode } = message.verification;
+    codes.set(pushSubscriptionId, verificationCode);
+    waiting.get(pushSubscriptionId)?.(verificationCode);
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+
+  return {
+    wait: (pushSubscriptionId: string) =>
+      new Promise<string>((resolve, reject) => {
+        const code = codes.get(pushSubscriptionId);
+        if (code) {
+          resolve(code);
+          return;
+        }
+        const timeout = setTimeout(() => {
+          waiting.delete(pushSubscriptionId);
+          reject(new Error('The server did not confirm the push subscription'));
+        }, VERIFICATION_TIMEOUT);
+        waiting.set(pushSubscriptionId, (received) => {
+          clearTimeout(timeout);
+          resolve(received);
+        });
+      }),
+    stop: () => navigator.serviceWorker.removeEventListener('message', handleMessage),
+  };
+};
+
+export const useWebPushStore = create<WebPushState>()(
+  persist(
+    (set, get) => ({
+      deviceClientId: '',
+      subscriptions: {},
+      isUpdating: false,
+
+      isSupported: () =>
+        typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window,
+
+      enable: async (accountId, client, { label, strings }) => {
+        if (!get().isSupported()) {
+          throw new Error('Push notifications are not supported in this browser');
+        }
+        // Without the proxy the service worker has no credentials to fetch the new mail with
+        if (!client.getProxySessionId()) {
+          throw new Error('Push notifications need the server-side proxy');
+        }
+        // Browsers only subscribe with the key the server signs its pushes with
+        const vapidKey = client.getVapidKey();
+        if (!vapidKey) {
+          throw new Error('The server does not support Web Push');
+        }
+        if ((await Notification.requestPermission()) !== 'granted') {
+          throw new Error('Notifications are blocked for this site');
+        }
+
+        set({ isUpdating: true });
+        const verifications = listenForVerifications();
+        try {
+          let { deviceClientId } = get();
+          if (!deviceClientId) {
+            deviceClientId = crypto.randomUUID();
+            set({ deviceClientId });
+          }
+
+          // One browser subscription serves every account; a server signing with another key needs a new one
+          const registration = await navigator.serviceWorker.ready;
+          let browserSubscription = await registration.pushManager.getSubscription();
+          if (browserSubscription && !sameKey(browserSubscription.options.applicationServerKey, vapidKey)) {
+            if (Object.keys(get().subscriptions).some((id) => id !== accountId)) {
+              throw new Error('Another account already receives notifications with a different server key');
+            }
+            await browserSubscription.unsubscribe();
+            browserSubscription = null;
+          }
+          browserSubscription ||= await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: base64UrlToBytes(vapidKey),
+          });
+
+          const { endpoint, keys } = browserSubscription.toJSON();
+          if (!endpoint || !keys?.p256dh || !keys.auth) {
+            throw new Error('The browser returned an incomplete push subscription');
+          }
+
+          // Replace whatever this browser registered before
+          const existing = await client.getPushSubscriptions();
+          for (const subscription of existing.filter((s) => s.deviceClientId === deviceClientId)) {
+            await client.destroyPushSubscription(subscription.id);
+          }
+
+          const created = await client.createPushSubscription({
+            deviceClientId,
+            url: endpoint,
+            keys: { p256dh: keys.p256dh, auth: keys.auth },
+            // Only new deliveries, not every flag change
+            types: ['EmailDelivery'],
+          });
+          await client.verifyPushSubscription(created.id, await verifications.wait(created.id));
+
+          const mailboxes = (await client.getMailboxes()).filter((mb) => !mb.isShared);
+          const inbox = mailboxes.find((mb) => mb.role === 'inbox');
+          const archive = mailboxes.find((mb) => mb.role === 'archive') || mailboxes.find((mb) => mb.name.toLowerCase() === 'archive');
+          const config: PushAccountConfig = {
+            accountId: client.getAccountId(),
+            label,
+            apiUrl: client.getApiUrl(),
+            inboxId: inbox ? inbox.originalId || inbox.id : null,
+            archiveId: archive ? archive.originalId || archive.id : null,
+            strings,
+          };
+          await postToWorker({ type: 'PUSH_ACCOUNT', config });
+
+          set((state) => ({
+            subscriptions: { ...state.subscriptions, [accountId]: { id: created.id, jmapAccountId: config.accountId } },
+          }));
+        } finally {
+          verifications.stop();
+          set({ isUpdating: false });
+        }
+      },
+
+      disable: async (accountId, client) => {
+        const subscription = get().subscriptions[accountId];
+        if (!subscription) return;
+
+        set({ isUpdating: true });
+        try {
+          if (client) {
+            await client.destroyPushSubscription(subscription.id).catch((error) => {
+              console.error('Failed to remove push subscription:', error);
+            });
+          }
+
+          const subscriptions = { ...get().subscriptions };
+          delete subscriptions[accountId];
+          set({ subscriptions });
+
+          if (get().isSupported()) {
+            await postToWorker({ type: 'PUSH_ACCOUNT_REMOVED', accountId: subscription.jmapAccountId });
+            // Nobody left to notify, the browser can drop its subscription too
+            if (Object.keys(subscriptions).length === 0) {
+              const registration = await navigator.serviceWorker.ready;
+              await (await registration.pushManager.getSubscription())?.unsubscribe();
+            }
+          }
+        } finally {
+          set({ isUpdating: false });
+        }
+      },
+    }),
+    {
+      name: 'web-push-store',
+      version: 1,
+      partialize: (state) => ({
+        deviceClientId: state.deviceClientId,
+        subscriptions: state.subscriptions,
+      }),
+      migrate: () => ({ deviceClientId: '', subscriptions: {} }),
+    }
+  )
+);